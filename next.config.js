@@ -22,6 +22,8 @@ const nextConfig = {
   experimental: {
     webpackBuildWorker: false, // Disable webpack build workers
     workerThreads: false, // Disable worker threads
+    // Document text extraction (PDF/DOCX) runs in Node; keep the parsers out of the server bundle
+    serverComponentsExternalPackages: ['unpdf', 'mammoth'],
   },
 
   // Limit cache size to prevent excessive memory/disk usage on shared hosting
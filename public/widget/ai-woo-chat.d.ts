@@ -0,0 +1,68 @@
+/**
+ * AI Woo Chat - JavaScript API for the host page
+ *
+ * TypeScript declarations for window.AIWooChat, exposed by the widget loader.
+ * Calls made before the widget has loaded are queued and run once it is ready.
+ * Every event is also dispatched on window as a DOM CustomEvent named
+ * "aiwoochat:<event>" (e.g. "aiwoochat:product_click") with the payload in `detail`.
+ *
+ * Copy this file into a theme project, or reference it:
+ *   /// <reference path="./ai-woo-chat.d.ts" />
+ */
+
+declare global {
+  /**
+   * Page context sent with every message (unverified; informs the assistant)
+   * setContext merges into the current context; pass null to clear a field
+   */
+  interface AIWooChatContext {
+    productId?: number | null; // WooCommerce product ID of the product page
+    cartTotal?: number | null;
+    customerTier?: string | null; // e.g. "gold", "wholesale"
+  }
+
+  interface AIWooChatCustomer {
+    name?: string;
+    email?: string;
+    customerToken?: string; // Signed customer token from the WordPress plugin (enables order lookup)
+  }
+
+  interface AIWooChatEvents {
+    // A message was sent by the shopper or received (assistant messages once complete)
+    message: {
+      role: 'user' | 'assistant' | 'agent';
+      content: string;
+      products: Array<{ id: number; title: string; url: string; price: number }>;
+    };
+    product_click: { productId: number; url: string };
+    open: Record<string, never>;
+    handoff: { status: 'none' | 'requested' | 'active' | 'resolved' };
+  }
+
+  type AIWooChatEventName = keyof AIWooChatEvents;
+
+  interface AIWooChatAPI {
+    open(): void;
+    close(): void;
+    // Opens the chat and sends the text as the shopper
+    sendMessage(text: string): void;
+    setContext(context: AIWooChatContext): void;
+    identify(customer: AIWooChatCustomer): void;
+    // Returns a function that removes the listener
+    on<E extends AIWooChatEventName>(event: E, callback: (payload: AIWooChatEvents[E]) => void): () => void;
+    off<E extends AIWooChatEventName>(event: E, callback: (payload: AIWooChatEvents[E]) => void): void;
+  }
+
+  interface Window {
+    AIWooChat: AIWooChatAPI;
+  }
+
+  interface WindowEventMap {
+    'aiwoochat:message': CustomEvent<AIWooChatEvents['message']>;
+    'aiwoochat:product_click': CustomEvent<AIWooChatEvents['product_click']>;
+    'aiwoochat:open': CustomEvent<AIWooChatEvents['open']>;
+    'aiwoochat:handoff': CustomEvent<AIWooChatEvents['handoff']>;
+  }
+}
+
+export {};
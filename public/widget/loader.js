@@ -2,7 +2,8 @@
  * AI Woo Chat Widget Loader
  * 
  * Vanilla JS loader script that injects the React widget into WordPress sites
- * This script is loaded by WordPress plugin and initializes the widget
+ * This script is loaded by WordPress plugin; the widget bundle renders itself
+ * into #ai-woo-chat-widget (inside a shadow root)
  */
 
 (function() {
@@ -23,14 +24,32 @@
     return;
   }
 
+  // Public API (window.AIWooChat): calls are queued until the widget bundle has loaded
+  if (!window.AIWooChat) {
+    const queue = [];
+    const api = { _queue: queue };
+    ['open', 'close', 'sendMessage', 'setContext', 'identify', 'off'].forEach(function(method) {
+      api[method] = function() {
+        queue.push([method, Array.prototype.slice.call(arguments)]);
+      };
+    });
+    api.on = function(event, callback) {
+      queue.push(['on', [event, callback]]);
+      return function() {
+        window.AIWooChat.off(event, callback);
+      };
+    };
+    window.AIWooChat = api;
+  }
+
   // Create widget container
   const widgetContainer = document.createElement('div');
   widgetContainer.id = 'ai-woo-chat-widget';
   document.body.appendChild(widgetContainer);
 
-  // Load widget bundle from API endpoint
+  // Load the widget release for this site (redirects to an immutable, long-cached bundle)
   const script = document.createElement('script');
-  script.src = `${SAAS_URL}/api/widget`;
+  script.src = `${SAAS_URL}/api/widget?site_id=${encodeURIComponent(SITE_ID)}`;
   script.async = true;
   script.onerror = function() {
     console.error('AI Woo Chat: Failed to load widget script');
@@ -0,0 +1,76 @@
+/**
+ * Widget build
+ *
+ * Bundles the React widget (src/widget) into a single self-contained script:
+ * React, the widget code and its CSS modules (injected into the widget's shadow
+ * root at runtime). The bundle is named after its content hash and written to
+ * build/widget/widget.<version>.js; nothing is published.
+ *
+ * Usage:
+ *   node scripts/build-widget.js   (npm run build:widget, also run by dev and build)
+ *
+ * Publishing a release to shops is a separate step: scripts/release-widget.js.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const ROOT = path.join(__dirname, '..');
+const ENTRY = path.join(ROOT, 'src', 'widget', 'index.tsx');
+const OUTPUT_DIR = path.join(ROOT, 'build', 'widget');
+
+async function buildWidget() {
+  const esbuild = require('esbuild');
+
+  const result = await esbuild.build({
+    entryPoints: [ENTRY],
+    bundle: true,
+    write: false,
+    outdir: 'out',
+    format: 'iife',
+    platform: 'browser',
+    target: ['es2018'],
+    minify: true,
+    legalComments: 'none',
+    jsx: 'automatic',
+    loader: { '.module.css': 'local-css' },
+    define: { 'process.env.NODE_ENV': '"production"' },
+    logLevel: 'warning',
+  });
+
+  const js = result.outputFiles.find((file) => file.path.endsWith('.js'));
+  const css = result.outputFiles.find((file) => file.path.endsWith('.css'));
+  if (!js) {
+    throw new Error('esbuild produced no JavaScript output');
+  }
+
+  // The CSS is handed to the widget as a constant and mounted inside its shadow root
+  const bundle =
+    `(function(){var __WIDGET_CSS__=${JSON.stringify(css ? css.text : '')};\n` + js.text + '})();\n';
+
+  const version = crypto.createHash('sha256').update(bundle).digest('hex').slice(0, 12);
+
+  return {
+    version,
+    file: `widget.${version}.js`,
+    bundle,
+    size: Buffer.byteLength(bundle),
+    integrity: `sha384-${crypto.createHash('sha384').update(bundle).digest('base64')}`,
+  };
+}
+
+module.exports = { buildWidget };
+
+if (require.main === module) {
+  buildWidget()
+    .then((widget) => {
+      fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+      fs.writeFileSync(path.join(OUTPUT_DIR, widget.file), widget.bundle);
+      console.log(`Widget ${widget.version} (${Math.round(widget.size / 1024)} KB) written to build/widget/${widget.file}`);
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
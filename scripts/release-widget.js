@@ -0,0 +1,142 @@
+/**
+ * Widget release
+ *
+ * Builds the widget (scripts/build-widget.js), uploads the bundle to the
+ * widget-releases storage bucket (widget.<version>.js) and records it in the
+ * widget_releases table, so releases survive deploys. /api/widget serves the
+ * release a site is pinned to, or the current one. A new release only becomes
+ * current (served to every unpinned shop) when asked to.
+ *
+ * Usage:
+ *   node scripts/release-widget.js                 Publish a release (current unchanged)
+ *   node scripts/release-widget.js --promote       Publish a release and make it current
+ *   node scripts/release-widget.js --set-current <version>
+ *                                                  Make an existing release current (rollback)
+ *
+ * Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (read from the
+ * environment or the .env files, like Next.js does).
+ *
+ * Older releases are kept (up to MAX_RELEASES, never the current one or one a
+ * site is pinned to) so pinned sites keep working and a rollback needs no rebuild.
+ */
+
+const path = require('path');
+const { loadEnvConfig } = require('@next/env');
+const { createClient } = require('@supabase/supabase-js');
+const { buildWidget } = require('./build-widget');
+
+const ROOT = path.join(__dirname, '..');
+const STORAGE_BUCKET = 'widget-releases';
+const MAX_RELEASES = 20;
+
+function createAdminClient() {
+  loadEnvConfig(ROOT);
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceRoleKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required to publish widget releases');
+  }
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+}
+
+async function promote(supabase, version) {
+  const { data: promoted, error } = await supabase.rpc('promote_widget_release', { p_version: version });
+  if (error) {
+    throw new Error(`Failed to promote widget release: ${error.message}`);
+  }
+  if (!promoted) {
+    throw new Error(`Unknown widget release: ${version}`);
+  }
+}
+
+/**
+ * Drop the oldest releases (never the current one or one a site is pinned to)
+ */
+async function pruneReleases(supabase) {
+  const [{ data: releases, error }, { data: pins }] = await Promise.all([
+    supabase.from('widget_releases').select('version, file, is_current').order('built_at', { ascending: false }),
+    supabase.from('settings').select('value').eq('key', 'widget').eq('is_active', true),
+  ]);
+  if (error) {
+    throw new Error(`Failed to list widget releases: ${error.message}`);
+  }
+
+  const pinned = new Set((pins || []).map((row) => row.value && row.value.version).filter(Boolean));
+  const removed = (releases || []).filter(
+    (release, index) => index >= MAX_RELEASES && !release.is_current && !pinned.has(release.version)
+  );
+  if (removed.length === 0) {
+    return;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('widget_releases')
+    .delete()
+    .in('version', removed.map((release) => release.version));
+  if (deleteError) {
+    throw new Error(`Failed to remove old widget releases: ${deleteError.message}`);
+  }
+  await supabase.storage.from(STORAGE_BUCKET).remove(removed.map((release) => release.file));
+}
+
+async function release({ promoteRelease }) {
+  const supabase = createAdminClient();
+  const { version, file, bundle, size, integrity } = await buildWidget();
+
+  const { error: uploadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(file, bundle, { contentType: 'application/javascript; charset=utf-8', upsert: true });
+  if (uploadError) {
+    throw new Error(`Failed to upload widget release: ${uploadError.message}`);
+  }
+
+  // Same content rebuilds to the same version - keep the original row
+  const { error: insertError } = await supabase
+    .from('widget_releases')
+    .upsert(
+      { version, file, size, integrity, built_at: new Date().toISOString() },
+      { onConflict: 'version', ignoreDuplicates: true }
+    );
+  if (insertError) {
+    throw new Error(`Failed to record widget release: ${insertError.message}`);
+  }
+
+  if (promoteRelease) {
+    await promote(supabase, version);
+  }
+
+  await pruneReleases(supabase);
+
+  const { data: current } = await supabase
+    .from('widget_releases')
+    .select('version')
+    .eq('is_current', true)
+    .maybeSingle();
+
+  console.log(
+    `Widget release ${version} (${Math.round(size / 1024)} KB) published` +
+      (current?.version === version
+        ? '; it is current'
+        : `; current is ${current?.version || 'not set'} (make it current with --set-current ${version})`)
+  );
+}
+
+const args = process.argv.slice(2);
+
+let task;
+if (args[0] === '--set-current') {
+  if (!args[1]) {
+    console.error('Usage: node scripts/release-widget.js --set-current <version>');
+    process.exit(1);
+  }
+  task = Promise.resolve()
+    .then(() => promote(createAdminClient(), args[1]))
+    .then(() => console.log(`Widget release ${args[1]} is now current`));
+} else {
+  task = release({ promoteRelease: args.includes('--promote') });
+}
+
+task.catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
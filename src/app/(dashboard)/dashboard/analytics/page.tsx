@@ -27,7 +27,16 @@ interface AnalyticsData {
     product_views: number;
     product_clicks: number;
     add_to_cart: number;
+    purchases: number;
+    purchase_revenue: number;
+    suggestion_clicks?: number;
   };
+  proactive?: Array<{
+    trigger_id: string;
+    trigger_type: string | null;
+    impressions: number;
+    conversions: number;
+  }>;
   daily: {
     conversations: Record<string, number>;
     messages: Record<string, number>;
@@ -274,6 +283,22 @@ export default function AnalyticsPage() {
                 />
               </div>
             </div>
+            <div>
+              <div className="flex justify-between mb-1">
+                <span className="text-sm text-gray-600">Sent by Tapping a Suggestion</span>
+                <span className="text-sm font-medium text-gray-900">
+                  {(analytics.overview.suggestion_clicks ?? 0).toLocaleString()}
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-indigo-400 h-2 rounded-full"
+                  style={{
+                    width: `${analytics.overview.user_messages > 0 ? Math.min(((analytics.overview.suggestion_clicks ?? 0) / analytics.overview.user_messages) * 100, 100) : 0}%`,
+                  }}
+                />
+              </div>
+            </div>
           </div>
         </div>
       </div>
@@ -281,7 +306,7 @@ export default function AnalyticsPage() {
       {/* Product Engagement */}
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Product Engagement</h2>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           <div className="text-center p-4 bg-blue-50 rounded-lg">
             <p className="text-2xl font-bold text-blue-900">{analytics.overview.product_views.toLocaleString()}</p>
             <p className="text-sm text-gray-600 mt-1">Product Views</p>
@@ -294,9 +319,69 @@ export default function AnalyticsPage() {
             <p className="text-2xl font-bold text-green-900">{analytics.overview.add_to_cart.toLocaleString()}</p>
             <p className="text-sm text-gray-600 mt-1">Add to Cart</p>
           </div>
+          <div className="text-center p-4 bg-yellow-50 rounded-lg">
+            <p className="text-2xl font-bold text-yellow-900">{(analytics.overview.purchases ?? 0).toLocaleString()}</p>
+            <p className="text-sm text-gray-600 mt-1">Purchases</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {(analytics.overview.purchase_revenue ?? 0).toLocaleString()} revenue
+            </p>
+          </div>
         </div>
       </div>
 
+      {/* Proactive Triggers */}
+      {analytics.proactive && analytics.proactive.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Proactive Triggers</h2>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Trigger
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Impressions
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Conversions
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Conversion Rate
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {analytics.proactive.map((trigger) => (
+                  <tr key={trigger.trigger_id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-mono">
+                      {trigger.trigger_id}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {trigger.trigger_type?.replace(/_/g, ' ') || '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {trigger.impressions.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {trigger.conversions.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {trigger.impressions > 0
+                        ? `${((trigger.conversions / trigger.impressions) * 100).toFixed(1)}%`
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Daily Trends */}
       {Object.keys(analytics.daily.conversations).length > 0 && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -2,18 +2,20 @@
  * Conversation Detail Page
  * 
  * Shows conversation messages and details
+ * Staff with a handoff role can take the conversation over and reply as an agent
+ * Shows what the assistant remembers about the visitor from earlier conversations
  */
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { formatDateTime } from '@/lib/utils/date-format';
 
 interface Message {
   id: string;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'agent' | 'system';
   content_text: string;
   content_json?: any;
   token_usage?: {
@@ -33,6 +35,15 @@ interface Conversation {
   last_message_at: string;
   message_count: number;
   created_at: string;
+  handoff: {
+    status: 'none' | 'requested' | 'active' | 'resolved';
+    requested_by: 'visitor' | 'assistant' | null;
+    reason: string | null;
+    requested_at: string | null;
+    agent_id: string | null;
+    is_current_agent: boolean;
+    can_take_over: boolean;
+  };
   visitor: {
     visitor_id: string;
     first_seen_at: string;
@@ -41,6 +52,20 @@ interface Conversation {
   messages: Message[];
 }
 
+interface VisitorMemory {
+  enabled: boolean;
+  profile: {
+    preferences: string[];
+    sizes: Record<string, string>;
+    budget: { min?: number; max?: number; currency?: string } | null;
+    products: Array<{ product_id: number; title?: string; interactions: string[]; last_at: string }>;
+  } | null;
+  summary: string | null;
+  conversations_processed: number;
+  last_extracted_at: string | null;
+  forgotten_at: string | null;
+}
+
 export default function ConversationDetailPage() {
   const params = useParams();
   const searchParams = useSearchParams();
@@ -52,17 +77,18 @@ export default function ConversationDetailPage() {
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reply, setReply] = useState('');
+  const [handoffBusy, setHandoffBusy] = useState(false);
+  const [handoffError, setHandoffError] = useState<string | null>(null);
+  const [memory, setMemory] = useState<VisitorMemory | null>(null);
+  const [memoryBusy, setMemoryBusy] = useState(false);
 
-  useEffect(() => {
-    if (conversationId && siteId) {
-      loadConversation(conversationId, siteId);
-    }
-  }, [conversationId, siteId]);
-
-  const loadConversation = async (convId: string, siteId: string) => {
+  const loadConversation = useCallback(async (convId: string, siteId: string, silent = false) => {
     try {
-      setLoading(true);
-      setError(null);
+      if (!silent) {
+        setLoading(true);
+        setError(null);
+      }
       const response = await fetch(`/api/conversations/${convId}?site_id=${siteId}`);
       
       if (!response.ok) {
@@ -73,9 +99,105 @@ export default function ConversationDetailPage() {
       const data = await response.json();
       setConversation(data);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load conversation');
+      if (!silent) {
+        setError(err instanceof Error ? err.message : 'Failed to load conversation');
+      }
     } finally {
-      setLoading(false);
+      if (!silent) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (conversationId && siteId) {
+      loadConversation(conversationId, siteId);
+    }
+  }, [conversationId, siteId, loadConversation]);
+
+  // Visitor memory (preferences, sizes, budget, products from earlier conversations)
+  const visitorDbId = conversation?.visitor_id;
+  useEffect(() => {
+    if (!visitorDbId || !siteId) return;
+
+    fetch(`/api/visitors/${visitorDbId}/memory?site_id=${siteId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setMemory(data))
+      .catch(() => setMemory(null));
+  }, [visitorDbId, siteId]);
+
+  const forgetVisitor = async () => {
+    if (!visitorDbId || !siteId) return;
+    if (!confirm('Delete everything the assistant remembers about this visitor? It will not build a new memory.')) return;
+
+    try {
+      setMemoryBusy(true);
+      const response = await fetch(`/api/visitors/${visitorDbId}/memory?site_id=${siteId}`, { method: 'DELETE' });
+      if (response.ok) {
+        setMemory({
+          enabled: false,
+          profile: null,
+          summary: null,
+          conversations_processed: 0,
+          last_extracted_at: null,
+          forgotten_at: new Date().toISOString(),
+        });
+      }
+    } finally {
+      setMemoryBusy(false);
+    }
+  };
+
+  // Refresh while a handoff is open so visitor messages show up
+  const handoffOpen = conversation?.handoff.status === 'requested' || conversation?.handoff.status === 'active';
+  useEffect(() => {
+    if (!handoffOpen || !conversationId || !siteId) return;
+    const interval = setInterval(() => loadConversation(conversationId, siteId, true), 5000);
+    return () => clearInterval(interval);
+  }, [handoffOpen, conversationId, siteId, loadConversation]);
+
+  const updateHandoff = async (action: 'take_over' | 'resolve') => {
+    if (!siteId) return;
+    try {
+      setHandoffBusy(true);
+      setHandoffError(null);
+      const response = await fetch(`/api/conversations/${conversationId}/handoff`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ site_id: siteId, action }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to update handoff');
+      }
+      await loadConversation(conversationId, siteId, true);
+    } catch (err) {
+      setHandoffError(err instanceof Error ? err.message : 'Failed to update handoff');
+    } finally {
+      setHandoffBusy(false);
+    }
+  };
+
+  const sendReply = async () => {
+    if (!siteId || !reply.trim()) return;
+    try {
+      setHandoffBusy(true);
+      setHandoffError(null);
+      const response = await fetch(`/api/conversations/${conversationId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ site_id: siteId, content: reply.trim() }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to send reply');
+      }
+      setReply('');
+      await loadConversation(conversationId, siteId, true);
+    } catch (err) {
+      setHandoffError(err instanceof Error ? err.message : 'Failed to send reply');
+    } finally {
+      setHandoffBusy(false);
     }
   };
 
@@ -149,6 +271,135 @@ export default function ConversationDetailPage() {
         </div>
       </div>
 
+      {conversation.handoff.status !== 'none' && (
+        <div
+          className={`mb-6 p-4 rounded-lg border ${
+            conversation.handoff.status === 'requested'
+              ? 'bg-yellow-50 border-yellow-200'
+              : conversation.handoff.status === 'active'
+              ? 'bg-green-50 border-green-200'
+              : 'bg-gray-50 border-gray-200'
+          }`}
+        >
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-sm">
+              <p className="font-semibold text-gray-900">
+                {conversation.handoff.status === 'requested' && 'Human agent requested'}
+                {conversation.handoff.status === 'active' &&
+                  (conversation.handoff.is_current_agent ? 'You are handling this conversation' : 'An agent is handling this conversation')}
+                {conversation.handoff.status === 'resolved' && 'Handed back to the AI assistant'}
+              </p>
+              {conversation.handoff.status === 'requested' && (
+                <p className="text-gray-600 mt-1">
+                  Requested by the {conversation.handoff.requested_by === 'assistant' ? 'assistant' : 'visitor'}
+                  {conversation.handoff.requested_at && ` · ${formatDateTime(conversation.handoff.requested_at)}`}
+                  {conversation.handoff.reason && ` · ${conversation.handoff.reason}`}
+                </p>
+              )}
+              {conversation.handoff.status === 'active' && (
+                <p className="text-gray-600 mt-1">The AI assistant is paused for this conversation.</p>
+              )}
+            </div>
+            {conversation.handoff.can_take_over && (
+              <div className="flex gap-2 flex-shrink-0">
+                {conversation.handoff.status !== 'active' || !conversation.handoff.is_current_agent ? (
+                  <button
+                    onClick={() => updateHandoff('take_over')}
+                    disabled={handoffBusy}
+                    className="px-3 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Take Over
+                  </button>
+                ) : null}
+                {conversation.handoff.status !== 'resolved' && (
+                  <button
+                    onClick={() => updateHandoff('resolve')}
+                    disabled={handoffBusy}
+                    className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Hand Back to AI
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          {handoffError && <p className="text-sm text-red-600 mt-2">{handoffError}</p>}
+        </div>
+      )}
+
+      {memory && (
+        <div className="mb-6 bg-white rounded-lg shadow p-6">
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Visitor Memory</h2>
+              <p className="text-xs text-gray-500 mt-1">
+                {memory.enabled
+                  ? `From ${memory.conversations_processed} earlier conversation${memory.conversations_processed === 1 ? '' : 's'}${
+                      memory.last_extracted_at ? ` · updated ${formatDateTime(memory.last_extracted_at)}` : ''
+                    }`
+                  : `Forgotten${memory.forgotten_at ? ` ${formatDateTime(memory.forgotten_at)}` : ''} - memory is disabled for this visitor`}
+              </p>
+            </div>
+            {memory.enabled && memory.profile && (
+              <button
+                onClick={forgetVisitor}
+                disabled={memoryBusy}
+                className="px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                Forget Visitor
+              </button>
+            )}
+          </div>
+          {memory.enabled && memory.profile ? (
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="font-medium text-gray-900">Preferences</dt>
+                <dd className="text-gray-600 mt-1">
+                  {memory.profile.preferences.length > 0 ? memory.profile.preferences.join('; ') : '—'}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-900">Sizes</dt>
+                <dd className="text-gray-600 mt-1">
+                  {Object.keys(memory.profile.sizes).length > 0
+                    ? Object.entries(memory.profile.sizes).map(([kind, size]) => `${kind}: ${size}`).join(', ')
+                    : '—'}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-900">Budget</dt>
+                <dd className="text-gray-600 mt-1">
+                  {memory.profile.budget && (memory.profile.budget.min || memory.profile.budget.max)
+                    ? `${memory.profile.budget.min ?? '…'} – ${memory.profile.budget.max ?? '…'} ${memory.profile.budget.currency || ''}`
+                    : '—'}
+                </dd>
+              </div>
+              <div>
+                <dt className="font-medium text-gray-900">Products</dt>
+                <dd className="text-gray-600 mt-1">
+                  {memory.profile.products.length > 0 ? (
+                    <ul className="space-y-1">
+                      {memory.profile.products.map((product) => (
+                        <li key={product.product_id}>
+                          {product.title || `#${product.product_id}`}{' '}
+                          <span className="text-xs text-gray-400">({product.interactions.join(', ')})</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    '—'
+                  )}
+                </dd>
+              </div>
+            </dl>
+          ) : (
+            memory.enabled && (
+              <p className="text-sm text-gray-500">Nothing remembered yet. Memory is built when the visitor returns for a new conversation.</p>
+            )
+          )}
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Messages</h2>
         <div className="space-y-4">
@@ -161,6 +412,8 @@ export default function ConversationDetailPage() {
                 className={`p-4 rounded-lg border ${
                   message.role === 'user'
                     ? 'bg-blue-50 border-blue-200 ml-8'
+                    : message.role === 'agent'
+                    ? 'bg-green-50 border-green-200 mr-8'
                     : 'bg-gray-50 border-gray-200 mr-8'
                 }`}
               >
@@ -168,9 +421,15 @@ export default function ConversationDetailPage() {
                   <span className={`font-medium text-sm px-2 py-1 rounded ${
                     message.role === 'user'
                       ? 'bg-blue-200 text-blue-800'
+                      : message.role === 'agent'
+                      ? 'bg-green-200 text-green-800'
                       : 'bg-gray-200 text-gray-800'
                   }`}>
-                    {message.role === 'user' ? 'User' : 'Assistant'}
+                    {message.role === 'user'
+                      ? 'User'
+                      : message.role === 'agent'
+                      ? `Agent${message.content_json?.agent?.name ? ` · ${message.content_json.agent.name}` : ''}`
+                      : 'Assistant'}
                   </span>
                   <span className="text-xs text-gray-500">
                     {formatDateTime(message.created_at)}
@@ -221,6 +480,29 @@ export default function ConversationDetailPage() {
             ))
           )}
         </div>
+
+        {conversation.handoff.status === 'active' && conversation.handoff.is_current_agent && (
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Reply as agent</label>
+            <textarea
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              rows={3}
+              maxLength={4000}
+              placeholder="Type your reply to the visitor..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={sendReply}
+                disabled={handoffBusy || !reply.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {handoffBusy ? 'Sending...' : 'Send Reply'}
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -7,6 +7,17 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
+import type { ProactiveTrigger, ProactiveTriggerType } from '@/lib/chat/proactive';
+
+// Trigger types, with the meaning of the value field for each
+const TRIGGER_TYPES: Array<{ type: ProactiveTriggerType; label: string; valueLabel: string | null }> = [
+  { type: 'time_on_page', label: 'Time on page', valueLabel: 'Seconds on page' },
+  { type: 'scroll_depth', label: 'Scroll depth', valueLabel: 'Scrolled (%)' },
+  { type: 'exit_intent', label: 'Exit intent', valueLabel: null },
+  { type: 'url_pattern', label: 'URL / category pattern', valueLabel: 'Delay (seconds, optional)' },
+  { type: 'cart_value', label: 'Cart value', valueLabel: 'Cart total at least' },
+  { type: 'returning_visitor', label: 'Returning visitor', valueLabel: 'Delay (seconds, optional)' },
+];
 
 export default function ChatSettingsPage() {
   const [loading, setLoading] = useState(true);
@@ -24,8 +35,19 @@ export default function ChatSettingsPage() {
     use_gradient: true,
     bubble_position: 'bottom-right',
     delay_seconds: 0,
+    proactive_triggers: [] as ProactiveTrigger[],
+    starter_questions: [] as string[],
+    suggestions_enabled: true,
   });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [widgetVersion, setWidgetVersion] = useState<{
+    pinned_version: string | null;
+    pinned_available: boolean | null;
+    default_version: string | null;
+    releases: Array<{ version: string; size: number; built_at: string }>;
+  } | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState('');
+  const [savingVersion, setSavingVersion] = useState(false);
 
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
@@ -34,9 +56,52 @@ export default function ChatSettingsPage() {
 
     if (id) {
       loadSettings(id);
+      loadWidgetVersion(id);
     }
   }, []);
 
+  const loadWidgetVersion = async (siteId: string) => {
+    try {
+      const response = await fetch(`/api/chat/widget-version?site_id=${siteId}`);
+      if (!response.ok) {
+        throw new Error('Failed to load widget version');
+      }
+      const data = await response.json();
+      setWidgetVersion(data);
+      setSelectedVersion(data.pinned_version || '');
+    } catch (error) {
+      console.error('Error loading widget version:', error);
+    }
+  };
+
+  const handleSaveVersion = async () => {
+    if (!siteId) return;
+
+    try {
+      setSavingVersion(true);
+      const response = await fetch('/api/chat/widget-version', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId, version: selectedVersion || null }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to save widget version');
+      }
+
+      await loadWidgetVersion(siteId);
+      alert('Widget version saved. Visitors get it within 5 minutes.');
+    } catch (error) {
+      console.error('Error saving widget version:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save widget version');
+    } finally {
+      setSavingVersion(false);
+    }
+  };
+
   const loadSettings = async (siteId: string) => {
     try {
       setLoading(true);
@@ -56,6 +121,9 @@ export default function ChatSettingsPage() {
         use_gradient: data.use_gradient !== false,
         bubble_position: data.bubble_position || 'bottom-right',
         delay_seconds: data.delay_seconds ?? 0,
+        proactive_triggers: data.proactive_triggers || [],
+        starter_questions: data.starter_questions || [],
+        suggestions_enabled: data.suggestions_enabled !== false,
       });
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -183,6 +251,9 @@ export default function ChatSettingsPage() {
           use_gradient: settings.use_gradient,
           bubble_position: settings.bubble_position,
           delay_seconds: settings.delay_seconds,
+          proactive_triggers: settings.proactive_triggers,
+          starter_questions: settings.starter_questions.map((question) => question.trim()).filter(Boolean),
+          suggestions_enabled: settings.suggestions_enabled,
         }),
       });
 
@@ -200,6 +271,40 @@ export default function ChatSettingsPage() {
     }
   };
 
+  const updateTrigger = (index: number, changes: Partial<ProactiveTrigger>) => {
+    setSettings({
+      ...settings,
+      proactive_triggers: settings.proactive_triggers.map((trigger, i) =>
+        i === index ? { ...trigger, ...changes } : trigger
+      ),
+    });
+  };
+
+  const handleAddTrigger = () => {
+    setSettings({
+      ...settings,
+      proactive_triggers: [
+        ...settings.proactive_triggers,
+        {
+          id: `t_${Date.now().toString(36)}`,
+          type: 'time_on_page',
+          enabled: true,
+          value: 30,
+          pattern: null,
+          message: 'Hi! Can I help you find what you are looking for?',
+          generate_from_product: false,
+        },
+      ],
+    });
+  };
+
+  const handleRemoveTrigger = (index: number) => {
+    setSettings({
+      ...settings,
+      proactive_triggers: settings.proactive_triggers.filter((_, i) => i !== index),
+    });
+  };
+
   if (loading) {
     return (
       <div className="p-6">
@@ -330,6 +435,44 @@ export default function ChatSettingsPage() {
           </div>
         </div>
 
+        {/* Suggestions Section */}
+        <div className="border-b pb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Suggested Replies</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Starter Questions
+              </label>
+              <textarea
+                value={settings.starter_questions.join('\n')}
+                onChange={(e) => setSettings({ ...settings, starter_questions: e.target.value.split('\n') })}
+                placeholder={'What are your delivery times?\nDo you have gift cards?'}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="text-sm text-gray-600 mt-1">
+                Shown as tappable chips under the welcome message (one per line, max 4, up to 80 characters each)
+              </p>
+            </div>
+
+            <div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={settings.suggestions_enabled}
+                  onChange={(e) => setSettings({ ...settings, suggestions_enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="font-medium text-gray-900">Suggest Follow-up Questions</span>
+              </label>
+              <p className="text-sm text-gray-600 ml-6">
+                After each answer, offer 2-4 follow-up questions or filters (e.g. color, size, price range) the shopper can
+                tap. Uses a short extra LLM call per answer.
+              </p>
+            </div>
+          </div>
+        </div>
+
         {/* Appearance Section */}
         <div className="border-b pb-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Appearance & Colors</h2>
@@ -416,7 +559,7 @@ export default function ChatSettingsPage() {
         </div>
 
         {/* Position & Behavior Section */}
-        <div className="pb-6">
+        <div className="border-b pb-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Position & Behavior</h2>
           <div className="space-y-4">
             <div>
@@ -455,6 +598,134 @@ export default function ChatSettingsPage() {
           </div>
         </div>
 
+        {/* Proactive Triggers Section */}
+        <div className="pb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Proactive Triggers</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Open the chat with an opener when a shopper matches a trigger. At most one opener is shown per page view
+            (and one per 30 minutes), never while the shopper is already chatting. Impressions and conversions are
+            shown in Analytics.
+          </p>
+          <div className="space-y-4">
+            {settings.proactive_triggers.map((trigger, index) => {
+              const typeInfo = TRIGGER_TYPES.find((t) => t.type === trigger.type);
+              return (
+                <div key={trigger.id} className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        checked={trigger.enabled}
+                        onChange={(e) => updateTrigger(index, { enabled: e.target.checked })}
+                        className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span className="font-medium text-gray-900">Enabled</span>
+                      <span className="text-xs text-gray-500 font-mono">{trigger.id}</span>
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveTrigger(index)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900 mb-2">
+                        Trigger
+                      </label>
+                      <select
+                        value={trigger.type}
+                        onChange={(e) => updateTrigger(index, { type: e.target.value as ProactiveTriggerType })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      >
+                        {TRIGGER_TYPES.map((t) => (
+                          <option key={t.type} value={t.type}>
+                            {t.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {typeInfo?.valueLabel && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-2">
+                          {typeInfo.valueLabel}
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={trigger.value ?? ''}
+                          onChange={(e) =>
+                            updateTrigger(index, { value: e.target.value === '' ? null : parseFloat(e.target.value) })
+                          }
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  {trigger.type === 'url_pattern' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900 mb-2">
+                        URL Pattern
+                      </label>
+                      <input
+                        type="text"
+                        value={trigger.pattern || ''}
+                        onChange={(e) => updateTrigger(index, { pattern: e.target.value })}
+                        placeholder="/product-category/shoes/*"
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                      />
+                      <p className="text-sm text-gray-600 mt-1">
+                        * matches any characters. Patterns starting with / match the path, others the full URL.
+                      </p>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-900 mb-2">
+                      Opener
+                    </label>
+                    <textarea
+                      value={trigger.message}
+                      onChange={(e) => updateTrigger(index, { message: e.target.value })}
+                      rows={2}
+                      maxLength={300}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={trigger.generate_from_product}
+                      onChange={(e) => updateTrigger(index, { generate_from_product: e.target.checked })}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span className="text-sm text-gray-900">
+                      Generate the opener from the product on product pages (the opener above is the example and
+                      fallback)
+                    </span>
+                  </label>
+                </div>
+              );
+            })}
+
+            {settings.proactive_triggers.length < 10 && (
+              <button
+                type="button"
+                onClick={handleAddTrigger}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                Add Trigger
+              </button>
+            )}
+          </div>
+        </div>
+
         <div className="flex justify-end pt-6 border-t">
           <button
             onClick={handleSave}
@@ -465,6 +736,47 @@ export default function ChatSettingsPage() {
           </button>
         </div>
       </div>
+
+      {/* Widget Version Section */}
+      {widgetVersion && (
+        <div className="bg-white rounded-lg shadow p-6 mt-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Widget Version</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Sites follow the current widget release unless pinned. Pin a release to hold back an update or to roll
+            back if a new release causes problems on your shop.
+          </p>
+          {widgetVersion.pinned_version && widgetVersion.pinned_available === false && (
+            <p className="text-sm text-yellow-800 bg-yellow-50 rounded p-2 mb-4">
+              The pinned release {widgetVersion.pinned_version} is no longer available; visitors get the current
+              release.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <select
+              value={selectedVersion}
+              onChange={(e) => setSelectedVersion(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">
+                Follow current release{widgetVersion.default_version ? ` (${widgetVersion.default_version})` : ''}
+              </option>
+              {widgetVersion.releases.map((release) => (
+                <option key={release.version} value={release.version}>
+                  {release.version} · {new Date(release.built_at).toLocaleString()}
+                  {release.version === widgetVersion.default_version ? ' · current' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleSaveVersion}
+              disabled={savingVersion || selectedVersion === (widgetVersion.pinned_version || '')}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {savingVersion ? 'Saving...' : 'Apply'}
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
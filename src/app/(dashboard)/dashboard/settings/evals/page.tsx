@@ -0,0 +1,629 @@
+/**
+ * RAG Evaluation Page
+ *
+ * Golden-set questions with expected facts, products and sources, plus stored
+ * evaluation runs with their scores compared against the previous run
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+type Metric = 'retrieval_recall' | 'groundedness' | 'answer_correctness';
+
+type Scores = Record<Metric, number | null>;
+
+interface EvalCase {
+  id: string;
+  question: string;
+  expected_facts: string[];
+  expected_products: string[];
+  expected_sources: string[];
+  enabled: boolean;
+}
+
+interface EvalRun extends Scores {
+  id: string;
+  label: string | null;
+  status: 'running' | 'completed' | 'failed';
+  trigger: 'dashboard' | 'ci';
+  provider: string;
+  model: string;
+  config: { prompt_fingerprint?: string };
+  case_count: number;
+  passed_count: number;
+  total_tokens: number;
+  error: string | null;
+  started_at: string;
+}
+
+interface EvalResult extends Scores {
+  id: string;
+  case_id: string | null;
+  question: string;
+  answer: string;
+  retrieved: Array<{ entity_type: string; entity_id: string; similarity: number }>;
+  missing_facts: string[];
+  missing_sources: string[];
+  passed: boolean;
+  latency_ms: number;
+  error: string | null;
+}
+
+interface RunDetail {
+  run: EvalRun;
+  results: EvalResult[];
+  comparison: {
+    base_run_id: string;
+    deltas: Scores & { pass_rate: number };
+    regressions: Metric[];
+    cases: Array<{ case_id: string; regressed: boolean; base: Scores & { passed: boolean } }>;
+  } | null;
+}
+
+interface CaseForm {
+  question: string;
+  facts: string;
+  products: string;
+  sources: string;
+}
+
+const METRICS: Array<{ key: Metric; label: string }> = [
+  { key: 'retrieval_recall', label: 'Retrieval recall' },
+  { key: 'groundedness', label: 'Groundedness' },
+  { key: 'answer_correctness', label: 'Correctness' },
+];
+
+const EMPTY_FORM: CaseForm = { question: '', facts: '', products: '', sources: '' };
+
+function formatScore(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatDelta(value: number | null | undefined): JSX.Element | null {
+  if (value === null || value === undefined || Math.abs(value) < 0.005) return null;
+  const points = Math.round(value * 100);
+  return (
+    <span className={`ml-1 text-xs ${points > 0 ? 'text-green-700' : 'text-red-700'}`}>
+      {points > 0 ? '+' : ''}
+      {points}
+    </span>
+  );
+}
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+export default function EvalsPage() {
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [cases, setCases] = useState<EvalCase[]>([]);
+  const [runs, setRuns] = useState<EvalRun[]>([]);
+  const [form, setForm] = useState<CaseForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [runLabel, setRunLabel] = useState('');
+  const [runProvider, setRunProvider] = useState<'site' | 'fake'>('site');
+  const [detail, setDetail] = useState<RunDetail | null>(null);
+
+  const loadData = useCallback(async (id: string) => {
+    try {
+      const [casesResponse, runsResponse] = await Promise.all([
+        fetch(`/api/knowledge/evals/cases?site_id=${id}`),
+        fetch(`/api/knowledge/evals/runs?site_id=${id}`),
+      ]);
+      if (!casesResponse.ok || !runsResponse.ok) {
+        throw new Error('Failed to load evaluation data');
+      }
+      setCases((await casesResponse.json()).cases || []);
+      setRuns((await runsResponse.json()).runs || []);
+    } catch (error) {
+      console.error('Error loading evaluation data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const id = urlParams.get('site_id');
+    setSiteId(id);
+
+    if (id) {
+      loadData(id);
+    } else {
+      setLoading(false);
+    }
+  }, [loadData]);
+
+  const loadRunDetail = async (runId: string) => {
+    if (!siteId) return;
+    if (detail?.run.id === runId) {
+      setDetail(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/knowledge/evals/runs/${runId}?site_id=${siteId}&compare_to=previous`);
+      if (!response.ok) {
+        throw new Error('Failed to load run');
+      }
+      setDetail(await response.json());
+    } catch (error) {
+      console.error('Error loading eval run:', error);
+      alert('Failed to load run');
+    }
+  };
+
+  const handleSaveCase = async () => {
+    if (!siteId) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        editingId ? `/api/knowledge/evals/cases/${editingId}` : '/api/knowledge/evals/cases',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            site_id: siteId,
+            question: form.question,
+            expected_facts: splitList(form.facts, /\n/),
+            expected_products: splitList(form.products, /[,\n]/),
+            expected_sources: splitList(form.sources, /[,\n]/),
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to save question');
+      }
+
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+      await loadData(siteId);
+    } catch (error) {
+      console.error('Error saving eval case:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (evalCase: EvalCase) => {
+    setEditingId(evalCase.id);
+    setForm({
+      question: evalCase.question,
+      facts: evalCase.expected_facts.join('\n'),
+      products: evalCase.expected_products.join(', '),
+      sources: evalCase.expected_sources.join(', '),
+    });
+  };
+
+  const handleToggle = async (evalCase: EvalCase) => {
+    if (!siteId) return;
+
+    try {
+      const response = await fetch(`/api/knowledge/evals/cases/${evalCase.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId, enabled: !evalCase.enabled }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to update question');
+      }
+      await loadData(siteId);
+    } catch (error) {
+      console.error('Error updating eval case:', error);
+      alert('Failed to update question');
+    }
+  };
+
+  const handleDelete = async (evalCase: EvalCase) => {
+    if (!siteId) return;
+    if (!confirm('Delete this question? Results of past runs are kept.')) return;
+
+    try {
+      const response = await fetch(`/api/knowledge/evals/cases/${evalCase.id}?site_id=${siteId}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to delete question');
+      }
+      if (editingId === evalCase.id) {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+      }
+      await loadData(siteId);
+    } catch (error) {
+      console.error('Error deleting eval case:', error);
+      alert('Failed to delete question');
+    }
+  };
+
+  const handleRun = async () => {
+    if (!siteId) return;
+
+    try {
+      setRunning(true);
+      const response = await fetch('/api/knowledge/evals/runs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId, provider: runProvider, label: runLabel || undefined }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Evaluation run failed');
+      }
+
+      const { run } = await response.json();
+      setRunLabel('');
+      await loadData(siteId);
+      await loadRunDetail(run.id);
+    } catch (error) {
+      console.error('Error running evaluation:', error);
+      alert(error instanceof Error ? error.message : 'Evaluation run failed');
+      await loadData(siteId);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <p>Loading evaluation...</p>
+      </div>
+    );
+  }
+
+  const enabledCount = cases.filter((evalCase) => evalCase.enabled).length;
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+  const regressedCases = new Set(
+    (detail?.comparison?.cases || []).filter((entry) => entry.regressed).map((entry) => entry.case_id)
+  );
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">RAG Evaluation</h1>
+        {siteId && (
+          <Link
+            href={`/dashboard/settings/playground?site_id=${siteId}`}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            Test in playground →
+          </Link>
+        )}
+      </div>
+
+      {!siteId ? (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-gray-600">Select a site to evaluate its answers.</p>
+        </div>
+      ) : (
+        <>
+          {/* Runs */}
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <div className="flex flex-wrap justify-between items-end gap-4 mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Runs</h2>
+                <p className="text-sm text-gray-600">
+                  Run the {enabledCount} enabled question{enabledCount === 1 ? '' : 's'} before and after changing
+                  settings or prompts and compare the scores.
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  value={runLabel}
+                  onChange={(e) => setRunLabel(e.target.value)}
+                  placeholder="Label (e.g. top_k 8)"
+                  maxLength={200}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+                />
+                <select
+                  value={runProvider}
+                  onChange={(e) => setRunProvider(e.target.value as 'site' | 'fake')}
+                  className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 bg-white"
+                >
+                  <option value="site">Site model</option>
+                  <option value="fake">Fake provider (free)</option>
+                </select>
+                <button
+                  onClick={handleRun}
+                  disabled={running || enabledCount === 0}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  {running ? 'Running...' : 'Run evaluation'}
+                </button>
+              </div>
+            </div>
+
+            {runs.length === 0 ? (
+              <p className="text-sm text-gray-600">No runs yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Started</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Label</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Model</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Passed</th>
+                      {METRICS.map((metric) => (
+                        <th key={metric.key} className="px-3 py-2 text-left font-medium text-gray-500">
+                          {metric.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {runs.map((run) => (
+                      <tr
+                        key={run.id}
+                        onClick={() => loadRunDetail(run.id)}
+                        className={`cursor-pointer hover:bg-gray-50 ${detail?.run.id === run.id ? 'bg-indigo-50' : ''}`}
+                      >
+                        <td className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                          {new Date(run.started_at).toLocaleString()}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {run.label || '—'}
+                          {run.trigger === 'ci' && (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700">CI</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">{run.model}</td>
+                        <td className="px-3 py-2 text-gray-900">
+                          {run.status === 'completed' ? (
+                            `${run.passed_count}/${run.case_count}`
+                          ) : (
+                            <span className={run.status === 'failed' ? 'text-red-700' : 'text-gray-500'}>
+                              {run.status}
+                            </span>
+                          )}
+                        </td>
+                        {METRICS.map((metric) => (
+                          <td key={metric.key} className="px-3 py-2 text-gray-900">
+                            {formatScore(run[metric.key])}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Run detail */}
+          {detail && (
+            <div className="bg-white rounded-lg shadow p-6 mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-1">
+                {detail.run.label || 'Run'} · {new Date(detail.run.started_at).toLocaleString()}
+              </h2>
+              <p className="text-sm text-gray-600 mb-4">
+                {detail.run.provider} / {detail.run.model} · {detail.run.total_tokens} tokens
+                {detail.run.config.prompt_fingerprint && ` · prompt ${detail.run.config.prompt_fingerprint}`}
+              </p>
+              {detail.run.error && <p className="text-sm text-red-700 mb-4">{detail.run.error}</p>}
+
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                {METRICS.map((metric) => (
+                  <div key={metric.key} className="border border-gray-200 rounded p-3">
+                    <div className="text-xs text-gray-500">{metric.label}</div>
+                    <div className="text-xl font-semibold text-gray-900">
+                      {formatScore(detail.run[metric.key])}
+                      {formatDelta(detail.comparison?.deltas[metric.key])}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {detail.comparison ? (
+                detail.comparison.regressions.length > 0 || regressedCases.size > 0 ? (
+                  <p className="text-sm text-red-700 bg-red-50 rounded p-2 mb-4">
+                    Regression against the previous run
+                    {detail.comparison.regressions.length > 0 &&
+                      ` (${detail.comparison.regressions.map((metric) => metric.replace('_', ' ')).join(', ')})`}
+                    {regressedCases.size > 0 && `; ${regressedCases.size} question(s) no longer pass`}.
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-600 mb-4">Deltas are in points against the previous run.</p>
+                )
+              ) : (
+                <p className="text-sm text-gray-600 mb-4">No earlier completed run to compare with.</p>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Question</th>
+                      {METRICS.map((metric) => (
+                        <th key={metric.key} className="px-3 py-2 text-left font-medium text-gray-500">
+                          {metric.label}
+                        </th>
+                      ))}
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {detail.results.map((result) => (
+                      <tr key={result.id}>
+                          <td className="px-3 py-2 text-gray-900">
+                            <details>
+                              <summary className="cursor-pointer">{result.question}</summary>
+                              <div className="mt-2 space-y-2 text-xs text-gray-700">
+                                <p className="whitespace-pre-line">{result.answer || result.error || '—'}</p>
+                                {result.missing_facts.length > 0 && (
+                                  <p>
+                                    <span className="font-medium">Missing facts:</span> {result.missing_facts.join('; ')}
+                                  </p>
+                                )}
+                                {result.missing_sources.length > 0 && (
+                                  <p>
+                                    <span className="font-medium">Not retrieved:</span>{' '}
+                                    {result.missing_sources.join(', ')}
+                                  </p>
+                                )}
+                                <p>
+                                  <span className="font-medium">Retrieved:</span>{' '}
+                                  {result.retrieved
+                                    .map((chunk) => `${chunk.entity_type}:${chunk.entity_id}`)
+                                    .join(', ') || 'nothing'}{' '}
+                                  · {result.latency_ms} ms
+                                </p>
+                              </div>
+                            </details>
+                          </td>
+                          {METRICS.map((metric) => (
+                            <td key={metric.key} className="px-3 py-2 text-gray-900 whitespace-nowrap">
+                              {formatScore(result[metric.key])}
+                            </td>
+                          ))}
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            {result.passed ? (
+                              <span className="px-2 py-0.5 text-xs rounded bg-green-100 text-green-800">Pass</span>
+                            ) : (
+                              <span className="px-2 py-0.5 text-xs rounded bg-red-100 text-red-800">
+                                {result.case_id && regressedCases.has(result.case_id) ? 'Regressed' : 'Fail'}
+                              </span>
+                            )}
+                          </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Questions */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Golden set</h2>
+
+            <div className="grid gap-4 md:grid-cols-2 mb-6">
+              <label className="block md:col-span-2">
+                <span className="block text-sm font-medium text-gray-900 mb-1">Question</span>
+                <input
+                  type="text"
+                  value={form.question}
+                  onChange={(e) => setForm({ ...form, question: e.target.value })}
+                  maxLength={1000}
+                  placeholder="What is your return policy?"
+                  className={inputClass}
+                />
+              </label>
+              <label className="block md:col-span-2">
+                <span className="block text-sm font-medium text-gray-900 mb-1">Expected facts (one per line)</span>
+                <textarea
+                  value={form.facts}
+                  onChange={(e) => setForm({ ...form, facts: e.target.value })}
+                  rows={3}
+                  placeholder={'30 days\nfree return shipping'}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-900 mb-1">Expected product IDs</span>
+                <input
+                  type="text"
+                  value={form.products}
+                  onChange={(e) => setForm({ ...form, products: e.target.value })}
+                  placeholder="123, 456"
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-gray-900 mb-1">Expected sources</span>
+                <input
+                  type="text"
+                  value={form.sources}
+                  onChange={(e) => setForm({ ...form, sources: e.target.value })}
+                  placeholder="policy:returns, page:42"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+            <div className="flex gap-2 mb-6">
+              <button
+                onClick={handleSaveCase}
+                disabled={saving || !form.question.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : editingId ? 'Update question' : 'Add question'}
+              </button>
+              {editingId && (
+                <button
+                  onClick={() => {
+                    setEditingId(null);
+                    setForm(EMPTY_FORM);
+                  }}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+
+            {cases.length === 0 ? (
+              <p className="text-sm text-gray-600">No questions yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200">
+                {cases.map((evalCase) => (
+                  <li key={evalCase.id} className="py-3 flex justify-between gap-4">
+                    <div className={`text-sm ${evalCase.enabled ? 'text-gray-900' : 'text-gray-400'}`}>
+                      <p className="font-medium">{evalCase.question}</p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {evalCase.expected_facts.length} fact(s)
+                        {evalCase.expected_products.length > 0 &&
+                          ` · products ${evalCase.expected_products.join(', ')}`}
+                        {evalCase.expected_sources.length > 0 && ` · sources ${evalCase.expected_sources.join(', ')}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button
+                        onClick={() => handleEdit(evalCase)}
+                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggle(evalCase)}
+                        className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                      >
+                        {evalCase.enabled ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(evalCase)}
+                        className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+/**
+ * FAQ Settings Page
+ *
+ * Manage FAQ question/answer pairs used as a knowledge source
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+interface Faq {
+  id: string;
+  question: string;
+  answer: string;
+  category: string | null;
+  enabled: boolean;
+  indexed: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface FaqForm {
+  question: string;
+  answer: string;
+  category: string;
+}
+
+interface ImportResult {
+  imported: number;
+  skipped: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+const EMPTY_FORM: FaqForm = { question: '', answer: '', category: '' };
+
+export default function FaqSettingsPage() {
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [faqs, setFaqs] = useState<Faq[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<FaqForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+
+  const loadFaqs = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/knowledge/faqs?site_id=${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load FAQs');
+      }
+      const data = await response.json();
+      setFaqs(data.faqs || []);
+    } catch (error) {
+      console.error('Error loading FAQs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const id = urlParams.get('site_id');
+    setSiteId(id);
+
+    if (id) {
+      loadFaqs(id);
+    } else {
+      setLoading(false);
+    }
+  }, [loadFaqs]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleEdit = (faq: Faq) => {
+    setEditingId(faq.id);
+    setForm({ question: faq.question, answer: faq.answer, category: faq.category || '' });
+  };
+
+  const handleSave = async () => {
+    if (!siteId) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(editingId ? `/api/knowledge/faqs/${editingId}` : '/api/knowledge/faqs', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          site_id: siteId,
+          question: form.question,
+          answer: form.answer,
+          category: form.category,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to save FAQ');
+      }
+
+      resetForm();
+      await loadFaqs(siteId);
+    } catch (error) {
+      console.error('Error saving FAQ:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save FAQ');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (faq: Faq) => {
+    if (!siteId) return;
+
+    try {
+      setBusyId(faq.id);
+      const response = await fetch(`/api/knowledge/faqs/${faq.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId, enabled: !faq.enabled }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to update FAQ');
+      }
+
+      await loadFaqs(siteId);
+    } catch (error) {
+      console.error('Error updating FAQ:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update FAQ');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (faq: Faq) => {
+    if (!siteId) return;
+    if (!confirm('Delete this FAQ? It will be removed from the knowledge base.')) return;
+
+    try {
+      setBusyId(faq.id);
+      const response = await fetch(`/api/knowledge/faqs/${faq.id}?site_id=${siteId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to delete FAQ');
+      }
+
+      if (editingId === faq.id) resetForm();
+      await loadFaqs(siteId);
+    } catch (error) {
+      console.error('Error deleting FAQ:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete FAQ');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!siteId || !importFile) return;
+    if (replaceOnImport && !confirm('Replace all existing FAQs with the contents of this file?')) return;
+
+    try {
+      setImporting(true);
+      setImportResult(null);
+      const csv = await importFile.text();
+      const response = await fetch('/api/knowledge/faqs/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId, csv, replace: replaceOnImport }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to import FAQs');
+      }
+
+      setImportResult(data);
+      setImportFile(null);
+      await loadFaqs(siteId);
+    } catch (error) {
+      console.error('Error importing FAQs:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import FAQs');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <p>Loading FAQs...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">FAQs</h1>
+        {siteId && (
+          <Link
+            href={`/dashboard/settings/knowledge?site_id=${siteId}`}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            Knowledge settings →
+          </Link>
+        )}
+      </div>
+
+      {!siteId ? (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-gray-600">Select a site to manage its FAQs.</p>
+        </div>
+      ) : (
+        <>
+          {/* Add / Edit FAQ */}
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">{editingId ? 'Edit FAQ' : 'Add FAQ'}</h2>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">Question</label>
+                <input
+                  type="text"
+                  value={form.question}
+                  onChange={(e) => setForm({ ...form, question: e.target.value })}
+                  maxLength={1000}
+                  placeholder="e.g. How long does shipping take?"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">Answer</label>
+                <textarea
+                  value={form.answer}
+                  onChange={(e) => setForm({ ...form, answer: e.target.value })}
+                  maxLength={10000}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">Category (optional)</label>
+                <input
+                  type="text"
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  placeholder="e.g. Shipping"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                {editingId && (
+                  <button
+                    onClick={resetForm}
+                    disabled={saving}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !form.question.trim() || !form.answer.trim()}
+                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : editingId ? 'Save FAQ' : 'Add FAQ'}
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* CSV Import */}
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Import from CSV</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Columns: question, answer, category (optional). A header row is detected automatically.
+            </p>
+            <div className="flex flex-wrap items-center gap-4">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                className="text-sm text-gray-700"
+              />
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={replaceOnImport}
+                  onChange={(e) => setReplaceOnImport(e.target.checked)}
+                  className="mr-2"
+                />
+                Replace existing FAQs
+              </label>
+              <button
+                onClick={handleImport}
+                disabled={importing || !importFile}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {importing ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+
+            {importResult && (
+              <div className="mt-4 text-sm">
+                <p className="text-gray-900">
+                  Imported {importResult.imported} FAQ{importResult.imported === 1 ? '' : 's'}
+                  {importResult.skipped > 0 && `, skipped ${importResult.skipped} invalid row${importResult.skipped === 1 ? '' : 's'}`}.
+                  Indexing runs in the background.
+                </p>
+                {importResult.errors.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-red-700">
+                    {importResult.errors.map((error) => (
+                      <li key={error.row}>
+                        Row {error.row}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* FAQ List */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">
+                FAQs <span className="text-sm font-normal text-gray-500">({faqs.length})</span>
+              </h2>
+              <button
+                onClick={() => loadFaqs(siteId)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+              >
+                🔄 Refresh
+              </button>
+            </div>
+
+            {faqs.length === 0 ? (
+              <p className="text-gray-600">No FAQs yet. Add one above or import a CSV file.</p>
+            ) : (
+              <div className="space-y-3">
+                {faqs.map((faq) => (
+                  <div key={faq.id} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900">{faq.question}</div>
+                        <p className="text-sm text-gray-600 mt-1 whitespace-pre-line line-clamp-3">{faq.answer}</p>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {faq.category && (
+                            <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                              {faq.category}
+                            </span>
+                          )}
+                          {!faq.enabled ? (
+                            <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-500">Disabled</span>
+                          ) : faq.indexed ? (
+                            <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">Indexed</span>
+                          ) : (
+                            <span className="px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800">Indexing</span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex flex-shrink-0 gap-2">
+                        <button
+                          onClick={() => handleEdit(faq)}
+                          disabled={busyId === faq.id}
+                          className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleToggle(faq)}
+                          disabled={busyId === faq.id}
+                          className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400"
+                        >
+                          {faq.enabled ? 'Disable' : 'Enable'}
+                        </button>
+                        <button
+                          onClick={() => handleDelete(faq)}
+                          disabled={busyId === faq.id}
+                          className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:text-gray-400"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+/**
+ * Knowledge Base Browser Page
+ *
+ * Lists everything indexed for a site, shows the chunks of each entity and lets
+ * the user re-index, exclude or delete a single entity
+ */
+
+'use client';
+
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+type EntityType = 'product' | 'variation' | 'page' | 'policy' | 'faq' | 'document';
+
+interface KnowledgeEntity {
+  entity_type: EntityType;
+  entity_id: string;
+  title: string | null;
+  chunk_count: number;
+  last_indexed_at: string;
+  content_hash: string | null;
+  model: string | null;
+  estimated_tokens: number;
+  estimated_cost: number;
+  excluded: boolean;
+}
+
+interface KnowledgeChunk {
+  id: string;
+  chunk_index: number;
+  content_text: string;
+  tokens: number;
+  model: string;
+  version: number;
+  metadata: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  product: 'Product',
+  variation: 'Variation',
+  page: 'Page',
+  policy: 'Policy',
+  faq: 'FAQ',
+  document: 'Document',
+};
+
+function entityKey(entity: Pick<KnowledgeEntity, 'entity_type' | 'entity_id'>): string {
+  return `${entity.entity_type}:${entity.entity_id}`;
+}
+
+function entityPath(entity: Pick<KnowledgeEntity, 'entity_type' | 'entity_id'>): string {
+  return `/api/knowledge/entities/${entity.entity_type}/${encodeURIComponent(entity.entity_id)}`;
+}
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.0001 ? '<$0.0001' : `$${cost.toFixed(4)}`;
+}
+
+export default function KnowledgeBaseBrowserPage() {
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [entities, setEntities] = useState<KnowledgeEntity[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(50);
+  const [indexVersion, setIndexVersion] = useState<number | null>(null);
+  const [typeFilter, setTypeFilter] = useState<EntityType | ''>('');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [chunks, setChunks] = useState<KnowledgeChunk[]>([]);
+  const [loadingChunks, setLoadingChunks] = useState(false);
+
+  const loadEntities = useCallback(
+    async (id: string) => {
+      try {
+        const params = new URLSearchParams({ site_id: id, page: String(page) });
+        if (typeFilter) params.set('type', typeFilter);
+        if (search) params.set('search', search);
+
+        const response = await fetch(`/api/knowledge/entities?${params.toString()}`);
+        if (!response.ok) {
+          throw new Error('Failed to load knowledge base');
+        }
+        const data = await response.json();
+        setEntities(data.entities || []);
+        setTotal(data.total || 0);
+        setPageSize(data.page_size || 50);
+        setIndexVersion(data.index_version ?? null);
+      } catch (error) {
+        console.error('Error loading knowledge base:', error);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [page, typeFilter, search]
+  );
+
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const id = urlParams.get('site_id');
+    setSiteId(id);
+
+    if (!id) {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload when the site, page, type filter or search changes
+  useEffect(() => {
+    if (siteId) {
+      loadEntities(siteId);
+    }
+  }, [siteId, loadEntities]);
+
+  const handleSearch = () => {
+    setPage(1);
+    setSearch(searchInput.trim());
+  };
+
+  const handleToggleChunks = async (entity: KnowledgeEntity) => {
+    if (!siteId) return;
+
+    const key = entityKey(entity);
+    if (expandedKey === key) {
+      setExpandedKey(null);
+      return;
+    }
+
+    try {
+      setExpandedKey(key);
+      setChunks([]);
+      setLoadingChunks(true);
+      const response = await fetch(`${entityPath(entity)}?site_id=${siteId}`);
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to load chunks');
+      }
+      const data = await response.json();
+      setChunks(data.chunks || []);
+    } catch (error) {
+      console.error('Error loading chunks:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load chunks');
+      setExpandedKey(null);
+    } finally {
+      setLoadingChunks(false);
+    }
+  };
+
+  const handleAction = async (entity: KnowledgeEntity, action: 'reindex' | 'exclude' | 'include') => {
+    if (!siteId) return;
+
+    try {
+      setBusyKey(entityKey(entity));
+      const response = await fetch(entityPath(entity), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId, action }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to update entity');
+      }
+
+      if (action === 'reindex') {
+        alert('Re-index queued. Changes appear here once the ingestion worker has processed it.');
+      }
+      await loadEntities(siteId);
+    } catch (error) {
+      console.error('Error updating entity:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update entity');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleDelete = async (entity: KnowledgeEntity) => {
+    if (!siteId) return;
+    if (
+      !confirm(
+        'Delete this entity from the knowledge base? It is indexed again when its source changes or on the next full sync; use Exclude to keep it out of answers.'
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setBusyKey(entityKey(entity));
+      const response = await fetch(`${entityPath(entity)}?site_id=${siteId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to delete entity');
+      }
+
+      if (expandedKey === entityKey(entity)) setExpandedKey(null);
+      await loadEntities(siteId);
+    } catch (error) {
+      console.error('Error deleting entity:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete entity');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <p>Loading knowledge base...</p>
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Knowledge Base</h1>
+        {siteId && (
+          <Link
+            href={`/dashboard/settings/knowledge?site_id=${siteId}`}
+            className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            Knowledge settings →
+          </Link>
+        )}
+      </div>
+
+      {!siteId ? (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-gray-600">Select a site to browse its knowledge base.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+              placeholder="Search titles, IDs and content"
+              className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <select
+              value={typeFilter}
+              onChange={(e) => {
+                setPage(1);
+                setTypeFilter(e.target.value as EntityType | '');
+              }}
+              className="px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">All types</option>
+              {(Object.keys(ENTITY_TYPE_LABELS) as EntityType[]).map((type) => (
+                <option key={type} value={type}>
+                  {ENTITY_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleSearch}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              Search
+            </button>
+            <button
+              onClick={() => loadEntities(siteId)}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+
+          <p className="text-sm text-gray-600 mb-4">
+            {total} indexed entit{total === 1 ? 'y' : 'ies'}
+            {indexVersion !== null && ` in embedding index v${indexVersion}`}. Excluded entities stay indexed but are
+            never used in answers; excluding a product also excludes its variations.
+          </p>
+
+          {entities.length === 0 ? (
+            <p className="text-gray-600">
+              {search || typeFilter ? 'No indexed entities match your search.' : 'Nothing is indexed yet.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Type</th>
+                    <th className="py-2 pr-4 font-medium">Title</th>
+                    <th className="py-2 pr-4 font-medium">Chunks</th>
+                    <th className="py-2 pr-4 font-medium">Last indexed</th>
+                    <th className="py-2 pr-4 font-medium">Content hash</th>
+                    <th className="py-2 pr-4 font-medium">Token cost</th>
+                    <th className="py-2 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {entities.map((entity) => {
+                    const key = entityKey(entity);
+                    const busy = busyKey === key;
+                    return (
+                      <Fragment key={key}>
+                        <tr className={entity.excluded ? 'bg-gray-50 text-gray-500' : 'text-gray-900'}>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-700">
+                              {ENTITY_TYPE_LABELS[entity.entity_type] || entity.entity_type}
+                            </span>
+                          </td>
+                          <td className="py-2 pr-4">
+                            <button
+                              onClick={() => handleToggleChunks(entity)}
+                              className="text-left font-medium text-indigo-600 hover:text-indigo-800"
+                            >
+                              {entity.title || `#${entity.entity_id}`}
+                            </button>
+                            <div className="text-xs text-gray-500">
+                              ID {entity.entity_id}
+                              {entity.excluded && (
+                                <span className="ml-2 px-2 py-0.5 rounded font-medium bg-yellow-100 text-yellow-800">
+                                  Excluded
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="py-2 pr-4">{entity.chunk_count}</td>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            {new Date(entity.last_indexed_at).toLocaleString()}
+                          </td>
+                          <td className="py-2 pr-4 font-mono text-xs" title={entity.content_hash || undefined}>
+                            {entity.content_hash ? entity.content_hash.substring(0, 12) : '—'}
+                          </td>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            ~{entity.estimated_tokens.toLocaleString()} tokens
+                            <div className="text-xs text-gray-500">{formatCost(entity.estimated_cost)}</div>
+                          </td>
+                          <td className="py-2">
+                            <div className="flex justify-end gap-2">
+                              <button
+                                onClick={() => handleAction(entity, 'reindex')}
+                                disabled={busy}
+                                className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400"
+                              >
+                                Re-index
+                              </button>
+                              <button
+                                onClick={() => handleAction(entity, entity.excluded ? 'include' : 'exclude')}
+                                disabled={busy}
+                                className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400"
+                              >
+                                {entity.excluded ? 'Include' : 'Exclude'}
+                              </button>
+                              <button
+                                onClick={() => handleDelete(entity)}
+                                disabled={busy}
+                                className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:text-gray-400"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                        {expandedKey === key && (
+                          <tr>
+                            <td colSpan={7} className="py-3 px-2 bg-gray-50">
+                              {loadingChunks ? (
+                                <p className="text-gray-600">Loading chunks...</p>
+                              ) : (
+                                <div className="space-y-3">
+                                  {chunks.map((chunk) => (
+                                    <div key={chunk.id} className="border border-gray-200 rounded-lg bg-white p-4">
+                                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 mb-2">
+                                        <span className="font-medium text-gray-900">Chunk {chunk.chunk_index + 1}</span>
+                                        <span>{chunk.tokens} tokens</span>
+                                        <span>{chunk.model}</span>
+                                        <span>Row version {chunk.version}</span>
+                                        <span>Updated {new Date(chunk.updated_at).toLocaleString()}</span>
+                                      </div>
+                                      <p className="text-sm text-gray-900 whitespace-pre-line">{chunk.content_text}</p>
+                                      <details className="mt-2">
+                                        <summary className="text-xs font-medium text-gray-600 cursor-pointer">
+                                          Metadata
+                                        </summary>
+                                        <pre className="mt-2 p-2 text-xs text-gray-800 bg-gray-50 rounded overflow-x-auto">
+                                          {JSON.stringify(chunk.metadata, null, 2)}
+                                        </pre>
+                                      </details>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+              <span>
+                Page {page} of {pageCount}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="px-3 py-1 font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount}
+                  className="px-3 py-1 font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,11 +6,129 @@
 
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+interface IngestionJob {
+  id: string;
+  job_type: 'webhook' | 'sync' | 'reindex';
+  status: 'queued' | 'running' | 'completed' | 'dead_letter';
+  event: string | null;
+  entity_type: string;
+  entity_id: string | null;
+  mode: 'full' | 'delta' | null;
+  index_version: number | null;
+  progress: {
+    processed: number;
+    total: number;
+    failed: number;
+    percent: number;
+  };
+  eta_seconds: number | null;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  failures: Array<{ entity_id: string; error: string; at: string }>;
+  can_retry: boolean;
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+interface KnowledgeDocument {
+  id: string;
+  title: string;
+  file_name: string;
+  file_type: 'pdf' | 'docx' | 'md' | 'txt' | 'csv';
+  file_size: number;
+  version: number;
+  status: 'pending' | 'processing' | 'indexed' | 'failed';
+  error_message: string | null;
+  extracted_chars: number | null;
+  indexed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EmbeddingIndex {
+  id: string;
+  version: number;
+  model: string;
+  status: 'building' | 'ready' | 'active' | 'retired' | 'cancelled' | 'failed';
+  error_message: string | null;
+  evaluation: {
+    evaluated_at: string;
+    queries: Array<{
+      query: string;
+      active: { sources: string[]; best_similarity: number | null };
+      candidate: { sources: string[]; best_similarity: number | null };
+      overlap: number;
+    }>;
+    summary: {
+      query_count: number;
+      average_overlap: number;
+      active_hit_rate: number;
+      candidate_hit_rate: number;
+    };
+  } | null;
+  activated_at: string | null;
+  retired_at: string | null;
+  created_at: string;
+}
+
+interface EmbeddingMigration {
+  active: EmbeddingIndex | null;
+  pending: EmbeddingIndex | null;
+  previous: EmbeddingIndex | null;
+  job: {
+    status: 'queued' | 'running' | 'completed' | 'dead_letter';
+    processed: number;
+    total: number;
+    failed: number;
+    percent: number;
+    eta_seconds: number | null;
+    last_error: string | null;
+  } | null;
+  indexes: EmbeddingIndex[];
+}
+
+const JOB_POLL_INTERVAL_MS = 5000;
+
+const EMBEDDING_MODEL_OPTIONS = [
+  { value: 'text-embedding-3-small', label: 'text-embedding-3-small (Fast, Cost-effective)' },
+  { value: 'text-embedding-3-large', label: 'text-embedding-3-large (More accurate, Higher cost)' },
+  { value: 'text-embedding-ada-002', label: 'text-embedding-ada-002 (Legacy, Lower cost)' },
+];
+
+const DOCUMENT_ACCEPT = '.pdf,.docx,.md,.markdown,.txt,.csv';
+
+const CHUNKING_STRATEGY_OPTIONS = [
+  { value: 'fixed', label: 'Fixed size (characters)' },
+  { value: 'window', label: 'Fixed size, word boundaries' },
+  { value: 'sentence', label: 'Sentences & paragraphs' },
+  { value: 'heading', label: 'Headings / sections' },
+  { value: 'token', label: 'Token-based' },
+  { value: 'product', label: 'One chunk per product' },
+];
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatEta(seconds: number | null): string {
+  if (seconds === null) return '';
+  if (seconds < 60) return `~${seconds}s left`;
+  if (seconds < 3600) return `~${Math.round(seconds / 60)} min left`;
+  return `~${(seconds / 3600).toFixed(1)} h left`;
+}
 
 interface IngestionStatus {
   site_id: string;
   embeddings_count: number;
+  last_synced_at: string | null;
   ingestion_events: {
     total: number;
     by_status: {
@@ -30,6 +148,16 @@ interface IngestionStatus {
       processed_at: string | null;
     }>;
   };
+  jobs: {
+    by_status: {
+      queued: number;
+      running: number;
+      completed: number;
+      dead_letter: number;
+    };
+    active: IngestionJob[];
+    recent: IngestionJob[];
+  };
 }
 
 export default function KnowledgeSettingsPage() {
@@ -38,12 +166,26 @@ export default function KnowledgeSettingsPage() {
   const [siteId, setSiteId] = useState<string | null>(null);
   const [ingestionStatus, setIngestionStatus] = useState<IngestionStatus | null>(null);
   const [loadingStatus, setLoadingStatus] = useState(false);
-  const [syncing, setSyncing] = useState(false);
+  const [syncing, setSyncing] = useState<'full' | 'delta' | null>(null);
+  const [retryingJobId, setRetryingJobId] = useState<string | null>(null);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
+  const [documentTitle, setDocumentTitle] = useState('');
+  const [uploadingDocument, setUploadingDocument] = useState(false);
+  const [busyDocumentId, setBusyDocumentId] = useState<string | null>(null);
+  const [migration, setMigration] = useState<EmbeddingMigration | null>(null);
+  const [migrationModel, setMigrationModel] = useState('');
+  const [evaluationQueries, setEvaluationQueries] = useState('');
+  const [migrationAction, setMigrationAction] = useState<string | null>(null);
   const [settings, setSettings] = useState({
     include_products: true,
     include_pages: true,
     include_policies: true,
     include_faq: false,
+    include_documents: true,
+    faq_direct_answer_enabled: true,
+    faq_direct_answer_threshold: 0.9,
     auto_index_enabled: true,
     chunk_size: 1000,
     top_k_results: 10,
@@ -52,7 +194,31 @@ export default function KnowledgeSettingsPage() {
     max_chunks_per_source: 3,
     max_sources: 5,
     embedding_model: 'text-embedding-3-small',
+    retrieval_mode: 'vector',
+    rerank_enabled: false,
+    rerank_candidates: 40,
+    query_rewrite_enabled: false,
+    structured_filters_enabled: false,
     recency_bias: false,
+    source_priority: {
+      product: 1.0,
+      page: 1.0,
+      policy: 1.0,
+      faq: 1.0,
+      document: 1.0,
+    },
+    chunking_strategy: {
+      product: 'product',
+      page: 'heading',
+      policy: 'heading',
+      faq: 'sentence',
+      document: 'heading',
+    },
+  });
+  const [llmSettings, setLlmSettings] = useState({
+    provider: 'openai',
+    chat_model: '',
+    embedding_model: '',
   });
 
   useEffect(() => {
@@ -62,13 +228,41 @@ export default function KnowledgeSettingsPage() {
 
     if (id) {
       loadSettings(id);
+      loadLlmSettings(id);
       loadIngestionStatus(id);
+      loadDocuments(id);
+      loadMigration(id);
+    }
+  }, []);
+
+  const loadDocuments = useCallback(async (siteId: string) => {
+    try {
+      const response = await fetch(`/api/knowledge/documents?site_id=${siteId}`);
+      if (!response.ok) {
+        throw new Error('Failed to load documents');
+      }
+      const data = await response.json();
+      setDocuments(data.documents || []);
+    } catch (error) {
+      console.error('Error loading documents:', error);
     }
   }, []);
 
-  const loadIngestionStatus = async (siteId: string) => {
+  const loadMigration = useCallback(async (siteId: string) => {
     try {
-      setLoadingStatus(true);
+      const response = await fetch(`/api/knowledge/embedding-migration?site_id=${siteId}`);
+      if (!response.ok) {
+        throw new Error('Failed to load embedding migration');
+      }
+      setMigration(await response.json());
+    } catch (error) {
+      console.error('Error loading embedding migration:', error);
+    }
+  }, []);
+
+  const loadIngestionStatus = useCallback(async (siteId: string, silent = false) => {
+    try {
+      if (!silent) setLoadingStatus(true);
       const response = await fetch(`/api/ingestion/status?site_id=${siteId}`);
       if (!response.ok) {
         throw new Error('Failed to load ingestion status');
@@ -78,22 +272,210 @@ export default function KnowledgeSettingsPage() {
     } catch (error) {
       console.error('Error loading ingestion status:', error);
     } finally {
-      setLoadingStatus(false);
+      if (!silent) setLoadingStatus(false);
+    }
+  }, []);
+
+  // Follow queued/running jobs (progress and ETA)
+  const hasActiveJobs = (ingestionStatus?.jobs?.active.length || 0) > 0;
+  useEffect(() => {
+    if (!siteId || !hasActiveJobs) return;
+    const interval = setInterval(() => loadIngestionStatus(siteId, true), JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [siteId, hasActiveJobs, loadIngestionStatus]);
+
+  // Follow an index build until it is ready or failed
+  const migrationBuilding = migration?.pending?.status === 'building';
+  useEffect(() => {
+    if (!siteId || !migrationBuilding) return;
+    const interval = setInterval(() => loadMigration(siteId), JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [siteId, migrationBuilding, loadMigration]);
+
+  // Follow documents until they are indexed or failed
+  const hasPendingDocuments = documents.some((doc) => doc.status === 'pending' || doc.status === 'processing');
+  useEffect(() => {
+    if (!siteId || !hasPendingDocuments) return;
+    const interval = setInterval(() => loadDocuments(siteId), JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [siteId, hasPendingDocuments, loadDocuments]);
+
+  const handleUploadDocument = async () => {
+    if (!siteId || !documentFile) return;
+
+    try {
+      setUploadingDocument(true);
+      const formData = new FormData();
+      formData.append('site_id', siteId);
+      formData.append('file', documentFile);
+      if (documentTitle.trim()) {
+        formData.append('title', documentTitle.trim());
+      }
+
+      const response = await fetch('/api/knowledge/documents', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to upload document');
+      }
+
+      setDocumentFile(null);
+      setDocumentTitle('');
+      await loadDocuments(siteId);
+    } catch (error) {
+      console.error('Error uploading document:', error);
+      alert(error instanceof Error ? error.message : 'Failed to upload document');
+    } finally {
+      setUploadingDocument(false);
+    }
+  };
+
+  const handleReplaceDocument = async (documentId: string, file: File) => {
+    if (!siteId) return;
+
+    try {
+      setBusyDocumentId(documentId);
+      const formData = new FormData();
+      formData.append('site_id', siteId);
+      formData.append('file', file);
+
+      const response = await fetch(`/api/knowledge/documents/${documentId}`, {
+        method: 'PUT',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to replace document');
+      }
+
+      await loadDocuments(siteId);
+    } catch (error) {
+      console.error('Error replacing document:', error);
+      alert(error instanceof Error ? error.message : 'Failed to replace document');
+    } finally {
+      setBusyDocumentId(null);
     }
   };
 
-  const handleSync = async () => {
+  const handleDeleteDocument = async (documentId: string) => {
+    if (!siteId) return;
+    if (!confirm('Delete this document? It will be removed from the knowledge base.')) return;
+
+    try {
+      setBusyDocumentId(documentId);
+      const response = await fetch(`/api/knowledge/documents/${documentId}?site_id=${siteId}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to delete document');
+      }
+
+      await loadDocuments(siteId);
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete document');
+    } finally {
+      setBusyDocumentId(null);
+    }
+  };
+
+  const runMigrationAction = async (
+    action: 'start' | 'evaluate' | 'switch' | 'rollback' | 'cancel',
+    body: Record<string, unknown> = {}
+  ) => {
+    if (!siteId) return;
+
+    try {
+      setMigrationAction(action);
+      const response = action === 'cancel'
+        ? await fetch(`/api/knowledge/embedding-migration?site_id=${siteId}`, { method: 'DELETE' })
+        : await fetch('/api/knowledge/embedding-migration', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ site_id: siteId, action, ...body }),
+          });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Embedding migration step failed');
+      }
+
+      await loadMigration(siteId);
+      if (action === 'start' || action === 'switch' || action === 'rollback') {
+        await loadIngestionStatus(siteId, true);
+      }
+    } catch (error) {
+      console.error('Error running embedding migration step:', error);
+      alert(error instanceof Error ? error.message : 'Embedding migration step failed');
+    } finally {
+      setMigrationAction(null);
+    }
+  };
+
+  const handleStartMigration = () => {
+    if (!migrationModel) return;
+    if (!confirm(`Re-embed the whole knowledge base with ${migrationModel}? The current index keeps serving the chat until you switch.`)) {
+      return;
+    }
+    setMigrationModel('');
+    runMigrationAction('start', { model: migrationModel });
+  };
+
+  const handleEvaluateMigration = () => {
+    const queries = evaluationQueries
+      .split('\n')
+      .map((query) => query.trim())
+      .filter((query) => query.length > 0);
+    runMigrationAction('evaluate', queries.length > 0 ? { queries } : {});
+  };
+
+  const handleRetryJob = async (jobId: string) => {
+    if (!siteId) return;
+
+    try {
+      setRetryingJobId(jobId);
+      const response = await fetch(`/api/ingestion/jobs/${jobId}/retry`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to retry job');
+      }
+
+      await loadIngestionStatus(siteId, true);
+    } catch (error) {
+      console.error('Error retrying ingestion job:', error);
+      alert(error instanceof Error ? error.message : 'Failed to retry job');
+    } finally {
+      setRetryingJobId(null);
+    }
+  };
+
+  const handleSync = async (mode: 'full' | 'delta' = 'full') => {
     if (!siteId) {
       alert('Site ID is required');
       return;
     }
 
-    if (!confirm('This will sync all products from WordPress to the knowledge base. This may take a few minutes. Continue?')) {
+    if (mode === 'full' && !confirm('This will sync all products from WordPress to the knowledge base in the background. Continue?')) {
       return;
     }
 
     try {
-      setSyncing(true);
+      setSyncing(mode);
       const response = await fetch('/api/ingestion/sync', {
         method: 'POST',
         headers: {
@@ -101,6 +483,7 @@ export default function KnowledgeSettingsPage() {
         },
         body: JSON.stringify({
           site_id: siteId,
+          mode,
         }),
       });
 
@@ -109,16 +492,13 @@ export default function KnowledgeSettingsPage() {
         throw new Error(error.error?.message || 'Failed to sync products');
       }
 
-      const result = await response.json();
-      alert(`Sync completed!\n\nProducts synced: ${result.products_synced}\nEmbeddings created: ${result.embeddings_created}\nTokens used: ${result.tokens_used}`);
-      
-      // Reload status after sync
+      // Job progress is followed through the status endpoint
       await loadIngestionStatus(siteId);
     } catch (error) {
       console.error('Error syncing products:', error);
       alert(error instanceof Error ? error.message : 'Failed to sync products');
     } finally {
-      setSyncing(false);
+      setSyncing(null);
     }
   };
 
@@ -135,6 +515,9 @@ export default function KnowledgeSettingsPage() {
         include_pages: data.include_pages ?? true,
         include_policies: data.include_policies ?? true,
         include_faq: data.include_faq ?? false,
+        include_documents: data.include_documents ?? true,
+        faq_direct_answer_enabled: data.faq_direct_answer_enabled ?? true,
+        faq_direct_answer_threshold: data.faq_direct_answer_threshold ?? 0.9,
         auto_index_enabled: data.auto_index_enabled ?? true,
         chunk_size: data.chunk_size ?? 1000,
         top_k_results: data.top_k_results ?? 10,
@@ -143,7 +526,26 @@ export default function KnowledgeSettingsPage() {
         max_chunks_per_source: data.max_chunks_per_source ?? 3,
         max_sources: data.max_sources ?? 5,
         embedding_model: data.embedding_model || 'text-embedding-3-small',
+        retrieval_mode: data.retrieval_mode || 'vector',
+        rerank_enabled: data.rerank_enabled ?? false,
+        rerank_candidates: data.rerank_candidates ?? 40,
+        query_rewrite_enabled: data.query_rewrite_enabled ?? false,
+        structured_filters_enabled: data.structured_filters_enabled ?? false,
         recency_bias: data.recency_bias ?? false,
+        source_priority: {
+          product: data.source_priority?.product ?? 1.0,
+          page: data.source_priority?.page ?? 1.0,
+          policy: data.source_priority?.policy ?? 1.0,
+          faq: data.source_priority?.faq ?? 1.0,
+          document: data.source_priority?.document ?? 1.0,
+        },
+        chunking_strategy: {
+          product: data.chunking_strategy?.product || 'product',
+          page: data.chunking_strategy?.page || 'heading',
+          policy: data.chunking_strategy?.policy || 'heading',
+          faq: data.chunking_strategy?.faq || 'sentence',
+          document: data.chunking_strategy?.document || 'heading',
+        },
       });
     } catch (error) {
       console.error('Error loading settings:', error);
@@ -152,6 +554,23 @@ export default function KnowledgeSettingsPage() {
     }
   };
 
+  const loadLlmSettings = async (siteId: string) => {
+    try {
+      const response = await fetch(`/api/llm/settings?site_id=${siteId}`);
+      if (!response.ok) {
+        throw new Error('Failed to load AI provider settings');
+      }
+      const data = await response.json();
+      setLlmSettings({
+        provider: data.provider || 'openai',
+        chat_model: data.chat_model || '',
+        embedding_model: data.embedding_model || '',
+      });
+    } catch (error) {
+      console.error('Error loading AI provider settings:', error);
+    }
+  };
+
   const handleSave = async () => {
     if (!siteId) {
       alert('Site ID is required');
@@ -171,6 +590,9 @@ export default function KnowledgeSettingsPage() {
           include_pages: settings.include_pages,
           include_policies: settings.include_policies,
           include_faq: settings.include_faq,
+          include_documents: settings.include_documents,
+          faq_direct_answer_enabled: settings.faq_direct_answer_enabled,
+          faq_direct_answer_threshold: settings.faq_direct_answer_threshold,
           auto_index_enabled: settings.auto_index_enabled,
           chunk_size: settings.chunk_size,
           top_k_results: settings.top_k_results,
@@ -178,8 +600,14 @@ export default function KnowledgeSettingsPage() {
           max_context_tokens: settings.max_context_tokens,
           max_chunks_per_source: settings.max_chunks_per_source,
           max_sources: settings.max_sources,
-          embedding_model: settings.embedding_model,
+          retrieval_mode: settings.retrieval_mode,
+          rerank_enabled: settings.rerank_enabled,
+          rerank_candidates: settings.rerank_candidates,
+          query_rewrite_enabled: settings.query_rewrite_enabled,
+          structured_filters_enabled: settings.structured_filters_enabled,
           recency_bias: settings.recency_bias,
+          source_priority: settings.source_priority,
+          chunking_strategy: settings.chunking_strategy,
         }),
       });
 
@@ -188,6 +616,24 @@ export default function KnowledgeSettingsPage() {
         throw new Error(error.error?.message || 'Failed to save settings');
       }
 
+      const llmResponse = await fetch('/api/llm/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          site_id: siteId,
+          provider: llmSettings.provider,
+          chat_model: llmSettings.chat_model,
+          embedding_model: llmSettings.embedding_model,
+        }),
+      });
+
+      if (!llmResponse.ok) {
+        const error = await llmResponse.json();
+        throw new Error(error.error?.message || 'Failed to save AI provider settings');
+      }
+
       alert('Settings saved successfully');
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -207,7 +653,25 @@ export default function KnowledgeSettingsPage() {
 
   return (
     <div className="p-6 max-w-4xl mx-auto">
-      <h1 className="text-2xl font-bold text-gray-900 mb-6">Knowledge Base Settings</h1>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Knowledge Base Settings</h1>
+        {siteId && (
+          <div className="flex gap-4">
+            <Link
+              href={`/dashboard/settings/playground?site_id=${siteId}`}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+            >
+              Test in playground →
+            </Link>
+            <Link
+              href={`/dashboard/settings/knowledge-base?site_id=${siteId}`}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+            >
+              Browse indexed content →
+            </Link>
+          </div>
+        )}
+      </div>
 
       {/* Ingestion Status Section */}
       {siteId && (
@@ -223,11 +687,19 @@ export default function KnowledgeSettingsPage() {
                 {loadingStatus ? 'Loading...' : '🔄 Refresh'}
               </button>
               <button
-                onClick={handleSync}
-                disabled={syncing || !siteId}
+                onClick={() => handleSync('delta')}
+                disabled={syncing !== null || !siteId}
+                title="Sync products changed since the last sync and remove unpublished products"
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:bg-gray-50 disabled:text-gray-400 transition-colors"
+              >
+                {syncing === 'delta' ? '⏳ Queueing...' : 'Sync Changes'}
+              </button>
+              <button
+                onClick={() => handleSync('full')}
+                disabled={syncing !== null || !siteId}
                 className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
               >
-                {syncing ? '⏳ Syncing...' : '🚀 Sync Products Now'}
+                {syncing === 'full' ? '⏳ Queueing...' : '🚀 Sync Products Now'}
               </button>
             </div>
           </div>
@@ -255,6 +727,12 @@ export default function KnowledgeSettingsPage() {
                 </div>
               </div>
 
+              <p className="text-xs text-gray-500">
+                {ingestionStatus.last_synced_at
+                  ? `Products synced up to changes from ${new Date(ingestionStatus.last_synced_at).toLocaleString()}. With auto-indexing on, changes are also checked on a schedule.`
+                  : 'Products have not been synced yet.'}
+              </p>
+
               {ingestionStatus.embeddings_count === 0 && (
                 <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
                   <div className="flex items-start">
@@ -274,6 +752,93 @@ export default function KnowledgeSettingsPage() {
                 </div>
               )}
 
+              {ingestionStatus.jobs && ingestionStatus.jobs.recent.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    Ingestion Jobs
+                    {ingestionStatus.jobs.by_status.dead_letter > 0 && (
+                      <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800">
+                        {ingestionStatus.jobs.by_status.dead_letter} failed
+                      </span>
+                    )}
+                  </h3>
+                  <div className="space-y-2">
+                    {ingestionStatus.jobs.recent.slice(0, 10).map((job) => (
+                      <div key={job.id} className="border border-gray-200 rounded-lg p-3">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="min-w-0">
+                            <div className="text-sm text-gray-900">
+                              {job.job_type === 'reindex'
+                                ? `Embedding index v${job.index_version} build`
+                                : job.job_type === 'sync'
+                                ? job.entity_type === 'faq'
+                                  ? 'FAQ sync'
+                                  : job.entity_type === 'document'
+                                    ? 'Document indexing'
+                                    : job.mode === 'delta'
+                                      ? 'Product delta sync'
+                                      : 'Product sync'
+                                : `${job.event || job.entity_type} #${job.entity_id}`}
+                              <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${
+                                job.status === 'completed' ? 'bg-green-100 text-green-800' :
+                                job.status === 'dead_letter' ? 'bg-red-100 text-red-800' :
+                                job.status === 'running' ? 'bg-blue-100 text-blue-800' :
+                                'bg-yellow-100 text-yellow-800'
+                              }`}>
+                                {job.status === 'dead_letter' ? 'failed' : job.status}
+                              </span>
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1">
+                              {new Date(job.created_at).toLocaleString()}
+                              {job.progress.total > 0 && ` · ${job.progress.processed}/${job.progress.total}`}
+                              {job.progress.failed > 0 && ` · ${job.progress.failed} failed`}
+                              {job.status === 'running' && job.eta_seconds !== null && ` · ${formatEta(job.eta_seconds)}`}
+                              {job.next_attempt_at && ` · retry ${job.attempts + 1}/${job.max_attempts} at ${new Date(job.next_attempt_at).toLocaleTimeString()}`}
+                            </div>
+                          </div>
+                          <div className="flex gap-2 flex-shrink-0">
+                            {job.failures.length > 0 && (
+                              <button
+                                onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                                className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                              >
+                                {expandedJobId === job.id ? 'Hide errors' : 'Show errors'}
+                              </button>
+                            )}
+                            {job.can_retry && (
+                              <button
+                                onClick={() => handleRetryJob(job.id)}
+                                disabled={retryingJobId === job.id}
+                                className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+                              >
+                                {retryingJobId === job.id ? 'Retrying...' : job.status === 'dead_letter' ? 'Retry' : 'Retry failed'}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        {(job.status === 'running' || job.status === 'queued') && job.progress.total > 0 && (
+                          <div className="mt-2 h-2 bg-gray-100 rounded">
+                            <div className="h-2 bg-blue-500 rounded" style={{ width: `${job.progress.percent}%` }} />
+                          </div>
+                        )}
+                        {job.last_error && (
+                          <p className="text-xs text-red-600 mt-2 truncate" title={job.last_error}>{job.last_error}</p>
+                        )}
+                        {expandedJobId === job.id && (
+                          <ul className="mt-2 text-xs text-red-600 space-y-1 max-h-40 overflow-y-auto">
+                            {job.failures.map((failure) => (
+                              <li key={`${failure.entity_id}-${failure.at}`}>
+                                #{failure.entity_id}: {failure.error}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {ingestionStatus.ingestion_events.recent.length > 0 && (
                 <div>
                   <h3 className="text-sm font-semibold text-gray-900 mb-2">Recent Ingestion Events</h3>
@@ -294,7 +859,7 @@ export default function KnowledgeSettingsPage() {
                             <td className="px-4 py-2 text-sm">
                               <span className={`px-2 py-1 rounded text-xs font-medium ${
                                 event.status === 'completed' ? 'bg-green-100 text-green-800' :
-                                event.status === 'failed' ? 'bg-red-100 text-red-800' :
+                                event.status === 'failed' || event.status === 'dead_letter' ? 'bg-red-100 text-red-800' :
                                 event.status === 'processing' ? 'bg-blue-100 text-blue-800' :
                                 'bg-yellow-100 text-yellow-800'
                               }`}>
@@ -325,6 +890,96 @@ export default function KnowledgeSettingsPage() {
         </div>
       )}
 
+      {/* Documents Section */}
+      {siteId && (
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Documents</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Upload PDF, DOCX, Markdown, TXT or CSV files (max 10 MB). Text is extracted and indexed in the background; scanned PDFs without a text layer are not supported.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <input
+              type="file"
+              accept={DOCUMENT_ACCEPT}
+              onChange={(e) => setDocumentFile(e.target.files?.[0] || null)}
+              className="text-sm text-gray-700"
+            />
+            <input
+              type="text"
+              value={documentTitle}
+              onChange={(e) => setDocumentTitle(e.target.value)}
+              placeholder="Title (optional, defaults to file name)"
+              className="flex-1 min-w-[200px] px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <button
+              onClick={handleUploadDocument}
+              disabled={uploadingDocument || !documentFile}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              {uploadingDocument ? 'Uploading...' : 'Upload'}
+            </button>
+          </div>
+
+          {documents.length === 0 ? (
+            <p className="text-sm text-gray-600">No documents uploaded yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {documents.map((doc) => (
+                <div key={doc.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{doc.title}</div>
+                      <div className="text-xs text-gray-500">
+                        {doc.file_name} · {doc.file_type.toUpperCase()} · {formatFileSize(doc.file_size)} · v{doc.version}
+                        {doc.indexed_at && ` · indexed ${new Date(doc.indexed_at).toLocaleString()}`}
+                      </div>
+                      {doc.status === 'failed' && doc.error_message && (
+                        <div className="text-xs text-red-600 mt-1">{doc.error_message}</div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${
+                        doc.status === 'indexed' ? 'bg-green-100 text-green-800' :
+                        doc.status === 'failed' ? 'bg-red-100 text-red-800' :
+                        doc.status === 'processing' ? 'bg-blue-100 text-blue-800' :
+                        'bg-yellow-100 text-yellow-800'
+                      }`}>
+                        {doc.status}
+                      </span>
+                      <label
+                        className={`px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 ${
+                          busyDocumentId === doc.id ? 'opacity-50 pointer-events-none' : 'cursor-pointer'
+                        }`}
+                      >
+                        Replace
+                        <input
+                          type="file"
+                          accept={DOCUMENT_ACCEPT}
+                          className="hidden"
+                          onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = '';
+                            if (file) handleReplaceDocument(doc.id, file);
+                          }}
+                        />
+                      </label>
+                      <button
+                        onClick={() => handleDeleteDocument(doc.id)}
+                        disabled={busyDocumentId === doc.id}
+                        className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:text-gray-400"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="bg-white rounded-lg shadow p-6 space-y-8">
         {/* Content Sources Section */}
         <div className="border-b pb-6">
@@ -386,7 +1041,72 @@ export default function KnowledgeSettingsPage() {
               />
               <div>
                 <span className="font-medium text-gray-900">Include FAQ</span>
-                <p className="text-sm text-gray-600">Frequently asked questions and answers</p>
+                <p className="text-sm text-gray-600">
+                  Frequently asked questions and answers.{' '}
+                  {siteId && (
+                    <Link
+                      href={`/dashboard/settings/faq?site_id=${siteId}`}
+                      className="text-indigo-600 hover:text-indigo-800 font-medium"
+                    >
+                      Manage FAQs
+                    </Link>
+                  )}
+                </p>
+              </div>
+            </label>
+            {settings.include_faq && (
+              <div className="ml-6 space-y-3">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={settings.faq_direct_answer_enabled}
+                    onChange={(e) =>
+                      setSettings({ ...settings, faq_direct_answer_enabled: e.target.checked })
+                    }
+                    className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <div>
+                    <span className="font-medium text-gray-900">Answer FAQ Matches Directly</span>
+                    <p className="text-sm text-gray-600">
+                      When a question closely matches an FAQ, reply with its answer without calling the AI model (no chat tokens used)
+                    </p>
+                  </div>
+                </label>
+                {settings.faq_direct_answer_enabled && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-900 mb-2">
+                      Direct Answer Similarity: {settings.faq_direct_answer_threshold.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0.8"
+                      max="0.99"
+                      step="0.01"
+                      value={settings.faq_direct_answer_threshold}
+                      onChange={(e) =>
+                        setSettings({ ...settings, faq_direct_answer_threshold: parseFloat(e.target.value) })
+                      }
+                      className="w-full"
+                    />
+                    <p className="text-sm text-gray-600 mt-1">
+                      Minimum similarity between the question and an FAQ. Lower values answer more questions directly, but may pick the wrong FAQ. Recommended: 0.90.
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={settings.include_documents}
+                onChange={(e) =>
+                  setSettings({ ...settings, include_documents: e.target.checked })
+                }
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              <div>
+                <span className="font-medium text-gray-900">Include Documents</span>
+                <p className="text-sm text-gray-600">Uploaded files such as size guides, care instructions and warranty terms</p>
               </div>
             </label>
           </div>
@@ -434,6 +1154,41 @@ export default function KnowledgeSettingsPage() {
                 Size of text chunks for embedding. Larger chunks = more context, but may be less precise. Recommended: 800-1200 characters.
               </p>
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Chunking Strategy
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                {(['product', 'page', 'policy', 'faq', 'document'] as const).map((sourceType) => (
+                  <div key={sourceType}>
+                    <label className="block text-sm text-gray-700 mb-1 capitalize">{sourceType}</label>
+                    <select
+                      value={settings.chunking_strategy[sourceType]}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          chunking_strategy: {
+                            ...settings.chunking_strategy,
+                            [sourceType]: e.target.value,
+                          },
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    >
+                      {CHUNKING_STRATEGY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                How content is split before embedding. Headings keep page and policy sections together so answers can cite the right section; short products work best as a single chunk. Changes apply when content is re-indexed (run a sync).
+              </p>
+            </div>
           </div>
         </div>
 
@@ -537,33 +1292,252 @@ export default function KnowledgeSettingsPage() {
                 Maximum number of unique sources (products/pages) to include in context. Recommended: 3-7.
               </p>
             </div>
-          </div>
-        </div>
 
-        {/* Advanced Settings Section */}
-        <div className="pb-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Advanced Settings</h2>
-          <div className="space-y-4">
             <div>
               <label className="block text-sm font-medium text-gray-900 mb-2">
-                Embedding Model
+                Retrieval Mode
               </label>
               <select
-                value={settings.embedding_model}
+                value={settings.retrieval_mode}
                 onChange={(e) =>
-                  setSettings({ ...settings, embedding_model: e.target.value as any })
+                  setSettings({ ...settings, retrieval_mode: e.target.value })
                 }
                 className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
               >
-                <option value="text-embedding-3-small">text-embedding-3-small (Fast, Cost-effective)</option>
-                <option value="text-embedding-3-large">text-embedding-3-large (More accurate, Higher cost)</option>
-                <option value="text-embedding-ada-002">text-embedding-ada-002 (Legacy, Lower cost)</option>
+                <option value="vector">Vector (semantic similarity)</option>
+                <option value="keyword">Keyword (full-text search)</option>
+                <option value="hybrid">Hybrid (vector + keyword)</option>
               </select>
               <p className="text-sm text-gray-600 mt-1">
-                OpenAI embedding model to use. Larger models = better accuracy but higher cost.
+                Hybrid combines semantic and keyword results, which helps with exact SKU lookups, brand names and short queries. Similarity threshold applies to vector results only.
               </p>
             </div>
 
+            <div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={settings.query_rewrite_enabled}
+                  onChange={(e) =>
+                    setSettings({ ...settings, query_rewrite_enabled: e.target.checked })
+                  }
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <div>
+                  <span className="font-medium text-gray-900">Conversation-Aware Search</span>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Rewrite follow-up questions (e.g. &quot;what about in blue?&quot;) into standalone search queries using the conversation history. Adds one short AI call per message.
+                  </p>
+                </div>
+              </label>
+            </div>
+
+            <div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={settings.structured_filters_enabled}
+                  onChange={(e) =>
+                    setSettings({ ...settings, structured_filters_enabled: e.target.checked })
+                  }
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <div>
+                  <span className="font-medium text-gray-900">Smart Product Filters</span>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Detect price, stock, category, brand and attribute constraints in the question (e.g. &quot;crvene patike ispod 5000 din&quot;) and only retrieve matching products. Uses product data from the last sync and adds one short AI call per message.
+                  </p>
+                </div>
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {/* Advanced Settings Section */}
+        <div className="border-b pb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Advanced Settings</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Embedding Model
+              </label>
+              <div className="text-sm text-gray-900">
+                Active: <span className="font-medium">{migration?.active?.model || settings.embedding_model}</span>
+                {migration?.active && ` (index v${migration.active.version})`}
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                Changing the model re-embeds the whole knowledge base into a new index in the background. The chat keeps using the current index until you compare both and switch.
+              </p>
+
+              {migration?.pending ? (
+                <div className="mt-3 border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="text-sm text-gray-900">
+                      New index v{migration.pending.version}: {migration.pending.model}
+                      <span className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${
+                        migration.pending.status === 'ready' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800'
+                      }`}>
+                        {migration.pending.status}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => {
+                        if (confirm('Cancel the migration? The new index will be deleted.')) {
+                          runMigrationAction('cancel');
+                        }
+                      }}
+                      disabled={migrationAction !== null}
+                      className="px-3 py-1 text-xs font-medium text-red-700 bg-red-50 rounded-md hover:bg-red-100 disabled:text-gray-400"
+                    >
+                      {migrationAction === 'cancel' ? 'Cancelling...' : 'Cancel migration'}
+                    </button>
+                  </div>
+
+                  {migration.job && migration.pending.status === 'building' && (
+                    <div>
+                      <div className="text-xs text-gray-500">
+                        {migration.job.total > 0
+                          ? `${migration.job.processed}/${migration.job.total} items`
+                          : 'Listing content...'}
+                        {migration.job.failed > 0 && ` · ${migration.job.failed} failed`}
+                        {migration.job.status === 'running' && migration.job.eta_seconds !== null && ` · ${formatEta(migration.job.eta_seconds)}`}
+                      </div>
+                      <div className="mt-2 h-2 bg-gray-100 rounded">
+                        <div className="h-2 bg-blue-500 rounded" style={{ width: `${migration.job.percent}%` }} />
+                      </div>
+                      {migration.job.last_error && (
+                        <p className="text-xs text-red-600 mt-2 truncate" title={migration.job.last_error}>{migration.job.last_error}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {migration.pending.status === 'ready' && (
+                    <div className="space-y-3">
+                      <div>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          Test queries (one per line, optional)
+                        </label>
+                        <textarea
+                          value={evaluationQueries}
+                          onChange={(e) => setEvaluationQueries(e.target.value)}
+                          rows={3}
+                          placeholder="Leave empty to use recent visitor questions"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={handleEvaluateMigration}
+                          disabled={migrationAction !== null}
+                          className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400"
+                        >
+                          {migrationAction === 'evaluate' ? 'Comparing...' : 'Compare with active index'}
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`Switch the chat to ${migration.pending?.model}? You can roll back afterwards.`)) {
+                              runMigrationAction('switch');
+                            }
+                          }}
+                          disabled={migrationAction !== null || !migration.pending.evaluation}
+                          title={migration.pending.evaluation ? undefined : 'Compare the indexes first'}
+                          className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300"
+                        >
+                          {migrationAction === 'switch' ? 'Switching...' : 'Switch to new index'}
+                        </button>
+                      </div>
+
+                      {migration.pending.evaluation && (
+                        <div className="text-xs text-gray-700">
+                          <div className="mb-2">
+                            {migration.pending.evaluation.summary.query_count} queries ·
+                            {' '}{Math.round(migration.pending.evaluation.summary.average_overlap * 100)}% source overlap ·
+                            {' '}answers found: active {Math.round(migration.pending.evaluation.summary.active_hit_rate * 100)}%,
+                            {' '}new {Math.round(migration.pending.evaluation.summary.candidate_hit_rate * 100)}%
+                          </div>
+                          <table className="min-w-full divide-y divide-gray-200">
+                            <thead className="bg-gray-50">
+                              <tr>
+                                <th className="px-2 py-1 text-left font-medium text-gray-500">Query</th>
+                                <th className="px-2 py-1 text-left font-medium text-gray-500">Active</th>
+                                <th className="px-2 py-1 text-left font-medium text-gray-500">New</th>
+                                <th className="px-2 py-1 text-left font-medium text-gray-500">Overlap</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200">
+                              {migration.pending.evaluation.queries.map((result) => (
+                                <tr key={result.query}>
+                                  <td className="px-2 py-1 text-gray-900">{result.query}</td>
+                                  <td className="px-2 py-1">
+                                    {result.active.sources.length} sources
+                                    {result.active.best_similarity !== null && ` · ${(result.active.best_similarity * 100).toFixed(0)}%`}
+                                  </td>
+                                  <td className="px-2 py-1">
+                                    {result.candidate.sources.length} sources
+                                    {result.candidate.best_similarity !== null && ` · ${(result.candidate.best_similarity * 100).toFixed(0)}%`}
+                                  </td>
+                                  <td className={`px-2 py-1 ${result.overlap < 0.5 ? 'text-red-600' : 'text-gray-900'}`}>
+                                    {Math.round(result.overlap * 100)}%
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="mt-3 flex gap-2">
+                  <select
+                    value={migrationModel}
+                    onChange={(e) => setMigrationModel(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                  >
+                    <option value="">Choose a new model...</option>
+                    {EMBEDDING_MODEL_OPTIONS.filter(
+                      (option) => option.value !== (migration?.active?.model || settings.embedding_model)
+                    ).map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleStartMigration}
+                    disabled={!migrationModel || migrationAction !== null}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+                  >
+                    {migrationAction === 'start' ? 'Starting...' : 'Re-embed'}
+                  </button>
+                </div>
+              )}
+
+              {!migration?.pending && migration?.indexes.some((index) => index.status === 'failed') && (
+                <p className="text-sm text-red-600 mt-2">
+                  The last index build failed: {migration.indexes.find((index) => index.status === 'failed')?.error_message}
+                </p>
+              )}
+
+              {migration?.previous && (
+                <div className="mt-3 flex items-center justify-between gap-4 text-sm text-gray-600">
+                  <span>
+                    Previous index v{migration.previous.version} ({migration.previous.model}) is kept for rollback until the next migration.
+                  </span>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Switch the chat back to ${migration.previous?.model}?`)) {
+                        runMigrationAction('rollback');
+                      }
+                    }}
+                    disabled={migrationAction !== null}
+                    className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:text-gray-400 flex-shrink-0"
+                  >
+                    {migrationAction === 'rollback' ? 'Rolling back...' : 'Roll back'}
+                  </button>
+                </div>
+              )}
+            </div>
+
             <div>
               <label className="flex items-center space-x-2">
                 <input
@@ -582,6 +1556,144 @@ export default function KnowledgeSettingsPage() {
                 </div>
               </label>
             </div>
+
+            <div>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={settings.rerank_enabled}
+                  onChange={(e) =>
+                    setSettings({ ...settings, rerank_enabled: e.target.checked })
+                  }
+                  className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                <div>
+                  <span className="font-medium text-gray-900">AI Reranking</span>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Retrieve more candidates and let the AI model score their relevance before picking the top results. Better answers, slightly slower and more tokens per message.
+                  </p>
+                </div>
+              </label>
+            </div>
+
+            {settings.rerank_enabled && (
+              <div>
+                <label className="block text-sm font-medium text-gray-900 mb-2">
+                  Rerank Candidates
+                </label>
+                <input
+                  type="number"
+                  min="10"
+                  max="100"
+                  step="5"
+                  value={settings.rerank_candidates}
+                  onChange={(e) =>
+                    setSettings({ ...settings, rerank_candidates: parseInt(e.target.value) || 40 })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <p className="text-sm text-gray-600 mt-1">
+                  Number of chunks retrieved before reranking. Recommended: 30-50.
+                </p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Source Priority
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                {(['product', 'page', 'policy', 'faq', 'document'] as const).map((sourceType) => (
+                  <div key={sourceType}>
+                    <label className="block text-sm text-gray-700 mb-1 capitalize">{sourceType}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="3"
+                      step="0.1"
+                      value={settings.source_priority[sourceType]}
+                      onChange={(e) =>
+                        setSettings({
+                          ...settings,
+                          source_priority: {
+                            ...settings.source_priority,
+                            [sourceType]: parseFloat(e.target.value) || 0,
+                          },
+                        })
+                      }
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-gray-600 mt-1">
+                Ranking weight per content type (1.0 = neutral). For example, set Policy to 1.5 to prefer policy pages for shipping and returns questions.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* AI Provider Section */}
+        <div className="pb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">AI Provider</h2>
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Provider
+              </label>
+              <select
+                value={llmSettings.provider}
+                onChange={(e) =>
+                  setLlmSettings({ ...llmSettings, provider: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              >
+                <option value="openai">OpenAI</option>
+                <option value="azure">Azure OpenAI</option>
+                <option value="openai_compatible">OpenAI-compatible endpoint (vLLM, Ollama)</option>
+                <option value="fake">Test provider (offline, deterministic replies)</option>
+              </select>
+              <p className="text-sm text-gray-600 mt-1">
+                Endpoints and API keys are configured on the server. Changing the provider or embedding model requires re-syncing the knowledge base.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Chat Model
+              </label>
+              <input
+                type="text"
+                value={llmSettings.chat_model}
+                onChange={(e) =>
+                  setLlmSettings({ ...llmSettings, chat_model: e.target.value })
+                }
+                placeholder="Provider default (e.g. gpt-4o)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="text-sm text-gray-600 mt-1">
+                Model or Azure deployment name. Leave empty to use the server default.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Embedding Model Override
+              </label>
+              <input
+                type="text"
+                value={llmSettings.embedding_model}
+                onChange={(e) =>
+                  setLlmSettings({ ...llmSettings, embedding_model: e.target.value })
+                }
+                placeholder="Use Embedding Model setting above"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="text-sm text-gray-600 mt-1">
+                Required for non-OpenAI providers unless set on the server. The model must produce 1536-dimensional vectors.
+                Existing embeddings are not re-embedded; to change the model of an existing knowledge base, use Re-embed above.
+              </p>
+            </div>
           </div>
         </div>
 
@@ -0,0 +1,534 @@
+/**
+ * Retrieval Playground Page
+ *
+ * Runs a query through the chat pipeline with up to two knowledge settings
+ * variants side by side and saves the better one to the knowledge settings
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+interface Variant {
+  top_k_results: number;
+  similarity_threshold: number;
+  retrieval_mode: RetrievalMode;
+  rerank_enabled: boolean;
+  max_context_tokens: number;
+  max_chunks_per_source: number;
+  max_sources: number;
+  chunk_size: number;
+}
+
+interface RetrievalResult {
+  index_time_changes: string[];
+  chunks: Array<{
+    id: string;
+    entity_type: string;
+    entity_id: string;
+    title: string | null;
+    similarity: number;
+    vector_similarity: number | null;
+    keyword_rank: number | null;
+    rerank_score: number | null;
+    match_source: string | null;
+    content_text: string;
+  }>;
+  context_blocks: Array<{
+    sourceType: string;
+    sourceId: string;
+    title?: string;
+    url?: string;
+    content: string;
+    similarity: number;
+  }>;
+  system_prompt: string;
+  direct_answer: { question: string; similarity: number } | null;
+  retrieval_ms: number;
+}
+
+interface RunState {
+  status: 'idle' | 'running' | 'done' | 'error';
+  retrieval: RetrievalResult | null;
+  answer: string;
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+  error: string | null;
+}
+
+const EMPTY_RUN: RunState = { status: 'idle', retrieval: null, answer: '', usage: null, error: null };
+
+const VARIANT_LABELS = ['A', 'B'] as const;
+
+function formatPercent(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Read a server-sent event stream of JSON "data:" frames
+ */
+async function readEvents(response: Response, onEvent: (event: any) => void): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        onEvent(JSON.parse(line.slice(6)));
+      }
+    }
+  }
+}
+
+export default function RetrievalPlaygroundPage() {
+  const [siteId, setSiteId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saved, setSaved] = useState<Variant | null>(null);
+  const [variants, setVariants] = useState<Variant[]>([]);
+  const [compare, setCompare] = useState(true);
+  const [query, setQuery] = useState('');
+  const [runs, setRuns] = useState<RunState[]>([EMPTY_RUN, EMPTY_RUN]);
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+
+  const loadSettings = useCallback(async (id: string) => {
+    try {
+      const response = await fetch(`/api/knowledge/settings?site_id=${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load settings');
+      }
+      const data = await response.json();
+      const current: Variant = {
+        top_k_results: data.top_k_results ?? 10,
+        similarity_threshold: data.similarity_threshold ?? 0.5,
+        retrieval_mode: data.retrieval_mode || 'vector',
+        rerank_enabled: data.rerank_enabled ?? false,
+        max_context_tokens: data.max_context_tokens ?? 4000,
+        max_chunks_per_source: data.max_chunks_per_source ?? 3,
+        max_sources: data.max_sources ?? 5,
+        chunk_size: data.chunk_size ?? 1000,
+      };
+      setSaved(current);
+      setVariants([current, { ...current }]);
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const id = urlParams.get('site_id');
+    setSiteId(id);
+
+    if (id) {
+      loadSettings(id);
+    } else {
+      setLoading(false);
+    }
+  }, [loadSettings]);
+
+  const updateVariant = (index: number, changes: Partial<Variant>) => {
+    setVariants((current) => current.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const updateRun = (index: number, update: (run: RunState) => RunState) => {
+    setRuns((current) => current.map((run, i) => (i === index ? update(run) : run)));
+  };
+
+  const runVariant = async (index: number) => {
+    if (!siteId) return;
+
+    updateRun(index, () => ({ ...EMPTY_RUN, status: 'running' }));
+
+    try {
+      const response = await fetch('/api/knowledge/playground', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId, query, variant: variants[index] }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Playground run failed');
+      }
+
+      await readEvents(response, (event) => {
+        if (event.type === 'retrieval') {
+          updateRun(index, (run) => ({ ...run, retrieval: event }));
+        } else if (event.type === 'chunk') {
+          updateRun(index, (run) => ({ ...run, answer: run.answer + event.content }));
+        } else if (event.type === 'done') {
+          updateRun(index, (run) => ({ ...run, status: 'done', usage: event.usage }));
+        } else if (event.type === 'error') {
+          updateRun(index, (run) => ({ ...run, status: 'error', error: event.message }));
+        }
+      });
+    } catch (error) {
+      console.error('Error running playground query:', error);
+      updateRun(index, (run) => ({
+        ...run,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Playground run failed',
+      }));
+    }
+  };
+
+  const handleRun = async () => {
+    if (!query.trim()) return;
+    setRuns([EMPTY_RUN, EMPTY_RUN]);
+    await Promise.all((compare ? [0, 1] : [0]).map((index) => runVariant(index)));
+  };
+
+  const handleSave = async (index: number) => {
+    if (!siteId) return;
+    if (!confirm(`Save variant ${VARIANT_LABELS[index]} as the knowledge settings for this site?`)) return;
+
+    try {
+      setSavingIndex(index);
+      const response = await fetch('/api/knowledge/settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ site_id: siteId, ...variants[index] }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error?.message || 'Failed to save settings');
+      }
+
+      setSaved({ ...variants[index] });
+      alert(
+        variants[index].chunk_size !== saved?.chunk_size
+          ? 'Settings saved. The new chunk size applies to content indexed from now on; run a full sync to re-chunk existing content.'
+          : 'Settings saved.'
+      );
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save settings');
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <p>Loading playground...</p>
+      </div>
+    );
+  }
+
+  const running = runs.some((run) => run.status === 'running');
+  const visibleVariants = compare ? [0, 1] : [0];
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500';
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Retrieval Playground</h1>
+        {siteId && (
+          <div className="flex gap-4">
+            <Link
+              href={`/dashboard/settings/evals?site_id=${siteId}`}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+            >
+              Evaluation →
+            </Link>
+            <Link
+              href={`/dashboard/settings/knowledge?site_id=${siteId}`}
+              className="text-sm font-medium text-indigo-600 hover:text-indigo-700"
+            >
+              Knowledge settings →
+            </Link>
+          </div>
+        )}
+      </div>
+
+      {!siteId || !saved ? (
+        <div className="bg-white rounded-lg shadow p-6">
+          <p className="text-gray-600">Select a site to test its retrieval settings.</p>
+        </div>
+      ) : (
+        <>
+          {/* Query */}
+          <div className="bg-white rounded-lg shadow p-6 mb-6">
+            <label className="block text-sm font-medium text-gray-900 mb-2">Customer question</label>
+            <textarea
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              maxLength={1000}
+              rows={2}
+              placeholder="e.g. Do you have waterproof hiking boots under 100 EUR?"
+              className={inputClass}
+            />
+            <div className="flex flex-wrap items-center justify-between gap-4 mt-4">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={compare}
+                  onChange={(e) => setCompare(e.target.checked)}
+                  className="mr-2"
+                />
+                Compare two variants side by side
+              </label>
+              <button
+                onClick={handleRun}
+                disabled={running || !query.trim()}
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+              >
+                {running ? 'Running...' : 'Run'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-3">
+              Runs the same retrieval, context and prompt as the chat without conversation history or live catalog
+              tools. Answers count toward chat usage and are not saved as conversations.
+            </p>
+          </div>
+
+          <div className={`grid gap-6 ${compare ? 'lg:grid-cols-2' : ''}`}>
+            {visibleVariants.map((index) => {
+              const variant = variants[index];
+              const run = runs[index];
+              return (
+                <div key={index} className="space-y-6 min-w-0">
+                  {/* Variant settings */}
+                  <div className="bg-white rounded-lg shadow p-6">
+                    <div className="flex justify-between items-center mb-4">
+                      <h2 className="text-lg font-semibold text-gray-900">Variant {VARIANT_LABELS[index]}</h2>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => updateVariant(index, { ...saved })}
+                          className="px-3 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+                        >
+                          Reset to saved
+                        </button>
+                        <button
+                          onClick={() => handleSave(index)}
+                          disabled={savingIndex !== null}
+                          className="px-3 py-1 text-xs font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:bg-gray-300"
+                        >
+                          {savingIndex === index ? 'Saving...' : 'Save to settings'}
+                        </button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                      <label className="block">
+                        <span className="block font-medium text-gray-900 mb-1">Top K results</span>
+                        <input
+                          type="number"
+                          min="1"
+                          max="20"
+                          value={variant.top_k_results}
+                          onChange={(e) => updateVariant(index, { top_k_results: parseInt(e.target.value, 10) || 1 })}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="block font-medium text-gray-900 mb-1">Similarity threshold</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="1"
+                          step="0.05"
+                          value={variant.similarity_threshold}
+                          onChange={(e) =>
+                            updateVariant(index, { similarity_threshold: parseFloat(e.target.value) || 0 })
+                          }
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="block font-medium text-gray-900 mb-1">Retrieval mode</span>
+                        <select
+                          value={variant.retrieval_mode}
+                          onChange={(e) => updateVariant(index, { retrieval_mode: e.target.value as RetrievalMode })}
+                          className={inputClass}
+                        >
+                          <option value="vector">Vector</option>
+                          <option value="keyword">Keyword</option>
+                          <option value="hybrid">Hybrid</option>
+                        </select>
+                      </label>
+                      <label className="block">
+                        <span className="block font-medium text-gray-900 mb-1">Max context tokens</span>
+                        <input
+                          type="number"
+                          min="1000"
+                          max="8000"
+                          step="500"
+                          value={variant.max_context_tokens}
+                          onChange={(e) =>
+                            updateVariant(index, { max_context_tokens: parseInt(e.target.value, 10) || 1000 })
+                          }
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="block font-medium text-gray-900 mb-1">Max sources</span>
+                        <input
+                          type="number"
+                          min="1"
+                          max="10"
+                          value={variant.max_sources}
+                          onChange={(e) => updateVariant(index, { max_sources: parseInt(e.target.value, 10) || 1 })}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="block font-medium text-gray-900 mb-1">Max chunks per source</span>
+                        <input
+                          type="number"
+                          min="1"
+                          max="10"
+                          value={variant.max_chunks_per_source}
+                          onChange={(e) =>
+                            updateVariant(index, { max_chunks_per_source: parseInt(e.target.value, 10) || 1 })
+                          }
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="block font-medium text-gray-900 mb-1">Chunk size</span>
+                        <input
+                          type="number"
+                          min="500"
+                          max="2000"
+                          step="100"
+                          value={variant.chunk_size}
+                          onChange={(e) => updateVariant(index, { chunk_size: parseInt(e.target.value, 10) || 500 })}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="flex items-center mt-6 text-gray-900">
+                        <input
+                          type="checkbox"
+                          checked={variant.rerank_enabled}
+                          onChange={(e) => updateVariant(index, { rerank_enabled: e.target.checked })}
+                          className="mr-2"
+                        />
+                        LLM reranking
+                      </label>
+                    </div>
+                  </div>
+
+                  {/* Results */}
+                  {run.status !== 'idle' && (
+                    <div className="bg-white rounded-lg shadow p-6">
+                      <h3 className="text-md font-semibold text-gray-900 mb-2">Answer</h3>
+                      {run.error && <p className="text-sm text-red-700 mb-2">{run.error}</p>}
+                      <p className="text-sm text-gray-900 whitespace-pre-line">
+                        {run.answer || (run.status === 'running' ? 'Generating...' : '—')}
+                      </p>
+                      {run.retrieval?.direct_answer && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          Answered directly from the FAQ &quot;{run.retrieval.direct_answer.question}&quot; (
+                          {formatPercent(run.retrieval.direct_answer.similarity)}), without an LLM call.
+                        </p>
+                      )}
+                      {run.usage && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          {run.usage.prompt_tokens} prompt + {run.usage.completion_tokens} completion tokens
+                        </p>
+                      )}
+
+                      {run.retrieval && (
+                        <>
+                          {run.retrieval.index_time_changes.length > 0 && (
+                            <p className="text-xs text-yellow-800 bg-yellow-50 rounded p-2 mt-4">
+                              {run.retrieval.index_time_changes.join(', ')} only applies to newly indexed content;
+                              this run searched the current index.
+                            </p>
+                          )}
+
+                          <h3 className="text-md font-semibold text-gray-900 mt-6 mb-2">
+                            Retrieved chunks ({run.retrieval.chunks.length}, {run.retrieval.retrieval_ms} ms)
+                          </h3>
+                          {run.retrieval.chunks.length === 0 ? (
+                            <p className="text-sm text-gray-600">No chunks passed the threshold.</p>
+                          ) : (
+                            <div className="space-y-2">
+                              {run.retrieval.chunks.map((chunk, position) => (
+                                <details key={chunk.id} className="border border-gray-200 rounded p-2 text-sm">
+                                  <summary className="cursor-pointer text-gray-900">
+                                    <span className="font-medium">#{position + 1}</span>{' '}
+                                    {chunk.title || `${chunk.entity_type}:${chunk.entity_id}`}
+                                    <span className="text-gray-500">
+                                      {' '}
+                                      · {chunk.entity_type} · score {formatPercent(chunk.similarity)}
+                                      {chunk.vector_similarity !== null &&
+                                        ` · cosine ${formatPercent(chunk.vector_similarity)}`}
+                                      {chunk.keyword_rank !== null && ` · keyword #${chunk.keyword_rank}`}
+                                      {chunk.rerank_score !== null && ` · rerank ${chunk.rerank_score.toFixed(3)}`}
+                                    </span>
+                                  </summary>
+                                  <p className="mt-2 text-gray-700 whitespace-pre-line">{chunk.content_text}</p>
+                                </details>
+                              ))}
+                            </div>
+                          )}
+
+                          <h3 className="text-md font-semibold text-gray-900 mt-6 mb-2">
+                            Context blocks ({run.retrieval.context_blocks.length})
+                          </h3>
+                          <div className="space-y-2">
+                            {run.retrieval.context_blocks.map((block) => (
+                              <details
+                                key={`${block.sourceType}:${block.sourceId}`}
+                                className="border border-gray-200 rounded p-2 text-sm"
+                              >
+                                <summary className="cursor-pointer text-gray-900">
+                                  {block.title || `${block.sourceType}:${block.sourceId}`}
+                                  <span className="text-gray-500">
+                                    {' '}
+                                    · {block.sourceType} · {formatPercent(block.similarity)} · {block.content.length}{' '}
+                                    chars
+                                  </span>
+                                </summary>
+                                <pre className="mt-2 p-2 text-xs text-gray-800 bg-gray-50 rounded whitespace-pre-wrap">
+                                  {block.content}
+                                </pre>
+                              </details>
+                            ))}
+                          </div>
+
+                          <details className="mt-6">
+                            <summary className="text-md font-semibold text-gray-900 cursor-pointer">
+                              System prompt ({run.retrieval.system_prompt.length} chars)
+                            </summary>
+                            <pre className="mt-2 p-2 text-xs text-gray-800 bg-gray-50 rounded whitespace-pre-wrap">
+                              {run.retrieval.system_prompt}
+                            </pre>
+                          </details>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
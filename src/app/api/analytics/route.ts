@@ -139,6 +139,32 @@ export async function GET(req: NextRequest) {
     const productViews = chatEvents?.filter(e => e.event_type === 'view').length || 0;
     const productClicks = chatEvents?.filter(e => e.event_type === 'click').length || 0;
     const addToCart = chatEvents?.filter(e => e.event_type === 'add_to_cart').length || 0;
+    const suggestionClicks = chatEvents?.filter(e => e.event_type === 'suggestion_click').length || 0;
+    const purchaseEvents = chatEvents?.filter(e => e.event_type === 'purchase') || [];
+    const purchaseRevenue = purchaseEvents.reduce(
+      (sum, e) => sum + (parseFloat((e.payload as any)?.total) || 0),
+      0
+    );
+
+    // Proactive triggers: impressions and conversions per trigger
+    const proactiveByTrigger: Record<string, { trigger_id: string; trigger_type: string | null; impressions: number; conversions: number }> = {};
+    chatEvents
+      ?.filter(e => e.event_type === 'proactive_impression' || e.event_type === 'proactive_conversion')
+      .forEach(e => {
+        const payload = (e.payload as any) || {};
+        const triggerId = String(payload.trigger_id || 'unknown');
+        const stats = proactiveByTrigger[triggerId] ||= {
+          trigger_id: triggerId,
+          trigger_type: payload.trigger_type || null,
+          impressions: 0,
+          conversions: 0,
+        };
+        if (e.event_type === 'proactive_impression') {
+          stats.impressions++;
+        } else {
+          stats.conversions++;
+        }
+      });
 
     // Calculate daily trends
     const dailyStats = usageStats?.map(stat => ({
@@ -178,7 +204,11 @@ export async function GET(req: NextRequest) {
         product_views: productViews,
         product_clicks: productClicks,
         add_to_cart: addToCart,
+        purchases: purchaseEvents.length,
+        purchase_revenue: Math.round(purchaseRevenue * 100) / 100,
+        suggestion_clicks: suggestionClicks,
       },
+      proactive: Object.values(proactiveByTrigger).sort((a, b) => b.impressions - a.impressions),
       daily: {
         conversations: conversationsByDay,
         messages: messagesByDay,
@@ -9,6 +9,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withRuntimeValidation } from '@/middleware/runtime-validation';
 import { bootstrapSession } from '@/lib/chat/session';
+import { getHandoffState } from '@/lib/chat/handoff';
+import { createHistoryToken } from '@/lib/chat/history';
+import { readProactiveTriggers } from '@/lib/chat/proactive';
+import { readStarterQuestions } from '@/lib/chat/suggestions';
 
 async function bootstrapHandler(
   req: NextRequest,
@@ -59,14 +63,24 @@ async function bootstrapHandler(
       use_gradient: chatSettings.use_gradient !== false,
       bubble_position: chatSettings.bubble_position || 'bottom-right',
       delay_seconds: chatSettings.delay_seconds ?? 0,
+      proactive_triggers: readProactiveTriggers(chatSettings)
+        .filter((trigger) => trigger.enabled)
+        .map(({ enabled, ...trigger }) => trigger),
+      starter_questions: readStarterQuestions(chatSettings),
     };
 
+    // Widget resumes polling for agent replies if a handoff is open
+    const handoff = await getHandoffState(site_id, sessionInfo.conversationId);
+
     const response = NextResponse.json({
       visitor_id: sessionInfo.visitorId,
       conversation_id: sessionInfo.conversationId,
       welcome_back: sessionInfo.welcomeBack,
       session: sessionInfo.session,
       chat_config: chatConfig,
+      handoff_status: handoff?.status || 'none',
+      // Lets the widget restore the conversation (GET /api/chat/history)
+      history_token: createHistoryToken(site, sessionInfo.visitorId, sessionInfo.conversationId),
     });
 
     // Add CORS headers
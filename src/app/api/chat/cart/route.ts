@@ -0,0 +1,122 @@
+/**
+ * POST /api/chat/cart
+ * Add-to-cart handoff endpoint with runtime validation
+ *
+ * The WooCommerce cart lives in the visitor's browser session, so the SaaS
+ * cannot add items server-to-server. Instead this endpoint returns a request
+ * to the plugin's POST /cart/add signed with the site's HMAC secret; the
+ * widget sends it from the store page and then records the add_to_cart event.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRuntimeValidation } from '@/middleware/runtime-validation';
+import { createAdminClient } from '@/lib/supabase/server';
+import { WPAPIClient } from '@/lib/wordpress/client';
+
+const supabaseAdmin = createAdminClient();
+
+const MAX_QUANTITY = 100;
+
+async function cartHandler(
+  req: NextRequest,
+  site_id: string,
+  site: any,
+  license: any
+): Promise<Response> {
+  try {
+    // Body may have been read by middleware, try to parse it
+    let body: any = {};
+    try {
+      body = await req.json();
+    } catch {
+      // Body already consumed, use empty object
+    }
+    const { visitor_id, conversation_id, product_id, variation_id, quantity, variation } = body;
+
+    const productId = parseInt(product_id, 10);
+    if (!visitor_id || isNaN(productId) || productId <= 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'MISSING_REQUIRED_FIELD',
+            message: 'visitor_id and product_id are required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const variationId = variation_id !== undefined && variation_id !== null ? parseInt(variation_id, 10) : undefined;
+    const qty = quantity !== undefined ? parseInt(quantity, 10) : 1;
+    if (
+      (variationId !== undefined && (isNaN(variationId) || variationId <= 0)) ||
+      isNaN(qty) ||
+      qty < 1 ||
+      qty > MAX_QUANTITY
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_FORMAT',
+            message: `variation_id must be a positive integer and quantity between 1 and ${MAX_QUANTITY}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Only sign requests for known visitors of this site
+    const { data: visitor } = await supabaseAdmin
+      .from('visitors')
+      .select('id')
+      .eq('site_id', site_id)
+      .eq('visitor_id', visitor_id)
+      .single();
+
+    if (!visitor) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VISITOR_NOT_FOUND',
+            message: 'Visitor not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const wpClient = new WPAPIClient({
+      siteUrl: site.site_url,
+      siteId: site_id,
+      secret: site.secret,
+      restBaseUrl: site.rest_base_url || undefined,
+    });
+
+    const signedRequest = wpClient.signAddToCartRequest({
+      product_id: productId,
+      variation_id: variationId,
+      quantity: qty,
+      variation: variation && typeof variation === 'object' ? variation : undefined,
+      visitor_id,
+      conversation_id: conversation_id || null,
+    });
+
+    return NextResponse.json({
+      request: signedRequest,
+    });
+  } catch (error) {
+    console.error('Cart handoff error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to prepare add to cart request',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Export with runtime validation
+export const POST = withRuntimeValidation(cartHandler);
@@ -1,7 +1,7 @@
 /**
  * POST /api/chat/events
  * Chat events endpoint with runtime validation
- * Records user events (view, click, add_to_cart)
+ * Records user events (view, click, add_to_cart, proactive_impression, proactive_conversion, suggestion_click)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -40,7 +40,14 @@ async function eventsHandler(
     }
 
     // Validate event type
-    const validTypes = ['view', 'click', 'add_to_cart'];
+    const validTypes = [
+      'view',
+      'click',
+      'add_to_cart',
+      'proactive_impression',
+      'proactive_conversion',
+      'suggestion_click',
+    ];
     if (!validTypes.includes(type)) {
       return NextResponse.json(
         {
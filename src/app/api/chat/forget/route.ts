@@ -0,0 +1,70 @@
+/**
+ * POST /api/chat/forget
+ * Visitor asks to be forgotten ("forget me" in the widget), with runtime validation
+ *
+ * Clears the visitor's stored memory (preferences, sizes, budget, products) and
+ * stops building a new one; the assistant no longer personalises from past chats.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRuntimeValidation } from '@/middleware/runtime-validation';
+import { forgetVisitorById } from '@/lib/chat/visitor-memory';
+
+async function forgetHandler(
+  req: NextRequest,
+  site_id: string,
+  site: any,
+  license: any
+): Promise<Response> {
+  try {
+    // Body may have been read by middleware, try to parse it
+    let body: any = {};
+    try {
+      body = await req.json();
+    } catch {
+      // Body already consumed, use empty object
+    }
+    const { visitor_id } = body;
+
+    if (!visitor_id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'MISSING_REQUIRED_FIELD',
+            message: 'visitor_id is required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const forgotten = await forgetVisitorById(site_id, visitor_id);
+    if (!forgotten) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VISITOR_NOT_FOUND',
+            message: 'Visitor not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ status: 'forgotten' });
+  } catch (error) {
+    console.error('Forget visitor error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to forget visitor',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Export with runtime validation
+export const POST = withRuntimeValidation(forgetHandler);
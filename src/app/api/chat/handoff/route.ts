@@ -0,0 +1,91 @@
+/**
+ * POST /api/chat/handoff
+ * Visitor asks for a human agent (widget button), with runtime validation
+ *
+ * Flags the conversation for staff (notification bell); agent replies are
+ * delivered through GET /api/chat/updates.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRuntimeValidation } from '@/middleware/runtime-validation';
+import { createAdminClient } from '@/lib/supabase/server';
+import { requestHandoff } from '@/lib/chat/handoff';
+
+const supabaseAdmin = createAdminClient();
+
+async function handoffHandler(
+  req: NextRequest,
+  site_id: string,
+  site: any,
+  license: any
+): Promise<Response> {
+  try {
+    // Body may have been read by middleware, try to parse it
+    let body: any = {};
+    try {
+      body = await req.json();
+    } catch {
+      // Body already consumed, use empty object
+    }
+    const { visitor_id, conversation_id, reason } = body;
+
+    if (!visitor_id || !conversation_id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'MISSING_REQUIRED_FIELD',
+            message: 'visitor_id and conversation_id are required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Conversation must belong to this visitor
+    const { data: conversation } = await supabaseAdmin
+      .from('conversations')
+      .select('id, visitors!inner(visitor_id)')
+      .eq('site_id', site_id)
+      .eq('conversation_id', conversation_id)
+      .eq('visitors.visitor_id', visitor_id)
+      .single();
+
+    if (!conversation) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONVERSATION_NOT_FOUND',
+            message: 'Conversation not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const handoff = await requestHandoff(
+      site_id,
+      conversation_id,
+      'visitor',
+      typeof reason === 'string' ? reason : undefined
+    );
+
+    return NextResponse.json({
+      status: handoff.status,
+      requested_at: handoff.requestedAt,
+    });
+  } catch (error) {
+    console.error('Handoff request error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to request a human agent',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Export with runtime validation
+export const POST = withRuntimeValidation(handoffHandler);
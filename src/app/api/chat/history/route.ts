@@ -0,0 +1,122 @@
+/**
+ * GET /api/chat/history
+ * Conversation history for the widget, with runtime validation
+ *
+ * Returns one page of the visitor's conversation (newest page first, messages
+ * oldest first) so the widget can restore the chat after page navigation.
+ * Requires the history token issued by bootstrap; `before` pages back.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRuntimeValidation } from '@/middleware/runtime-validation';
+import { createAdminClient } from '@/lib/supabase/server';
+import { loadConversationHistory, verifyHistoryToken } from '@/lib/chat/history';
+
+const supabaseAdmin = createAdminClient();
+
+async function historyHandler(
+  req: NextRequest,
+  site_id: string,
+  site: any,
+  license: any
+): Promise<Response> {
+  try {
+    const url = new URL(req.url);
+    const visitorId = url.searchParams.get('visitor_id');
+    const conversationId = url.searchParams.get('conversation_id');
+    const token = url.searchParams.get('token');
+    const before = url.searchParams.get('before');
+    const limitParam = url.searchParams.get('limit');
+
+    if (!visitorId || !conversationId || !token) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'MISSING_REQUIRED_FIELD',
+            message: 'visitor_id, conversation_id and token are required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (before && isNaN(Date.parse(before))) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_FORMAT',
+            message: 'before must be an ISO 8601 timestamp',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+    if (limitParam && (isNaN(limit!) || limit! < 1)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_FORMAT',
+            message: 'limit must be a positive integer',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!verifyHistoryToken(site, visitorId, conversationId, token)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_HISTORY_TOKEN',
+            message: 'History token is invalid or expired',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    // Conversation must belong to this visitor
+    const { data: conversation } = await supabaseAdmin
+      .from('conversations')
+      .select('id, visitors!inner(visitor_id)')
+      .eq('site_id', site_id)
+      .eq('conversation_id', conversationId)
+      .eq('visitors.visitor_id', visitorId)
+      .single();
+
+    if (!conversation) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONVERSATION_NOT_FOUND',
+            message: 'Conversation not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const history = await loadConversationHistory(site_id, conversation.id, {
+      before: before ? new Date(before).toISOString() : undefined,
+      limit,
+    });
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Chat history error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch history',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Export with runtime validation
+export const GET = withRuntimeValidation(historyHandler);
@@ -7,11 +7,14 @@
  * - OpenAI streaming
  * - Live product verification
  * - Message persistence
+ * - Human handoff: while an agent handles the conversation the AI stays silent
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { withUsageEnforcement } from '@/middleware/usage-enforcement';
 import { processChatMessage, saveMessage } from '@/lib/chat/message-handler';
+import { getHandoffState, isAIPaused } from '@/lib/chat/handoff';
+import { parsePageContext } from '@/lib/chat/page-context';
 import { createLogger, generateRequestId } from '@/lib/utils/logger';
 
 async function chatMessageHandler(req: NextRequest): Promise<Response> {
@@ -206,6 +209,37 @@ async function chatMessageHandler(req: NextRequest): Promise<Response> {
       undefined
     );
 
+    // Agent has taken over - the message is delivered to the dashboard, AI does not answer
+    const handoff = await getHandoffState(body.site_id, body.conversation_id);
+    if (handoff && isAIPaused(handoff.status)) {
+      logger.info('AI paused for conversation (human handoff active)', {
+        conversation_id: body.conversation_id,
+      });
+
+      const encoder = new TextEncoder();
+      const pausedStream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'handoff', status: handoff.status })}\n\n`));
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
+          controller.close();
+        },
+      });
+
+      const pausedHeaders = new Headers({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      const requestOrigin = req.headers.get('origin');
+      if (requestOrigin) {
+        pausedHeaders.set('Access-Control-Allow-Origin', requestOrigin);
+        pausedHeaders.set('Access-Control-Allow-Credentials', 'true');
+        pausedHeaders.set('Vary', 'Origin');
+      }
+
+      return new Response(pausedStream, { headers: pausedHeaders });
+    }
+
     // Create AbortController for request cancellation
     const abortController = new AbortController();
     
@@ -223,18 +257,23 @@ async function chatMessageHandler(req: NextRequest): Promise<Response> {
       message_length: body.message?.length || 0,
     });
 
-    // Process message with RAG and OpenAI (with abort signal)
-    const { stream, evidence, tokenUsage, fullResponsePromise } = await processChatMessage(
-      {
-        siteId: body.site_id,
-        visitorId: body.visitor_id,
-        conversationId: body.conversation_id,
-        message: body.message,
-        site,
-        license,
-      },
-      abortController.signal
-    );
+    // Process message with RAG and the site's LLM provider (with abort signal)
+    const { stream, evidence, tokenUsage, model, query, productFilters, fullResponsePromise, directAnswer } =
+      await processChatMessage(
+        {
+          siteId: body.site_id,
+          visitorId: body.visitor_id,
+          conversationId: body.conversation_id,
+          message: body.message,
+          customerToken: typeof body.customer_token === 'string' && body.customer_token ? body.customer_token : undefined,
+          // First x-forwarded-for entry is the client
+          clientIp: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || undefined,
+          pageContext: parsePageContext(body.context),
+          site,
+          license,
+        },
+        abortController.signal
+      );
 
     // Save assistant message after streaming completes
     fullResponsePromise
@@ -245,9 +284,21 @@ async function chatMessageHandler(req: NextRequest): Promise<Response> {
             body.conversation_id,
             'assistant',
             fullResponse,
-            { evidence },
+            {
+              evidence,
+              // Retrieval debugging: what the customer asked vs. what was searched
+              retrieval_query: {
+                original: query.original,
+                rewritten: query.rewritten,
+                rewrite_applied: query.applied,
+              },
+              product_filters: productFilters || null,
+              ...(directAnswer && {
+                direct_answer: { faq_id: directAnswer.faqId, similarity: directAnswer.similarity },
+              }),
+            },
             tokenUsage,
-            'gpt-4o',
+            model,
             evidence
           );
         }
@@ -272,8 +323,9 @@ async function chatMessageHandler(req: NextRequest): Promise<Response> {
       headers.set('Vary', 'Origin');
     }
 
-    // Add token usage headers for usage-enforcement middleware
-    if (tokenUsage.totalTokens > 0) {
+    // Add model and token usage headers for usage-enforcement middleware
+    headers.set('X-LLM-Model', model);
+    if (tokenUsage.totalTokens > 0 || directAnswer) {
       headers.set('X-Token-Usage-Prompt', tokenUsage.promptTokens.toString());
       headers.set('X-Token-Usage-Completion', tokenUsage.completionTokens.toString());
       headers.set('X-Token-Usage-Total', tokenUsage.totalTokens.toString());
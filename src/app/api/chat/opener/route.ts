@@ -0,0 +1,123 @@
+/**
+ * POST /api/chat/opener
+ * Proactive opener generated from the current product, with runtime validation
+ *
+ * Only triggers configured with generate_from_product can generate; any failure
+ * returns the trigger's configured message (generated: false).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRuntimeValidation } from '@/middleware/runtime-validation';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getLLMProvider } from '@/lib/llm';
+import { generateProductOpener, readProactiveTriggers } from '@/lib/chat/proactive';
+import { generateRequestId } from '@/lib/utils/logger';
+
+const supabaseAdmin = createAdminClient();
+
+async function openerHandler(
+  req: NextRequest,
+  site_id: string,
+  site: any,
+  license: any
+): Promise<Response> {
+  try {
+    // Body may have been read by middleware, try to parse it
+    let body: any = {};
+    try {
+      body = await req.json();
+    } catch {
+      // Body already consumed
+    }
+    const { visitor_id, trigger_id, product_id } = body;
+
+    if (!visitor_id || !trigger_id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'MISSING_REQUIRED_FIELD',
+            message: 'visitor_id and trigger_id are required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: chatSettingsData } = await supabaseAdmin
+      .from('settings')
+      .select('value')
+      .eq('site_id', site_id)
+      .eq('key', 'chat')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+
+    const trigger = readProactiveTriggers(chatSettingsData?.value).find(
+      (candidate) => candidate.id === trigger_id && candidate.enabled
+    );
+
+    if (!trigger) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'TRIGGER_NOT_FOUND',
+            message: 'Proactive trigger not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    if (!trigger.generate_from_product || !Number.isInteger(product_id) || product_id <= 0) {
+      return NextResponse.json({ message: trigger.message, generated: false });
+    }
+
+    // The visitor must exist (bootstrap created it), so random callers cannot spend LLM tokens
+    const { data: visitor } = await supabaseAdmin
+      .from('visitors')
+      .select('id')
+      .eq('site_id', site_id)
+      .eq('visitor_id', visitor_id)
+      .single();
+
+    if (!visitor) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VISITOR_NOT_FOUND',
+            message: 'Visitor not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    let message: string | null = null;
+    try {
+      const llm = await getLLMProvider(site_id);
+      message = await generateProductOpener(site, product_id, trigger.message, llm, generateRequestId());
+    } catch (error) {
+      console.warn('Proactive opener: LLM provider unavailable', error);
+    }
+
+    return NextResponse.json({
+      message: message || trigger.message,
+      generated: message !== null,
+    });
+  } catch (error) {
+    console.error('Chat opener error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create opener',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Export with runtime validation
+export const POST = withRuntimeValidation(openerHandler);
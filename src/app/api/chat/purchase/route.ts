@@ -0,0 +1,144 @@
+/**
+ * POST /api/chat/purchase
+ * Purchase conversion endpoint (called by WordPress plugin)
+ *
+ * The plugin reports paid orders that contain items added to the cart from the
+ * chat widget. Records a 'purchase' chat_event with:
+ * - HMAC signature validation
+ * - Order ID idempotency (one purchase event per order)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { validateHMAC } from '@/lib/hmac/validator';
+import { createLogger, generateRequestId } from '@/lib/utils/logger';
+
+const supabaseAdmin = createAdminClient();
+
+export async function POST(req: NextRequest) {
+  const requestId = generateRequestId();
+  const logger = createLogger({ request_id: requestId });
+
+  try {
+    // Get request body and path for HMAC validation
+    const bodyText = await req.text();
+    let body: any;
+    try {
+      body = JSON.parse(bodyText);
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_FORMAT', message: 'Request body must be valid JSON' } },
+        { status: 400 }
+      );
+    }
+
+    const { order_id, visitor_id, conversation_id, total, currency, items, occurred_at } = body;
+
+    if (!order_id || !visitor_id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'MISSING_REQUIRED_FIELD',
+            message: 'Missing required fields: order_id, visitor_id',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate HMAC signature
+    const url = new URL(req.url);
+    const path = url.pathname + (url.search || '');
+    const hmacValidation = await validateHMAC(req.method, path, req.headers, bodyText);
+
+    if (!hmacValidation.valid) {
+      logger.warn('Purchase HMAC validation failed', {
+        error_code: hmacValidation.error?.code,
+        error_message: hmacValidation.error?.message,
+        site_id_from_header: req.headers.get('X-AI-Site'),
+      });
+      return NextResponse.json({ error: hmacValidation.error }, { status: 403 });
+    }
+
+    const siteId = hmacValidation.site_id!;
+
+    // Idempotency: the plugin may report the same order from several status hooks
+    const { data: existingEvent } = await supabaseAdmin
+      .from('chat_events')
+      .select('id')
+      .eq('site_id', siteId)
+      .eq('event_type', 'purchase')
+      .eq('payload->>order_id', String(order_id))
+      .limit(1);
+
+    if (existingEvent && existingEvent.length > 0) {
+      return NextResponse.json({ status: 'already_recorded' });
+    }
+
+    const { data: visitor } = await supabaseAdmin
+      .from('visitors')
+      .select('id')
+      .eq('site_id', siteId)
+      .eq('visitor_id', visitor_id)
+      .single();
+
+    if (!visitor) {
+      return NextResponse.json(
+        { error: { code: 'VISITOR_NOT_FOUND', message: 'Visitor not found' } },
+        { status: 404 }
+      );
+    }
+
+    let conversationDbId: string | null = null;
+    if (conversation_id) {
+      const { data: conversation } = await supabaseAdmin
+        .from('conversations')
+        .select('id')
+        .eq('site_id', siteId)
+        .eq('conversation_id', conversation_id)
+        .single();
+
+      if (conversation) {
+        conversationDbId = conversation.id;
+      }
+    }
+
+    const { error } = await supabaseAdmin.from('chat_events').insert({
+      site_id: siteId,
+      visitor_id: visitor.id,
+      conversation_id: conversationDbId,
+      event_type: 'purchase',
+      payload: {
+        order_id: String(order_id),
+        total: typeof total === 'number' ? total : parseFloat(total) || 0,
+        currency: currency || null,
+        items: Array.isArray(items) ? items : [],
+        occurred_at: occurred_at || new Date().toISOString(),
+      },
+      created_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      throw new Error(`Failed to log purchase: ${error.message}`);
+    }
+
+    logger.info('Purchase recorded', {
+      site_id: siteId,
+      order_id,
+      conversation_attributed: !!conversationDbId,
+    });
+
+    return NextResponse.json({ status: 'recorded' });
+  } catch (error) {
+    logger.error('Purchase recording failed', error instanceof Error ? error : new Error('Unknown error'));
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to record purchase',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { readProactiveTriggers, validateProactiveTriggers } from '@/lib/chat/proactive';
+import { readStarterQuestions, validateStarterQuestions } from '@/lib/chat/suggestions';
 
 export async function GET(req: NextRequest) {
   try {
@@ -90,6 +92,9 @@ export async function GET(req: NextRequest) {
         use_gradient: true,
         bubble_position: 'bottom-right',
         delay_seconds: 0,
+        proactive_triggers: [],
+        starter_questions: [],
+        suggestions_enabled: true,
       });
     }
 
@@ -105,6 +110,9 @@ export async function GET(req: NextRequest) {
       use_gradient: chatSettings.use_gradient !== false,
       bubble_position: chatSettings.bubble_position || 'bottom-right',
       delay_seconds: chatSettings.delay_seconds ?? 0,
+      proactive_triggers: readProactiveTriggers(chatSettings),
+      starter_questions: readStarterQuestions(chatSettings),
+      suggestions_enabled: chatSettings.suggestions_enabled !== false,
     });
   } catch (error) {
     console.error('Chat settings GET error:', error);
@@ -154,6 +162,9 @@ export async function PUT(req: NextRequest) {
       use_gradient,
       bubble_position,
       delay_seconds,
+      proactive_triggers,
+      starter_questions,
+      suggestions_enabled,
     } = body;
 
     if (!site_id) {
@@ -168,6 +179,40 @@ export async function PUT(req: NextRequest) {
       );
     }
 
+    let proactiveTriggers;
+    if (proactive_triggers !== undefined) {
+      const validation = validateProactiveTriggers(proactive_triggers);
+      if (validation.error) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'INVALID_FORMAT',
+              message: validation.error,
+            },
+          },
+          { status: 400 }
+        );
+      }
+      proactiveTriggers = validation.value;
+    }
+
+    let starterQuestions;
+    if (starter_questions !== undefined) {
+      const validation = validateStarterQuestions(starter_questions);
+      if (validation.error) {
+        return NextResponse.json(
+          {
+            error: {
+              code: 'INVALID_FORMAT',
+              message: validation.error,
+            },
+          },
+          { status: 400 }
+        );
+      }
+      starterQuestions = validation.value;
+    }
+
     // Verify user has access to this site
     const { createAdminClient } = await import('@/lib/supabase/server');
     const supabaseAdmin = createAdminClient();
@@ -214,6 +259,9 @@ export async function PUT(req: NextRequest) {
       use_gradient: use_gradient !== undefined ? use_gradient : (currentSettings.use_gradient !== false),
       bubble_position: bubble_position !== undefined ? bubble_position : (currentSettings.bubble_position || 'bottom-right'),
       delay_seconds: delay_seconds !== undefined ? delay_seconds : (currentSettings.delay_seconds ?? 0),
+      proactive_triggers: proactiveTriggers !== undefined ? proactiveTriggers : readProactiveTriggers(currentSettings),
+      starter_questions: starterQuestions !== undefined ? starterQuestions : readStarterQuestions(currentSettings),
+      suggestions_enabled: suggestions_enabled !== undefined ? suggestions_enabled !== false : (currentSettings.suggestions_enabled !== false),
     };
 
     // Deactivate old settings
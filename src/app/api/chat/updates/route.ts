@@ -0,0 +1,119 @@
+/**
+ * GET /api/chat/updates
+ * Widget polling channel for human handoff, with runtime validation
+ *
+ * Returns the conversation's handoff status and agent messages created after
+ * the `after` timestamp. The widget polls while a handoff is requested or active.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withRuntimeValidation } from '@/middleware/runtime-validation';
+import { createAdminClient } from '@/lib/supabase/server';
+
+const supabaseAdmin = createAdminClient();
+
+const MAX_MESSAGES = 50;
+
+async function updatesHandler(
+  req: NextRequest,
+  site_id: string,
+  site: any,
+  license: any
+): Promise<Response> {
+  try {
+    const url = new URL(req.url);
+    const visitorId = url.searchParams.get('visitor_id');
+    const conversationId = url.searchParams.get('conversation_id');
+    const after = url.searchParams.get('after');
+
+    if (!visitorId || !conversationId) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'MISSING_REQUIRED_FIELD',
+            message: 'visitor_id and conversation_id are required',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (after && isNaN(Date.parse(after))) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_FORMAT',
+            message: 'after must be an ISO 8601 timestamp',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    // Conversation must belong to this visitor
+    const { data: conversation } = await supabaseAdmin
+      .from('conversations')
+      .select('id, handoff_status, visitors!inner(visitor_id)')
+      .eq('site_id', site_id)
+      .eq('conversation_id', conversationId)
+      .eq('visitors.visitor_id', visitorId)
+      .single();
+
+    if (!conversation) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONVERSATION_NOT_FOUND',
+            message: 'Conversation not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    let query = supabaseAdmin
+      .from('messages')
+      .select('id, content_text, content_json, created_at')
+      .eq('conversation_id', conversation.id)
+      .eq('role', 'agent')
+      .order('created_at', { ascending: true })
+      .limit(MAX_MESSAGES);
+
+    if (after) {
+      query = query.gt('created_at', new Date(after).toISOString());
+    }
+
+    const { data: messages, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({
+      handoff: {
+        status: conversation.handoff_status || 'none',
+      },
+      messages: (messages || []).map((msg: any) => ({
+        id: msg.id,
+        role: 'agent',
+        content: msg.content_text,
+        agent_name: msg.content_json?.agent?.name || null,
+        created_at: msg.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Chat updates error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to fetch updates',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Export with runtime validation
+export const GET = withRuntimeValidation(updatesHandler);
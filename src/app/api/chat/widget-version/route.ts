@@ -0,0 +1,135 @@
+/**
+ * GET /api/chat/widget-version - Widget release of a site and the available releases
+ * PUT /api/chat/widget-version - Pin the site to a release (version: null follows the default)
+ *
+ * Shops pick up a change within the redirect cache time of /api/widget (5 minutes)
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  loadWidgetManifest,
+  loadWidgetSettings,
+  getDefaultWidgetRelease,
+  getWidgetRelease,
+} from '@/lib/widget/releases';
+
+export async function GET(req: NextRequest) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const [manifest, defaultRelease, widgetSettings] = await Promise.all([
+      loadWidgetManifest(),
+      getDefaultWidgetRelease(),
+      loadWidgetSettings(siteId!),
+    ]);
+
+    return NextResponse.json({
+      pinned_version: widgetSettings.version,
+      pinned_available: widgetSettings.version
+        ? manifest.releases.some((release) => release.version === widgetSettings.version)
+        : null,
+      default_version: defaultRelease?.version || null,
+      releases: manifest.releases.map((release) => ({
+        version: release.version,
+        size: release.size,
+        built_at: release.built_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Widget version GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch widget version',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Invalid JSON body' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeSiteAccess(body?.site_id || null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const version = body.version || null;
+    if (version !== null && !(await getWidgetRelease(version))) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_VERSION', message: 'Unknown widget release' } },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdminClient();
+
+    // Get current settings
+    const { data: existing } = await supabaseAdmin
+      .from('settings')
+      .select('value, version')
+      .eq('site_id', body.site_id)
+      .eq('key', 'widget')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+
+    // Deactivate old settings
+    if (existing) {
+      await supabaseAdmin
+        .from('settings')
+        .update({ is_active: false })
+        .eq('site_id', body.site_id)
+        .eq('key', 'widget')
+        .eq('is_active', true);
+    }
+
+    // Insert new settings version
+    const { error: insertError } = await supabaseAdmin.from('settings').insert({
+      site_id: body.site_id,
+      tenant_id: auth.tenantId,
+      key: 'widget',
+      value: { ...(existing?.value || {}), version },
+      version: (existing?.version || 0) + 1,
+      is_active: true,
+    });
+
+    if (insertError) {
+      throw new Error(`Failed to update widget version: ${insertError.message}`);
+    }
+
+    return NextResponse.json({ success: true, pinned_version: version });
+  } catch (error) {
+    console.error('Widget version PUT error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update widget version',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * POST /api/conversations/[conversationId]/handoff
+ * Take over a conversation or hand it back to the AI
+ *
+ * Body: { site_id, action: 'take_over' | 'resolve' }
+ * Requires a tenant role allowed to handle chats (support, admin, owner)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  findConversationForAgent,
+  getHandoffRole,
+  resolveHandoff,
+  takeOverConversation,
+} from '@/lib/chat/handoff';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    // Check authentication
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { site_id, action } = body;
+
+    if (!site_id || !['take_over', 'resolve'].includes(action)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_FORMAT',
+            message: "site_id and action ('take_over' or 'resolve') are required",
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await findConversationForAgent(site_id, params.conversationId);
+    if (!conversation) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONVERSATION_NOT_FOUND',
+            message: 'Conversation not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const role = await getHandoffRole(user.id, conversation.tenantId);
+    if (!role) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Your role cannot take over conversations',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const handoff =
+      action === 'take_over'
+        ? await takeOverConversation(conversation.handoff.conversationDbId, user.id)
+        : await resolveHandoff(conversation.handoff.conversationDbId);
+
+    return NextResponse.json({
+      handoff: {
+        status: handoff.status,
+        agent_id: handoff.agentId,
+      },
+    });
+  } catch (error) {
+    console.error('Conversation handoff error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update handoff',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * POST /api/conversations/[conversationId]/messages
+ * Agent reply from the dashboard
+ *
+ * Body: { site_id, content }
+ * The conversation must be taken over first (handoff active, AI paused).
+ * The widget picks the message up through GET /api/chat/updates.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { findConversationForAgent, getHandoffRole, isAIPaused } from '@/lib/chat/handoff';
+import { saveMessage } from '@/lib/chat/message-handler';
+
+const MAX_MESSAGE_LENGTH = 4000;
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { conversationId: string } }
+) {
+  try {
+    // Check authentication
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const siteId = body.site_id;
+    const content = typeof body.content === 'string' ? body.content.trim() : '';
+
+    if (!siteId || !content || content.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_FORMAT',
+            message: `site_id and content (max ${MAX_MESSAGE_LENGTH} characters) are required`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await findConversationForAgent(siteId, params.conversationId);
+    if (!conversation) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'CONVERSATION_NOT_FOUND',
+            message: 'Conversation not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const role = await getHandoffRole(user.id, conversation.tenantId);
+    if (!role) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Your role cannot reply to conversations',
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    if (!isAIPaused(conversation.handoff.status)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'HANDOFF_NOT_ACTIVE',
+            message: 'Take over the conversation before replying',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    await saveMessage(siteId, conversation.conversationId, 'agent', content, {
+      agent: {
+        user_id: user.id,
+        name: user.user_metadata?.full_name || null,
+      },
+    });
+
+    return NextResponse.json({ status: 'sent' });
+  } catch (error) {
+    console.error('Agent message error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to send message',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
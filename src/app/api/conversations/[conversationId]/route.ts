@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { createAdminClient } from '@/lib/supabase/server';
+import { getHandoffRole } from '@/lib/chat/handoff';
 
 export async function GET(
   req: NextRequest,
@@ -86,6 +87,11 @@ export async function GET(
         last_message_at,
         message_count,
         created_at,
+        handoff_status,
+        handoff_requested_by,
+        handoff_reason,
+        handoff_requested_at,
+        handoff_agent_id,
         visitors!inner (
           visitor_id,
           first_seen_at,
@@ -110,6 +116,11 @@ export async function GET(
           last_message_at,
           message_count,
           created_at,
+          handoff_status,
+          handoff_requested_by,
+          handoff_reason,
+          handoff_requested_at,
+          handoff_agent_id,
           visitors!inner (
             visitor_id,
             first_seen_at,
@@ -147,6 +158,9 @@ export async function GET(
       throw messagesError;
     }
 
+    // Human handoff: only roles that may take over see the agent controls
+    const handoffRole = await getHandoffRole(user.id, site.tenant_id);
+
     // Format response
     const formattedConversation = {
       id: conversation.id,
@@ -156,6 +170,15 @@ export async function GET(
       last_message_at: conversation.last_message_at,
       message_count: conversation.message_count || 0,
       created_at: conversation.created_at,
+      handoff: {
+        status: conversation.handoff_status || 'none',
+        requested_by: conversation.handoff_requested_by || null,
+        reason: conversation.handoff_reason || null,
+        requested_at: conversation.handoff_requested_at || null,
+        agent_id: conversation.handoff_agent_id || null,
+        is_current_agent: conversation.handoff_agent_id === user.id,
+        can_take_over: !!handoffRole,
+      },
       visitor: conversation.visitors ? {
         visitor_id: conversation.visitors.visitor_id,
         first_seen_at: conversation.visitors.first_seen_at,
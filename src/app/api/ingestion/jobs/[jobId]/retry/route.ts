@@ -0,0 +1,103 @@
+/**
+ * POST /api/ingestion/jobs/[jobId]/retry
+ * Retry a failed ingestion job from the knowledge settings page
+ *
+ * Dead-lettered jobs are re-queued; completed syncs with failed products
+ * queue a new sync for just those products.
+ *
+ * Requires authentication and membership in the job's site tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { retryIngestionJob } from '@/lib/ingestion/queue';
+import { kickIngestionWorker } from '@/lib/ingestion/worker';
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    // Authenticate before revealing whether the job exists
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { site_id } = body;
+
+    // The job's own site decides access (not the site_id sent by the client)
+    const supabaseAdmin = createAdminClient();
+    const { data } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .select('site_id')
+      .eq('id', params.jobId)
+      .single();
+    const existingJob = data as { site_id: string } | null;
+
+    if (!existingJob || (site_id && site_id !== existingJob.site_id)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'JOB_NOT_FOUND',
+            message: 'Ingestion job not found',
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    const auth = await authorizeSiteAccess(existingJob.site_id);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const job = await retryIngestionJob(existingJob.site_id, params.jobId, auth.userId);
+
+    if (!job) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_RETRYABLE',
+            message: 'Job not found or has nothing to retry',
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    kickIngestionWorker();
+
+    return NextResponse.json({
+      success: true,
+      job_id: job.id,
+      status: job.status,
+    });
+  } catch (error) {
+    console.error('Ingestion job retry error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to retry ingestion job',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
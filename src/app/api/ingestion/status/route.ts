@@ -2,13 +2,62 @@
  * GET /api/ingestion/status
  * Get ingestion status and logs for a site
  * 
- * Shows ingestion events, success/failure rates, and recent activity
+ * Shows ingestion events, success/failure rates, recent activity, and
+ * ingestion jobs with progress, ETA and retryable failures
  * 
  * Requires authentication (dashboard users only)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { getActiveEmbeddingIndex } from '@/lib/embeddings/indexes';
+import {
+  getJobProgress,
+  toIngestionJob,
+  type IngestionJob,
+  type ReindexJobPayload,
+  type SyncJobPayload,
+  type WebhookJobPayload,
+} from '@/lib/ingestion/queue';
+
+function formatJob(job: IngestionJob) {
+  const progress = getJobProgress(job);
+  const webhookPayload = job.jobType === 'webhook' ? (job.payload as WebhookJobPayload) : null;
+  const syncPayload = job.jobType === 'sync' ? (job.payload as SyncJobPayload) : null;
+  const reindexPayload = job.jobType === 'reindex' ? (job.payload as ReindexJobPayload) : null;
+
+  return {
+    id: job.id,
+    job_type: job.jobType,
+    status: job.status,
+    event: webhookPayload?.event || null,
+    entity_type: webhookPayload?.entity_type || syncPayload?.entity_type || 'product',
+    entity_id: webhookPayload?.entity_id || null,
+    mode: syncPayload?.mode || null,
+    index_version: reindexPayload?.index_version ?? null,
+    progress: {
+      processed: job.processedItems,
+      total: job.totalItems,
+      failed: job.failedItems,
+      percent: progress.percent,
+    },
+    eta_seconds: progress.eta_seconds,
+    embeddings_created: job.embeddingsCreated,
+    tokens_used: job.tokensUsed,
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    next_attempt_at: job.status === 'queued' && job.attempts > 0 ? job.runAfter : null,
+    last_error: job.lastError,
+    failures: job.failures.slice(0, 20),
+    // Index builds are restarted from the embedding model migration instead
+    can_retry:
+      job.jobType !== 'reindex' &&
+      (job.status === 'dead_letter' || (job.status === 'completed' && job.failures.length > 0)),
+    started_at: job.startedAt,
+    completed_at: job.completedAt,
+    created_at: job.createdAt,
+  };
+}
 
 export async function GET(req: NextRequest) {
   try {
@@ -52,7 +101,7 @@ export async function GET(req: NextRequest) {
 
     const { data: site, error: siteError } = await supabaseAdmin
       .from('sites')
-      .select('id, tenant_id')
+      .select('id, tenant_id, last_synced_at')
       .eq('id', siteId)
       .single();
 
@@ -88,11 +137,24 @@ export async function GET(req: NextRequest) {
       );
     }
 
-    // Get embeddings count
+    // Get embeddings count (active index; a migration's new index is reported separately)
+    const activeIndex = await getActiveEmbeddingIndex(siteId);
     const { count: embeddingsCount, error: embeddingsError } = await supabaseAdmin
       .from('embeddings')
       .select('*', { count: 'exact', head: true })
-      .eq('site_id', siteId);
+      .eq('site_id', siteId)
+      .eq('index_version', activeIndex.version);
+
+    // Get ingestion jobs (queue); visitor memory jobs are not knowledge ingestion
+    const { data: jobRows } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('site_id', siteId)
+      .neq('job_type', 'visitor_memory')
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    const jobs = (jobRows || []).map(toIngestionJob);
 
     // Count by status
     const statusCounts = {
@@ -101,6 +163,7 @@ export async function GET(req: NextRequest) {
       processing: events?.filter((e) => e.status === 'processing').length || 0,
       pending: events?.filter((e) => e.status === 'pending').length || 0,
       retryable: events?.filter((e) => e.status === 'retryable').length || 0,
+      dead_letter: events?.filter((e) => e.status === 'dead_letter').length || 0,
     };
 
     // Count by entity type
@@ -108,11 +171,14 @@ export async function GET(req: NextRequest) {
       product: events?.filter((e) => e.entity_type === 'product').length || 0,
       page: events?.filter((e) => e.entity_type === 'page').length || 0,
       policy: events?.filter((e) => e.entity_type === 'policy').length || 0,
+      faq: events?.filter((e) => e.entity_type === 'faq').length || 0,
+      document: events?.filter((e) => e.entity_type === 'document').length || 0,
     };
 
     return NextResponse.json({
       site_id: siteId,
       embeddings_count: embeddingsCount || 0,
+      last_synced_at: site.last_synced_at || null,
       ingestion_events: {
         total: events?.length || 0,
         by_status: statusCounts,
@@ -129,6 +195,16 @@ export async function GET(req: NextRequest) {
           metadata: e.metadata,
         })) || [],
       },
+      jobs: {
+        by_status: {
+          queued: jobs.filter((j) => j.status === 'queued').length,
+          running: jobs.filter((j) => j.status === 'running').length,
+          completed: jobs.filter((j) => j.status === 'completed').length,
+          dead_letter: jobs.filter((j) => j.status === 'dead_letter').length,
+        },
+        active: jobs.filter((j) => j.status === 'queued' || j.status === 'running').map(formatJob),
+        recent: jobs.slice(0, 20).map(formatJob),
+      },
     });
   } catch (error) {
     console.error('Ingestion status error:', error);
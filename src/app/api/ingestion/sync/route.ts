@@ -2,8 +2,11 @@
  * POST /api/ingestion/sync
  * Manual ingestion sync endpoint
  * 
- * Syncs all products from WordPress site to embeddings database
+ * Queues a sync of all products from WordPress site to embeddings database
  * Useful for initial setup or when webhooks haven't been working
+ * mode: 'delta' only syncs products changed since the last sync and removes
+ * products that are no longer published (see delta-sync.ts)
+ * The ingestion worker runs the job; GET /api/ingestion/status reports progress
  * 
  * Requires authentication (dashboard users only)
  */
@@ -11,7 +14,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { WPAPIClient } from '@/lib/wordpress/client';
-import { ingestProductsBatch, type IngestionContext } from '@/lib/ingestion/service';
+import { enqueueIngestionJob } from '@/lib/ingestion/queue';
+import { kickIngestionWorker } from '@/lib/ingestion/worker';
+import { findActiveProductSync } from '@/lib/ingestion/delta-sync';
 import { createLogger, generateRequestId } from '@/lib/utils/logger';
 
 export async function POST(req: NextRequest) {
@@ -39,7 +44,7 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { site_id } = body;
+    const { site_id, mode = 'full' } = body;
 
     if (!site_id) {
       return NextResponse.json(
@@ -53,6 +58,18 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (mode !== 'full' && mode !== 'delta') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_SYNC_MODE',
+            message: 'mode must be one of: full, delta',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     // Verify user has access to this site
     const { createAdminClient } = await import('@/lib/supabase/server');
     const supabaseAdmin = createAdminClient();
@@ -78,6 +95,7 @@ export async function POST(req: NextRequest) {
     logger.info('Starting manual ingestion sync', {
       site_id,
       site_url: site.site_url,
+      mode,
     });
 
     // Discover REST API base URL if not already stored
@@ -125,108 +143,40 @@ export async function POST(req: NextRequest) {
       }
     }
 
-    // Create WordPress API client with discovered base URL
-    const wpClient = new WPAPIClient({
-      siteUrl: site.site_url,
-      siteId: site.id,
-      secret: site.site_secret,
-      restBaseUrl: restBaseUrl,
-    });
-
-    // Get all products (use very old date to get all products)
-    const allProductIds: number[] = [];
-    let page = 1;
-    let hasMore = true;
-
-    while (hasMore) {
-      try {
-        const response = await wpClient.getChangedProducts(
-          '1970-01-01T00:00:00Z', // Very old date to get all products
-          page,
-          100 // Max per page
-        );
-
-        if (response.products && response.products.length > 0) {
-          allProductIds.push(...response.products.map((p) => p.id));
-          page++;
+    // One product sync (full or delta) at a time per site
+    const activeSync = await findActiveProductSync(site_id);
 
-          // Check if there are more pages
-          if (response.pagination) {
-            hasMore = page <= response.pagination.total_pages;
-          } else {
-            hasMore = response.products.length === 100; // Assume more if we got full page
-          }
-        } else {
-          hasMore = false;
-        }
-      } catch (error) {
-        logger.error('Error fetching products', error instanceof Error ? error : new Error('Unknown error'));
-        return NextResponse.json(
-          {
-            error: {
-              code: 'WORDPRESS_API_ERROR',
-              message: error instanceof Error ? error.message : 'Failed to fetch products from WordPress',
-            },
-          },
-          { status: 500 }
-        );
-      }
-    }
-
-    if (allProductIds.length === 0) {
+    if (activeSync) {
+      kickIngestionWorker();
       return NextResponse.json({
         success: true,
-        message: 'No products found to sync',
-        products_synced: 0,
-        embeddings_created: 0,
-        tokens_used: 0,
+        status: activeSync.status,
+        job_id: activeSync.id,
+        message: 'A sync is already in progress',
       });
     }
 
-    logger.info('Found products to sync', {
-      total_products: allProductIds.length,
-    });
-
-    // Create ingestion context
-    const ingestionContext: IngestionContext = {
-      siteId: site.id,
-      tenantId: site.tenant_id,
-      siteUrl: site.site_url,
-      siteSecret: site.site_secret,
-    };
-
-    // Ingest all products in batch
-    const batchResult = await ingestProductsBatch(
-      ingestionContext,
-      allProductIds.map((id) => id.toString())
+    // The worker lists the catalog and ingests products in the background;
+    // progress is reported by GET /api/ingestion/status
+    const job = await enqueueIngestionJob(
+      site_id,
+      'sync',
+      { entity_type: 'product', ...(mode === 'delta' && { mode }) },
+      { requestedBy: user.id }
     );
+    kickIngestionWorker();
 
-    // Count successful vs failed
-    const successful = batchResult.results.filter((r) => r.result.success).length;
-    const failed = batchResult.results.filter((r) => !r.result.success).length;
-
-    logger.info('Ingestion sync completed', {
-      total_products: allProductIds.length,
-      successful,
-      failed,
-      embeddings_created: batchResult.totalEmbeddings,
-      tokens_used: batchResult.totalTokens,
+    logger.info('Ingestion sync queued', {
+      site_id,
+      job_id: job.id,
+      mode,
     });
 
     return NextResponse.json({
       success: true,
-      message: `Synced ${successful} products successfully`,
-      products_synced: successful,
-      products_failed: failed,
-      total_products: allProductIds.length,
-      embeddings_created: batchResult.totalEmbeddings,
-      tokens_used: batchResult.totalTokens,
-      failures: batchResult.results
-        .filter((r) => !r.result.success)
-        .map((r) => ({
-          product_id: r.productId,
-          error: r.result.error,
-        })),
+      status: 'queued',
+      job_id: job.id,
+      message: 'Sync queued',
     });
   } catch (error) {
     logger.error('Ingestion sync error', error instanceof Error ? error : new Error('Unknown error'));
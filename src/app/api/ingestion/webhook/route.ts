@@ -5,20 +5,16 @@
  * Handles webhook events from WordPress with:
  * - HMAC signature validation
  * - Event ID idempotency
- * - Content ingestion (products, pages, policies)
- * - Embedding generation and storage
+ * - Queueing the event as an ingestion job (processed by the ingestion worker:
+ *   content ingestion and embedding generation for products, pages, policies)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/server';
 import { validateHMAC } from '@/lib/hmac/validator';
 import { checkLicenseKillSwitch } from '@/middleware/license-kill-switch';
-import {
-  ingestProduct,
-  ingestPage,
-  deleteEntityEmbeddings,
-  type IngestionContext,
-} from '@/lib/ingestion/service';
+import { enqueueIngestionJob } from '@/lib/ingestion/queue';
+import { kickIngestionWorker } from '@/lib/ingestion/worker';
 import { createLogger, generateRequestId } from '@/lib/utils/logger';
 
 const supabaseAdmin = createAdminClient();
@@ -230,8 +226,8 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Insert event record with 'processing' status
-    const { error: insertEventError } = await supabaseAdmin
+    // Record the event as pending - the worker moves it to processing/completed
+    const { data: ingestionEvent, error: insertEventError } = await supabaseAdmin
       .from('ingestion_events')
       .insert({
         site_id: siteId,
@@ -240,13 +236,15 @@ export async function POST(req: NextRequest) {
         entity_type,
         entity_id,
         occurred_at,
-        status: 'processing',
+        status: 'pending',
         metadata: { request_id: requestId },
-      });
+      })
+      .select('id')
+      .single();
 
-    if (insertEventError) {
+    if (insertEventError || !ingestionEvent) {
       // Check if it's a unique constraint violation (race condition)
-      if (insertEventError.code === '23505') {
+      if (insertEventError?.code === '23505') {
         // Duplicate event_id detected (race condition)
         logger.info('Duplicate event detected (race condition)', { event_id });
         return NextResponse.json({
@@ -267,121 +265,42 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Process the ingestion event
+    // Enqueue instead of ingesting inside the request (plugin waits at most 10 seconds)
+    let job;
     try {
-      const ingestionContext: IngestionContext = {
-        siteId: site.id,
-        tenantId: site.tenant_id,
-        siteUrl: site.site_url,
-        siteSecret: site.secret,
-      };
-
-      let ingestionResult;
-
-      if (event === 'product.updated') {
-        ingestionResult = await ingestProduct(ingestionContext, entity_id);
-      } else if (event === 'page.updated' || event === 'policy.updated') {
-        ingestionResult = await ingestPage(ingestionContext, entity_id);
-      } else if (event === 'product.deleted' || event === 'page.deleted') {
-        // Delete embeddings for deleted entities
-        await deleteEntityEmbeddings(
-          ingestionContext,
-          entity_type as 'product' | 'page' | 'policy',
-          entity_id
-        );
-        ingestionResult = {
-          success: true,
-          embeddingsCreated: 0,
-          tokensUsed: 0,
-        };
-      } else {
-        throw new Error(`Unhandled event type: ${event}`);
-      }
-
-      // Update event status (distinguish failed vs retryable)
-      const isRetryable = ingestionResult.error?.includes('timeout') || 
-                         ingestionResult.error?.includes('network') ||
-                         ingestionResult.error?.includes('429') ||
-                         ingestionResult.error?.includes('5');
-
-      await supabaseAdmin
-        .from('ingestion_events')
-        .update({
-          status: ingestionResult.success ? 'completed' : (isRetryable ? 'retryable' : 'failed'),
-          processed_at: new Date().toISOString(),
-          error_message: ingestionResult.error || null,
-          metadata: {
-            request_id: requestId,
-            embeddings_created: ingestionResult.embeddingsCreated,
-            tokens_used: ingestionResult.tokensUsed,
-            retryable: isRetryable,
-          },
-        })
-        .eq('site_id', siteId)
-        .eq('event_id', event_id);
-
-      if (!ingestionResult.success) {
-        logger.error('Ingestion failed', new Error(ingestionResult.error || 'Unknown error'), {
-          retryable: isRetryable,
-        });
-        return NextResponse.json(
-          {
-            error: {
-              code: 'INGESTION_FAILED',
-              message: ingestionResult.error || 'Ingestion failed',
-            },
-          },
-          { status: 500 }
-        );
-      }
-
-      logger.info('Ingestion completed successfully', {
-        embeddings_created: ingestionResult.embeddingsCreated,
-        tokens_used: ingestionResult.tokensUsed,
-      });
-
-      return NextResponse.json({
-        status: 'processed',
-        event_id,
-      });
-    } catch (error) {
-      // Determine if error is retryable
-      const isRetryable = error instanceof Error && (
-        error.message.includes('timeout') ||
-        error.message.includes('network') ||
-        error.message.includes('429') ||
-        error.message.includes('5')
+      job = await enqueueIngestionJob(
+        siteId,
+        'webhook',
+        { event_id, event, entity_type, entity_id },
+        { ingestionEventId: ingestionEvent.id }
       );
-
-      // Update event status to failed or retryable
-      await supabaseAdmin
-        .from('ingestion_events')
-        .update({
-          status: isRetryable ? 'retryable' : 'failed',
-          processed_at: new Date().toISOString(),
-          error_message: error instanceof Error ? error.message : 'Unknown error',
-          metadata: {
-            request_id: requestId,
-            retryable: isRetryable,
-          },
-        })
-        .eq('site_id', siteId)
-        .eq('event_id', event_id);
-
-      logger.error('Ingestion processing error', error instanceof Error ? error : new Error('Unknown error'), {
-        retryable: isRetryable,
-      });
-
+    } catch (error) {
+      // Let the plugin deliver the event again instead of reporting it as a duplicate
+      await supabaseAdmin.from('ingestion_events').delete().eq('id', ingestionEvent.id);
+      logger.error('Failed to enqueue ingestion job', error instanceof Error ? error : new Error('Unknown error'));
       return NextResponse.json(
         {
           error: {
-            code: 'INGESTION_FAILED',
-            message: error instanceof Error ? error.message : 'Failed to process ingestion',
+            code: 'INTERNAL_ERROR',
+            message: 'Failed to queue ingestion event',
           },
         },
         { status: 500 }
       );
     }
+
+    kickIngestionWorker();
+
+    logger.info('Ingestion event queued', {
+      event_id,
+      job_id: job.id,
+    });
+
+    return NextResponse.json({
+      status: 'queued',
+      event_id,
+      job_id: job.id,
+    });
   } catch (error) {
     console.error('Ingestion webhook error:', error);
     return NextResponse.json(
@@ -0,0 +1,169 @@
+/**
+ * PUT /api/knowledge/documents/{documentId} - Replace the file and/or rename (multipart: site_id, file?, title?)
+ * DELETE /api/knowledge/documents/{documentId}?site_id=... - Remove a document and its embeddings
+ *
+ * Replacing the file stores it as a new version and re-indexes the document.
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  DOCUMENT_COLUMNS,
+  validateDocumentFile,
+  getDocumentTitle,
+  hashDocumentFile,
+  enqueueDocumentIngestion,
+  deleteDocument,
+} from '@/lib/ingestion/documents';
+import { getDocumentStoragePath, uploadDocumentFile, removeDocumentFiles } from '@/lib/ingestion/document-files';
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { documentId: string } }
+) {
+  try {
+    let formData: FormData;
+    try {
+      formData = await req.formData();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected multipart/form-data' } },
+        { status: 400 }
+      );
+    }
+
+    const siteId = formData.get('site_id');
+    const auth = await authorizeSiteAccess(typeof siteId === 'string' ? siteId : null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const file = formData.get('file');
+    const title = formData.get('title');
+    if (!(file instanceof File) && typeof title !== 'string') {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Provide a file and/or a title' } },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdminClient();
+    const { data: existing } = await supabaseAdmin
+      .from('knowledge_documents')
+      .select('id, title, file_name, storage_path, version')
+      .eq('site_id', siteId as string)
+      .eq('id', params.documentId)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: { code: 'DOCUMENT_NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    const updates: Record<string, unknown> = {
+      title: typeof title === 'string' ? getDocumentTitle(title, existing.file_name) : existing.title,
+      status: 'pending',
+      error_message: null,
+      updated_at: new Date().toISOString(),
+    };
+
+    // New file = new version; the previous file is removed once the row points at the new one
+    let newStoragePath: string | null = null;
+    if (file instanceof File) {
+      const { fileType, error: fileError } = validateDocumentFile(file);
+      if (!fileType) {
+        return NextResponse.json(
+          { error: { code: 'INVALID_FILE', message: fileError } },
+          { status: 400 }
+        );
+      }
+
+      const version = existing.version + 1;
+      const buffer = Buffer.from(await file.arrayBuffer());
+      newStoragePath = getDocumentStoragePath(siteId as string, existing.id, version, file.name);
+
+      await uploadDocumentFile(newStoragePath, buffer, file.type || 'application/octet-stream');
+
+      Object.assign(updates, {
+        file_name: file.name,
+        file_type: fileType,
+        mime_type: file.type || null,
+        file_size: file.size,
+        storage_path: newStoragePath,
+        file_hash: hashDocumentFile(buffer),
+        version,
+      });
+    }
+
+    const { data: document, error } = await supabaseAdmin
+      .from('knowledge_documents')
+      .update(updates as any)
+      .eq('id', existing.id)
+      .select(DOCUMENT_COLUMNS)
+      .single();
+
+    if (error || !document) {
+      if (newStoragePath) {
+        await removeDocumentFiles([newStoragePath]);
+      }
+      throw new Error(`Failed to update document: ${error?.message || 'Unknown error'}`);
+    }
+
+    if (newStoragePath && newStoragePath !== existing.storage_path) {
+      await removeDocumentFiles([existing.storage_path]);
+    }
+
+    const job = await enqueueDocumentIngestion(siteId as string, existing.id, auth.userId);
+
+    return NextResponse.json({ document, job_id: job.id });
+  } catch (error) {
+    console.error('Document PUT error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update document',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { documentId: string } }
+) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const deleted = await deleteDocument(siteId!, params.documentId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { code: 'DOCUMENT_NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Document DELETE error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to delete document',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * GET /api/knowledge/documents - List uploaded documents for a site
+ * POST /api/knowledge/documents - Upload a document (multipart: site_id, file, title?)
+ *
+ * Files are stored in the knowledge-documents bucket and indexed by the ingestion worker.
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  DOCUMENT_COLUMNS,
+  validateDocumentFile,
+  getDocumentTitle,
+  hashDocumentFile,
+  enqueueDocumentIngestion,
+} from '@/lib/ingestion/documents';
+import { getDocumentStoragePath, uploadDocumentFile, removeDocumentFiles } from '@/lib/ingestion/document-files';
+
+export async function GET(req: NextRequest) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const supabaseAdmin = createAdminClient();
+    const { data: documents, error } = await supabaseAdmin
+      .from('knowledge_documents')
+      .select(DOCUMENT_COLUMNS)
+      .eq('site_id', siteId!)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch documents: ${error.message}`);
+    }
+
+    return NextResponse.json({ documents: documents || [] });
+  } catch (error) {
+    console.error('Documents GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch documents',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    let formData: FormData;
+    try {
+      formData = await req.formData();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected multipart/form-data' } },
+        { status: 400 }
+      );
+    }
+
+    const siteId = formData.get('site_id');
+    const auth = await authorizeSiteAccess(typeof siteId === 'string' ? siteId : null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: { code: 'MISSING_REQUIRED_FIELD', message: 'file is required' } },
+        { status: 400 }
+      );
+    }
+
+    const { fileType, error: fileError } = validateDocumentFile(file);
+    if (!fileType) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_FILE', message: fileError } },
+        { status: 400 }
+      );
+    }
+
+    const documentId = randomUUID();
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const storagePath = getDocumentStoragePath(siteId as string, documentId, 1, file.name);
+
+    await uploadDocumentFile(storagePath, buffer, file.type || 'application/octet-stream');
+
+    const supabaseAdmin = createAdminClient();
+    const { data: document, error } = await supabaseAdmin
+      .from('knowledge_documents')
+      .insert({
+        id: documentId,
+        site_id: siteId as string,
+        tenant_id: auth.tenantId,
+        title: getDocumentTitle(formData.get('title'), file.name),
+        file_name: file.name,
+        file_type: fileType,
+        mime_type: file.type || null,
+        file_size: file.size,
+        storage_path: storagePath,
+        file_hash: hashDocumentFile(buffer),
+        version: 1,
+        status: 'pending',
+        uploaded_by: auth.userId,
+      })
+      .select(DOCUMENT_COLUMNS)
+      .single();
+
+    if (error || !document) {
+      await removeDocumentFiles([storagePath]);
+      throw new Error(`Failed to create document: ${error?.message || 'Unknown error'}`);
+    }
+
+    const job = await enqueueDocumentIngestion(siteId as string, documentId, auth.userId);
+
+    return NextResponse.json({ document, job_id: job.id }, { status: 201 });
+  } catch (error) {
+    console.error('Documents POST error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to upload document',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * GET /api/knowledge/embedding-migration - Embedding indexes and migration progress for a site
+ * POST /api/knowledge/embedding-migration - Run a migration step
+ *   { site_id, action: 'start', model } - re-embed the site with another model into a new index
+ *   { site_id, action: 'evaluate', queries? } - compare the new index with the active one
+ *   { site_id, action: 'switch' } - make the new index active
+ *   { site_id, action: 'rollback' } - switch back to the previous index
+ * DELETE /api/knowledge/embedding-migration?site_id= - Cancel the migration in progress
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import {
+  getEmbeddingMigrationStatus,
+  startEmbeddingMigration,
+  evaluateEmbeddingMigration,
+  switchEmbeddingIndex,
+  rollbackEmbeddingIndex,
+  cancelEmbeddingMigration,
+  type EmbeddingMigrationError,
+} from '@/lib/ingestion/embedding-migration';
+
+function errorResponse(error: EmbeddingMigrationError): NextResponse {
+  return NextResponse.json(
+    { error: { code: error.code, message: error.message } },
+    { status: error.status }
+  );
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    return NextResponse.json(await getEmbeddingMigrationStatus(siteId!));
+  } catch (error) {
+    console.error('Embedding migration GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch embedding migration status',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null);
+    const auth = await authorizeSiteAccess(typeof body?.site_id === 'string' ? body.site_id : null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const siteId = body.site_id as string;
+    let result: Awaited<ReturnType<typeof startEmbeddingMigration>>;
+
+    switch (body.action) {
+      case 'start':
+        result = await startEmbeddingMigration(siteId, auth.tenantId, body.model, auth.userId);
+        break;
+      case 'evaluate':
+        result = await evaluateEmbeddingMigration(siteId, auth.tenantId, body.queries);
+        break;
+      case 'switch':
+        result = await switchEmbeddingIndex(siteId);
+        break;
+      case 'rollback':
+        result = await rollbackEmbeddingIndex(siteId);
+        break;
+      default:
+        return NextResponse.json(
+          {
+            error: {
+              code: 'INVALID_ACTION',
+              message: 'action must be one of: start, evaluate, switch, rollback',
+            },
+          },
+          { status: 400 }
+        );
+    }
+
+    if (result.error) {
+      return errorResponse(result.error);
+    }
+
+    return NextResponse.json({ index: result.index }, { status: body.action === 'start' ? 201 : 200 });
+  } catch (error) {
+    console.error('Embedding migration POST error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to run embedding migration step',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const result = await cancelEmbeddingMigration(siteId!);
+    if (result.error) {
+      return errorResponse(result.error);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Embedding migration DELETE error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to cancel embedding migration',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * GET /api/knowledge/entities/{entityType}/{entityId}?site_id=... - Chunks of one entity (active index)
+ * POST /api/knowledge/entities/{entityType}/{entityId} - Entity action ({ site_id, action })
+ * DELETE /api/knowledge/entities/{entityType}/{entityId}?site_id=... - Delete the entity's chunks
+ *
+ * Actions: reindex (queue a re-ingestion from the source), exclude (hide from
+ * retrieval), include (undo exclude). Deleted entities return when their source
+ * changes or the next full sync runs; exclude them to keep them out of answers.
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import {
+  isKnowledgeEntityType,
+  getKnowledgeEntityChunks,
+  isKnowledgeEntityExcluded,
+  excludeKnowledgeEntity,
+  includeKnowledgeEntity,
+  reindexKnowledgeEntity,
+  deleteKnowledgeEntity,
+} from '@/lib/ingestion/knowledge-base';
+
+type RouteParams = { params: { entityType: string; entityId: string } };
+
+function invalidEntityType(entityType: string): NextResponse {
+  return NextResponse.json(
+    { error: { code: 'INVALID_ENTITY_TYPE', message: `Unknown entity type: ${entityType}` } },
+    { status: 400 }
+  );
+}
+
+function entityNotFound(): NextResponse {
+  return NextResponse.json(
+    { error: { code: 'ENTITY_NOT_FOUND', message: 'Entity is not indexed' } },
+    { status: 404 }
+  );
+}
+
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const entityType = params.entityType;
+    if (!isKnowledgeEntityType(entityType)) {
+      return invalidEntityType(entityType);
+    }
+
+    const chunks = await getKnowledgeEntityChunks(siteId!, entityType, params.entityId);
+    if (chunks.length === 0) {
+      return entityNotFound();
+    }
+
+    const excluded = await isKnowledgeEntityExcluded(
+      siteId!,
+      entityType,
+      params.entityId,
+      chunks[0].metadata.product_id != null ? String(chunks[0].metadata.product_id) : null
+    );
+
+    return NextResponse.json({
+      entity_type: entityType,
+      entity_id: params.entityId,
+      excluded,
+      chunks,
+    });
+  } catch (error) {
+    console.error('Knowledge entity GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to load entity',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest, { params }: RouteParams) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const auth = await authorizeSiteAccess(typeof body.site_id === 'string' ? body.site_id : null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const entityType = params.entityType;
+    if (!isKnowledgeEntityType(entityType)) {
+      return invalidEntityType(entityType);
+    }
+
+    const siteId: string = body.site_id;
+
+    switch (body.action) {
+      case 'reindex': {
+        const job = await reindexKnowledgeEntity(siteId, entityType, params.entityId, auth.userId);
+        if (!job) {
+          return entityNotFound();
+        }
+        return NextResponse.json({ success: true, job_id: job.id });
+      }
+      case 'exclude':
+        await excludeKnowledgeEntity(siteId, auth.tenantId, entityType, params.entityId, auth.userId);
+        return NextResponse.json({ success: true, excluded: true });
+      case 'include':
+        await includeKnowledgeEntity(siteId, entityType, params.entityId);
+        return NextResponse.json({ success: true, excluded: false });
+      default:
+        return NextResponse.json(
+          { error: { code: 'INVALID_ACTION', message: 'action must be reindex, exclude or include' } },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Knowledge entity POST error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update entity',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const entityType = params.entityType;
+    if (!isKnowledgeEntityType(entityType)) {
+      return invalidEntityType(entityType);
+    }
+
+    const deleted = await deleteKnowledgeEntity(siteId!, entityType, params.entityId);
+    if (!deleted) {
+      return entityNotFound();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Knowledge entity DELETE error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to delete entity',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
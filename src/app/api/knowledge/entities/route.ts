@@ -0,0 +1,61 @@
+/**
+ * GET /api/knowledge/entities?site_id=...&type=...&search=...&page=... - Knowledge base browser
+ *
+ * Lists the entities indexed in the site's active embedding index with chunk count,
+ * last indexed time, content hash and token cost estimate (50 per page).
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import {
+  KNOWLEDGE_ENTITIES_PAGE_SIZE,
+  isKnowledgeEntityType,
+  listKnowledgeEntities,
+} from '@/lib/ingestion/knowledge-base';
+
+export async function GET(req: NextRequest) {
+  try {
+    const searchParams = new URL(req.url).searchParams;
+    const siteId = searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const type = searchParams.get('type');
+    const entityType = type && isKnowledgeEntityType(type) ? type : undefined;
+    if (type && !entityType) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_ENTITY_TYPE', message: `Unknown entity type: ${type}` } },
+        { status: 400 }
+      );
+    }
+
+    const page = parseInt(searchParams.get('page') || '1', 10) || 1;
+    const { entities, total, indexVersion } = await listKnowledgeEntities(siteId!, {
+      entityType,
+      search: searchParams.get('search') || undefined,
+      page,
+    });
+
+    return NextResponse.json({
+      entities,
+      total,
+      page,
+      page_size: KNOWLEDGE_ENTITIES_PAGE_SIZE,
+      index_version: indexVersion,
+    });
+  } catch (error) {
+    console.error('Knowledge entities GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to list knowledge entities',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
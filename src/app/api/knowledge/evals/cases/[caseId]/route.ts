@@ -0,0 +1,105 @@
+/**
+ * PUT /api/knowledge/evals/cases/[caseId] - Update an eval case
+ * DELETE /api/knowledge/evals/cases/[caseId] - Delete an eval case (stored results are kept)
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { getEvalCase, updateEvalCase, deleteEvalCase, validateEvalCaseInput } from '@/lib/chat/evals';
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { caseId: string } }
+) {
+  try {
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Invalid JSON body' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeSiteAccess(body?.site_id || null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const existing = await getEvalCase(body.site_id, params.caseId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: { code: 'EVAL_CASE_NOT_FOUND', message: 'Eval case not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { evalCase: input, error: validationError } = validateEvalCaseInput({
+      question: body.question ?? existing.question,
+      expected_facts: body.expected_facts ?? existing.expected_facts,
+      expected_products: body.expected_products ?? existing.expected_products,
+      expected_sources: body.expected_sources ?? existing.expected_sources,
+    });
+    if (!input) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_EVAL_CASE', message: validationError } },
+        { status: 400 }
+      );
+    }
+
+    const evalCase = await updateEvalCase(body.site_id, params.caseId, {
+      ...input,
+      enabled: typeof body.enabled === 'boolean' ? body.enabled : existing.enabled,
+    });
+
+    return NextResponse.json({ case: evalCase });
+  } catch (error) {
+    console.error('Eval case PUT error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update eval case',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { caseId: string } }
+) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const deleted = await deleteEvalCase(siteId!, params.caseId);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: { code: 'EVAL_CASE_NOT_FOUND', message: 'Eval case not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Eval case DELETE error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to delete eval case',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
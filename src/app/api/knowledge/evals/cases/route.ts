@@ -0,0 +1,80 @@
+/**
+ * GET /api/knowledge/evals/cases - List golden-set eval cases for a site
+ * POST /api/knowledge/evals/cases - Create an eval case
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { listEvalCases, createEvalCase, validateEvalCaseInput } from '@/lib/chat/evals';
+
+export async function GET(req: NextRequest) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const cases = await listEvalCases(siteId!);
+
+    return NextResponse.json({ cases });
+  } catch (error) {
+    console.error('Eval cases GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch eval cases',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Invalid JSON body' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeSiteAccess(body?.site_id || null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { evalCase: input, error: validationError } = validateEvalCaseInput(body);
+    if (!input) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_EVAL_CASE', message: validationError } },
+        { status: 400 }
+      );
+    }
+
+    const evalCase = await createEvalCase(body.site_id, auth.tenantId, input, {
+      enabled: body.enabled !== false,
+      createdBy: auth.userId,
+    });
+
+    return NextResponse.json({ case: evalCase }, { status: 201 });
+  } catch (error) {
+    console.error('Eval cases POST error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to create eval case',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * POST /api/knowledge/evals/ci
+ * Run a site's golden set headless and report regressions
+ *
+ * Body: { site_id, provider?: 'fake' | 'site' (default 'fake'), label?, variant?,
+ *         min_scores?: { retrieval_recall?, groundedness?, answer_correctness? } }
+ *
+ * The run is compared with the previous completed CI run of the site. `passed` is
+ * false when an aggregate score drops by more than EVAL_REGRESSION_TOLERANCE or is
+ * below its min_scores entry, so a pipeline can gate on `jq -e .passed`.
+ *
+ * Requires Authorization: Bearer EVAL_RUNNER_SECRET
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  runEvalSuite,
+  getPreviousEvalRun,
+  compareEvalRuns,
+  EVAL_METRICS,
+  type EvalMetric,
+} from '@/lib/chat/evals';
+import { validatePlaygroundVariant } from '@/lib/chat/playground';
+import { createLogger, generateRequestId } from '@/lib/utils/logger';
+
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env.EVAL_RUNNER_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  const provided = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') || '';
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export async function POST(req: NextRequest) {
+  const requestId = generateRequestId();
+  const logger = createLogger({ request_id: requestId });
+
+  if (!isAuthorized(req)) {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Invalid eval runner secret',
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  let body: any;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: { code: 'INVALID_REQUEST', message: 'Invalid JSON body' } },
+      { status: 400 }
+    );
+  }
+
+  if (!body?.site_id) {
+    return NextResponse.json(
+      { error: { code: 'MISSING_REQUIRED_FIELD', message: 'site_id is required' } },
+      { status: 400 }
+    );
+  }
+
+  if (body.provider !== undefined && body.provider !== 'fake' && body.provider !== 'site') {
+    return NextResponse.json(
+      { error: { code: 'INVALID_PROVIDER', message: "provider must be 'fake' or 'site'" } },
+      { status: 400 }
+    );
+  }
+
+  const { variant, error: variantError } = validatePlaygroundVariant(body.variant);
+  if (!variant) {
+    return NextResponse.json(
+      { error: { code: 'INVALID_VARIANT', message: variantError } },
+      { status: 400 }
+    );
+  }
+
+  const minScores: Partial<Record<EvalMetric, number>> = {};
+  for (const metric of EVAL_METRICS) {
+    const value = body.min_scores?.[metric];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_MIN_SCORES', message: `min_scores.${metric} must be a number between 0 and 1` } },
+        { status: 400 }
+      );
+    }
+    minScores[metric] = value;
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const { data: site } = await supabaseAdmin
+      .from('sites')
+      .select('id, tenant_id')
+      .eq('id', body.site_id)
+      .single();
+
+    if (!site) {
+      return NextResponse.json(
+        { error: { code: 'SITE_NOT_FOUND', message: 'Site not found' } },
+        { status: 404 }
+      );
+    }
+
+    const run = await runEvalSuite(site, {
+      provider: body.provider === 'site' ? 'site' : 'fake',
+      variant,
+      label: typeof body.label === 'string' ? body.label.trim().slice(0, 200) : null,
+      trigger: 'ci',
+    });
+
+    if (!run) {
+      return NextResponse.json(
+        { error: { code: 'NO_EVAL_CASES', message: 'The site has no enabled eval cases' } },
+        { status: 400 }
+      );
+    }
+
+    const previous = await getPreviousEvalRun(site.id, run);
+    const comparison = previous ? await compareEvalRuns(site.id, previous.id, run.id) : null;
+
+    const belowMinimum = EVAL_METRICS.filter(
+      (metric) => minScores[metric] !== undefined && run[metric] !== null && (run[metric] as number) < minScores[metric]!
+    );
+    const passed = belowMinimum.length === 0 && (comparison?.regressions.length ?? 0) === 0;
+
+    logger.info('CI eval run completed', {
+      site_id: site.id,
+      run_id: run.id,
+      passed,
+      regressions: comparison?.regressions || [],
+      below_minimum: belowMinimum,
+    });
+
+    return NextResponse.json({
+      passed,
+      run,
+      comparison,
+      below_minimum: belowMinimum,
+    });
+  } catch (error) {
+    logger.error('CI eval run failed', error instanceof Error ? error : new Error('Unknown error'));
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Eval run failed',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
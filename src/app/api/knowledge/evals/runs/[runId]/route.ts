@@ -0,0 +1,60 @@
+/**
+ * GET /api/knowledge/evals/runs/[runId] - An eval run with its per-question results
+ *
+ * ?compare_to=<run id> compares it against another run; compare_to=previous uses
+ * the latest completed run started before it.
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { getEvalRun, getPreviousEvalRun, compareEvalRuns } from '@/lib/chat/evals';
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  try {
+    const searchParams = new URL(req.url).searchParams;
+    const siteId = searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const evalRun = await getEvalRun(siteId!, params.runId);
+    if (!evalRun) {
+      return NextResponse.json(
+        { error: { code: 'EVAL_RUN_NOT_FOUND', message: 'Eval run not found' } },
+        { status: 404 }
+      );
+    }
+
+    let compareTo = searchParams.get('compare_to');
+    if (compareTo === 'previous') {
+      compareTo = (await getPreviousEvalRun(siteId!, evalRun.run))?.id || null;
+    }
+
+    const comparison = compareTo ? await compareEvalRuns(siteId!, compareTo, params.runId) : null;
+    if (compareTo && !comparison) {
+      return NextResponse.json(
+        { error: { code: 'EVAL_RUN_NOT_FOUND', message: 'Comparison run not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ...evalRun, comparison });
+  } catch (error) {
+    console.error('Eval run GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch eval run',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * GET /api/knowledge/evals/runs - Recent eval runs for a site
+ * POST /api/knowledge/evals/runs - Run the golden set now
+ *
+ * POST body: { site_id, provider?: 'site' | 'fake', label?, variant? }
+ * variant overrides knowledge settings for the run (same keys as the playground).
+ * The run is synchronous; it returns the stored run with its aggregate scores.
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { listEvalRuns, runEvalSuite, type EvalProvider } from '@/lib/chat/evals';
+import { validatePlaygroundVariant } from '@/lib/chat/playground';
+
+export async function GET(req: NextRequest) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const runs = await listEvalRuns(siteId!);
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error('Eval runs GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch eval runs',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Invalid JSON body' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeSiteAccess(body?.site_id || null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (body.provider !== undefined && body.provider !== 'fake' && body.provider !== 'site') {
+      return NextResponse.json(
+        { error: { code: 'INVALID_PROVIDER', message: "provider must be 'site' or 'fake'" } },
+        { status: 400 }
+      );
+    }
+
+    const provider: EvalProvider = body.provider === 'fake' ? 'fake' : 'site';
+
+    const { variant, error: variantError } = validatePlaygroundVariant(body.variant);
+    if (!variant) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_VARIANT', message: variantError } },
+        { status: 400 }
+      );
+    }
+
+    const run = await runEvalSuite(
+      { id: body.site_id, tenant_id: auth.tenantId },
+      {
+        provider,
+        variant,
+        label: typeof body.label === 'string' ? body.label.trim().slice(0, 200) : null,
+        trigger: 'dashboard',
+        requestedBy: auth.userId,
+      }
+    );
+
+    if (!run) {
+      return NextResponse.json(
+        { error: { code: 'NO_EVAL_CASES', message: 'Add at least one enabled eval case first' } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ run }, { status: 201 });
+  } catch (error) {
+    console.error('Eval runs POST error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to run eval suite',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * PUT /api/knowledge/faqs/[faqId] - Update an FAQ (re-embedded by the ingestion worker)
+ * DELETE /api/knowledge/faqs/[faqId] - Delete an FAQ and its embeddings
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { createAdminClient } from '@/lib/supabase/server';
+import { validateFaqInput, enqueueFaqIngestion } from '@/lib/ingestion/faq';
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { faqId: string } }
+) {
+  try {
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Invalid JSON body' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeSiteAccess(body?.site_id || null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const supabaseAdmin = createAdminClient();
+    const { data: existing } = await supabaseAdmin
+      .from('faqs')
+      .select('id, question, answer, category, enabled')
+      .eq('site_id', body.site_id)
+      .eq('id', params.faqId)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: { code: 'FAQ_NOT_FOUND', message: 'FAQ not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { faq: input, error: validationError } = validateFaqInput({
+      question: body.question ?? existing.question,
+      answer: body.answer ?? existing.answer,
+      category: body.category !== undefined ? body.category : existing.category,
+    });
+    if (!input) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_FAQ', message: validationError } },
+        { status: 400 }
+      );
+    }
+
+    const { data: faq, error } = await supabaseAdmin
+      .from('faqs')
+      .update({
+        question: input.question,
+        answer: input.answer,
+        category: input.category,
+        enabled: typeof body.enabled === 'boolean' ? body.enabled : existing.enabled,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', params.faqId)
+      .select('id, question, answer, category, enabled, created_at, updated_at')
+      .single();
+
+    if (error || !faq) {
+      throw new Error(`Failed to update FAQ: ${error?.message || 'Unknown error'}`);
+    }
+
+    // Disabled FAQs are removed from the knowledge base by the worker
+    const job = await enqueueFaqIngestion(body.site_id, [faq.id], auth.userId);
+
+    return NextResponse.json({ faq, job_id: job?.id || null });
+  } catch (error) {
+    console.error('FAQ PUT error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update FAQ',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { faqId: string } }
+) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const supabaseAdmin = createAdminClient();
+
+    const { error: embeddingsError } = await supabaseAdmin
+      .from('embeddings')
+      .delete()
+      .eq('site_id', siteId!)
+      .eq('entity_type', 'faq')
+      .eq('entity_id', params.faqId);
+
+    if (embeddingsError) {
+      throw new Error(`Failed to delete FAQ embeddings: ${embeddingsError.message}`);
+    }
+
+    const { data: deleted, error } = await supabaseAdmin
+      .from('faqs')
+      .delete()
+      .eq('site_id', siteId!)
+      .eq('id', params.faqId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete FAQ: ${error.message}`);
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: { code: 'FAQ_NOT_FOUND', message: 'FAQ not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('FAQ DELETE error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to delete FAQ',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
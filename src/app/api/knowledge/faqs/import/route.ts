@@ -0,0 +1,125 @@
+/**
+ * POST /api/knowledge/faqs/import - Bulk import FAQs from CSV
+ *
+ * Body: { site_id, csv, replace? } - csv columns: question, answer, category (optional)
+ * With replace: true, existing FAQs of the site are deleted first.
+ * Imported FAQs are embedded by one ingestion job (progress on the knowledge settings page).
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { createAdminClient } from '@/lib/supabase/server';
+import { parseFaqCsv, enqueueFaqIngestion, MAX_FAQ_IMPORT_ROWS } from '@/lib/ingestion/faq';
+
+export async function POST(req: NextRequest) {
+  try {
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Invalid JSON body' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeSiteAccess(body?.site_id || null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (typeof body.csv !== 'string' || !body.csv.trim()) {
+      return NextResponse.json(
+        { error: { code: 'MISSING_REQUIRED_FIELD', message: 'csv is required' } },
+        { status: 400 }
+      );
+    }
+
+    const { faqs, errors } = parseFaqCsv(body.csv);
+
+    if (faqs.length === 0) {
+      return NextResponse.json(
+        {
+          error: { code: 'INVALID_CSV', message: 'No valid FAQ rows found (columns: question, answer, category)' },
+          errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (faqs.length > MAX_FAQ_IMPORT_ROWS) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'TOO_MANY_ROWS',
+            message: `A single import can contain at most ${MAX_FAQ_IMPORT_ROWS} FAQs`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdminClient();
+
+    if (body.replace === true) {
+      await supabaseAdmin
+        .from('embeddings')
+        .delete()
+        .eq('site_id', body.site_id)
+        .eq('entity_type', 'faq');
+
+      const { error: deleteError } = await supabaseAdmin
+        .from('faqs')
+        .delete()
+        .eq('site_id', body.site_id);
+
+      if (deleteError) {
+        throw new Error(`Failed to replace FAQs: ${deleteError.message}`);
+      }
+    }
+
+    const { data: inserted, error } = await supabaseAdmin
+      .from('faqs')
+      .insert(
+        faqs.map((faq) => ({
+          site_id: body.site_id,
+          tenant_id: auth.tenantId,
+          question: faq.question,
+          answer: faq.answer,
+          category: faq.category,
+          created_by: auth.userId,
+        }))
+      )
+      .select('id');
+
+    if (error || !inserted) {
+      throw new Error(`Failed to import FAQs: ${error?.message || 'Unknown error'}`);
+    }
+
+    const job = await enqueueFaqIngestion(
+      body.site_id,
+      inserted.map((row) => row.id),
+      auth.userId
+    );
+
+    return NextResponse.json({
+      imported: inserted.length,
+      skipped: errors.length,
+      errors: errors.slice(0, 50),
+      job_id: job?.id || null,
+    });
+  } catch (error) {
+    console.error('FAQ import error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to import FAQs',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * GET /api/knowledge/faqs - List FAQs for a site
+ * POST /api/knowledge/faqs - Create an FAQ (embedded by the ingestion worker)
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { createAdminClient } from '@/lib/supabase/server';
+import { validateFaqInput, enqueueFaqIngestion, type Faq } from '@/lib/ingestion/faq';
+
+export async function GET(req: NextRequest) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const supabaseAdmin = createAdminClient();
+    const { data: faqs, error } = await supabaseAdmin
+      .from('faqs')
+      .select('id, question, answer, category, enabled, created_at, updated_at')
+      .eq('site_id', siteId!)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch FAQs: ${error.message}`);
+    }
+
+    // Indexed = has embeddings in the knowledge base
+    const { data: indexed } = await supabaseAdmin
+      .from('embeddings')
+      .select('entity_id')
+      .eq('site_id', siteId!)
+      .eq('entity_type', 'faq');
+
+    const indexedIds = new Set((indexed || []).map((row) => row.entity_id));
+
+    return NextResponse.json({
+      faqs: ((faqs || []) as Faq[]).map((faq) => ({
+        ...faq,
+        indexed: indexedIds.has(faq.id),
+      })),
+    });
+  } catch (error) {
+    console.error('FAQs GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch FAQs',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    let body: any;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Invalid JSON body' } },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeSiteAccess(body?.site_id || null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const { faq: input, error: validationError } = validateFaqInput(body);
+    if (!input) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_FAQ', message: validationError } },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdminClient();
+    const { data: faq, error } = await supabaseAdmin
+      .from('faqs')
+      .insert({
+        site_id: body.site_id,
+        tenant_id: auth.tenantId,
+        question: input.question,
+        answer: input.answer,
+        category: input.category,
+        enabled: body.enabled !== false,
+        created_by: auth.userId,
+      })
+      .select('id, question, answer, category, enabled, created_at, updated_at')
+      .single();
+
+    if (error || !faq) {
+      throw new Error(`Failed to create FAQ: ${error?.message || 'Unknown error'}`);
+    }
+
+    const created = faq as Faq;
+    const job = await enqueueFaqIngestion(body.site_id, [created.id], auth.userId);
+
+    return NextResponse.json({ faq: { ...created, indexed: false }, job_id: job?.id || null }, { status: 201 });
+  } catch (error) {
+    console.error('FAQs POST error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to create FAQ',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
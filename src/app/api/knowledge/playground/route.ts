@@ -0,0 +1,148 @@
+/**
+ * POST /api/knowledge/playground - Run a query through the chat pipeline with a settings variant
+ *
+ * Body: { site_id, query, variant? } - variant overrides knowledge settings
+ * (top_k_results, similarity_threshold, retrieval_mode, ...) for this run only.
+ * Responds with server-sent events: "retrieval" (chunks, context blocks, system
+ * prompt), then "chunk" events with the answer and "done" with token usage.
+ * Playground answers are counted as chat usage but not stored as conversations.
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { createAdminClient } from '@/lib/supabase/server';
+import {
+  MAX_PLAYGROUND_QUERY_LENGTH,
+  validatePlaygroundVariant,
+  runPlaygroundRetrieval,
+  streamPlaygroundAnswer,
+} from '@/lib/chat/playground';
+import { logUsageEvent, updateDailyUsage, calculateCost } from '@/lib/usage-tracking';
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const auth = await authorizeSiteAccess(typeof body.site_id === 'string' ? body.site_id : null);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const query = typeof body.query === 'string' ? body.query.trim() : '';
+    if (!query || query.length > MAX_PLAYGROUND_QUERY_LENGTH) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_QUERY',
+            message: `query is required (max ${MAX_PLAYGROUND_QUERY_LENGTH} characters)`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { variant, error: variantError } = validatePlaygroundVariant(body.variant);
+    if (!variant) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_VARIANT', message: variantError } },
+        { status: 400 }
+      );
+    }
+
+    const site = { id: body.site_id as string, tenant_id: auth.tenantId };
+    const { retrieval, llm } = await runPlaygroundRetrieval(site, query, variant);
+
+    const encoder = new TextEncoder();
+    const send = (controller: ReadableStreamDefaultController, data: unknown) =>
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        send(controller, { type: 'retrieval', ...retrieval });
+
+        // The chat would answer with the FAQ directly, without an LLM call
+        if (retrieval.direct_answer) {
+          send(controller, { type: 'chunk', content: retrieval.direct_answer.answer });
+          send(controller, { type: 'done', model: 'faq', usage: null });
+          controller.close();
+          return;
+        }
+
+        const startTime = Date.now();
+        const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+        let succeeded = false;
+
+        try {
+          const answer = await streamPlaygroundAnswer(llm, retrieval, req.signal);
+          for await (const chunk of answer) {
+            if (chunk.usage) {
+              usage.prompt_tokens += chunk.usage.prompt_tokens || 0;
+              usage.completion_tokens += chunk.usage.completion_tokens || 0;
+              usage.total_tokens += chunk.usage.total_tokens || 0;
+            }
+            const content = chunk.choices[0]?.delta?.content;
+            if (content) {
+              send(controller, { type: 'chunk', content });
+            }
+          }
+
+          send(controller, { type: 'done', model: llm.chatModel, usage });
+          succeeded = true;
+        } catch (error) {
+          if (!req.signal.aborted) {
+            console.error('Playground answer error:', error);
+            send(controller, {
+              type: 'error',
+              message: error instanceof Error ? error.message : 'Failed to generate answer',
+            });
+          }
+        } finally {
+          controller.close();
+        }
+
+        const supabaseAdmin = createAdminClient();
+        await logUsageEvent(supabaseAdmin, {
+          tenant_id: site.tenant_id,
+          site_id: site.id,
+          conversation_id: null,
+          type: 'chat',
+          model: llm.chatModel,
+          prompt_tokens: usage.prompt_tokens,
+          completion_tokens: usage.completion_tokens,
+          total_tokens: usage.total_tokens,
+          latency_ms: Date.now() - startTime,
+          success: succeeded,
+        });
+        if (usage.total_tokens > 0) {
+          await updateDailyUsage(
+            supabaseAdmin,
+            site.id,
+            site.tenant_id,
+            'chat',
+            usage.total_tokens,
+            calculateCost(llm.chatModel, usage.prompt_tokens, usage.completion_tokens)
+          );
+        }
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Playground POST error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to run playground query',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
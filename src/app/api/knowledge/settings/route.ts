@@ -2,11 +2,16 @@
  * GET /api/knowledge/settings - Get knowledge settings for a site
  * PUT /api/knowledge/settings - Update knowledge settings for a site
  * 
+ * embedding_model reports the model of the site's active embedding index; it is
+ * changed through an embedding model migration (/api/knowledge/embedding-migration)
+ *
  * Requires authentication (dashboard users only)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { CHUNKING_STRATEGIES, DEFAULT_CHUNKING_STRATEGY } from '@/lib/embeddings/chunking';
+import { getActiveEmbeddingIndex } from '@/lib/embeddings/indexes';
 
 export async function GET(req: NextRequest) {
   try {
@@ -66,6 +71,8 @@ export async function GET(req: NextRequest) {
       );
     }
 
+    const activeIndex = await getActiveEmbeddingIndex(siteId);
+
     // Get knowledge settings
     const { data, error } = await supabaseAdmin
       .from('settings')
@@ -84,6 +91,9 @@ export async function GET(req: NextRequest) {
         include_pages: true,
         include_policies: true,
         include_faq: false,
+        include_documents: true,
+        faq_direct_answer_enabled: true,
+        faq_direct_answer_threshold: 0.9,
         auto_index_enabled: true,
         chunk_size: 1000,
         top_k_results: 10,
@@ -91,8 +101,15 @@ export async function GET(req: NextRequest) {
         max_context_tokens: 4000,
         max_chunks_per_source: 3,
         max_sources: 5,
-        embedding_model: 'text-embedding-3-small',
+        embedding_model: activeIndex.model || 'text-embedding-3-small',
+        retrieval_mode: 'vector',
+        rerank_enabled: false,
+        rerank_candidates: 40,
+        query_rewrite_enabled: false,
+        structured_filters_enabled: false,
         recency_bias: false,
+        source_priority: { product: 1.0, page: 1.0, policy: 1.0, faq: 1.0, document: 1.0 },
+        chunking_strategy: DEFAULT_CHUNKING_STRATEGY,
       });
     }
 
@@ -102,6 +119,9 @@ export async function GET(req: NextRequest) {
       include_pages: knowledgeSettings.include_pages ?? true,
       include_policies: knowledgeSettings.include_policies ?? true,
       include_faq: knowledgeSettings.include_faq ?? false,
+      include_documents: knowledgeSettings.include_documents ?? true,
+      faq_direct_answer_enabled: knowledgeSettings.faq_direct_answer_enabled ?? true,
+      faq_direct_answer_threshold: knowledgeSettings.faq_direct_answer_threshold ?? 0.9,
       auto_index_enabled: knowledgeSettings.auto_index_enabled ?? true,
       chunk_size: knowledgeSettings.chunk_size ?? 1000,
       top_k_results: knowledgeSettings.top_k_results ?? 10,
@@ -109,8 +129,15 @@ export async function GET(req: NextRequest) {
       max_context_tokens: knowledgeSettings.max_context_tokens ?? 4000,
       max_chunks_per_source: knowledgeSettings.max_chunks_per_source ?? 3,
       max_sources: knowledgeSettings.max_sources ?? 5,
-      embedding_model: knowledgeSettings.embedding_model || 'text-embedding-3-small',
+      embedding_model: activeIndex.model || knowledgeSettings.embedding_model || 'text-embedding-3-small',
+      retrieval_mode: knowledgeSettings.retrieval_mode || 'vector',
+      rerank_enabled: knowledgeSettings.rerank_enabled ?? false,
+      rerank_candidates: knowledgeSettings.rerank_candidates ?? 40,
+      query_rewrite_enabled: knowledgeSettings.query_rewrite_enabled ?? false,
+      structured_filters_enabled: knowledgeSettings.structured_filters_enabled ?? false,
       recency_bias: knowledgeSettings.recency_bias ?? false,
+      source_priority: knowledgeSettings.source_priority || { product: 1.0, page: 1.0, policy: 1.0, faq: 1.0, document: 1.0 },
+      chunking_strategy: { ...DEFAULT_CHUNKING_STRATEGY, ...knowledgeSettings.chunking_strategy },
     });
   } catch (error) {
     console.error('Knowledge settings GET error:', error);
@@ -154,6 +181,9 @@ export async function PUT(req: NextRequest) {
       include_pages,
       include_policies,
       include_faq,
+      include_documents,
+      faq_direct_answer_enabled,
+      faq_direct_answer_threshold,
       auto_index_enabled,
       chunk_size,
       top_k_results,
@@ -162,7 +192,14 @@ export async function PUT(req: NextRequest) {
       max_chunks_per_source,
       max_sources,
       embedding_model,
+      retrieval_mode,
+      rerank_enabled,
+      rerank_candidates,
+      query_rewrite_enabled,
+      structured_filters_enabled,
       recency_bias,
+      source_priority,
+      chunking_strategy,
     } = body;
 
     if (!site_id) {
@@ -177,6 +214,35 @@ export async function PUT(req: NextRequest) {
       );
     }
 
+    if (retrieval_mode !== undefined && !['vector', 'keyword', 'hybrid'].includes(retrieval_mode)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_RETRIEVAL_MODE',
+            message: 'retrieval_mode must be one of: vector, keyword, hybrid',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      chunking_strategy !== undefined &&
+      (typeof chunking_strategy !== 'object' ||
+        chunking_strategy === null ||
+        Object.values(chunking_strategy).some((strategy) => !CHUNKING_STRATEGIES.includes(strategy as any)))
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_CHUNKING_STRATEGY',
+            message: `chunking_strategy values must be one of: ${CHUNKING_STRATEGIES.join(', ')}`,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     // Verify user has access to this site
     const { createAdminClient } = await import('@/lib/supabase/server');
     const supabaseAdmin = createAdminClient();
@@ -211,6 +277,23 @@ export async function PUT(req: NextRequest) {
       .single();
 
     const currentSettings = existing?.value || {};
+
+    // Re-embedding the site is a migration with its own index, not a settings change
+    const activeIndex = await getActiveEmbeddingIndex(site_id);
+    const currentEmbeddingModel =
+      activeIndex.model || currentSettings.embedding_model || 'text-embedding-3-small';
+    if (embedding_model !== undefined && embedding_model !== currentEmbeddingModel) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'EMBEDDING_MIGRATION_REQUIRED',
+            message: 'Changing the embedding model requires an embedding model migration',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
     const newSettings = {
       ...currentSettings,
       include_products:
@@ -219,6 +302,16 @@ export async function PUT(req: NextRequest) {
       include_policies:
         include_policies !== undefined ? include_policies : (currentSettings.include_policies !== false),
       include_faq: include_faq !== undefined ? include_faq : currentSettings.include_faq,
+      include_documents:
+        include_documents !== undefined ? include_documents : (currentSettings.include_documents !== false),
+      faq_direct_answer_enabled:
+        faq_direct_answer_enabled !== undefined
+          ? faq_direct_answer_enabled
+          : (currentSettings.faq_direct_answer_enabled ?? true),
+      faq_direct_answer_threshold:
+        faq_direct_answer_threshold !== undefined
+          ? faq_direct_answer_threshold
+          : (currentSettings.faq_direct_answer_threshold ?? 0.9),
       auto_index_enabled:
         auto_index_enabled !== undefined ? auto_index_enabled : (currentSettings.auto_index_enabled !== false),
       chunk_size: chunk_size !== undefined ? chunk_size : (currentSettings.chunk_size || 1000),
@@ -232,10 +325,27 @@ export async function PUT(req: NextRequest) {
         max_chunks_per_source !== undefined ? max_chunks_per_source : (currentSettings.max_chunks_per_source ?? 3),
       max_sources:
         max_sources !== undefined ? max_sources : (currentSettings.max_sources ?? 5),
-      embedding_model:
-        embedding_model !== undefined ? embedding_model : (currentSettings.embedding_model || 'text-embedding-3-small'),
+      embedding_model: currentEmbeddingModel,
+      retrieval_mode:
+        retrieval_mode !== undefined ? retrieval_mode : (currentSettings.retrieval_mode || 'vector'),
+      rerank_enabled:
+        rerank_enabled !== undefined ? rerank_enabled : (currentSettings.rerank_enabled ?? false),
+      rerank_candidates:
+        rerank_candidates !== undefined ? rerank_candidates : (currentSettings.rerank_candidates ?? 40),
+      query_rewrite_enabled:
+        query_rewrite_enabled !== undefined ? query_rewrite_enabled : (currentSettings.query_rewrite_enabled ?? false),
+      structured_filters_enabled:
+        structured_filters_enabled !== undefined
+          ? structured_filters_enabled
+          : (currentSettings.structured_filters_enabled ?? false),
+      source_priority:
+        source_priority !== undefined ? source_priority : currentSettings.source_priority,
       recency_bias:
         recency_bias !== undefined ? recency_bias : (currentSettings.recency_bias ?? false),
+      chunking_strategy:
+        chunking_strategy !== undefined
+          ? { ...DEFAULT_CHUNKING_STRATEGY, ...currentSettings.chunking_strategy, ...chunking_strategy }
+          : currentSettings.chunking_strategy,
     };
 
     // Deactivate old settings
@@ -0,0 +1,165 @@
+/**
+ * GET /api/llm/settings - Get LLM provider settings for a site
+ * PUT /api/llm/settings - Update LLM provider settings for a site
+ *
+ * Provider endpoints and API keys come from environment variables only;
+ * sites choose the provider and (optionally) model names
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { isLLMProviderName, isFakeLLMProviderAllowed, getDefaultLLMSettings } from '@/lib/llm/settings';
+
+export async function GET(req: NextRequest) {
+  try {
+    const siteId = new URL(req.url).searchParams.get('site_id');
+    const auth = await authorizeSiteAccess(siteId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const supabaseAdmin = createAdminClient();
+
+    // Get LLM settings
+    const { data, error } = await supabaseAdmin
+      .from('settings')
+      .select('value')
+      .eq('site_id', siteId!)
+      .eq('key', 'llm')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+
+    const defaults = getDefaultLLMSettings();
+
+    if (error || !data) {
+      // Return defaults if no settings found
+      return NextResponse.json({
+        provider: defaults.provider,
+        chat_model: '',
+        embedding_model: '',
+      });
+    }
+
+    const llmSettings = data.value as any;
+    const storedProviderAllowed =
+      isLLMProviderName(llmSettings.provider) && (llmSettings.provider !== 'fake' || isFakeLLMProviderAllowed());
+    return NextResponse.json({
+      provider: storedProviderAllowed ? llmSettings.provider : defaults.provider,
+      chat_model: llmSettings.chat_model || '',
+      embedding_model: llmSettings.embedding_model || '',
+    });
+  } catch (error) {
+    console.error('LLM settings GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch LLM settings',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { site_id, provider, chat_model, embedding_model } = body;
+
+    const auth = await authorizeSiteAccess(site_id);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    if (provider !== undefined && !isLLMProviderName(provider)) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_PROVIDER',
+            message: 'provider must be one of: openai, azure, openai_compatible, fake',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (provider === 'fake' && !isFakeLLMProviderAllowed()) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_PROVIDER',
+            message: 'The fake provider is not available in production (set ALLOW_FAKE_LLM_PROVIDER=true to enable it)',
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdminClient();
+
+    // Get current settings
+    const { data: existing } = await supabaseAdmin
+      .from('settings')
+      .select('value, version')
+      .eq('site_id', site_id)
+      .eq('key', 'llm')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+
+    const currentSettings = existing?.value || {};
+    const newSettings = {
+      ...currentSettings,
+      provider: provider !== undefined ? provider : (currentSettings.provider || getDefaultLLMSettings().provider),
+      chat_model: chat_model !== undefined ? (chat_model || null) : (currentSettings.chat_model ?? null),
+      embedding_model:
+        embedding_model !== undefined ? (embedding_model || null) : (currentSettings.embedding_model ?? null),
+    };
+
+    // Deactivate old settings
+    if (existing) {
+      await supabaseAdmin
+        .from('settings')
+        .update({ is_active: false })
+        .eq('site_id', site_id)
+        .eq('key', 'llm')
+        .eq('is_active', true);
+    }
+
+    // Insert new settings version
+    const { error: insertError } = await supabaseAdmin.from('settings').insert({
+      site_id: site_id,
+      tenant_id: auth.tenantId,
+      key: 'llm',
+      value: newSettings,
+      version: (existing?.version || 0) + 1,
+      is_active: true,
+    });
+
+    if (insertError) {
+      throw new Error(`Failed to update LLM settings: ${insertError.message}`);
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error('LLM settings PUT error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update LLM settings',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
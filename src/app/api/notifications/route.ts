@@ -6,6 +6,7 @@
  * - License expiration warnings
  * - Usage limit warnings
  * - Site status issues
+ * - Conversations waiting for a human agent (handoff requested)
  */
 
 import { NextResponse } from 'next/server';
@@ -14,7 +15,7 @@ import { createAdminClient } from '@/lib/supabase/server';
 
 export interface Notification {
   id: string;
-  type: 'license_expiring' | 'license_expired' | 'usage_limit' | 'site_inactive' | 'site_disabled';
+  type: 'license_expiring' | 'license_expired' | 'usage_limit' | 'site_inactive' | 'site_disabled' | 'handoff_requested';
   severity: 'info' | 'warning' | 'error';
   title: string;
   message: string;
@@ -258,6 +259,36 @@ export async function GET() {
       }
     }
 
+    // Conversations waiting for a human agent
+    const siteIds = (sites || []).map((site) => site.id);
+    if (siteIds.length > 0) {
+      const { data: pendingHandoffs, error: handoffError } = await supabaseAdmin
+        .from('conversations')
+        .select('id, site_id, handoff_requested_by, handoff_reason, handoff_requested_at')
+        .in('site_id', siteIds)
+        .eq('handoff_status', 'requested')
+        .order('handoff_requested_at', { ascending: false })
+        .limit(20);
+
+      if (handoffError) {
+        console.error('Failed to load handoff requests:', handoffError);
+      }
+
+      for (const conversation of pendingHandoffs || []) {
+        const site = (sites || []).find((s) => s.id === conversation.site_id);
+        notifications.push({
+          id: `handoff_requested_${conversation.id}`,
+          type: 'handoff_requested',
+          severity: 'warning',
+          title: 'Visitor Waiting for Agent',
+          message: `${conversation.handoff_requested_by === 'assistant' ? 'The assistant' : 'A visitor'} requested a human on ${site?.site_name || site?.site_url || 'your site'}${conversation.handoff_reason ? `: ${conversation.handoff_reason}` : '.'}`,
+          action_url: `/dashboard/conversations/${conversation.id}?site_id=${conversation.site_id}`,
+          action_label: 'Open Conversation',
+          created_at: conversation.handoff_requested_at || now.toISOString(),
+        });
+      }
+    }
+
     // Sort notifications by severity (error > warning > info) and then by date
     notifications.sort((a, b) => {
       const severityOrder = { error: 0, warning: 1, info: 2 };
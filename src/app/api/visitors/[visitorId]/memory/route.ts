@@ -0,0 +1,107 @@
+/**
+ * GET /api/visitors/[visitorId]/memory
+ * DELETE /api/visitors/[visitorId]/memory
+ * View or clear a visitor's stored memory (visitorId is the visitors.id UUID)
+ *
+ * Requires authentication and membership in the site's tenant (dashboard users only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSiteAccess } from '@/lib/auth/site-access';
+import { createAdminClient } from '@/lib/supabase/server';
+import { forgetVisitor, getVisitorMemory } from '@/lib/chat/visitor-memory';
+
+/**
+ * Authenticate and resolve the visitor within a site the user can access
+ */
+async function authorize(
+  req: NextRequest,
+  visitorId: string
+): Promise<{ siteId: string; response?: undefined } | { siteId?: undefined; response: NextResponse }> {
+  const siteId = new URL(req.url).searchParams.get('site_id');
+  const auth = await authorizeSiteAccess(siteId);
+  if (auth.response) {
+    return { response: auth.response };
+  }
+
+  const supabaseAdmin = createAdminClient();
+  const { data: visitor } = await supabaseAdmin
+    .from('visitors')
+    .select('id')
+    .eq('site_id', siteId!)
+    .eq('id', visitorId)
+    .single();
+
+  if (!visitor) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'VISITOR_NOT_FOUND', message: 'Visitor not found' } },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { siteId: siteId! };
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { visitorId: string } }
+) {
+  try {
+    const auth = await authorize(req, params.visitorId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    const memory = await getVisitorMemory(params.visitorId);
+
+    return NextResponse.json({
+      visitor_id: params.visitorId,
+      enabled: memory ? memory.enabled : true,
+      profile: memory?.profile || null,
+      summary: memory?.summary || null,
+      conversations_processed: memory?.conversationsProcessed || 0,
+      last_extracted_at: memory?.lastExtractedAt || null,
+      forgotten_at: memory?.forgottenAt || null,
+    });
+  } catch (error) {
+    console.error('Visitor memory GET error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to fetch visitor memory',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { visitorId: string } }
+) {
+  try {
+    const auth = await authorize(req, params.visitorId);
+    if (auth.response) {
+      return auth.response;
+    }
+
+    await forgetVisitor(auth.siteId, params.visitorId, 'staff');
+
+    return NextResponse.json({ status: 'forgotten' });
+  } catch (error) {
+    console.error('Visitor memory DELETE error:', error);
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to clear visitor memory',
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
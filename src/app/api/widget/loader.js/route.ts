@@ -24,20 +24,10 @@ export async function OPTIONS(req: NextRequest) {
 
 export async function GET(req: NextRequest) {
   try {
-    // Read the loader.js file from public folder
+    // public/widget/loader.js is the only loader (and window.AIWooChat stub); the WordPress plugin enqueues it from here
     const filePath = join(process.cwd(), 'public', 'widget', 'loader.js');
-    let loaderScript: string;
-    
-    try {
-      loaderScript = readFileSync(filePath, 'utf-8');
-    } catch (fileError) {
-      // If file doesn't exist, use inline script
-      throw new Error('File not found');
-    }
+    const loaderScript = readFileSync(filePath, 'utf-8');
 
-    // Get Origin header for CORS
-    const origin = req.headers.get('origin');
-    
     // Set proper headers for JavaScript file with full CORS support
     const headers = new Headers({
       'Content-Type': 'application/javascript; charset=utf-8',
@@ -53,36 +43,12 @@ export async function GET(req: NextRequest) {
     return new NextResponse(loaderScript, { headers });
   } catch (error) {
     console.error('Widget loader error:', error);
-    
-    // Fallback: return inline loader script
-    const fallbackScript = `
-      (function() {
-        'use strict';
-        const CONFIG = window.AIWooChatConfig || {};
-        const SAAS_URL = CONFIG.saasUrl || '';
-        const SITE_ID = CONFIG.siteId || '';
-        if (!SAAS_URL || !SITE_ID) {
-          console.warn('AI Woo Chat: Missing configuration');
-          return;
-        }
-        const widgetContainer = document.createElement('div');
-        widgetContainer.id = 'ai-woo-chat-widget';
-        document.body.appendChild(widgetContainer);
-        const script = document.createElement('script');
-        script.src = SAAS_URL + '/api/widget';
-        script.async = true;
-        script.onerror = function() {
-          console.error('AI Woo Chat: Failed to load widget script');
-        };
-        document.head.appendChild(script);
-        window.AIWooChatWidget = { initialized: true };
-      })();
-    `;
-    
-    return new NextResponse(fallbackScript, {
-      status: 200,
+    // Always return CORS headers, even for errors
+    return new NextResponse("console.error('AI Woo Chat: Widget loader is unavailable');", {
+      status: 500,
       headers: {
         'Content-Type': 'application/javascript; charset=utf-8',
+        'Cache-Control': 'no-store',
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, OPTIONS',
         'Access-Control-Allow-Headers': 'Content-Type',
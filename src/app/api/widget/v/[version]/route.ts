@@ -0,0 +1,64 @@
+/**
+ * GET /api/widget/v/[version].js
+ * Serve one widget release
+ *
+ * Release files are content-addressed and never change, so they are cached for
+ * a year (immutable). Unknown or removed releases return 404.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getWidgetRelease, readWidgetBundle } from '@/lib/widget/releases';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept',
+  'Cross-Origin-Resource-Policy': 'cross-origin',
+};
+
+// Handle OPTIONS preflight requests
+export async function OPTIONS(req: NextRequest) {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { version: string } }
+) {
+  const version = params.version.replace(/\.js$/, '');
+  const release = await getWidgetRelease(version);
+  const bundle = release ? await readWidgetBundle(release) : null;
+
+  if (!release || bundle === null) {
+    return new NextResponse("console.error('AI Woo Chat: Widget release not found');", {
+      status: 404,
+      headers: {
+        'Content-Type': 'application/javascript; charset=utf-8',
+        'Cache-Control': 'no-store',
+        ...corsHeaders,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  }
+
+  const headers = {
+    'Content-Type': 'application/javascript; charset=utf-8',
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    ETag: `"${release.version}"`,
+    'X-Widget-Version': release.version,
+    ...corsHeaders,
+    'X-Content-Type-Options': 'nosniff',
+  };
+
+  if (req.headers.get('if-none-match') === headers.ETag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(bundle, { headers });
+}
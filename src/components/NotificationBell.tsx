@@ -12,7 +12,7 @@ import { formatDateTime } from '@/lib/utils/date-format';
 
 interface Notification {
   id: string;
-  type: 'license_expiring' | 'license_expired' | 'usage_limit' | 'site_inactive' | 'site_disabled';
+  type: 'license_expiring' | 'license_expired' | 'usage_limit' | 'site_inactive' | 'site_disabled' | 'handoff_requested';
   severity: 'info' | 'warning' | 'error';
   title: string;
   message: string;
@@ -34,8 +34,8 @@ export default function NotificationBell() {
   useEffect(() => {
     setMounted(true);
     loadNotifications();
-    // Refresh notifications every 5 minutes
-    const interval = setInterval(loadNotifications, 5 * 60 * 1000);
+    // Refresh notifications every minute (visitors waiting for a human agent)
+    const interval = setInterval(loadNotifications, 60 * 1000);
     return () => clearInterval(interval);
   }, []);
 
@@ -0,0 +1,77 @@
+/**
+ * Site access check for dashboard API routes
+ *
+ * The signed-in user must be a member (user_tenants) of the tenant that owns the site.
+ */
+
+import { NextResponse } from 'next/server';
+import { createClient, createAdminClient } from '@/lib/supabase/server';
+
+export type SiteAccessResult =
+  | { userId: string; tenantId: string; response?: undefined }
+  | { userId?: undefined; tenantId?: undefined; response: NextResponse };
+
+/**
+ * Authenticate and check access to the site
+ * Returns the error response to send (401, 400, 404 or 403) when access is denied
+ */
+export async function authorizeSiteAccess(siteId: string | null | undefined): Promise<SiteAccessResult> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!siteId) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'MISSING_REQUIRED_FIELD', message: 'site_id is required' } },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const supabaseAdmin = createAdminClient();
+
+  const { data: site } = await supabaseAdmin
+    .from('sites')
+    .select('tenant_id')
+    .eq('id', siteId)
+    .single();
+
+  if (!site) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'SITE_NOT_FOUND', message: 'Site not found' } },
+        { status: 404 }
+      ),
+    };
+  }
+
+  const { data: membership } = await supabaseAdmin
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', user.id)
+    .eq('tenant_id', site.tenant_id)
+    .single();
+
+  if (!membership) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'You do not have access to this site' } },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { userId: user.id, tenantId: site.tenant_id };
+}
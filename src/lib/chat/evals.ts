@@ -0,0 +1,701 @@
+/**
+ * Golden-set RAG evaluation
+ *
+ * Each site keeps a set of test questions with the facts a good answer contains
+ * and the products/sources retrieval should return. A run sends every enabled
+ * question through the same retrieval, prompt assembly and generation as the
+ * playground and scores:
+ * - retrieval_recall: share of expected products/sources among the retrieved chunks
+ * - groundedness: share of answer sentences whose words are found in the context
+ * - answer_correctness: share of expected facts stated in the answer
+ * Scores are lexical and deterministic, so runs with the fake provider are
+ * reproducible in CI. Runs and per-question results are stored for comparison.
+ */
+
+import { createHash } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { FakeProvider, getLLMProvider, type LLMProvider } from '@/lib/llm';
+import { logUsageEvent, updateDailyUsage, calculateCost } from '@/lib/usage-tracking';
+import { isKnowledgeEntityType } from '@/lib/ingestion/knowledge-base';
+import { loadKnowledgeSettings } from './knowledge-settings';
+import { loadVoiceSettings, loadSalesSettings } from './voice-settings';
+import { runPlaygroundRetrieval, streamPlaygroundAnswer, type PlaygroundVariant } from './playground';
+
+const supabaseAdmin = createAdminClient();
+
+export const MAX_EVAL_QUESTION_LENGTH = 1000;
+export const MAX_EVAL_EXPECTATIONS = 20; // Per list (facts, products, sources)
+export const MAX_EVAL_CASES_PER_RUN = 100;
+export const EVAL_PASS_SCORE = 0.7; // A question passes when every measurable score reaches this
+export const EVAL_REGRESSION_TOLERANCE = 0.05; // Drop in an aggregate score reported as a regression
+
+export const EVAL_METRICS = ['retrieval_recall', 'groundedness', 'answer_correctness'] as const;
+
+export type EvalMetric = (typeof EVAL_METRICS)[number];
+
+export type EvalProvider = 'site' | 'fake';
+
+export type EvalScores = Record<EvalMetric, number | null>; // null = nothing to measure
+
+export interface EvalCase {
+  id: string;
+  question: string;
+  expected_facts: string[];
+  expected_products: string[];
+  expected_sources: string[]; // "entity_type:entity_id"
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EvalCaseInput {
+  question: string;
+  expected_facts: string[];
+  expected_products: string[];
+  expected_sources: string[];
+}
+
+export interface EvalRun extends EvalScores {
+  id: string;
+  label: string | null;
+  status: 'running' | 'completed' | 'failed';
+  trigger: 'dashboard' | 'ci';
+  provider: string;
+  model: string;
+  config: Record<string, any>;
+  case_count: number;
+  passed_count: number;
+  total_tokens: number;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface EvalResult extends EvalScores {
+  id: string;
+  case_id: string | null;
+  question: string;
+  answer: string;
+  retrieved: Array<{ entity_type: string; entity_id: string; similarity: number }>;
+  missing_facts: string[];
+  missing_sources: string[];
+  passed: boolean;
+  total_tokens: number;
+  latency_ms: number;
+  error: string | null;
+}
+
+export interface EvalRunComparison {
+  base_run_id: string;
+  deltas: EvalScores & { pass_rate: number };
+  regressions: string[]; // Metrics that dropped by more than EVAL_REGRESSION_TOLERANCE
+  cases: Array<{
+    case_id: string;
+    question: string;
+    base: EvalScores & { passed: boolean };
+    candidate: EvalScores & { passed: boolean };
+    regressed: boolean; // Passed in the base run, fails now
+  }>;
+}
+
+const CASE_COLUMNS = 'id, question, expected_facts, expected_products, expected_sources, enabled, created_at, updated_at';
+
+const RUN_COLUMNS =
+  'id, label, status, trigger, provider, model, config, case_count, passed_count, retrieval_recall, groundedness, answer_correctness, total_tokens, error, started_at, completed_at';
+
+const RESULT_COLUMNS =
+  'id, case_id, question, answer, retrieved, missing_facts, missing_sources, retrieval_recall, groundedness, answer_correctness, passed, total_tokens, latency_ms, error';
+
+// Words that carry no meaning for lexical matching
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'our', 'with', 'this', 'that', 'from', 'have',
+  'has', 'was', 'were', 'will', 'can', 'all', 'any', 'its', 'they', 'them', 'there', 'here', 'which', 'what',
+  'when', 'who', 'how', 'also', 'into', 'than', 'then', 'these', 'those', 'would', 'could', 'should', 'about',
+]);
+
+function stringList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) return null;
+  return Array.from(new Set((value as string[]).map((item) => item.trim()).filter((item) => item.length > 0)));
+}
+
+/**
+ * Validate and normalize eval case fields
+ * Returns an error message for invalid input
+ */
+export function validateEvalCaseInput(input: any): { evalCase?: EvalCaseInput; error?: string } {
+  const question = typeof input?.question === 'string' ? input.question.trim() : '';
+  if (!question) return { error: 'question is required' };
+  if (question.length > MAX_EVAL_QUESTION_LENGTH) {
+    return { error: `question must be at most ${MAX_EVAL_QUESTION_LENGTH} characters` };
+  }
+
+  const lists: Record<'expected_facts' | 'expected_products' | 'expected_sources', string[]> = {
+    expected_facts: [],
+    expected_products: [],
+    expected_sources: [],
+  };
+  for (const key of Object.keys(lists) as Array<keyof typeof lists>) {
+    const list = stringList(input?.[key]);
+    if (!list) return { error: `${key} must be an array of strings` };
+    if (list.length > MAX_EVAL_EXPECTATIONS) {
+      return { error: `${key} must have at most ${MAX_EVAL_EXPECTATIONS} entries` };
+    }
+    lists[key] = list;
+  }
+
+  for (const source of lists.expected_sources) {
+    const separator = source.indexOf(':');
+    if (separator <= 0 || !isKnowledgeEntityType(source.slice(0, separator)) || separator === source.length - 1) {
+      return { error: `expected_sources entries must look like "page:42" (got "${source}")` };
+    }
+  }
+
+  if (lists.expected_facts.length + lists.expected_products.length + lists.expected_sources.length === 0) {
+    return { error: 'At least one expected fact, product or source is required' };
+  }
+
+  return { evalCase: { question, ...lists } };
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+function contentTokens(text: string): string[] {
+  return tokenize(text).filter((token) => (token.length > 2 || /\d/.test(token)) && !STOPWORDS.has(token));
+}
+
+/**
+ * Share of expected products/sources among the retrieved chunks
+ * A variation chunk counts for its product
+ */
+export function scoreRetrievalRecall(
+  expectedProducts: string[],
+  expectedSources: string[],
+  retrieved: Array<{ entity_type: string; entity_id: string; product_id?: string | null }>
+): { score: number | null; missing: string[] } {
+  const expected = [...expectedProducts.map((id) => `product:${id}`), ...expectedSources];
+  if (expected.length === 0) {
+    return { score: null, missing: [] };
+  }
+
+  const found = new Set<string>();
+  for (const chunk of retrieved) {
+    found.add(`${chunk.entity_type}:${chunk.entity_id}`);
+    if (chunk.entity_type === 'variation' && chunk.product_id) {
+      found.add(`product:${chunk.product_id}`);
+    }
+  }
+
+  const missing = Array.from(new Set(expected)).filter((key) => !found.has(key));
+  const total = new Set(expected).size;
+  return { score: (total - missing.length) / total, missing };
+}
+
+/**
+ * Share of expected facts stated in the answer
+ * A fact counts when all of its content words appear in the answer
+ */
+export function scoreAnswerCorrectness(
+  expectedFacts: string[],
+  answer: string
+): { score: number | null; missing: string[] } {
+  if (expectedFacts.length === 0) {
+    return { score: null, missing: [] };
+  }
+
+  const answerTokens = new Set(tokenize(answer));
+  const missing = expectedFacts.filter((fact) => {
+    const factTokens = contentTokens(fact);
+    const required = factTokens.length > 0 ? factTokens : tokenize(fact);
+    return !required.every((token) => answerTokens.has(token));
+  });
+
+  return { score: (expectedFacts.length - missing.length) / expectedFacts.length, missing };
+}
+
+/**
+ * Share of answer sentences supported by the context
+ * A sentence is supported when at least 60% of its content words appear in the
+ * context. Sentences with fewer than 3 content words (greetings, "Yes.") are
+ * skipped; null when nothing was checked.
+ */
+export function scoreGroundedness(answer: string, context: string[]): number | null {
+  const contextTokens = new Set(context.flatMap((text) => tokenize(text)));
+  const sentences = answer
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => contentTokens(sentence))
+    .filter((tokens) => tokens.length >= 3);
+
+  if (sentences.length === 0) {
+    return null;
+  }
+
+  const supported = sentences.filter((tokens) => {
+    const known = tokens.filter((token) => contextTokens.has(token)).length;
+    return known / tokens.length >= 0.6;
+  }).length;
+
+  return supported / sentences.length;
+}
+
+function isPassing(scores: EvalScores): boolean {
+  return EVAL_METRICS.every((metric) => scores[metric] === null || (scores[metric] as number) >= EVAL_PASS_SCORE);
+}
+
+function average(values: Array<number | null>): number | null {
+  const measured = values.filter((value): value is number => value !== null);
+  return measured.length > 0 ? measured.reduce((sum, value) => sum + value, 0) / measured.length : null;
+}
+
+function toScore(value: unknown): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function mapRun(row: any): EvalRun {
+  return {
+    ...row,
+    retrieval_recall: toScore(row.retrieval_recall),
+    groundedness: toScore(row.groundedness),
+    answer_correctness: toScore(row.answer_correctness),
+  };
+}
+
+function mapResult(row: any): EvalResult {
+  return {
+    ...row,
+    retrieval_recall: toScore(row.retrieval_recall),
+    groundedness: toScore(row.groundedness),
+    answer_correctness: toScore(row.answer_correctness),
+  };
+}
+
+/**
+ * Eval cases of a site, oldest first
+ */
+export async function listEvalCases(siteId: string, options: { enabledOnly?: boolean } = {}): Promise<EvalCase[]> {
+  let query = supabaseAdmin
+    .from('rag_eval_cases')
+    .select(CASE_COLUMNS)
+    .eq('site_id', siteId)
+    .order('created_at', { ascending: true });
+
+  if (options.enabledOnly) {
+    query = query.eq('enabled', true);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load eval cases: ${error.message}`);
+  }
+  return (data || []) as any[] as EvalCase[];
+}
+
+/**
+ * One eval case (null when it does not belong to the site)
+ */
+export async function getEvalCase(siteId: string, caseId: string): Promise<EvalCase | null> {
+  const { data } = await supabaseAdmin
+    .from('rag_eval_cases')
+    .select(CASE_COLUMNS)
+    .eq('id', caseId)
+    .eq('site_id', siteId)
+    .maybeSingle();
+
+  return (data as any as EvalCase) || null;
+}
+
+export async function createEvalCase(
+  siteId: string,
+  tenantId: string,
+  input: EvalCaseInput,
+  options: { enabled?: boolean; createdBy?: string } = {}
+): Promise<EvalCase> {
+  const { data, error } = await supabaseAdmin
+    .from('rag_eval_cases')
+    .insert({
+      site_id: siteId,
+      tenant_id: tenantId,
+      ...input,
+      enabled: options.enabled !== false,
+      created_by: options.createdBy || null,
+    })
+    .select(CASE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create eval case: ${error?.message || 'Unknown error'}`);
+  }
+  return data as any as EvalCase;
+}
+
+/**
+ * Update an eval case (null when it does not belong to the site)
+ */
+export async function updateEvalCase(
+  siteId: string,
+  caseId: string,
+  changes: Partial<EvalCaseInput> & { enabled?: boolean }
+): Promise<EvalCase | null> {
+  const { data, error } = await supabaseAdmin
+    .from('rag_eval_cases')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', caseId)
+    .eq('site_id', siteId)
+    .select(CASE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update eval case: ${error.message}`);
+  }
+  return (data as any as EvalCase) || null;
+}
+
+/**
+ * Delete an eval case (stored results keep their copy of the question)
+ * Returns false when the case does not belong to the site
+ */
+export async function deleteEvalCase(siteId: string, caseId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('rag_eval_cases')
+    .delete()
+    .eq('id', caseId)
+    .eq('site_id', siteId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete eval case: ${error.message}`);
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Run every enabled case of a site and store the run
+ * `provider: 'fake'` generates answers with the deterministic fake provider (no
+ * API calls when the site itself uses the fake provider, as CI sites should).
+ * Returns null when the site has no enabled cases.
+ */
+export async function runEvalSuite(
+  site: { id: string; tenant_id: string },
+  options: {
+    provider?: EvalProvider;
+    variant?: PlaygroundVariant;
+    label?: string | null;
+    trigger?: EvalRun['trigger'];
+    requestedBy?: string;
+  } = {}
+): Promise<EvalRun | null> {
+  const cases = (await listEvalCases(site.id, { enabledOnly: true })).slice(0, MAX_EVAL_CASES_PER_RUN);
+  if (cases.length === 0) {
+    return null;
+  }
+
+  const variant = options.variant || {};
+  const llm: LLMProvider = options.provider === 'fake' ? new FakeProvider() : await getLLMProvider(site.id);
+
+  const [knowledgeSettings, voiceSettings, salesSettings] = await Promise.all([
+    loadKnowledgeSettings(site.id),
+    loadVoiceSettings(site.id),
+    loadSalesSettings(site.id),
+  ]);
+
+  // Prompt-affecting settings, hashed so runs with the same prompt setup are easy to spot
+  const promptFingerprint = createHash('sha256')
+    .update(JSON.stringify({ voiceSettings, salesSettings }))
+    .digest('hex')
+    .slice(0, 12);
+
+  const { data: runRow, error: runError } = await supabaseAdmin
+    .from('rag_eval_runs')
+    .insert({
+      site_id: site.id,
+      tenant_id: site.tenant_id,
+      label: options.label || null,
+      trigger: options.trigger || 'dashboard',
+      provider: llm.name,
+      model: llm.chatModel,
+      config: {
+        knowledge_settings: { ...knowledgeSettings, ...variant },
+        variant,
+        prompt_fingerprint: promptFingerprint,
+      },
+      case_count: cases.length,
+      created_by: options.requestedBy || null,
+    })
+    .select('id')
+    .single();
+
+  if (runError || !runRow) {
+    throw new Error(`Failed to create eval run: ${runError?.message || 'Unknown error'}`);
+  }
+
+  const runId = (runRow as any).id as string;
+  const results: Array<EvalScores & { passed: boolean }> = [];
+  let promptTokens = 0;
+  let completionTokens = 0;
+
+  try {
+    for (const evalCase of cases) {
+      const startTime = Date.now();
+      let answer = '';
+      let retrieved: EvalResult['retrieved'] = [];
+      let scores: EvalScores = { retrieval_recall: 0, groundedness: null, answer_correctness: null };
+      let missingFacts: string[] = [];
+      let missingSources: string[] = [];
+      let caseTokens = 0;
+      let caseError: string | null = null;
+
+      try {
+        const { retrieval } = await runPlaygroundRetrieval(site, evalCase.question, variant, { llm });
+
+        const context = retrieval.context_blocks.map((block) => block.content);
+        if (retrieval.direct_answer) {
+          answer = retrieval.direct_answer.answer;
+          context.push(answer);
+        } else {
+          for await (const chunk of await streamPlaygroundAnswer(llm, retrieval)) {
+            answer += chunk.choices[0]?.delta?.content || '';
+            if (chunk.usage) {
+              promptTokens += chunk.usage.prompt_tokens;
+              completionTokens += chunk.usage.completion_tokens;
+              caseTokens = chunk.usage.total_tokens;
+            }
+          }
+        }
+
+        retrieved = retrieval.chunks.map((chunk) => ({
+          entity_type: chunk.entity_type,
+          entity_id: chunk.entity_id,
+          similarity: chunk.similarity,
+        }));
+
+        const recall = scoreRetrievalRecall(
+          evalCase.expected_products,
+          evalCase.expected_sources,
+          retrieval.chunks
+        );
+        const correctness = scoreAnswerCorrectness(evalCase.expected_facts, answer);
+
+        scores = {
+          retrieval_recall: recall.score,
+          groundedness: scoreGroundedness(answer, context),
+          answer_correctness: correctness.score,
+        };
+        missingFacts = correctness.missing;
+        missingSources = recall.missing;
+      } catch (error) {
+        caseError = error instanceof Error ? error.message : 'Unknown error';
+        scores = {
+          retrieval_recall: evalCase.expected_products.length + evalCase.expected_sources.length > 0 ? 0 : null,
+          groundedness: null,
+          answer_correctness: evalCase.expected_facts.length > 0 ? 0 : null,
+        };
+      }
+
+      const passed = !caseError && isPassing(scores);
+      results.push({ ...scores, passed });
+
+      const { error: resultError } = await supabaseAdmin.from('rag_eval_results').insert({
+        run_id: runId,
+        case_id: evalCase.id,
+        question: evalCase.question,
+        answer,
+        retrieved,
+        missing_facts: missingFacts,
+        missing_sources: missingSources,
+        ...scores,
+        passed,
+        total_tokens: caseTokens,
+        latency_ms: Date.now() - startTime,
+        error: caseError,
+      });
+
+      if (resultError) {
+        throw new Error(`Failed to store eval result: ${resultError.message}`);
+      }
+    }
+
+    const { data: completed, error: updateError } = await supabaseAdmin
+      .from('rag_eval_runs')
+      .update({
+        status: 'completed',
+        passed_count: results.filter((result) => result.passed).length,
+        retrieval_recall: average(results.map((result) => result.retrieval_recall)),
+        groundedness: average(results.map((result) => result.groundedness)),
+        answer_correctness: average(results.map((result) => result.answer_correctness)),
+        total_tokens: promptTokens + completionTokens,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', runId)
+      .select(RUN_COLUMNS)
+      .single();
+
+    if (updateError || !completed) {
+      throw new Error(`Failed to complete eval run: ${updateError?.message || 'Unknown error'}`);
+    }
+
+    return mapRun(completed);
+  } catch (error) {
+    await supabaseAdmin
+      .from('rag_eval_runs')
+      .update({
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', runId);
+    throw error;
+  } finally {
+    // Real model runs count toward the site's chat usage
+    const totalTokens = promptTokens + completionTokens;
+    if (llm.name !== 'fake' && totalTokens > 0) {
+      await logUsageEvent(supabaseAdmin, {
+        tenant_id: site.tenant_id,
+        site_id: site.id,
+        conversation_id: null,
+        type: 'chat',
+        model: llm.chatModel,
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: totalTokens,
+        success: true,
+      });
+      await updateDailyUsage(
+        supabaseAdmin,
+        site.id,
+        site.tenant_id,
+        'chat',
+        totalTokens,
+        calculateCost(llm.chatModel, promptTokens, completionTokens)
+      );
+    }
+  }
+}
+
+/**
+ * Recent runs of a site, newest first
+ */
+export async function listEvalRuns(siteId: string, limit: number = 20): Promise<EvalRun[]> {
+  const { data, error } = await supabaseAdmin
+    .from('rag_eval_runs')
+    .select(RUN_COLUMNS)
+    .eq('site_id', siteId)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load eval runs: ${error.message}`);
+  }
+  return ((data || []) as any[]).map(mapRun);
+}
+
+/**
+ * A run with its per-question results (null when it does not belong to the site)
+ */
+export async function getEvalRun(
+  siteId: string,
+  runId: string
+): Promise<{ run: EvalRun; results: EvalResult[] } | null> {
+  const { data: run } = await supabaseAdmin
+    .from('rag_eval_runs')
+    .select(RUN_COLUMNS)
+    .eq('id', runId)
+    .eq('site_id', siteId)
+    .maybeSingle();
+
+  if (!run) {
+    return null;
+  }
+
+  const { data: results, error } = await supabaseAdmin
+    .from('rag_eval_results')
+    .select(RESULT_COLUMNS)
+    .eq('run_id', runId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load eval results: ${error.message}`);
+  }
+
+  return { run: mapRun(run), results: ((results || []) as any[]).map(mapResult) };
+}
+
+/**
+ * Latest completed run started before the given run (same trigger)
+ */
+export async function getPreviousEvalRun(siteId: string, run: EvalRun): Promise<EvalRun | null> {
+  const { data } = await supabaseAdmin
+    .from('rag_eval_runs')
+    .select(RUN_COLUMNS)
+    .eq('site_id', siteId)
+    .eq('status', 'completed')
+    .eq('trigger', run.trigger)
+    .neq('id', run.id)
+    .lt('started_at', run.started_at)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data ? mapRun(data) : null;
+}
+
+/**
+ * Compare a run against a base run, question by question
+ * Questions that are not in both runs are left out of the case list
+ */
+export async function compareEvalRuns(
+  siteId: string,
+  baseRunId: string,
+  candidateRunId: string
+): Promise<EvalRunComparison | null> {
+  const [base, candidate] = await Promise.all([getEvalRun(siteId, baseRunId), getEvalRun(siteId, candidateRunId)]);
+  if (!base || !candidate) {
+    return null;
+  }
+
+  const delta = (metric: EvalMetric): number | null =>
+    base.run[metric] === null || candidate.run[metric] === null
+      ? null
+      : (candidate.run[metric] as number) - (base.run[metric] as number);
+
+  const passRate = (run: EvalRun) => (run.case_count > 0 ? run.passed_count / run.case_count : 0);
+
+  const deltas = {
+    retrieval_recall: delta('retrieval_recall'),
+    groundedness: delta('groundedness'),
+    answer_correctness: delta('answer_correctness'),
+    pass_rate: passRate(candidate.run) - passRate(base.run),
+  };
+
+  const baseByCase = new Map(base.results.filter((r) => r.case_id).map((result) => [result.case_id!, result]));
+  const pick = (result: EvalResult) => ({
+    retrieval_recall: result.retrieval_recall,
+    groundedness: result.groundedness,
+    answer_correctness: result.answer_correctness,
+    passed: result.passed,
+  });
+
+  return {
+    base_run_id: base.run.id,
+    deltas,
+    regressions: EVAL_METRICS.filter((metric) => (deltas[metric] ?? 0) < -EVAL_REGRESSION_TOLERANCE),
+    cases: candidate.results
+      .filter((result) => result.case_id && baseByCase.has(result.case_id))
+      .map((result) => {
+        const previous = baseByCase.get(result.case_id!)!;
+        return {
+          case_id: result.case_id!,
+          question: result.question,
+          base: pick(previous),
+          candidate: pick(result),
+          regressed: previous.passed && !result.passed,
+        };
+      }),
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Direct FAQ answers
+ *
+ * When a retrieved FAQ is a near-exact match for the question (cosine similarity
+ * above faq_direct_answer_threshold), the chat replies with the stored answer
+ * instead of calling the LLM.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import type { RetrievedChunk } from '@/lib/rag/retrieval';
+
+const supabaseAdmin = createAdminClient();
+
+export interface DirectFaqAnswer {
+  faqId: string;
+  question: string;
+  answer: string;
+  similarity: number;
+  chunkId: string;
+}
+
+/**
+ * Find an FAQ to answer directly from the retrieved chunks
+ * Only vector similarity counts (keyword/RRF scores are not comparable to the threshold)
+ * Never throws - returns null when there is no match or the FAQ cannot be loaded
+ */
+export async function findDirectFaqAnswer(
+  siteId: string,
+  chunks: RetrievedChunk[],
+  threshold: number
+): Promise<DirectFaqAnswer | null> {
+  const best = chunks
+    .filter((chunk) => chunk.entityType === 'faq' && (chunk.vectorSimilarity ?? 0) >= threshold)
+    .sort((a, b) => (b.vectorSimilarity ?? 0) - (a.vectorSimilarity ?? 0))[0];
+
+  if (!best) {
+    return null;
+  }
+
+  try {
+    const { data: faq } = await supabaseAdmin
+      .from('faqs')
+      .select('id, question, answer, enabled')
+      .eq('site_id', siteId)
+      .eq('id', best.entityId)
+      .maybeSingle();
+
+    if (!faq || !faq.enabled) {
+      return null;
+    }
+
+    return {
+      faqId: faq.id,
+      question: faq.question,
+      answer: faq.answer,
+      similarity: best.vectorSimilarity ?? best.similarity,
+      chunkId: best.id,
+    };
+  } catch (error) {
+    console.error('[FAQ] Failed to load FAQ for direct answer:', error);
+    return null;
+  }
+}
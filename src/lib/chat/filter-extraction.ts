@@ -0,0 +1,131 @@
+/**
+ * Structured filter extraction
+ *
+ * Turns constraints in the customer's message ("crvene patike ispod 5000 din",
+ * "Nike in size 42 that's in stock") into ProductFilters for retrieval.
+ * The LLM sees the site's facet vocabulary and must map words to existing values
+ * (e.g. "crvene" -> "crvena"); anything outside the vocabulary is dropped.
+ */
+
+import { completeChatJSON, type LLMProvider } from '@/lib/llm';
+import {
+  normalizeAttributeName,
+  normalizeFacetValue,
+  normalizeProductFilters,
+  type FacetVocabulary,
+  type ProductFilters,
+} from '@/lib/rag/filters';
+import { createLogger } from '@/lib/utils/logger';
+
+const EXTRACTION_TIMEOUT_MS = 5000;
+const VOCABULARY_VALUES_PER_FACET = 50;
+
+const EXTRACTION_SYSTEM_PROMPT = `You extract product search filters from a customer's message in an online store.
+Only use values from the store vocabulary; map inflected, plural or translated words to the matching vocabulary value (e.g. "crvene" -> "crvena", "red" -> "crvena" if that is the store's value).
+Prices are in the store currency; "ispod 5000", "under 50", "do 3000" set price_max; "preko", "over", "od" set price_min.
+Set in_stock_only only when the customer asks for available / in-stock items.
+Leave out anything the message does not clearly ask for.
+Respond only with JSON:
+{"price_min": number|null, "price_max": number|null, "in_stock_only": boolean, "categories": [], "brands": [], "attributes": {"attribute name": ["value"]}}`;
+
+function formatVocabulary(vocabulary: FacetVocabulary): string {
+  const lines: string[] = [];
+  if (vocabulary.categories.length > 0) {
+    lines.push(`categories: ${vocabulary.categories.slice(0, VOCABULARY_VALUES_PER_FACET).join(', ')}`);
+  }
+  if (vocabulary.brands.length > 0) {
+    lines.push(`brands: ${vocabulary.brands.slice(0, VOCABULARY_VALUES_PER_FACET).join(', ')}`);
+  }
+  for (const [name, values] of Object.entries(vocabulary.attributes)) {
+    lines.push(`attribute "${name}": ${values.slice(0, VOCABULARY_VALUES_PER_FACET).join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+function pickKnown(values: unknown, known: string[]): string[] {
+  if (!Array.isArray(values)) return [];
+  const knownSet = new Set(known);
+  return values
+    .filter((value): value is string => typeof value === 'string')
+    .map(normalizeFacetValue)
+    .filter((value) => knownSet.has(value));
+}
+
+function toPrice(value: unknown): number | undefined {
+  const price = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isFinite(price) && price > 0 ? price : undefined;
+}
+
+/**
+ * Validate raw LLM output against the vocabulary
+ */
+function parseExtractedFilters(raw: any, vocabulary: FacetVocabulary): ProductFilters | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const attributes: Record<string, string[]> = {};
+  if (raw.attributes && typeof raw.attributes === 'object') {
+    for (const [name, values] of Object.entries(raw.attributes)) {
+      const attributeName = normalizeAttributeName(name);
+      const known = pickKnown(values, vocabulary.attributes[attributeName] || []);
+      if (known.length > 0) {
+        attributes[attributeName] = known;
+      }
+    }
+  }
+
+  return normalizeProductFilters({
+    priceMin: toPrice(raw.price_min),
+    priceMax: toPrice(raw.price_max),
+    inStockOnly: raw.in_stock_only === true,
+    categories: pickKnown(raw.categories, vocabulary.categories),
+    brands: pickKnown(raw.brands, vocabulary.brands),
+    attributes,
+  });
+}
+
+/**
+ * Extract structured product filters from a message
+ * Never throws - returns undefined when there is nothing to filter on or extraction fails
+ */
+export async function extractProductFilters(
+  message: string,
+  vocabulary: FacetVocabulary,
+  provider: LLMProvider,
+  requestId?: string
+): Promise<ProductFilters | undefined> {
+  const logger = createLogger({ request_id: requestId });
+  const startTime = Date.now();
+
+  try {
+    const extracted = await completeChatJSON(
+      provider,
+      {
+        temperature: 0,
+        maxTokens: 200,
+        messages: [
+          { role: 'system', content: EXTRACTION_SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: `Store vocabulary:\n${formatVocabulary(vocabulary) || '(no categories, brands or attributes)'}\n\nCustomer message: ${message}`,
+          },
+        ],
+      },
+      { timeoutMs: EXTRACTION_TIMEOUT_MS }
+    );
+    const filters = parseExtractedFilters(extracted, vocabulary);
+
+    logger.info('Product filters extracted', {
+      query: message,
+      filters: filters || null,
+      latency_ms: Date.now() - startTime,
+    });
+
+    return filters;
+  } catch (error) {
+    logger.warn('Product filter extraction failed, retrieving without filters', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      latency_ms: Date.now() - startTime,
+    });
+    return undefined;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Human handoff (live agent takeover)
+ *
+ * A handoff is requested by the visitor (widget button) or the assistant
+ * (request_human_agent tool). Staff see it in the notification bell, take the
+ * conversation over from the dashboard and reply as 'agent' messages; while a
+ * handoff is active the AI does not answer. The widget polls /api/chat/updates
+ * for agent messages.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+
+const supabaseAdmin = createAdminClient();
+
+export type HandoffStatus = 'none' | 'requested' | 'active' | 'resolved';
+
+export type HandoffRequester = 'visitor' | 'assistant';
+
+/**
+ * Tenant roles allowed to take over conversations
+ * Support staff handle chats; owners and admins keep full access to their tenant
+ */
+export const HANDOFF_ROLES = ['support', 'admin', 'owner'] as const;
+
+export interface HandoffState {
+  conversationDbId: string;
+  status: HandoffStatus;
+  requestedBy: HandoffRequester | null;
+  reason: string | null;
+  requestedAt: string | null;
+  agentId: string | null;
+}
+
+const HANDOFF_COLUMNS =
+  'id, handoff_status, handoff_requested_by, handoff_reason, handoff_requested_at, handoff_agent_id';
+
+function toHandoffState(row: any): HandoffState {
+  return {
+    conversationDbId: row.id,
+    status: (row.handoff_status || 'none') as HandoffStatus,
+    requestedBy: row.handoff_requested_by || null,
+    reason: row.handoff_reason || null,
+    requestedAt: row.handoff_requested_at || null,
+    agentId: row.handoff_agent_id || null,
+  };
+}
+
+/**
+ * AI is paused while an agent handles the conversation
+ */
+export function isAIPaused(status: HandoffStatus): boolean {
+  return status === 'active';
+}
+
+/**
+ * Get handoff state by external conversation ID
+ * Returns null if the conversation does not exist
+ */
+export async function getHandoffState(siteId: string, conversationId: string): Promise<HandoffState | null> {
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .select(HANDOFF_COLUMNS)
+    .eq('site_id', siteId)
+    .eq('conversation_id', conversationId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return toHandoffState(data);
+}
+
+/**
+ * Request a human agent
+ * Idempotent: an open (requested/active) handoff is returned unchanged
+ */
+export async function requestHandoff(
+  siteId: string,
+  conversationId: string,
+  requestedBy: HandoffRequester,
+  reason?: string
+): Promise<HandoffState> {
+  const current = await getHandoffState(siteId, conversationId);
+  if (!current) {
+    throw new Error('Conversation not found');
+  }
+
+  if (current.status === 'requested' || current.status === 'active') {
+    return current;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .update({
+      handoff_status: 'requested',
+      handoff_requested_by: requestedBy,
+      handoff_reason: reason ? reason.substring(0, 500) : null,
+      handoff_requested_at: new Date().toISOString(),
+      handoff_agent_id: null,
+      handoff_started_at: null,
+      handoff_resolved_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', current.conversationDbId)
+    .select(HANDOFF_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to request handoff: ${error?.message || 'Unknown error'}`);
+  }
+
+  return toHandoffState(data);
+}
+
+/**
+ * Agent takes over the conversation (pauses AI)
+ */
+export async function takeOverConversation(conversationDbId: string, agentId: string): Promise<HandoffState> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .update({
+      handoff_status: 'active',
+      handoff_agent_id: agentId,
+      handoff_started_at: now,
+      handoff_resolved_at: null,
+      updated_at: now,
+    })
+    .eq('id', conversationDbId)
+    .select(HANDOFF_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to take over conversation: ${error?.message || 'Unknown error'}`);
+  }
+
+  return toHandoffState(data);
+}
+
+/**
+ * Hand the conversation back to the AI
+ */
+export async function resolveHandoff(conversationDbId: string): Promise<HandoffState> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .update({
+      handoff_status: 'resolved',
+      handoff_resolved_at: now,
+      updated_at: now,
+    })
+    .eq('id', conversationDbId)
+    .select(HANDOFF_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to resolve handoff: ${error?.message || 'Unknown error'}`);
+  }
+
+  return toHandoffState(data);
+}
+
+/**
+ * Get the user's role in a tenant if it may take over conversations
+ * Returns null when the user has no handoff role
+ */
+export async function getHandoffRole(userId: string, tenantId: string): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from('user_tenants')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!data || !(HANDOFF_ROLES as readonly string[]).includes(data.role)) {
+    return null;
+  }
+
+  return data.role;
+}
+
+/**
+ * Resolve a dashboard conversation reference (DB id or external conversation_id)
+ * Returns the conversation with its handoff state and the site's tenant
+ */
+export async function findConversationForAgent(
+  siteId: string,
+  conversationRef: string
+): Promise<{ conversationId: string; tenantId: string; handoff: HandoffState } | null> {
+  const { data: site } = await supabaseAdmin
+    .from('sites')
+    .select('tenant_id')
+    .eq('id', siteId)
+    .single();
+
+  if (!site) {
+    return null;
+  }
+
+  // External conversation IDs are UUIDs too - try the DB id first, then conversation_id
+  let conversation: any = null;
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(conversationRef)) {
+    const { data } = await supabaseAdmin
+      .from('conversations')
+      .select(`conversation_id, ${HANDOFF_COLUMNS}`)
+      .eq('site_id', siteId)
+      .eq('id', conversationRef)
+      .single();
+    conversation = data;
+  }
+  if (!conversation) {
+    const { data } = await supabaseAdmin
+      .from('conversations')
+      .select(`conversation_id, ${HANDOFF_COLUMNS}`)
+      .eq('site_id', siteId)
+      .eq('conversation_id', conversationRef)
+      .single();
+    conversation = data;
+  }
+
+  if (!conversation) {
+    return null;
+  }
+
+  return {
+    conversationId: conversation.conversation_id,
+    tenantId: site.tenant_id,
+    handoff: toHandoffState(conversation),
+  };
+}
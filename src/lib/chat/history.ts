@@ -0,0 +1,219 @@
+/**
+ * Conversation history for the widget
+ *
+ * The widget keeps visitor_id and conversation_id across page loads; history lets
+ * it show the conversation again after the shopper navigates. Reading history
+ * needs a token issued by bootstrap (HMAC of site, visitor and conversation with
+ * the site secret), so a leaked or guessed conversation ID alone is not enough.
+ *
+ * Product cards are rebuilt from the evidence stored with assistant messages;
+ * price and stock come from the facets of the last product sync.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getActiveEmbeddingIndex } from '@/lib/embeddings/indexes';
+import type { Evidence } from '@/lib/rag/evidence';
+import type { ProductFacets } from '@/lib/rag/filters';
+
+const supabaseAdmin = createAdminClient();
+
+// Bootstrap runs on every page load, so tokens only need to outlive one page view
+const HISTORY_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 50;
+
+// Same limit as live product verification
+const MAX_PRODUCTS_PER_MESSAGE = 5;
+
+export interface HistoryProduct {
+  id: number;
+  title: string;
+  url: string;
+  price: number;
+  stock_status: string;
+}
+
+export interface HistoryMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'agent';
+  content: string;
+  agent_name: string | null;
+  products: HistoryProduct[];
+  created_at: string;
+}
+
+export interface HistoryPage {
+  messages: HistoryMessage[]; // Oldest first
+  has_more: boolean;
+  next_before: string | null; // Cursor for the previous page
+}
+
+function signHistoryToken(secret: string, siteId: string, visitorId: string, conversationId: string, expires: number): string {
+  return createHmac('sha256', secret)
+    .update(`${siteId}\n${visitorId}\n${conversationId}\n${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Issue a history token for a visitor's conversation
+ * Format: {expires_unix}.{signature}
+ */
+export function createHistoryToken(site: { id: string; secret: string }, visitorId: string, conversationId: string): string {
+  const expires = Math.floor(Date.now() / 1000) + HISTORY_TOKEN_TTL_SECONDS;
+  return `${expires}.${signHistoryToken(site.secret, site.id, visitorId, conversationId, expires)}`;
+}
+
+/**
+ * Check a history token (signature and expiry)
+ */
+export function verifyHistoryToken(
+  site: { id: string; secret: string },
+  visitorId: string,
+  conversationId: string,
+  token: string
+): boolean {
+  const [expiresPart, signature] = token.split('.');
+  const expires = parseInt(expiresPart, 10);
+  if (!signature || isNaN(expires) || expires < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signHistoryToken(site.secret, site.id, visitorId, conversationId, expires));
+  const provided = Buffer.from(signature);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Products an assistant message showed, in evidence order
+ * Variations are shown through their parent product, like live verification
+ */
+function evidenceProducts(evidence: Evidence[]): Array<{ id: number; title?: string; url?: string }> {
+  const products = new Map<number, { id: number; title?: string; url?: string }>();
+
+  for (const ev of evidence) {
+    if (ev.sourceType !== 'product' && ev.sourceType !== 'variation') continue;
+    const id = parseInt(ev.sourceType === 'variation' ? ev.parentId || '' : ev.sourceId, 10);
+    if (isNaN(id)) continue;
+
+    const existing = products.get(id);
+    if (!existing) {
+      products.set(id, { id, title: ev.title, url: ev.url });
+    } else if (ev.sourceType === 'product') {
+      // Prefer the product's own title over a variation's
+      existing.title = ev.title || existing.title;
+      existing.url = ev.url || existing.url;
+    }
+  }
+
+  return Array.from(products.values()).slice(0, MAX_PRODUCTS_PER_MESSAGE);
+}
+
+/**
+ * Price and stock of products from the active index
+ */
+async function loadProductFacets(siteId: string, productIds: number[]): Promise<Map<number, ProductFacets>> {
+  const facetsByProduct = new Map<number, ProductFacets>();
+  if (productIds.length === 0) {
+    return facetsByProduct;
+  }
+
+  const index = await getActiveEmbeddingIndex(siteId);
+  const { data, error } = await supabaseAdmin
+    .from('embeddings')
+    .select('entity_id, facets:metadata->facets')
+    .eq('site_id', siteId)
+    .eq('entity_type', 'product')
+    .eq('index_version', index.version)
+    .in('entity_id', productIds.map(String))
+    .not('metadata->facets', 'is', null);
+
+  if (error) {
+    console.error('Failed to load product facets for history:', error.message);
+    return facetsByProduct;
+  }
+
+  for (const row of (data || []) as any[]) {
+    const id = parseInt(row.entity_id, 10);
+    if (!facetsByProduct.has(id) && row.facets) {
+      facetsByProduct.set(id, row.facets);
+    }
+  }
+
+  return facetsByProduct;
+}
+
+/**
+ * One page of a conversation's messages, newest page first
+ * Products without synced facets are left out (no price to show)
+ */
+export async function loadConversationHistory(
+  siteId: string,
+  conversationDbId: string,
+  options: { before?: string; limit?: number } = {}
+): Promise<HistoryPage> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_HISTORY_PAGE_SIZE, 1), MAX_HISTORY_PAGE_SIZE);
+
+  let query = supabaseAdmin
+    .from('messages')
+    .select('id, role, content_text, content_json, created_at')
+    .eq('conversation_id', conversationDbId)
+    .in('role', ['user', 'assistant', 'agent'])
+    .order('created_at', { ascending: false })
+    .limit(limit + 1);
+
+  if (options.before) {
+    query = query.lt('created_at', options.before);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load conversation history: ${error.message}`);
+  }
+
+  const rows = (data || []) as any[];
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit).reverse();
+
+  const productsByMessage = new Map<string, ReturnType<typeof evidenceProducts>>();
+  for (const row of page) {
+    if (row.role === 'assistant' && Array.isArray(row.content_json?.evidence)) {
+      productsByMessage.set(row.id, evidenceProducts(row.content_json.evidence));
+    }
+  }
+
+  const productIds = Array.from(
+    new Set(Array.from(productsByMessage.values()).flatMap((products) => products.map((product) => product.id)))
+  );
+  const facetsByProduct = await loadProductFacets(siteId, productIds);
+
+  const messages: HistoryMessage[] = page
+    .filter((row) => row.content_text)
+    .map((row) => ({
+      id: row.id,
+      role: row.role,
+      content: row.content_text,
+      agent_name: row.role === 'agent' ? row.content_json?.agent?.name || null : null,
+      products: (productsByMessage.get(row.id) || [])
+        .filter((product) => product.title && product.url && facetsByProduct.get(product.id)?.price_min != null)
+        .map((product) => {
+          const facets = facetsByProduct.get(product.id)!;
+          return {
+            id: product.id,
+            title: product.title!,
+            url: product.url!,
+            price: facets.price_min!,
+            stock_status: facets.stock_status || 'unknown',
+          };
+        }),
+      created_at: row.created_at,
+    }));
+
+  return {
+    messages,
+    has_more: hasMore,
+    next_before: hasMore && page.length > 0 ? page[0].created_at : null,
+  };
+}
@@ -5,12 +5,23 @@
  */
 
 import { createAdminClient } from '@/lib/supabase/server';
+import type { RetrievalMode } from '@/lib/rag/retrieval';
+import type { AllowedSourceType } from '@/lib/rag/guardrails';
+import type { RAGPipelineOptions } from '@/lib/rag';
+import {
+  CHUNKING_STRATEGIES,
+  DEFAULT_CHUNKING_STRATEGY,
+  type ChunkingStrategy,
+} from '@/lib/embeddings/chunking';
 
 export interface KnowledgeSettings {
   include_products: boolean;
   include_pages: boolean;
   include_policies: boolean;
   include_faq: boolean;
+  include_documents: boolean;
+  faq_direct_answer_enabled?: boolean; // Answer with the FAQ answer (no LLM call) on a near-exact match
+  faq_direct_answer_threshold?: number; // Minimum cosine similarity for a direct FAQ answer
   auto_index_enabled: boolean;
   chunk_size: number;
   top_k_results: number;
@@ -19,12 +30,25 @@ export interface KnowledgeSettings {
   max_chunks_per_source?: number;
   max_sources?: number;
   embedding_model?: 'text-embedding-3-small' | 'text-embedding-3-large' | 'text-embedding-ada-002';
+  retrieval_mode?: RetrievalMode;
+  rerank_enabled?: boolean;
+  rerank_candidates?: number;
+  query_rewrite_enabled?: boolean;
+  structured_filters_enabled?: boolean; // Extract price/category/brand/attribute filters from the message
   recency_bias?: boolean;
   source_priority?: {
     product?: number;
     page?: number;
     policy?: number;
     faq?: number;
+    document?: number;
+  };
+  chunking_strategy?: {
+    product?: ChunkingStrategy;
+    page?: ChunkingStrategy;
+    policy?: ChunkingStrategy;
+    faq?: ChunkingStrategy;
+    document?: ChunkingStrategy;
   };
 }
 
@@ -52,6 +76,9 @@ export async function loadKnowledgeSettings(siteId: string): Promise<KnowledgeSe
         include_pages: true,
         include_policies: true,
         include_faq: false,
+        include_documents: true,
+        faq_direct_answer_enabled: true,
+        faq_direct_answer_threshold: 0.9,
         auto_index_enabled: true,
         chunk_size: 1000,
         top_k_results: 10,
@@ -60,13 +87,20 @@ export async function loadKnowledgeSettings(siteId: string): Promise<KnowledgeSe
         max_chunks_per_source: 3,
         max_sources: 5,
         embedding_model: 'text-embedding-3-small',
+        retrieval_mode: 'vector',
+        rerank_enabled: false,
+        rerank_candidates: 40,
+        query_rewrite_enabled: false,
+        structured_filters_enabled: false,
         recency_bias: false,
         source_priority: {
           product: 1.0,
           page: 1.0,
           policy: 1.0,
           faq: 1.0,
+          document: 1.0,
         },
+        chunking_strategy: { ...DEFAULT_CHUNKING_STRATEGY },
       };
     }
 
@@ -76,6 +110,9 @@ export async function loadKnowledgeSettings(siteId: string): Promise<KnowledgeSe
       include_pages: knowledgeSettings.include_pages !== false,
       include_policies: knowledgeSettings.include_policies !== false,
       include_faq: knowledgeSettings.include_faq === true,
+      include_documents: knowledgeSettings.include_documents !== false,
+      faq_direct_answer_enabled: knowledgeSettings.faq_direct_answer_enabled !== false,
+      faq_direct_answer_threshold: knowledgeSettings.faq_direct_answer_threshold ?? 0.9,
       auto_index_enabled: knowledgeSettings.auto_index_enabled !== false,
       chunk_size: knowledgeSettings.chunk_size || 1000,
       top_k_results: knowledgeSettings.top_k_results || 10,
@@ -84,13 +121,22 @@ export async function loadKnowledgeSettings(siteId: string): Promise<KnowledgeSe
       max_chunks_per_source: knowledgeSettings.max_chunks_per_source ?? 3,
       max_sources: knowledgeSettings.max_sources ?? 5,
       embedding_model: knowledgeSettings.embedding_model || 'text-embedding-3-small',
+      retrieval_mode: ['vector', 'keyword', 'hybrid'].includes(knowledgeSettings.retrieval_mode)
+        ? knowledgeSettings.retrieval_mode
+        : 'vector',
+      rerank_enabled: knowledgeSettings.rerank_enabled === true,
+      rerank_candidates: knowledgeSettings.rerank_candidates ?? 40,
+      query_rewrite_enabled: knowledgeSettings.query_rewrite_enabled === true,
+      structured_filters_enabled: knowledgeSettings.structured_filters_enabled === true,
       recency_bias: knowledgeSettings.recency_bias === true,
       source_priority: knowledgeSettings.source_priority || {
         product: 1.0,
         page: 1.0,
         policy: 1.0,
         faq: 1.0,
+        document: 1.0,
       },
+      chunking_strategy: { ...DEFAULT_CHUNKING_STRATEGY, ...knowledgeSettings.chunking_strategy },
     };
   } catch (error) {
     console.error('Error loading knowledge settings:', error);
@@ -100,6 +146,9 @@ export async function loadKnowledgeSettings(siteId: string): Promise<KnowledgeSe
       include_pages: true,
       include_policies: true,
       include_faq: false,
+      include_documents: true,
+      faq_direct_answer_enabled: true,
+      faq_direct_answer_threshold: 0.9,
       auto_index_enabled: true,
       chunk_size: 1000,
       top_k_results: 10,
@@ -108,13 +157,20 @@ export async function loadKnowledgeSettings(siteId: string): Promise<KnowledgeSe
       max_chunks_per_source: 3,
       max_sources: 5,
       embedding_model: 'text-embedding-3-small',
+      retrieval_mode: 'vector',
+      rerank_enabled: false,
+      rerank_candidates: 40,
+      query_rewrite_enabled: false,
+      structured_filters_enabled: false,
       recency_bias: false,
       source_priority: {
         product: 1.0,
         page: 1.0,
         policy: 1.0,
         faq: 1.0,
+        document: 1.0,
       },
+      chunking_strategy: { ...DEFAULT_CHUNKING_STRATEGY },
     };
   }
 }
@@ -122,11 +178,47 @@ export async function loadKnowledgeSettings(siteId: string): Promise<KnowledgeSe
 /**
  * Get allowed source types from knowledge settings
  */
-export function getAllowedSourceTypes(settings: KnowledgeSettings): string[] {
-  const types: string[] = [];
-  if (settings.include_products) types.push('product');
+export function getAllowedSourceTypes(settings: KnowledgeSettings): AllowedSourceType[] {
+  const types: AllowedSourceType[] = [];
+  if (settings.include_products) types.push('product', 'variation');
   if (settings.include_pages) types.push('page');
   if (settings.include_policies) types.push('policy');
   if (settings.include_faq) types.push('faq');
-  return types.length > 0 ? types : ['product', 'page', 'policy']; // Fallback to defaults
+  if (settings.include_documents) types.push('document');
+  return types.length > 0 ? types : ['product', 'variation', 'page', 'policy']; // Fallback to defaults
+}
+
+/**
+ * RAG pipeline options for knowledge settings (chat and the retrieval playground)
+ */
+export function getRAGPipelineOptions(
+  settings: KnowledgeSettings
+): Omit<RAGPipelineOptions, 'tenantId' | 'siteId' | 'queryText' | 'retrievalQuery' | 'filters'> {
+  return {
+    topK: settings.top_k_results,
+    similarityThreshold: settings.similarity_threshold || 0.5,
+    allowedSourceTypes: getAllowedSourceTypes(settings),
+    maxContextTokens: settings.max_context_tokens || 4000,
+    maxChunksPerSource: settings.max_chunks_per_source || 3,
+    maxSources: settings.max_sources || 5,
+    model: settings.embedding_model,
+    retrievalMode: settings.retrieval_mode,
+    rerank: {
+      enabled: settings.rerank_enabled === true,
+      candidates: settings.rerank_candidates,
+    },
+    sourcePriority: settings.source_priority,
+    recencyBias: settings.recency_bias,
+  };
+}
+
+/**
+ * Get the chunking strategy for a source type (falls back to the default for invalid values)
+ */
+export function getChunkingStrategy(
+  settings: KnowledgeSettings,
+  sourceType: 'product' | 'page' | 'policy' | 'faq' | 'document'
+): ChunkingStrategy {
+  const strategy = settings.chunking_strategy?.[sourceType];
+  return strategy && CHUNKING_STRATEGIES.includes(strategy) ? strategy : DEFAULT_CHUNKING_STRATEGY[sourceType];
 }
@@ -1,39 +1,48 @@
 /**
  * Chat message handler
  * 
- * Handles message processing with RAG pipeline, OpenAI streaming,
- * and live product verification
+ * Handles message processing with RAG pipeline, LLM streaming (site-selected provider),
+ * tool calling for live catalog data, and live product verification
  * 
  * Hardened with timeout enforcement, abort propagation, and error handling
  */
 
 import { createAdminClient } from '@/lib/supabase/server';
-import { runRAGPipeline } from '@/lib/rag';
-import { WPAPIClient } from '@/lib/wordpress/client';
-import OpenAI from 'openai';
-import type { RetrievedChunk, ContextBlock, Evidence } from '@/lib/rag';
+import { runRAGPipeline, loadFacetVocabulary, matchVariation } from '@/lib/rag';
+import { WPAPIClient, type ProductVariation } from '@/lib/wordpress/client';
+import { getLLMProvider } from '@/lib/llm';
+import type { ChatMessage, LLMProvider } from '@/lib/llm';
+import type { RetrievedChunk, ContextBlock, Evidence, ProductFacets, ProductFilters } from '@/lib/rag';
 import { createLogger, generateRequestId, logOpenAIFailure, logWPAPIFailure } from '@/lib/utils/logger';
 import { getSiteContext, buildSystemPromptWithContext } from '@/lib/site-context';
 import { loadVoiceSettings, loadSalesSettings, enhanceSystemPromptWithSettings } from './voice-settings';
-import { loadKnowledgeSettings, getAllowedSourceTypes } from './knowledge-settings';
+import { loadKnowledgeSettings, getRAGPipelineOptions } from './knowledge-settings';
+import { rewriteQuery, type QueryRewriteResult } from './query-rewrite';
+import { extractProductFilters } from './filter-extraction';
+import { redactPII, UNREDACTED_TEXT_TTL_HOURS } from './pii';
+import { loadVisitorMemory } from './visitor-memory';
+import { formatPageContext, type PageContext } from './page-context';
+import { findDirectFaqAnswer, type DirectFaqAnswer } from './faq-answer';
+import { generateSuggestions, loadSuggestionsEnabled } from './suggestions';
+import {
+  CHAT_TOOLS,
+  MAX_TOOL_ITERATIONS,
+  TOOL_USE_INSTRUCTIONS,
+  executeChatTool,
+  type ChatToolCall,
+  type ChatToolContext,
+} from './tools';
 
 const supabaseAdmin = createAdminClient();
 
-// Validate OpenAI API key
-if (!process.env.OPENAI_API_KEY) {
-  console.error('OPENAI_API_KEY is not set in environment variables');
-}
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-  timeout: 60000, // 60 second timeout for chat completions
-});
-
 export interface ChatMessageRequest {
   siteId: string;
   visitorId: string;
   conversationId: string;
   message: string;
+  customerToken?: string; // Signed WooCommerce customer token from the widget (order lookup)
+  clientIp?: string; // Rate limits failed order lookups
+  pageContext?: PageContext; // From the host page (window.AIWooChat.setContext / identify)
   site: any;
   license: any;
 }
@@ -46,9 +55,40 @@ export interface ChatMessageResult {
 
 /**
  * Extract available attributes from product context blocks
- * Analyzes product content to find available filters (color, size, material, brand, etc.)
+ * Prefers structured facets stored with the chunks (attributes whose values differ
+ * between the products in context); falls back to scanning content for filter keywords
  */
-function extractAvailableAttributes(contextBlocks: ContextBlock[]): string[] {
+function extractAvailableAttributes(contextBlocks: ContextBlock[], chunks: RetrievedChunk[] = []): string[] {
+  const productIds = new Set(
+    contextBlocks.filter((block) => block.sourceType === 'product').map((block) => block.sourceId)
+  );
+  const facetsByProduct = new Map<string, ProductFacets>();
+  for (const chunk of chunks) {
+    if (productIds.has(chunk.entityId) && chunk.metadata.facets && !facetsByProduct.has(chunk.entityId)) {
+      facetsByProduct.set(chunk.entityId, chunk.metadata.facets);
+    }
+  }
+
+  if (facetsByProduct.size > 0) {
+    const facets = Array.from(facetsByProduct.values());
+    const distinct = (values: Array<string | null | undefined>) => new Set(values.filter(Boolean)).size;
+    const facetAttributes: string[] = [];
+
+    const attributeNames = new Set(facets.flatMap((facet) => Object.keys(facet.attributes || {})));
+    for (const name of attributeNames) {
+      if (distinct(facets.flatMap((facet) => facet.attributes?.[name] || [])) > 1) {
+        facetAttributes.push(name);
+      }
+    }
+    if (distinct(facets.map((facet) => facet.brand)) > 1) facetAttributes.push('brand');
+    if (distinct(facets.flatMap((facet) => facet.categories || [])) > 1) facetAttributes.push('category');
+    if (distinct(facets.map((facet) => String(facet.price_min ?? ''))) > 1) facetAttributes.push('price range');
+
+    if (facetAttributes.length > 0) {
+      return facetAttributes;
+    }
+  }
+
   const attributes = new Set<string>();
   const attributePatterns = [
     /Attributes?:\s*([^\n]+)/i,
@@ -127,7 +167,7 @@ async function getConversationHistory(
   // Get recent messages
   const { data: messages } = await supabaseAdmin
     .from('messages')
-    .select('role, content_text')
+    .select('role, content_text, content_text_unredacted, created_at')
     .eq('conversation_id', conversation.id)
     .order('created_at', { ascending: false })
     .limit(limit);
@@ -136,18 +176,35 @@ async function getConversationHistory(
     return [];
   }
 
+  // Original text of recent turns (an email given earlier is needed for the order lookup)
+  const unredactedSince = new Date(Date.now() - UNREDACTED_TEXT_TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+  const rows = messages as Array<{
+    role: string;
+    content_text: string | null;
+    content_text_unredacted: string | null;
+    created_at: string;
+  }>;
+
   // Reverse to get chronological order
-  return messages
+  return rows
     .reverse()
+    .filter((msg) => msg.role !== 'system')
     .map((msg) => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content_text || '',
+      // Human agent replies are part of the store's side of the conversation
+      role: (msg.role === 'user' ? 'user' : 'assistant') as 'user' | 'assistant',
+      content:
+        (msg.content_text_unredacted && msg.created_at >= unredactedSince
+          ? msg.content_text_unredacted
+          : msg.content_text) || '',
     }))
     .filter((msg) => msg.content.length > 0);
 }
 
 /**
  * Verify products with live data from WordPress
+ * When the message names attribute values of a variable product ("M in black"),
+ * the matching variation is resolved and its own price and stock are returned
  * Hardened with timeout enforcement and error handling
  */
 async function verifyProducts(
@@ -156,9 +213,12 @@ async function verifyProducts(
   siteId: string,
   siteSecret: string,
   restBaseUrl?: string,
-  requestId?: string
+  requestId?: string,
+  message?: string
 ): Promise<Array<{
   id: number;
+  variation_id?: number;
+  variation_attributes?: Record<string, string>;
   title: string;
   url: string;
   price: number;
@@ -189,6 +249,8 @@ async function verifyProducts(
 
   const verifiedProducts: Array<{
     id: number;
+    variation_id?: number;
+    variation_attributes?: Record<string, string>;
     title: string;
     url: string;
     price: number;
@@ -206,12 +268,15 @@ async function verifyProducts(
     };
   }> = [];
 
-  // Get product IDs from evidence
-  const productIds = evidence
-    .filter((ev) => ev.sourceType === 'product')
-    .map((ev) => parseInt(ev.sourceId, 10))
-    .filter((id) => !isNaN(id))
-    .slice(0, 5); // Limit to top 5 products
+  // Get product IDs from evidence (variations are verified through their parent product)
+  const productIds = Array.from(
+    new Set(
+      evidence
+        .filter((ev) => ev.sourceType === 'product' || ev.sourceType === 'variation')
+        .map((ev) => parseInt(ev.sourceType === 'variation' ? ev.parentId || '' : ev.sourceId, 10))
+        .filter((id) => !isNaN(id))
+    )
+  ).slice(0, 5); // Limit to top 5 products
 
   if (productIds.length === 0) {
     return verifiedProducts;
@@ -233,19 +298,31 @@ async function verifyProducts(
         let url = '';
         let imageUrl: string | undefined;
         let availability: { locations: Array<any> } | undefined;
+        let selectedVariation: ProductVariation | null = null;
 
         try {
           const liveDataPromise = wpClient.getProductLive(productId, requestId);
           const liveData = await Promise.race([liveDataPromise, timeoutPromise]);
           price = liveData.price;
           stockStatus = liveData.stock_status;
+
+          // Resolve the variation the visitor asked about (only when exactly one matches)
+          selectedVariation = message
+            ? matchVariation(liveData.variations || [], { text: message })?.variation || null
+            : null;
+          if (selectedVariation) {
+            price = selectedVariation.price;
+            stockStatus = selectedVariation.stock_status;
+          }
           
           // Get product card for title, URL, and image (with timeout)
           const productCardPromise = wpClient.getProduct(productId, requestId);
           const productCard = await Promise.race([productCardPromise, timeoutPromise]);
           title = productCard.title;
-          url = productCard.url;
-          imageUrl = productCard.images && productCard.images.length > 0 ? productCard.images[0] : undefined;
+          url = selectedVariation?.url || productCard.url;
+          imageUrl =
+            selectedVariation?.image ||
+            (productCard.images && productCard.images.length > 0 ? productCard.images[0] : undefined);
           
           // Try to get availability data (non-blocking)
           try {
@@ -288,6 +365,10 @@ async function verifyProducts(
 
         verifiedProducts.push({
           id: productId,
+          ...(selectedVariation && {
+            variation_id: selectedVariation.id,
+            variation_attributes: selectedVariation.attributes,
+          }),
           title,
           url,
           price,
@@ -311,7 +392,7 @@ async function verifyProducts(
 }
 
 /**
- * Process chat message with RAG and OpenAI
+ * Process chat message with RAG and the site's LLM provider
  * Hardened with timeout enforcement, abort propagation, and error handling
  */
 export async function processChatMessage(
@@ -321,9 +402,13 @@ export async function processChatMessage(
   stream: ReadableStream;
   evidence: Evidence[];
   tokenUsage: { promptTokens: number; completionTokens: number; totalTokens: number };
+  model: string;
+  query: QueryRewriteResult;
+  productFilters?: ProductFilters;
   fullResponsePromise: Promise<string>;
+  directAnswer?: DirectFaqAnswer; // Set when an FAQ answered the message without the LLM
 }> {
-  const { siteId, visitorId, conversationId, message, site, license } = request;
+  const { siteId, visitorId, conversationId, message, customerToken, clientIp, pageContext, site, license } = request;
   const requestId = generateRequestId();
   const logger = createLogger({
     request_id: requestId,
@@ -332,10 +417,13 @@ export async function processChatMessage(
     visitor_id: visitorId,
   });
 
-  // Check OpenAI API key
-  if (!process.env.OPENAI_API_KEY) {
-    logger.error('OPENAI_API_KEY is not set in environment variables');
-    throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.');
+  // Resolve LLM provider for this site (throws if the provider is not configured)
+  let llm: LLMProvider;
+  try {
+    llm = await getLLMProvider(siteId);
+  } catch (error) {
+    logger.error('LLM provider is not configured', error instanceof Error ? error : new Error('Unknown error'));
+    throw error;
   }
 
   // Check abort signal before starting
@@ -356,12 +444,38 @@ export async function processChatMessage(
   const siteContext = await getSiteContext(siteId);
 
   // Load voice, sales, and knowledge settings
-  const [voiceSettings, salesSettings, knowledgeSettings] = await Promise.all([
+  const [voiceSettings, salesSettings, knowledgeSettings, suggestionsEnabled] = await Promise.all([
     loadVoiceSettings(siteId),
     loadSalesSettings(siteId),
     loadKnowledgeSettings(siteId),
+    loadSuggestionsEnabled(siteId),
   ]);
 
+  // Get conversation history
+  const history = await getConversationHistory(siteId, conversationId, 10);
+
+  // Memory from earlier conversations (returning visitors only); refreshed in the background
+  const visitorMemory = await loadVisitorMemory(siteId, visitorId, conversationId, {
+    refresh: history.length === 0,
+    requestId,
+  });
+
+  // Rewrite follow-up messages into a standalone query for retrieval
+  const query: QueryRewriteResult = knowledgeSettings.query_rewrite_enabled
+    ? await rewriteQuery(message, history, llm, requestId)
+    : { original: message, rewritten: message, applied: false };
+
+  // Extract structured product filters (price, stock, category, brand, attributes)
+  // Vocabulary comes from product facets stored at ingestion
+  const productFilters: ProductFilters | undefined = knowledgeSettings.structured_filters_enabled
+    ? await extractProductFilters(
+        query.rewritten,
+        await loadFacetVocabulary(siteId, site.tenant_id),
+        llm,
+        requestId
+      )
+    : undefined;
+
   // Run RAG pipeline (gracefully handle errors - allow chat to work without RAG)
   let ragResult: Awaited<ReturnType<typeof runRAGPipeline>>;
   try {
@@ -369,13 +483,9 @@ export async function processChatMessage(
       tenantId: site.tenant_id,
       siteId,
       queryText: message,
-      topK: knowledgeSettings.top_k_results,
-      similarityThreshold: knowledgeSettings.similarity_threshold || 0.5,
-      allowedSourceTypes: getAllowedSourceTypes(knowledgeSettings),
-      maxContextTokens: knowledgeSettings.max_context_tokens || 4000,
-      maxChunksPerSource: knowledgeSettings.max_chunks_per_source || 3,
-      maxSources: knowledgeSettings.max_sources || 5,
-      model: knowledgeSettings.embedding_model || 'text-embedding-3-small',
+      retrievalQuery: query.rewritten,
+      ...getRAGPipelineOptions(knowledgeSettings),
+      filters: productFilters,
     });
     
     // DETAILED LOGGING: RAG pipeline succeeded
@@ -430,9 +540,56 @@ export async function processChatMessage(
     };
   }
 
+  // Near-exact FAQ match: reply with the stored answer, no LLM call
+  const directAnswer =
+    knowledgeSettings.include_faq && knowledgeSettings.faq_direct_answer_enabled !== false
+      ? await findDirectFaqAnswer(siteId, ragResult.chunks, knowledgeSettings.faq_direct_answer_threshold ?? 0.9)
+      : null;
+
+  if (directAnswer) {
+    logger.info('Answered from FAQ without LLM', {
+      faq_id: directAnswer.faqId,
+      similarity: directAnswer.similarity,
+    });
+
+    const encoder = new TextEncoder();
+    const faqStream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify({ type: 'chunk', content: directAnswer.answer })}\n\n`)
+        );
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
+        controller.close();
+      },
+    });
+
+    return {
+      stream: faqStream,
+      evidence: [
+        {
+          sourceType: 'faq',
+          sourceId: directAnswer.faqId,
+          chunkIds: [directAnswer.chunkId],
+          score: directAnswer.similarity,
+          title: directAnswer.question,
+        },
+      ],
+      tokenUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      model: 'faq',
+      query,
+      productFilters,
+      fullResponsePromise: Promise.resolve(directAnswer.answer),
+      directAnswer,
+    };
+  }
+
   // Check if query is too broad (many products found) and add specific instructions
   const productCount = ragResult.contextBlocks?.filter(cb => cb.sourceType === 'product').length || 0;
   const isBroadQuery = productCount >= 5;
+
+  // Attributes that differ between the products in context (filter suggestions)
+  const availableAttributes =
+    productCount > 1 ? extractAvailableAttributes(ragResult.contextBlocks || [], ragResult.chunks || []) : [];
   
   if (isBroadQuery) {
     logger.info('Broad query detected - adding instructions to ask for more specific criteria', {
@@ -440,9 +597,6 @@ export async function processChatMessage(
       query: message,
     });
     
-    // Extract available attributes from product context blocks
-    const availableAttributes = extractAvailableAttributes(ragResult.contextBlocks || []);
-    
     // Build dynamic instruction based on available attributes
     const attributeSuggestions = availableAttributes.length > 0
       ? `Based on the products in context, you can suggest filters like: ${availableAttributes.join(', ')}.`
@@ -475,11 +629,46 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
     siteContext
   );
 
-  // Get conversation history
-  const history = await getConversationHistory(siteId, conversationId, 10);
+  // Personalise with what the visitor told us in earlier conversations
+  if (visitorMemory) {
+    ragResult.prompts.systemPrompt += `\n\n${visitorMemory}`;
+  }
+
+  // What the shop's page tells us (current product, cart, customer)
+  if (pageContext) {
+    ragResult.prompts.systemPrompt += `\n\n${formatPageContext(pageContext)}`;
+  }
+
+  // Describe live catalog tools to the model
+  ragResult.prompts.systemPrompt += `\n\n${TOOL_USE_INSTRUCTIONS}`;
+  if (customerToken) {
+    ragResult.prompts.systemPrompt +=
+      '\n- The customer is signed in: get_order_status works with just the order number for their own orders.';
+  }
 
-  // Build messages for OpenAI
-  const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+  // Context for tool execution (live WordPress data + retrieval)
+  const toolContext: ChatToolContext = {
+    tenantId: site.tenant_id,
+    siteId,
+    wpClient: new WPAPIClient({
+      siteUrl: site.site_url,
+      siteId,
+      secret: site.secret,
+      restBaseUrl: site.rest_base_url || undefined,
+    }),
+    siteContext,
+    visitorId,
+    conversationId,
+    customerToken,
+    clientIp,
+    embeddingModel: knowledgeSettings.embedding_model,
+    retrievalMode: knowledgeSettings.retrieval_mode,
+    includeDocuments: knowledgeSettings.include_documents,
+    requestId,
+  };
+
+  // Build messages for the LLM
+  const messages: ChatMessage[] = [
     {
       role: 'system',
       content: ragResult.prompts.systemPrompt,
@@ -494,7 +683,7 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
     },
   ];
 
-  // DETAILED LOGGING: Log everything sent to OpenAI
+  // DETAILED LOGGING: Log everything sent to the LLM
   // Import formatContextBlocks for logging
   const { formatContextBlocks } = await import('@/lib/rag/context-builder');
   
@@ -502,12 +691,16 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
   
   logger.info('OPENAI REQUEST - Full prompt and context', {
     openai_request: {
-      model: 'gpt-4o',
+      provider: llm.name,
+      model: llm.chatModel,
       temperature: 0.7,
       max_tokens: 1000,
       system_prompt: ragResult.prompts.systemPrompt,
       system_prompt_length: ragResult.prompts.systemPrompt.length,
+      visitor_memory_applied: !!visitorMemory,
       user_message: message,
+      retrieval_query: query.rewritten,
+      product_filters: productFilters || null,
       user_message_length: message.length,
       conversation_history: history.map((h) => ({
         role: h.role,
@@ -579,29 +772,34 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
     },
   });
 
-  // Create OpenAI streaming response with timeout and abort support
-  let openaiStream: any;
-  try {
+  // Create streaming completion with timeout and abort support
+  // Tools stay available until MAX_TOOL_ITERATIONS rounds are used, then the model must answer
+  const createCompletionStream = async (allowToolCalls: boolean): Promise<any> => {
     // Create timeout promise (60 seconds)
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('OpenAI request timeout')), 60000);
     });
 
-    // Create OpenAI request with abort signal
-    const openaiPromise = openai.chat.completions.create(
+    // Create provider request with abort signal
+    const completionPromise = llm.streamChatCompletion(
       {
-        model: 'gpt-4o',
         messages,
-        stream: true,
         temperature: 0.7,
-        max_tokens: 1000,
+        maxTokens: 1000,
+        tools: CHAT_TOOLS,
+        toolChoice: allowToolCalls ? 'auto' : 'none',
       },
       {
         signal: abortSignal,
       }
     );
 
-    openaiStream = await Promise.race([openaiPromise, timeoutPromise]);
+    return Promise.race([completionPromise, timeoutPromise]);
+  };
+
+  let openaiStream: any;
+  try {
+    openaiStream = await createCompletionStream(true);
   } catch (error) {
     if (abortSignal?.aborted) {
       logger.info('OpenAI request aborted by client');
@@ -629,6 +827,8 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
     async start(controller) {
       const verifiedProducts: Array<{
         id: number;
+        variation_id?: number;
+        variation_attributes?: Record<string, string>;
         title: string;
         url: string;
         price: number;
@@ -646,6 +846,8 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
         };
       }> = [];
 
+      let handoffRequested = false;
+
       // Heartbeat interval to keep connection alive (every 30 seconds)
       const heartbeatInterval = setInterval(() => {
         try {
@@ -677,7 +879,8 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
                 siteId,
                 site.secret,
                 (site as any)?.rest_base_url,
-                requestId
+                requestId,
+                message
               );
               verifiedProducts.push(...products);
               
@@ -687,6 +890,8 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
                   const data = JSON.stringify({
                     type: 'product',
                     id: product.id,
+                    variation_id: product.variation_id,
+                    variation_attributes: product.variation_attributes,
                     title: product.title,
                     url: product.url,
                     price: product.price,
@@ -707,38 +912,111 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
         });
 
         // Stream OpenAI response with abort checking
-        for await (const chunk of openaiStream) {
-          // Check abort signal
-          if (abortSignal?.aborted) {
-            logger.info('Stream aborted by client');
-            // Resolve with partial response for persistence
-            if (fullResponse.length > 0) {
-              responseResolve(fullResponse);
+        // Each round either streams the answer or requests tool calls; tool results are
+        // appended to the conversation and a new round is streamed
+        for (let iteration = 0; ; iteration++) {
+          const pendingToolCalls = new Map<number, ChatToolCall>();
+          let roundContent = '';
+
+          for await (const chunk of openaiStream) {
+            // Check abort signal
+            if (abortSignal?.aborted) {
+              logger.info('Stream aborted by client');
+              // Resolve with partial response for persistence
+              if (fullResponse.length > 0) {
+                responseResolve(fullResponse);
+              }
+              controller.close();
+              return;
             }
-            controller.close();
-            return;
-          }
 
-          const choice = chunk.choices[0];
-          if (!choice) continue;
+            // Track token usage (OpenAI sends usage in final chunk when finish_reason is set)
+            if (chunk.usage) {
+              promptTokens += chunk.usage.prompt_tokens || 0;
+              completionTokens += chunk.usage.completion_tokens || 0;
+              totalTokens += chunk.usage.total_tokens || 0;
+            }
+
+            const choice = chunk.choices[0];
+            if (!choice) continue;
+
+            // Stream content chunks
+            const delta = choice.delta;
+            if (delta?.content) {
+              fullResponse += delta.content;
+              roundContent += delta.content;
+              const data = JSON.stringify({
+                type: 'chunk',
+                content: delta.content,
+              });
+              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+            }
 
-          // Track token usage (OpenAI sends usage in final chunk when finish_reason is set)
-          if (chunk.usage) {
-            promptTokens = chunk.usage.prompt_tokens || 0;
-            completionTokens = chunk.usage.completion_tokens || 0;
-            totalTokens = chunk.usage.total_tokens || 0;
+            // Accumulate tool call deltas (id/name arrive first, arguments arrive in pieces)
+            if (delta?.tool_calls) {
+              for (const toolCallDelta of delta.tool_calls) {
+                const existing = pendingToolCalls.get(toolCallDelta.index) || {
+                  id: '',
+                  name: '',
+                  arguments: '',
+                };
+                if (toolCallDelta.id) existing.id = toolCallDelta.id;
+                if (toolCallDelta.function?.name) existing.name += toolCallDelta.function.name;
+                if (toolCallDelta.function?.arguments) existing.arguments += toolCallDelta.function.arguments;
+                pendingToolCalls.set(toolCallDelta.index, existing);
+              }
+            }
           }
 
-          // Stream content chunks
-          const delta = choice.delta;
-          if (delta?.content) {
-            fullResponse += delta.content;
-            const data = JSON.stringify({
-              type: 'chunk',
-              content: delta.content,
+          if (pendingToolCalls.size === 0) {
+            break;
+          }
+
+          const toolCalls = Array.from(pendingToolCalls.values());
+
+          logger.info('Executing chat tools', {
+            iteration: iteration + 1,
+            tools: toolCalls.map((call) => call.name),
+          });
+
+          // Execute tools in parallel (each tool enforces its own timeout)
+          const toolResults = await Promise.all(
+            toolCalls.map((call) => executeChatTool(call, toolContext))
+          );
+
+          messages.push({
+            role: 'assistant',
+            content: roundContent || null,
+            tool_calls: toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function' as const,
+              function: {
+                name: call.name,
+                arguments: call.arguments,
+              },
+            })),
+          });
+
+          for (const result of toolResults) {
+            messages.push({
+              role: 'tool',
+              tool_call_id: result.toolCallId,
+              content: result.content,
             });
-            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+
+            // Widget starts polling for agent replies
+            if (result.name === 'request_human_agent' && result.success) {
+              handoffRequested = true;
+              const data = JSON.stringify({ type: 'handoff', status: 'requested' });
+              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+            }
           }
+
+          if (abortSignal?.aborted) {
+            throw new Error('Request aborted');
+          }
+
+          openaiStream = await createCompletionStream(iteration + 1 < MAX_TOOL_ITERATIONS);
         }
 
         // Wait for product verification to complete
@@ -749,10 +1027,34 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
 
         // Send done signal
         controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'done' })}\n\n`));
-        controller.close();
 
         // Resolve with full response (for message persistence)
         responseResolve(fullResponse);
+
+        // Follow-up questions and filter chips after done, so they never hold up the answer
+        // or persistence (not while waiting for a human agent)
+        let suggestions: string[] = [];
+        if (suggestionsEnabled && fullResponse && !handoffRequested && !abortSignal?.aborted) {
+          suggestions = await generateSuggestions(
+            {
+              message,
+              answer: fullResponse,
+              filterAttributes: availableAttributes,
+              productTitles: verifiedProducts.map((product) => product.title),
+            },
+            llm,
+            requestId
+          );
+        }
+
+        try {
+          if (suggestions.length > 0 && !abortSignal?.aborted) {
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'suggestions', suggestions })}\n\n`));
+          }
+          controller.close();
+        } catch {
+          // Client already closed the stream after done
+        }
       } catch (error) {
         // Clear heartbeat interval on error
         clearInterval(heartbeatInterval);
@@ -798,17 +1100,21 @@ CRITICAL: When mentioning the number of products, you MUST use the exact number
       completionTokens: completionTokens || 0,
       totalTokens: totalTokens || 0,
     },
+    model: llm.chatModel,
+    query,
+    productFilters,
     fullResponsePromise: responsePromise,
   };
 }
 
 /**
  * Save message to database
+ * content_text is stored with PII (emails, phone and card numbers) redacted
  */
 export async function saveMessage(
   siteId: string,
   conversationId: string,
-  role: 'user' | 'assistant',
+  role: 'user' | 'assistant' | 'agent',
   contentText: string,
   contentJson?: any,
   tokenUsage?: { promptTokens: number; completionTokens: number; totalTokens: number },
@@ -835,12 +1141,14 @@ export async function saveMessage(
       }
     : contentJson;
 
-  // Insert message
+  // Insert message (redacted text; the original only when redaction changed it)
+  const redactedText = redactPII(contentText);
   const { error } = await supabaseAdmin.from('messages').insert({
     conversation_id: conversation.id,
     site_id: siteId,
     role,
-    content_text: contentText,
+    content_text: redactedText,
+    content_text_unredacted: redactedText !== contentText ? contentText : null,
     content_json: finalContentJson || null,
     token_usage: tokenUsage
       ? {
@@ -0,0 +1,191 @@
+/**
+ * Order status lookup for verified customers
+ *
+ * The customer proves ownership with the billing email or a signed customer
+ * token the plugin issues to logged-in customers; the plugin does the check
+ * (POST /order/status). Every lookup is written to audit_logs without the email,
+ * and failed attempts are rate limited per visitor and per client IP to stop order
+ * enumeration (visitor ids are client-supplied and can rotate). There is no limit per
+ * order number: anyone guessing a number could then lock its customer out.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import type { OrderStatus, WPAPIClient } from '@/lib/wordpress/client';
+import { createLogger } from '@/lib/utils/logger';
+
+const supabaseAdmin = createAdminClient();
+
+const MAX_FAILED_LOOKUPS_PER_HOUR = 5;
+
+const EMAIL_FORMAT = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type OrderLookupMethod = 'billing_email' | 'customer_token';
+
+export type OrderLookupOutcome =
+  | 'found'
+  | 'not_found'
+  | 'verification_failed'
+  | 'invalid_request'
+  | 'rate_limited'
+  | 'error';
+
+export interface OrderLookupContext {
+  tenantId: string;
+  siteId: string;
+  visitorId: string;
+  conversationId: string;
+  wpClient: WPAPIClient;
+  customerToken?: string;
+  clientIp?: string;
+  requestId?: string;
+}
+
+export interface OrderLookupResult {
+  found: boolean;
+  outcome: OrderLookupOutcome;
+  order?: OrderStatus;
+  message?: string; // Explanation for the model when not found
+}
+
+/**
+ * Normalize customer-typed order numbers ("#1234", "order 1234")
+ */
+function normalizeOrderNumber(value: string): string | null {
+  const match = String(value || '').match(/\d+/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Failed lookups on the site in the last hour matching one audit_logs column
+ * (metadata->>visitor_id or ip_address)
+ */
+async function countRecentFailedLookups(siteId: string, column: string, value: string): Promise<number> {
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { count, error } = await supabaseAdmin
+    .from('audit_logs')
+    .select('id', { count: 'exact', head: true })
+    .eq('site_id', siteId)
+    .eq('action', 'order_lookup_failed')
+    .eq(column, value)
+    .gte('created_at', since);
+
+  if (error) {
+    console.error('[Order Lookup] Failed to count recent lookups:', error.message);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+async function isLookupRateLimited(context: OrderLookupContext): Promise<boolean> {
+  const counts = await Promise.all([
+    countRecentFailedLookups(context.siteId, 'metadata->>visitor_id', context.visitorId),
+    context.clientIp ? countRecentFailedLookups(context.siteId, 'ip_address', context.clientIp) : 0,
+  ]);
+  return counts.some((count) => count >= MAX_FAILED_LOOKUPS_PER_HOUR);
+}
+
+async function writeAuditLog(
+  context: OrderLookupContext,
+  orderId: string | null,
+  method: OrderLookupMethod | null,
+  outcome: OrderLookupOutcome
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('audit_logs').insert({
+    tenant_id: context.tenantId,
+    site_id: context.siteId,
+    action: outcome === 'found' ? 'order_lookup' : 'order_lookup_failed',
+    resource_type: 'order',
+    ip_address: context.clientIp || null,
+    metadata: {
+      type: 'order_lookup',
+      order_id: orderId,
+      method,
+      outcome,
+      visitor_id: context.visitorId,
+      conversation_id: context.conversationId,
+      request_id: context.requestId || null,
+    },
+    created_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error('[Order Lookup] Failed to write audit log:', error.message);
+  }
+}
+
+/**
+ * Look up order status
+ * Never throws - failures are returned as outcomes the model can explain
+ */
+export async function lookupOrderStatus(
+  args: { order_number: string; billing_email?: string },
+  context: OrderLookupContext
+): Promise<OrderLookupResult> {
+  const logger = createLogger({
+    request_id: context.requestId,
+    site_id: context.siteId,
+    visitor_id: context.visitorId,
+  });
+
+  const orderId = normalizeOrderNumber(args.order_number);
+  const billingEmail = args.billing_email?.trim().toLowerCase() || undefined;
+  const method: OrderLookupMethod | null = context.customerToken
+    ? 'customer_token'
+    : billingEmail
+      ? 'billing_email'
+      : null;
+
+  if (!orderId || !method || (method === 'billing_email' && !EMAIL_FORMAT.test(billingEmail!))) {
+    return {
+      found: false,
+      outcome: 'invalid_request',
+      message: 'Ask the customer for the order number and the billing email used at checkout.',
+    };
+  }
+
+  if (await isLookupRateLimited(context)) {
+    await writeAuditLog(context, orderId, method, 'rate_limited');
+    logger.warn('Order lookup rate limited', { order_id: orderId });
+    return {
+      found: false,
+      outcome: 'rate_limited',
+      message: 'Too many unsuccessful lookups. Ask the customer to try again later or contact the store.',
+    };
+  }
+
+  let outcome: OrderLookupOutcome;
+  let order: OrderStatus | undefined;
+
+  try {
+    order = await context.wpClient.getOrderStatus(
+      {
+        order_id: orderId,
+        // Email still goes along for signed-in customers checking a guest order
+        billing_email: billingEmail,
+        customer_token: context.customerToken,
+      },
+      context.requestId
+    );
+    outcome = 'found';
+  } catch (error: any) {
+    outcome = error?.status === 404 ? 'not_found' : error?.status === 403 ? 'verification_failed' : 'error';
+  }
+
+  await writeAuditLog(context, orderId, method, outcome);
+  logger.info('Order lookup completed', { order_id: orderId, method, outcome });
+
+  if (outcome === 'found') {
+    return { found: true, outcome, order };
+  }
+
+  return {
+    found: false,
+    outcome,
+    message:
+      outcome === 'error'
+        ? 'The order system is not reachable right now. Ask the customer to try again later.'
+        : // Same answer for unknown orders and wrong emails - do not confirm that an order exists
+          'No order matches this order number and email. Ask the customer to double-check both.',
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Page context from the host page
+ *
+ * Themes pass context through the widget's JavaScript API
+ * (window.AIWooChat.setContext / identify); the widget sends it with every
+ * message. It comes from the shop's page, so it is treated as unverified: it
+ * informs the assistant but never grants access (order lookup still needs the
+ * signed customer token).
+ */
+
+const MAX_TIER_LENGTH = 50;
+const MAX_NAME_LENGTH = 100;
+const MAX_EMAIL_LENGTH = 254;
+
+export interface PageContext {
+  productId?: number; // Product page the shopper is on
+  cartTotal?: number;
+  customerTier?: string;
+  customerName?: string;
+  customerEmail?: string;
+}
+
+function cleanText(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  // Single line, no control characters (the value ends up in the system prompt)
+  const text = value.replace(/[\u0000-\u001f\u007f]+/g, ' ').trim();
+  return text ? text.substring(0, maxLength) : undefined;
+}
+
+/**
+ * Parse the `context` field of POST /api/chat/message
+ * Invalid fields are dropped; returns undefined when nothing usable is left
+ */
+export function parsePageContext(value: unknown): PageContext | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const raw = value as Record<string, any>;
+  const context: PageContext = {};
+
+  if (Number.isInteger(raw.product_id) && raw.product_id > 0) {
+    context.productId = raw.product_id;
+  }
+  if (typeof raw.cart_total === 'number' && Number.isFinite(raw.cart_total) && raw.cart_total >= 0) {
+    context.cartTotal = Math.round(raw.cart_total * 100) / 100;
+  }
+  context.customerTier = cleanText(raw.customer_tier, MAX_TIER_LENGTH);
+
+  if (raw.customer && typeof raw.customer === 'object') {
+    context.customerName = cleanText(raw.customer.name, MAX_NAME_LENGTH);
+    const email = cleanText(raw.customer.email, MAX_EMAIL_LENGTH);
+    context.customerEmail = email && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : undefined;
+  }
+
+  const hasValue = Object.values(context).some((field) => field !== undefined);
+  return hasValue ? context : undefined;
+}
+
+/**
+ * Format page context for the system prompt
+ */
+export function formatPageContext(context: PageContext): string {
+  const lines = ['SHOPPER CONTEXT (provided by the store page, not verified):'];
+
+  if (context.productId !== undefined) {
+    lines.push(
+      `- The shopper is on the page of product ID ${context.productId}. When they say "this product" or ask about it without naming it, call get_product_live with product_id ${context.productId}.`
+    );
+  }
+  if (context.cartTotal !== undefined) {
+    lines.push(`- Current cart total: ${context.cartTotal}`);
+  }
+  if (context.customerTier) {
+    lines.push(`- Customer tier: ${context.customerTier}`);
+  }
+  if (context.customerName) {
+    lines.push(`- Customer name: ${context.customerName}`);
+  }
+  if (context.customerEmail) {
+    lines.push(`- Customer email: ${context.customerEmail} (use it for order lookups only if the customer confirms it is the billing email)`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,63 @@
+/**
+ * PII redaction for stored chat messages
+ *
+ * Order lookups make customers type billing emails (and sometimes phone or
+ * card numbers) into the chat. messages.content_text only keeps the redacted
+ * text (dashboard, history, analytics); the original is kept in
+ * content_text_unredacted for UNREDACTED_TEXT_TTL_HOURS so later turns of the
+ * conversation still see it (e.g. the email from an earlier message).
+ */
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+
+// Digit runs with optional separators ("+381 64 123 4567", "4111-1111-1111-1111")
+const DIGIT_SEQUENCE_PATTERN = /\+?\d[\d\s().-]{7,}\d/g;
+
+const MIN_PHONE_DIGITS = 9;
+const MAX_PHONE_DIGITS = 15;
+const MIN_CARD_DIGITS = 13;
+const MAX_CARD_DIGITS = 19;
+
+export const REDACTED_EMAIL = '[email redacted]';
+export const REDACTED_PHONE = '[phone redacted]';
+export const REDACTED_CARD = '[card redacted]';
+
+export const UNREDACTED_TEXT_TTL_HOURS = 24; // Cleared by clear_unredacted_message_text()
+
+/**
+ * Luhn checksum (payment card numbers)
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = parseInt(digits[i], 10);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Redact emails, payment card numbers and phone numbers
+ * Order numbers, prices and postcodes are shorter than the phone threshold and are kept
+ */
+export function redactPII(text: string): string {
+  if (!text) return text;
+
+  return text.replace(EMAIL_PATTERN, REDACTED_EMAIL).replace(DIGIT_SEQUENCE_PATTERN, (match) => {
+    const digits = match.replace(/\D/g, '');
+
+    if (digits.length >= MIN_CARD_DIGITS && digits.length <= MAX_CARD_DIGITS && passesLuhn(digits)) {
+      return REDACTED_CARD;
+    }
+    if (digits.length >= MIN_PHONE_DIGITS && digits.length <= MAX_PHONE_DIGITS) {
+      return REDACTED_PHONE;
+    }
+    return match;
+  });
+}
@@ -0,0 +1,223 @@
+/**
+ * Retrieval playground
+ *
+ * Runs a dashboard query through the chat pipeline with knowledge settings
+ * overrides (a "variant") and exposes every stage: retrieved chunks with their
+ * scores, context blocks, the final system prompt and the streamed answer.
+ * Nothing is stored in conversations; live catalog tools are not offered to the
+ * model, so answers come from the retrieved context only.
+ */
+
+import { runRAGPipeline, loadFacetVocabulary, type RAGPipelineResult, type ProductFilters } from '@/lib/rag';
+import { getLLMProvider, type ChatCompletionChunk, type LLMProvider } from '@/lib/llm';
+import { getSiteContext, buildSystemPromptWithContext } from '@/lib/site-context';
+import { loadVoiceSettings, loadSalesSettings, enhanceSystemPromptWithSettings } from './voice-settings';
+import { loadKnowledgeSettings, getRAGPipelineOptions, type KnowledgeSettings } from './knowledge-settings';
+import { extractProductFilters } from './filter-extraction';
+import { findDirectFaqAnswer, type DirectFaqAnswer } from './faq-answer';
+
+export const MAX_PLAYGROUND_QUERY_LENGTH = 1000;
+
+const NUMERIC_LIMITS = {
+  top_k_results: { min: 1, max: 20, integer: true },
+  similarity_threshold: { min: 0, max: 1, integer: false },
+  max_context_tokens: { min: 1000, max: 8000, integer: true },
+  max_chunks_per_source: { min: 1, max: 10, integer: true },
+  max_sources: { min: 1, max: 10, integer: true },
+  rerank_candidates: { min: 10, max: 100, integer: true },
+  chunk_size: { min: 500, max: 2000, integer: true },
+} as const;
+
+const BOOLEAN_KEYS = [
+  'include_products',
+  'include_pages',
+  'include_policies',
+  'include_faq',
+  'include_documents',
+  'rerank_enabled',
+  'recency_bias',
+  'structured_filters_enabled',
+] as const;
+
+/**
+ * Settings that only apply when content is (re-)indexed
+ * The playground searches the current index, so changing them has no effect on the preview
+ */
+export const INDEX_TIME_SETTINGS = ['chunk_size'] as const;
+
+export type PlaygroundVariant = Partial<
+  Pick<
+    KnowledgeSettings,
+    keyof typeof NUMERIC_LIMITS | (typeof BOOLEAN_KEYS)[number] | 'retrieval_mode'
+  >
+>;
+
+export interface PlaygroundRetrieval {
+  settings: KnowledgeSettings; // Effective settings (saved settings + variant)
+  index_time_changes: string[]; // Index-time settings the variant changes (not reflected in the preview)
+  filters: ProductFilters | null;
+  chunks: Array<{
+    id: string;
+    entity_type: string;
+    entity_id: string;
+    product_id: string | null; // Parent product of a variation
+    title: string | null;
+    similarity: number;
+    vector_similarity: number | null;
+    keyword_rank: number | null;
+    rerank_score: number | null;
+    match_source: string | null;
+    content_text: string;
+  }>;
+  context_blocks: RAGPipelineResult['contextBlocks'];
+  system_prompt: string;
+  user_prompt: string;
+  direct_answer: DirectFaqAnswer | null;
+  retrieval_ms: number;
+}
+
+/**
+ * Validate variant overrides (unknown keys are rejected)
+ */
+export function validatePlaygroundVariant(input: unknown): { variant?: PlaygroundVariant; error?: string } {
+  if (input === undefined || input === null) {
+    return { variant: {} };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'variant must be an object' };
+  }
+
+  const variant: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (value === undefined || value === null) continue;
+
+    if (key in NUMERIC_LIMITS) {
+      const limits = NUMERIC_LIMITS[key as keyof typeof NUMERIC_LIMITS];
+      if (
+        typeof value !== 'number' ||
+        !Number.isFinite(value) ||
+        value < limits.min ||
+        value > limits.max ||
+        (limits.integer && !Number.isInteger(value))
+      ) {
+        return { error: `${key} must be ${limits.integer ? 'an integer' : 'a number'} between ${limits.min} and ${limits.max}` };
+      }
+      variant[key] = value;
+    } else if ((BOOLEAN_KEYS as readonly string[]).includes(key)) {
+      if (typeof value !== 'boolean') {
+        return { error: `${key} must be a boolean` };
+      }
+      variant[key] = value;
+    } else if (key === 'retrieval_mode') {
+      if (!['vector', 'keyword', 'hybrid'].includes(value as string)) {
+        return { error: 'retrieval_mode must be one of: vector, keyword, hybrid' };
+      }
+      variant[key] = value;
+    } else {
+      return { error: `Unsupported setting: ${key}` };
+    }
+  }
+
+  return { variant: variant as PlaygroundVariant };
+}
+
+/**
+ * Run retrieval and prompt assembly for a variant
+ * When direct_answer is set the chat would reply with that FAQ answer without the LLM
+ * `llm` replaces the site provider for filter extraction and generation (query
+ * embeddings and reranking always use the site provider)
+ */
+export async function runPlaygroundRetrieval(
+  site: { id: string; tenant_id: string },
+  query: string,
+  variant: PlaygroundVariant,
+  options: { llm?: LLMProvider } = {}
+): Promise<{ retrieval: PlaygroundRetrieval; llm: LLMProvider }> {
+  const llm = options.llm || (await getLLMProvider(site.id));
+
+  const [savedSettings, voiceSettings, salesSettings, siteContext] = await Promise.all([
+    loadKnowledgeSettings(site.id),
+    loadVoiceSettings(site.id),
+    loadSalesSettings(site.id),
+    getSiteContext(site.id),
+  ]);
+
+  const settings: KnowledgeSettings = { ...savedSettings, ...variant };
+  const indexTimeChanges = INDEX_TIME_SETTINGS.filter(
+    (key) => variant[key] !== undefined && variant[key] !== savedSettings[key]
+  );
+
+  const startTime = Date.now();
+
+  const filters = settings.structured_filters_enabled
+    ? await extractProductFilters(query, await loadFacetVocabulary(site.id, site.tenant_id), llm)
+    : undefined;
+
+  const ragResult = await runRAGPipeline({
+    tenantId: site.tenant_id,
+    siteId: site.id,
+    queryText: query,
+    ...getRAGPipelineOptions(settings),
+    filters,
+  });
+
+  const directAnswer =
+    settings.include_faq && settings.faq_direct_answer_enabled !== false
+      ? await findDirectFaqAnswer(site.id, ragResult.chunks, settings.faq_direct_answer_threshold ?? 0.9)
+      : null;
+
+  // Same system prompt enhancements as the chat (voice, sales, site context)
+  const systemPrompt = buildSystemPromptWithContext(
+    enhanceSystemPromptWithSettings(ragResult.prompts.systemPrompt, voiceSettings, salesSettings),
+    siteContext
+  );
+
+  return {
+    llm,
+    retrieval: {
+      settings,
+      index_time_changes: indexTimeChanges,
+      filters: filters || null,
+      chunks: ragResult.chunks.map((chunk) => ({
+        id: chunk.id,
+        entity_type: chunk.entityType,
+        entity_id: chunk.entityId,
+        product_id: chunk.entityType === 'variation' && chunk.metadata.product_id ? String(chunk.metadata.product_id) : null,
+        title: chunk.metadata.product_title || chunk.metadata.page_title || chunk.metadata.title || null,
+        similarity: chunk.similarity,
+        vector_similarity: chunk.vectorSimilarity ?? null,
+        keyword_rank: chunk.keywordRank ?? null,
+        rerank_score: chunk.rerankScore ?? null,
+        match_source: chunk.matchSource || null,
+        content_text: chunk.contentText,
+      })),
+      context_blocks: ragResult.contextBlocks,
+      system_prompt: systemPrompt,
+      user_prompt: query,
+      direct_answer: directAnswer,
+      retrieval_ms: Date.now() - startTime,
+    },
+  };
+}
+
+/**
+ * Stream the answer for a playground run (no conversation history, no tools)
+ */
+export async function streamPlaygroundAnswer(
+  llm: LLMProvider,
+  retrieval: PlaygroundRetrieval,
+  signal?: AbortSignal
+): Promise<AsyncIterable<ChatCompletionChunk>> {
+  return llm.streamChatCompletion(
+    {
+      messages: [
+        { role: 'system', content: retrieval.system_prompt },
+        { role: 'user', content: retrieval.user_prompt },
+      ],
+      temperature: 0.7,
+      maxTokens: 1000,
+    },
+    { signal }
+  );
+}
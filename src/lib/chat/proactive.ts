@@ -0,0 +1,223 @@
+/**
+ * Proactive engagement triggers
+ *
+ * Triggers are stored in the chat settings (key 'chat', `proactive_triggers`) and
+ * sent to the widget by bootstrap. The widget evaluates them on the page (time on
+ * page, scroll depth, exit intent, URL pattern, cart value, returning visitor) and
+ * opens the chat with the trigger's opener. Openers can be generated from the
+ * product the shopper is viewing (POST /api/chat/opener); the configured message
+ * is the fallback. Impressions and conversions are recorded in chat_events.
+ */
+
+import { completeChat, type LLMProvider } from '@/lib/llm';
+import { WPAPIClient } from '@/lib/wordpress/client';
+import { createLogger } from '@/lib/utils/logger';
+
+export const PROACTIVE_TRIGGER_TYPES = [
+  'time_on_page',
+  'scroll_depth',
+  'exit_intent',
+  'url_pattern',
+  'cart_value',
+  'returning_visitor',
+] as const;
+
+export type ProactiveTriggerType = (typeof PROACTIVE_TRIGGER_TYPES)[number];
+
+export const MAX_PROACTIVE_TRIGGERS = 10;
+export const MAX_OPENER_LENGTH = 300;
+const MAX_PATTERN_LENGTH = 200;
+
+const OPENER_TIMEOUT_MS = 5000;
+const OPENER_CACHE_TTL_MS = 60 * 60 * 1000; // Generated openers are reused per product for an hour
+const MAX_CACHED_OPENERS = 1000;
+
+export interface ProactiveTrigger {
+  id: string;
+  type: ProactiveTriggerType;
+  enabled: boolean;
+  // time_on_page: seconds; scroll_depth: percent; cart_value: cart total threshold;
+  // url_pattern / returning_visitor: optional delay in seconds
+  value: number | null;
+  pattern: string | null; // url_pattern: "*" matches any characters, e.g. /product-category/shoes/*
+  message: string; // Opener (fallback when generation is on)
+  generate_from_product: boolean;
+}
+
+// Value limits per trigger type (null = no value)
+const VALUE_RANGES: Record<ProactiveTriggerType, { min: number; max: number; required: boolean } | null> = {
+  time_on_page: { min: 1, max: 3600, required: true },
+  scroll_depth: { min: 1, max: 100, required: true },
+  exit_intent: null,
+  url_pattern: { min: 0, max: 3600, required: false },
+  cart_value: { min: 0.01, max: 1000000, required: true },
+  returning_visitor: { min: 0, max: 3600, required: false },
+};
+
+/**
+ * Validate proactive_triggers from the chat settings form
+ */
+export function validateProactiveTriggers(input: unknown): { value?: ProactiveTrigger[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'proactive_triggers must be an array' };
+  }
+  if (input.length > MAX_PROACTIVE_TRIGGERS) {
+    return { error: `At most ${MAX_PROACTIVE_TRIGGERS} proactive triggers are allowed` };
+  }
+
+  const triggers: ProactiveTrigger[] = [];
+  const ids = new Set<string>();
+
+  for (const [index, raw] of input.entries()) {
+    const label = `Trigger ${index + 1}`;
+    if (!raw || typeof raw !== 'object') {
+      return { error: `${label} is invalid` };
+    }
+
+    const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+    if (!/^[a-zA-Z0-9_-]{1,40}$/.test(id) || ids.has(id)) {
+      return { error: `${label} needs a unique id (letters, numbers, - and _)` };
+    }
+    ids.add(id);
+
+    if (!PROACTIVE_TRIGGER_TYPES.includes(raw.type)) {
+      return { error: `${label}: type must be one of ${PROACTIVE_TRIGGER_TYPES.join(', ')}` };
+    }
+    const type = raw.type as ProactiveTriggerType;
+
+    const range = VALUE_RANGES[type];
+    let value: number | null = null;
+    if (range) {
+      const hasValue = raw.value !== null && raw.value !== undefined && raw.value !== '';
+      if (hasValue) {
+        value = Number(raw.value);
+        if (!Number.isFinite(value) || value < range.min || value > range.max) {
+          return { error: `${label}: value must be between ${range.min} and ${range.max}` };
+        }
+      } else if (range.required) {
+        return { error: `${label}: value is required` };
+      }
+    }
+
+    let pattern: string | null = null;
+    if (type === 'url_pattern') {
+      pattern = typeof raw.pattern === 'string' ? raw.pattern.trim() : '';
+      if (!pattern || pattern.length > MAX_PATTERN_LENGTH) {
+        return { error: `${label}: URL pattern is required (max ${MAX_PATTERN_LENGTH} characters)` };
+      }
+    }
+
+    const message = typeof raw.message === 'string' ? raw.message.trim() : '';
+    if (!message || message.length > MAX_OPENER_LENGTH) {
+      return { error: `${label}: opener message is required (max ${MAX_OPENER_LENGTH} characters)` };
+    }
+
+    triggers.push({
+      id,
+      type,
+      enabled: raw.enabled !== false,
+      value,
+      pattern,
+      message,
+      generate_from_product: raw.generate_from_product === true,
+    });
+  }
+
+  return { value: triggers };
+}
+
+/**
+ * Triggers stored in chat settings (invalid entries from older versions are dropped)
+ */
+export function readProactiveTriggers(chatSettings: any): ProactiveTrigger[] {
+  const stored = Array.isArray(chatSettings?.proactive_triggers) ? chatSettings.proactive_triggers : [];
+  const { value } = validateProactiveTriggers(stored.slice(0, MAX_PROACTIVE_TRIGGERS));
+  return value || [];
+}
+
+const OPENER_SYSTEM_PROMPT = `You write the first message a shop assistant sends to a shopper who is looking at a product.
+- One or two short sentences, at most 200 characters.
+- Mention the product by name and offer help with a concrete question (sizes, compatibility, delivery, alternatives).
+- Friendly, not pushy. No prices, discounts or stock claims.
+- Write in the same language as the example opener.
+- Respond with the message only, no quotes.`;
+
+const openerCache = new Map<string, { message: string; expiresAt: number }>();
+
+/**
+ * Opener generated from the product's context
+ * Returns null when the product cannot be loaded or generation fails (use the configured message)
+ */
+export async function generateProductOpener(
+  site: { id: string; site_url: string; secret: string; rest_base_url?: string | null },
+  productId: number,
+  exampleOpener: string,
+  provider: LLMProvider,
+  requestId?: string
+): Promise<string | null> {
+  const logger = createLogger({ request_id: requestId, site_id: site.id });
+  const cacheKey = `${site.id}:${productId}:${exampleOpener}`;
+  const cached = openerCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.message;
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const wpClient = new WPAPIClient({
+      siteUrl: site.site_url,
+      siteId: site.id,
+      secret: site.secret,
+      restBaseUrl: site.rest_base_url || undefined,
+    });
+    const product = await wpClient.getProduct(productId, requestId);
+
+    const details = [
+      `Product: ${product.title}`,
+      product.categories?.length ? `Categories: ${product.categories.join(', ')}` : null,
+      product.brand ? `Brand: ${product.brand}` : null,
+      product.variation_attributes?.length ? `Options: ${product.variation_attributes.join(', ')}` : null,
+      product.summary ? `Summary: ${product.summary.substring(0, 600)}` : null,
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    const output = await completeChat(
+      provider,
+      {
+        temperature: 0.7,
+        maxTokens: 100,
+        messages: [
+          { role: 'system', content: OPENER_SYSTEM_PROMPT },
+          { role: 'user', content: `${details}\n\nExample opener: ${exampleOpener}\n\nOpener:` },
+        ],
+      },
+      { timeoutMs: OPENER_TIMEOUT_MS }
+    );
+
+    const message = output.replace(/^["'“”]+|["'“”]+$/g, '').trim().substring(0, MAX_OPENER_LENGTH);
+
+    logger.info('Proactive opener generated', {
+      product_id: productId,
+      latency_ms: Date.now() - startTime,
+    });
+
+    if (!message) {
+      return null;
+    }
+
+    if (openerCache.size >= MAX_CACHED_OPENERS) {
+      openerCache.clear();
+    }
+    openerCache.set(cacheKey, { message, expiresAt: Date.now() + OPENER_CACHE_TTL_MS });
+    return message;
+  } catch (error) {
+    logger.warn('Proactive opener generation failed, using configured message', {
+      product_id: productId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      latency_ms: Date.now() - startTime,
+    });
+    return null;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Conversation-aware query rewriting
+ *
+ * Condenses the latest user turn and recent history into a standalone search query
+ * before retrieval, so follow-ups like "what about in blue?" or "da li ima veći?"
+ * keep the subject of the conversation
+ */
+
+import { completeChat, type LLMProvider } from '@/lib/llm';
+import { createLogger } from '@/lib/utils/logger';
+import { redactPII } from './pii';
+
+const REWRITE_TIMEOUT_MS = 5000;
+const REWRITE_HISTORY_MESSAGES = 6;
+const REWRITE_MESSAGE_CHARS = 500;
+
+export interface QueryRewriteResult {
+  original: string;
+  rewritten: string; // Equals original when rewriting was skipped or failed
+  applied: boolean;
+}
+
+const REWRITE_SYSTEM_PROMPT = `You rewrite the customer's latest message into a standalone search query for an online store's product and policy search.
+- Resolve references to earlier messages ("it", "that one", "in blue", "veći") using the conversation.
+- Keep product names, brands, SKUs, sizes, colors and prices.
+- Keep the language of the latest message.
+- If the latest message is already standalone, return it unchanged.
+- Respond with the query only, no quotes or explanation.`;
+
+/**
+ * Rewrite the latest user message into a standalone query
+ * Never throws - falls back to the original message
+ */
+export async function rewriteQuery(
+  message: string,
+  history: Array<{ role: 'user' | 'assistant'; content: string }>,
+  provider: LLMProvider,
+  requestId?: string
+): Promise<QueryRewriteResult> {
+  const logger = createLogger({ request_id: requestId });
+  const unchanged: QueryRewriteResult = { original: message, rewritten: message, applied: false };
+
+  // History may already contain the current message (saved before processing, possibly redacted)
+  const previous = [...history];
+  const last = previous[previous.length - 1];
+  if (last && last.role === 'user' && (last.content === message || last.content === redactPII(message))) {
+    previous.pop();
+  }
+
+  // Nothing to resolve against on the first turn
+  if (previous.length === 0) {
+    return unchanged;
+  }
+
+  const transcript = previous
+    .slice(-REWRITE_HISTORY_MESSAGES)
+    .map((msg) => `${msg.role === 'user' ? 'Customer' : 'Assistant'}: ${msg.content.substring(0, REWRITE_MESSAGE_CHARS)}`)
+    .join('\n');
+
+  const startTime = Date.now();
+
+  try {
+    const output = await completeChat(
+      provider,
+      {
+        temperature: 0,
+        maxTokens: 100,
+        messages: [
+          { role: 'system', content: REWRITE_SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: `Conversation:\n${transcript}\n\nLatest customer message: ${message}\n\nStandalone search query:`,
+          },
+        ],
+      },
+      { timeoutMs: REWRITE_TIMEOUT_MS }
+    );
+
+    const rewritten = output.replace(/^["'“”]+|["'“”]+$/g, '').trim();
+
+    logger.info('Query rewritten for retrieval', {
+      original_query: message,
+      rewritten_query: rewritten,
+      latency_ms: Date.now() - startTime,
+    });
+
+    if (!rewritten) {
+      return unchanged;
+    }
+
+    return {
+      original: message,
+      rewritten,
+      applied: rewritten !== message,
+    };
+  } catch (error) {
+    logger.warn('Query rewrite failed, using original message', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      latency_ms: Date.now() - startTime,
+    });
+    return unchanged;
+  }
+}
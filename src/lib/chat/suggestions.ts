@@ -0,0 +1,154 @@
+/**
+ * Suggested quick replies
+ *
+ * After an answer the message stream sends a `suggestions` event with 2-4 short
+ * follow-up questions or filter chips the shopper can tap. They are generated from
+ * the exchange; attributes that differ between the products in context are passed
+ * as filter hints. The welcome message shows the site's starter questions.
+ *
+ * Both are configured in the chat settings (key 'chat'): `suggestions_enabled`
+ * (default on) and `starter_questions`.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { completeChat, type LLMProvider } from '@/lib/llm';
+import { createLogger } from '@/lib/utils/logger';
+
+const supabaseAdmin = createAdminClient();
+
+export const MAX_STARTER_QUESTIONS = 4;
+export const MAX_SUGGESTION_LENGTH = 80;
+const MIN_SUGGESTIONS = 2;
+const MAX_SUGGESTIONS = 4;
+
+const SUGGESTIONS_TIMEOUT_MS = 4000;
+const SUGGESTIONS_MESSAGE_CHARS = 1500;
+
+/**
+ * Validate starter_questions from the chat settings form
+ */
+export function validateStarterQuestions(input: unknown): { value?: string[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'starter_questions must be an array' };
+  }
+
+  const questions = input
+    .filter((question): question is string => typeof question === 'string')
+    .map((question) => question.trim())
+    .filter(Boolean);
+
+  if (questions.length > MAX_STARTER_QUESTIONS) {
+    return { error: `At most ${MAX_STARTER_QUESTIONS} starter questions are allowed` };
+  }
+  if (questions.some((question) => question.length > MAX_SUGGESTION_LENGTH)) {
+    return { error: `Starter questions can be at most ${MAX_SUGGESTION_LENGTH} characters` };
+  }
+
+  return { value: Array.from(new Set(questions)) };
+}
+
+/**
+ * Starter questions stored in chat settings
+ */
+export function readStarterQuestions(chatSettings: any): string[] {
+  const stored = Array.isArray(chatSettings?.starter_questions) ? chatSettings.starter_questions : [];
+  const { value } = validateStarterQuestions(stored.slice(0, MAX_STARTER_QUESTIONS));
+  return value || [];
+}
+
+/**
+ * Whether follow-up suggestions are sent after answers (default: on)
+ */
+export async function loadSuggestionsEnabled(siteId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('settings')
+    .select('value')
+    .eq('site_id', siteId)
+    .eq('key', 'chat')
+    .eq('is_active', true)
+    .order('version', { ascending: false })
+    .limit(1)
+    .single();
+
+  return (data?.value as any)?.suggestions_enabled !== false;
+}
+
+const SUGGESTIONS_SYSTEM_PROMPT = `You suggest what an online store's customer might tap next after the assistant's answer.
+- Write ${MIN_SUGGESTIONS} to ${MAX_SUGGESTIONS} short replies in the customer's voice, each under 60 characters.
+- Mix natural follow-up questions with filter choices that narrow down the products (e.g. "Show only black ones", "Under 50 EUR").
+- Only suggest things the store can answer: products, sizes, availability, delivery, returns, orders.
+- Do not repeat the customer's question.
+- Write in the same language as the customer.
+- One suggestion per line, no numbering, bullets or quotes.`;
+
+/**
+ * Follow-up suggestions for an answer
+ * Never throws - returns an empty list when generation fails or yields too few
+ */
+export async function generateSuggestions(
+  exchange: {
+    message: string;
+    answer: string;
+    filterAttributes: string[]; // Attributes that differ between the products in context
+    productTitles: string[];
+  },
+  provider: LLMProvider,
+  requestId?: string
+): Promise<string[]> {
+  const logger = createLogger({ request_id: requestId });
+  const startTime = Date.now();
+
+  const details = [
+    `Customer: ${exchange.message.substring(0, SUGGESTIONS_MESSAGE_CHARS)}`,
+    `Assistant: ${exchange.answer.substring(0, SUGGESTIONS_MESSAGE_CHARS)}`,
+    exchange.productTitles.length > 0 ? `Products shown: ${exchange.productTitles.join(', ')}` : null,
+    exchange.filterAttributes.length > 0
+      ? `Attributes that differ between these products (good filter choices): ${exchange.filterAttributes.join(', ')}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  try {
+    const output = await completeChat(
+      provider,
+      {
+        temperature: 0.5,
+        maxTokens: 120,
+        messages: [
+          { role: 'system', content: SUGGESTIONS_SYSTEM_PROMPT },
+          { role: 'user', content: `${details}\n\nSuggestions:` },
+        ],
+      },
+      { timeoutMs: SUGGESTIONS_TIMEOUT_MS }
+    );
+
+    const seen = new Set<string>([exchange.message.trim().toLowerCase()]);
+    const suggestions: string[] = [];
+    for (const line of output.split('\n')) {
+      const suggestion = line
+        .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+        .trim()
+        .replace(/^["'“”]+|["'“”]+$/g, '')
+        .trim();
+      const key = suggestion.toLowerCase();
+      if (!suggestion || suggestion.length > MAX_SUGGESTION_LENGTH || seen.has(key)) continue;
+      seen.add(key);
+      suggestions.push(suggestion);
+      if (suggestions.length === MAX_SUGGESTIONS) break;
+    }
+
+    logger.info('Follow-up suggestions generated', {
+      count: suggestions.length,
+      latency_ms: Date.now() - startTime,
+    });
+
+    return suggestions.length >= MIN_SUGGESTIONS ? suggestions : [];
+  } catch (error) {
+    logger.warn('Follow-up suggestions failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      latency_ms: Date.now() - startTime,
+    });
+    return [];
+  }
+}
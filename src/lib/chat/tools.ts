@@ -0,0 +1,573 @@
+/**
+ * Chat tools (OpenAI function calling)
+ *
+ * Typed tools the assistant can call during a turn to fetch live catalog data
+ * instead of relying on (possibly stale) embeddings:
+ * - search_products: semantic product search with price/stock filters
+ * - get_product_live: current price, stock and variations from WordPress (resolves a requested variation)
+ * - get_store_availability: per-location pickup availability
+ * - lookup_policy: store policy text (shipping, returns, terms, privacy)
+ * - get_order_status: status, tracking and items of a verified customer's order
+ * - request_human_agent: flag the conversation for a human (see handoff.ts)
+ */
+
+import type OpenAI from 'openai';
+import { retrieveChunks, matchVariation } from '@/lib/rag';
+import { WPAPIClient } from '@/lib/wordpress/client';
+import type { SiteContext } from '@/lib/wordpress/client';
+import type { RetrievalMode } from '@/lib/rag/retrieval';
+import { createLogger } from '@/lib/utils/logger';
+import { lookupOrderStatus } from './order-lookup';
+import { requestHandoff } from './handoff';
+
+/**
+ * Maximum number of tool-calling rounds per chat turn
+ * After this, the model must answer with the data it has
+ */
+export const MAX_TOOL_ITERATIONS = 3;
+
+/**
+ * Per-tool execution timeout (ms)
+ */
+const TOOL_TIMEOUT_MS = 5000;
+
+/**
+ * System prompt addition describing when to use tools
+ */
+export const TOOL_USE_INSTRUCTIONS = `Live Store Tools:
+- The product context above comes from an index that may be out of date. When the customer asks about current price, stock, sizes/variations in stock or store pickup, call the tools to get live data before answering.
+- When the customer asks about a specific variation ("the M size in black"), call get_product_live with the attributes (or the variation_id from the context) and answer from requested_variation: if found is false that combination is not offered; otherwise use its in_stock, price and stock_quantity.
+- Use search_products when the context does not contain a matching product or the customer filters by price or stock.
+- Use lookup_policy for shipping, returns, terms or privacy questions when the policy is not in the context.
+- For "where is my order" questions call get_order_status. Ask for the order number and the billing email used at checkout before calling it. Only share order details the tool returned.
+- Call request_human_agent when the customer asks for a person, or when you cannot help (complaints, damaged items, payment problems). Then tell the customer a team member will reply in this chat.
+- Prefer tool results over the indexed context when they disagree. Never invent prices or stock levels.`;
+
+export interface ChatToolContext {
+  tenantId: string;
+  siteId: string;
+  wpClient: WPAPIClient;
+  siteContext: SiteContext | null;
+  visitorId: string;
+  conversationId: string;
+  customerToken?: string; // Signed by the plugin for logged-in customers (order lookup)
+  clientIp?: string; // Order lookup rate limiting
+  embeddingModel?: string;
+  retrievalMode?: RetrievalMode;
+  includeDocuments?: boolean; // Search uploaded documents in policy lookups (knowledge setting include_documents)
+  requestId?: string;
+}
+
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface ChatToolResult {
+  toolCallId: string;
+  name: string;
+  content: string; // JSON string passed back to the model
+  success: boolean;
+}
+
+/**
+ * Tool definitions sent to OpenAI
+ */
+export const CHAT_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_products',
+      description:
+        'Search the store catalog for products matching a description, attribute (color, size, material, brand) or price range. Returns product IDs with live price and stock status.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'What the customer is looking for, including attributes (e.g. "red running shoes size 42")',
+          },
+          min_price: {
+            type: 'number',
+            description: 'Minimum price in store currency',
+          },
+          max_price: {
+            type: 'number',
+            description: 'Maximum price in store currency',
+          },
+          in_stock_only: {
+            type: 'boolean',
+            description: 'Only return products that are currently in stock',
+          },
+          limit: {
+            type: 'integer',
+            description: 'Maximum number of products to return (1-10, default 5)',
+          },
+        },
+        required: ['query'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_product_live',
+      description:
+        'Get the current price, sale price, stock status, stock quantity and variations of a product directly from the store. Pass variation_id or attributes to check one specific variation.',
+      parameters: {
+        type: 'object',
+        properties: {
+          product_id: {
+            type: 'integer',
+            description: 'WooCommerce product ID (the parent product for variations)',
+          },
+          variation_id: {
+            type: 'integer',
+            description: 'Variation ID from the context, if known',
+          },
+          attributes: {
+            type: 'object',
+            description: 'Requested attribute values, e.g. {"Size": "M", "Color": "Black"}',
+            additionalProperties: { type: 'string' },
+          },
+        },
+        required: ['product_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_store_availability',
+      description:
+        'Get pickup locations and per-location availability for a product (physical stores, warehouses).',
+      parameters: {
+        type: 'object',
+        properties: {
+          product_id: {
+            type: 'integer',
+            description: 'WooCommerce product ID',
+          },
+        },
+        required: ['product_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'lookup_policy',
+      description:
+        'Look up store policy information such as shipping, returns, terms or privacy.',
+      parameters: {
+        type: 'object',
+        properties: {
+          topic: {
+            type: 'string',
+            enum: ['shipping', 'returns', 'terms', 'privacy', 'other'],
+            description: 'Policy topic',
+          },
+          query: {
+            type: 'string',
+            description: 'Specific question about the policy (e.g. "how long do returns take")',
+          },
+        },
+        required: ['topic'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_order_status',
+      description:
+        'Get the status, tracking number and items of a customer order. Requires the order number and the billing email (the email is optional when the customer is signed in).',
+      parameters: {
+        type: 'object',
+        properties: {
+          order_number: {
+            type: 'string',
+            description: 'Order number from the confirmation email (e.g. "1234")',
+          },
+          billing_email: {
+            type: 'string',
+            description: 'Billing email used at checkout',
+          },
+        },
+        required: ['order_number'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'request_human_agent',
+      description:
+        'Notify store staff that this conversation needs a human. A team member will reply in this chat.',
+      parameters: {
+        type: 'object',
+        properties: {
+          reason: {
+            type: 'string',
+            description: 'Short reason for the handoff (e.g. "damaged item complaint")',
+          },
+        },
+      },
+    },
+  },
+];
+
+/**
+ * Race a promise against the tool timeout
+ */
+async function withToolTimeout<T>(promise: Promise<T>, toolName: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Tool ${toolName} timeout`)), TOOL_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([promise, timeoutPromise]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * search_products tool
+ */
+async function searchProducts(
+  args: {
+    query: string;
+    min_price?: number;
+    max_price?: number;
+    in_stock_only?: boolean;
+    limit?: number;
+  },
+  context: ChatToolContext
+) {
+  const limit = Math.min(Math.max(args.limit || 5, 1), 10);
+
+  const chunks = await retrieveChunks({
+    tenantId: context.tenantId,
+    siteId: context.siteId,
+    queryText: args.query,
+    topK: limit * 3, // Over-fetch so filters still leave enough results
+    allowedSourceTypes: ['product'],
+    model: context.embeddingModel,
+    mode: context.retrievalMode,
+    // Pre-filter on indexed price/stock; live data below is the final check
+    filters: {
+      priceMin: args.min_price,
+      priceMax: args.max_price,
+      inStockOnly: args.in_stock_only,
+    },
+  });
+
+  // Collapse chunks into unique products (best similarity first)
+  const candidates = new Map<number, { id: number; title?: string; url?: string; similarity: number }>();
+  for (const chunk of chunks) {
+    const productId = parseInt(chunk.entityId, 10);
+    if (isNaN(productId) || candidates.has(productId)) continue;
+    candidates.set(productId, {
+      id: productId,
+      title: chunk.metadata.product_title,
+      url: chunk.metadata.product_url,
+      similarity: chunk.similarity,
+    });
+  }
+
+  const products: Array<{
+    id: number;
+    title?: string;
+    url?: string;
+    price: number | null;
+    stock_status: string;
+    relevance: number;
+  }> = [];
+
+  const hasFilters = args.min_price !== undefined || args.max_price !== undefined || !!args.in_stock_only;
+  const remaining = Array.from(candidates.values());
+
+  // Live checks run in parallel, `limit` at a time, until enough products pass the filters
+  while (products.length < limit && remaining.length > 0) {
+    const batch = remaining.splice(0, limit);
+    const liveResults = await Promise.allSettled(
+      batch.map((candidate) =>
+        withToolTimeout(context.wpClient.getProductLive(candidate.id, context.requestId), 'search_products')
+      )
+    );
+
+    for (const [index, candidate] of batch.entries()) {
+      if (products.length >= limit) break;
+
+      // Live data is required to apply price/stock filters reliably
+      const result = liveResults[index];
+      let price: number | null = null;
+      let stockStatus = 'unknown';
+      if (result.status === 'fulfilled') {
+        price = result.value.price;
+        stockStatus = result.value.stock_status;
+      } else if (hasFilters) {
+        // Without live data we cannot verify filters - skip filtered searches, keep unfiltered
+        continue;
+      }
+
+      if (args.in_stock_only && stockStatus !== 'instock') continue;
+      if (args.min_price !== undefined && (price === null || price < args.min_price)) continue;
+      if (args.max_price !== undefined && (price === null || price > args.max_price)) continue;
+
+      products.push({
+        id: candidate.id,
+        title: candidate.title,
+        url: candidate.url,
+        price,
+        stock_status: stockStatus,
+        relevance: Math.round(candidate.similarity * 100) / 100,
+      });
+    }
+  }
+
+  return {
+    total_found: products.length,
+    products,
+  };
+}
+
+/**
+ * get_product_live tool
+ * With variation_id/attributes the requested variation is resolved against the live variations
+ */
+async function getProductLive(
+  productId: number,
+  args: { variation_id?: number | string; attributes?: Record<string, string> },
+  context: ChatToolContext
+) {
+  const live = await withToolTimeout(
+    context.wpClient.getProductLive(productId, context.requestId),
+    'get_product_live'
+  );
+
+  const variationId = args.variation_id !== undefined ? parseInt(String(args.variation_id), 10) : undefined;
+  const hasAttributes = args.attributes && typeof args.attributes === 'object' && Object.keys(args.attributes).length > 0;
+  if (!variationId && !hasAttributes) {
+    return live;
+  }
+
+  const match = matchVariation(live.variations || [], {
+    variationId: variationId && !isNaN(variationId) ? variationId : undefined,
+    attributes: hasAttributes ? args.attributes : undefined,
+  });
+
+  if (!match) {
+    return {
+      ...live,
+      requested_variation: { found: false, reason: 'Product has no variation with the requested attributes' },
+    };
+  }
+
+  return {
+    ...live,
+    requested_variation: match.variation
+      ? {
+          found: true,
+          variation_id: match.variation.id,
+          attributes: match.variation.attributes,
+          sku: match.variation.sku,
+          price: match.variation.price,
+          stock_status: match.variation.stock_status,
+          stock_quantity: match.variation.stock_quantity,
+          in_stock: match.variation.stock_status === 'instock' && match.variation.purchasable !== false,
+        }
+      : {
+          found: match.candidates.length > 0,
+          // Several variations fit (an attribute was not specified); report each of them
+          matching_variations: match.candidates.map((variation) => ({
+            variation_id: variation.id,
+            attributes: variation.attributes,
+            price: variation.price,
+            stock_status: variation.stock_status,
+            in_stock: variation.stock_status === 'instock' && variation.purchasable !== false,
+          })),
+        },
+  };
+}
+
+/**
+ * lookup_policy tool
+ */
+async function lookupPolicy(
+  args: { topic: string; query?: string },
+  context: ChatToolContext
+) {
+  const policies = context.siteContext?.policies || {};
+  const policyText = (policies as Record<string, string | undefined>)[args.topic];
+
+  if (policyText) {
+    return {
+      topic: args.topic,
+      source: 'site_context',
+      content: policyText,
+    };
+  }
+
+  // Fall back to indexed policy/page content (and uploaded documents such as warranty terms)
+  const chunks = await retrieveChunks({
+    tenantId: context.tenantId,
+    siteId: context.siteId,
+    queryText: args.query || `${args.topic} policy`,
+    topK: 3,
+    allowedSourceTypes: context.includeDocuments ? ['policy', 'page', 'document'] : ['policy', 'page'],
+    model: context.embeddingModel,
+    mode: context.retrievalMode,
+  });
+
+  if (chunks.length === 0) {
+    return {
+      topic: args.topic,
+      source: 'none',
+      content: null,
+      note: 'No policy information found for this topic.',
+    };
+  }
+
+  return {
+    topic: args.topic,
+    source: 'knowledge_base',
+    sections: chunks.map((chunk) => ({
+      title: chunk.metadata.page_title || chunk.metadata.title,
+      url: chunk.metadata.page_url || chunk.metadata.url,
+      section: chunk.metadata.section_heading,
+      content: chunk.contentText,
+    })),
+  };
+}
+
+/**
+ * Execute a single tool call
+ * Never throws - errors are returned to the model as tool output
+ */
+export async function executeChatTool(
+  toolCall: ChatToolCall,
+  context: ChatToolContext
+): Promise<ChatToolResult> {
+  const logger = createLogger({
+    request_id: context.requestId,
+    site_id: context.siteId,
+    tool: toolCall.name,
+  });
+  const startTime = Date.now();
+
+  try {
+    let args: any = {};
+    try {
+      args = toolCall.arguments ? JSON.parse(toolCall.arguments) : {};
+    } catch {
+      throw new Error('Invalid tool arguments (expected JSON)');
+    }
+
+    let output: unknown;
+
+    switch (toolCall.name) {
+      case 'search_products':
+        if (!args.query || typeof args.query !== 'string') {
+          throw new Error('query is required');
+        }
+        output = await searchProducts(args, context);
+        break;
+
+      case 'get_product_live': {
+        const productId = parseInt(args.product_id, 10);
+        if (isNaN(productId)) {
+          throw new Error('product_id must be an integer');
+        }
+        output = await getProductLive(productId, args, context);
+        break;
+      }
+
+      case 'get_store_availability': {
+        const productId = parseInt(args.product_id, 10);
+        if (isNaN(productId)) {
+          throw new Error('product_id must be an integer');
+        }
+        output = await withToolTimeout(
+          context.wpClient.getProductAvailability(productId, context.requestId),
+          toolCall.name
+        );
+        break;
+      }
+
+      case 'lookup_policy':
+        if (!args.topic) {
+          throw new Error('topic is required');
+        }
+        output = await lookupPolicy(args, context);
+        break;
+
+      case 'get_order_status':
+        if (!args.order_number) {
+          throw new Error('order_number is required');
+        }
+        output = await withToolTimeout(
+          lookupOrderStatus(
+            { order_number: String(args.order_number), billing_email: args.billing_email },
+            {
+              tenantId: context.tenantId,
+              siteId: context.siteId,
+              visitorId: context.visitorId,
+              conversationId: context.conversationId,
+              wpClient: context.wpClient,
+              customerToken: context.customerToken,
+              clientIp: context.clientIp,
+              requestId: context.requestId,
+            }
+          ),
+          toolCall.name
+        );
+        break;
+
+      case 'request_human_agent': {
+        const handoff = await requestHandoff(
+          context.siteId,
+          context.conversationId,
+          'assistant',
+          typeof args.reason === 'string' ? args.reason : undefined
+        );
+        output = {
+          status: handoff.status,
+          note: 'Store staff have been notified. Tell the customer a team member will reply here.',
+        };
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown tool: ${toolCall.name}`);
+    }
+
+    logger.info('Chat tool executed', {
+      tool_call_id: toolCall.id,
+      latency_ms: Date.now() - startTime,
+    });
+
+    return {
+      toolCallId: toolCall.id,
+      name: toolCall.name,
+      content: JSON.stringify(output),
+      success: true,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn('Chat tool failed', {
+      tool_call_id: toolCall.id,
+      error: message,
+      latency_ms: Date.now() - startTime,
+    });
+
+    return {
+      toolCallId: toolCall.id,
+      name: toolCall.name,
+      content: JSON.stringify({ error: message }),
+      success: false,
+    };
+  }
+}
@@ -0,0 +1,525 @@
+/**
+ * Persistent visitor memory
+ *
+ * Past conversations of a returning visitor are extracted into a profile
+ * (stated preferences, sizes, budget) and combined with the products they
+ * viewed, clicked or added to cart (chat_events). The profile is summarised into
+ * a compact memory block that processChatMessage adds to the system prompt.
+ *
+ * Extraction runs in the background: when a returning visitor starts a new
+ * conversation, a visitor_memory ingestion job processes their previous
+ * conversations with messages newer than memory_extracted_at. The chat request
+ * only reads the stored summary, so a refresh shows from the next message after
+ * the job finished. "Forget me" clears the profile and disables memory for the visitor.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { completeChatJSON, type LLMProvider } from '@/lib/llm';
+import { enqueueIngestionJob } from '@/lib/ingestion/queue';
+import { kickIngestionWorker } from '@/lib/ingestion/worker';
+import { createLogger } from '@/lib/utils/logger';
+
+const supabaseAdmin = createAdminClient();
+
+const EXTRACTION_TIMEOUT_MS = 8000;
+const MAX_CONVERSATIONS_PER_REFRESH = 10;
+const TRANSCRIPT_MESSAGES = 30;
+const TRANSCRIPT_MESSAGE_CHARS = 400;
+const MAX_PREFERENCES = 10;
+const MAX_PRODUCTS = 10;
+const EVENT_LOOKBACK_DAYS = 90;
+
+export type ProductInteraction = 'view' | 'click' | 'add_to_cart' | 'purchase';
+
+export interface VisitorProfile {
+  preferences: string[]; // "prefers cotton", "looking for running shoes"
+  sizes: Record<string, string>; // { shoes: "42", shirts: "M" }
+  budget: { min?: number; max?: number; currency?: string } | null;
+  products: Array<{
+    product_id: number;
+    title?: string;
+    interactions: ProductInteraction[];
+    last_at: string;
+  }>;
+}
+
+export interface VisitorMemory {
+  profile: VisitorProfile;
+  summary: string | null;
+  enabled: boolean;
+  conversationsProcessed: number;
+  lastExtractedAt: string | null;
+  forgottenAt: string | null;
+}
+
+const EMPTY_PROFILE: VisitorProfile = { preferences: [], sizes: {}, budget: null, products: [] };
+
+const EXTRACTION_SYSTEM_PROMPT = `You extract lasting shopping preferences from a conversation between a customer and an online store's assistant.
+- preferences: short phrases about what the customer likes, needs or avoids (styles, colors, materials, brands, use cases). Skip one-off questions.
+- sizes: sizes the customer stated for themselves, keyed by product kind (e.g. {"shoes": "42", "t-shirt": "M"}).
+- budget: price range the customer mentioned, in the store currency.
+Never include names, emails, phone numbers, addresses or order numbers.
+Respond only with JSON:
+{"preferences": [], "sizes": {}, "budget": {"min": number|null, "max": number|null, "currency": string|null}}`;
+
+function toProfile(raw: any): VisitorProfile {
+  return {
+    preferences: Array.isArray(raw?.preferences) ? raw.preferences : [],
+    sizes: raw?.sizes && typeof raw.sizes === 'object' ? raw.sizes : {},
+    budget: raw?.budget || null,
+    products: Array.isArray(raw?.products) ? raw.products : [],
+  };
+}
+
+function toPrice(value: unknown): number | undefined {
+  const price = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return isFinite(price) && price > 0 ? price : undefined;
+}
+
+/**
+ * Merge newly extracted facts into the profile (newer values win)
+ */
+function mergeExtracted(profile: VisitorProfile, raw: any): VisitorProfile {
+  const preferences = Array.isArray(raw?.preferences)
+    ? raw.preferences.filter((value: unknown): value is string => typeof value === 'string' && value.trim().length > 0)
+    : [];
+
+  const sizes: Record<string, string> = { ...profile.sizes };
+  if (raw?.sizes && typeof raw.sizes === 'object') {
+    for (const [kind, size] of Object.entries(raw.sizes)) {
+      if (typeof size === 'string' || typeof size === 'number') {
+        sizes[kind.trim().toLowerCase()] = String(size).trim();
+      }
+    }
+  }
+
+  const min = toPrice(raw?.budget?.min);
+  const max = toPrice(raw?.budget?.max);
+  const budget =
+    min !== undefined || max !== undefined
+      ? { min, max, currency: typeof raw.budget.currency === 'string' ? raw.budget.currency : undefined }
+      : profile.budget;
+
+  // Most recent preferences first, case-insensitive dedupe
+  const seen = new Set<string>();
+  const mergedPreferences = [...preferences.map((value: string) => value.trim()), ...profile.preferences].filter(
+    (value) => {
+      const key = value.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }
+  );
+
+  return {
+    ...profile,
+    preferences: mergedPreferences.slice(0, MAX_PREFERENCES),
+    sizes,
+    budget,
+  };
+}
+
+/**
+ * Build the compact memory block for the system prompt
+ */
+export function formatMemoryBlock(profile: VisitorProfile): string | null {
+  const lines: string[] = [];
+
+  if (profile.preferences.length > 0) {
+    lines.push(`- Preferences: ${profile.preferences.join('; ')}`);
+  }
+  const sizes = Object.entries(profile.sizes);
+  if (sizes.length > 0) {
+    lines.push(`- Sizes: ${sizes.map(([kind, size]) => `${kind} ${size}`).join(', ')}`);
+  }
+  if (profile.budget && (profile.budget.min || profile.budget.max)) {
+    const range = [profile.budget.min ? `from ${profile.budget.min}` : '', profile.budget.max ? `up to ${profile.budget.max}` : '']
+      .filter(Boolean)
+      .join(' ');
+    lines.push(`- Budget: ${range}${profile.budget.currency ? ` ${profile.budget.currency}` : ''}`);
+  }
+  if (profile.products.length > 0) {
+    const products = profile.products
+      .slice(0, 5)
+      .map((product) => `${product.title || `product #${product.product_id}`} (${product.interactions.join(', ')})`);
+    lines.push(`- Products they looked at before: ${products.join('; ')}`);
+  }
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return `RETURNING VISITOR MEMORY (from earlier conversations - use it to personalise answers, do not recite it; if it conflicts with what the customer says now, follow the customer):\n${lines.join('\n')}`;
+}
+
+/**
+ * Rebuild product interactions from chat_events
+ * Titles come from product evidence shown in the visitor's conversations
+ */
+async function loadProductInteractions(
+  siteId: string,
+  visitorDbId: string,
+  knownTitles: Map<number, string>
+): Promise<VisitorProfile['products']> {
+  const since = new Date(Date.now() - EVENT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data: events } = await supabaseAdmin
+    .from('chat_events')
+    .select('event_type, payload, created_at')
+    .eq('site_id', siteId)
+    .eq('visitor_id', visitorDbId)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  const products = new Map<number, VisitorProfile['products'][number]>();
+  for (const event of events || []) {
+    const productId = parseInt(String(event.payload?.product_id ?? ''), 10);
+    if (isNaN(productId)) continue;
+
+    const existing = products.get(productId);
+    if (existing) {
+      if (!existing.interactions.includes(event.event_type)) {
+        existing.interactions.push(event.event_type);
+      }
+      continue;
+    }
+    products.set(productId, {
+      product_id: productId,
+      title: knownTitles.get(productId),
+      interactions: [event.event_type],
+      last_at: event.created_at,
+    });
+  }
+
+  // Stronger intent first, then most recent
+  const weight = (product: VisitorProfile['products'][number]) =>
+    product.interactions.includes('purchase') ? 3 : product.interactions.includes('add_to_cart') ? 2 : product.interactions.includes('click') ? 1 : 0;
+
+  return Array.from(products.values())
+    .sort((a, b) => weight(b) - weight(a) || b.last_at.localeCompare(a.last_at))
+    .slice(0, MAX_PRODUCTS);
+}
+
+/**
+ * Extract lasting facts from one conversation
+ * Returns null when extraction fails (the conversation is retried next time)
+ */
+async function extractConversation(
+  conversationDbId: string,
+  titles: Map<number, string>,
+  provider: LLMProvider,
+  requestId?: string
+): Promise<any | null> {
+  const logger = createLogger({ request_id: requestId, conversation_id: conversationDbId });
+
+  const { data: messages } = await supabaseAdmin
+    .from('messages')
+    .select('role, content_text, content_json')
+    .eq('conversation_id', conversationDbId)
+    .order('created_at', { ascending: true })
+    .limit(TRANSCRIPT_MESSAGES);
+
+  for (const msg of messages || []) {
+    for (const ev of msg.content_json?.evidence || []) {
+      const productId = parseInt(ev.sourceType === 'variation' ? ev.parentId : ev.sourceId, 10);
+      if ((ev.sourceType === 'product' || ev.sourceType === 'variation') && ev.title && !isNaN(productId)) {
+        titles.set(productId, ev.title);
+      }
+    }
+  }
+
+  const customerMessages = (messages || []).filter((msg) => msg.role === 'user' && msg.content_text);
+  if (customerMessages.length === 0) {
+    return {};
+  }
+
+  const transcript = (messages || [])
+    .filter((msg) => (msg.role === 'user' || msg.role === 'assistant') && msg.content_text)
+    .map((msg) => `${msg.role === 'user' ? 'Customer' : 'Assistant'}: ${msg.content_text.substring(0, TRANSCRIPT_MESSAGE_CHARS)}`)
+    .join('\n');
+
+  const startTime = Date.now();
+
+  try {
+    const extracted = await completeChatJSON(
+      provider,
+      {
+        temperature: 0,
+        maxTokens: 300,
+        messages: [
+          { role: 'system', content: EXTRACTION_SYSTEM_PROMPT },
+          { role: 'user', content: `Conversation:\n${transcript}` },
+        ],
+      },
+      { timeoutMs: EXTRACTION_TIMEOUT_MS }
+    );
+
+    logger.info('Visitor memory extracted from conversation', {
+      preferences_count: Array.isArray(extracted?.preferences) ? extracted.preferences.length : 0,
+      latency_ms: Date.now() - startTime,
+    });
+
+    return extracted || {};
+  } catch (error) {
+    logger.warn('Visitor memory extraction failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      latency_ms: Date.now() - startTime,
+    });
+    return null;
+  }
+}
+
+async function getVisitorDbId(siteId: string, visitorId: string): Promise<string | null> {
+  const { data } = await supabaseAdmin
+    .from('visitors')
+    .select('id')
+    .eq('site_id', siteId)
+    .eq('visitor_id', visitorId)
+    .single();
+
+  return data?.id || null;
+}
+
+/**
+ * Get stored memory for a visitor (by visitors.id)
+ */
+export async function getVisitorMemory(visitorDbId: string): Promise<VisitorMemory | null> {
+  const { data, error } = await supabaseAdmin
+    .from('visitor_memory')
+    .select('*')
+    .eq('visitor_id', visitorDbId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return {
+    profile: toProfile(data.profile),
+    summary: data.summary || null,
+    enabled: data.enabled !== false,
+    conversationsProcessed: data.conversations_processed || 0,
+    lastExtractedAt: data.last_extracted_at || null,
+    forgottenAt: data.forgotten_at || null,
+  };
+}
+
+/**
+ * Previous conversations with messages not yet extracted (newest first)
+ */
+async function listPendingConversations(
+  siteId: string,
+  visitorDbId: string,
+  currentConversationId: string
+): Promise<Array<{ id: string }>> {
+  const { data: conversations } = await supabaseAdmin
+    .from('conversations')
+    .select('id, last_message_at, memory_extracted_at')
+    .eq('site_id', siteId)
+    .eq('visitor_id', visitorDbId)
+    .neq('conversation_id', currentConversationId)
+    .gt('message_count', 0)
+    .order('last_message_at', { ascending: false })
+    .limit(20);
+
+  return (conversations || []).filter(
+    (conv) => !conv.memory_extracted_at || conv.memory_extracted_at < conv.last_message_at
+  );
+}
+
+/**
+ * Queue a background refresh when earlier conversations are not extracted yet
+ * (at most one pending job per visitor)
+ */
+async function scheduleMemoryRefresh(siteId: string, visitorDbId: string, currentConversationId: string): Promise<void> {
+  const pending = await listPendingConversations(siteId, visitorDbId, currentConversationId);
+  if (pending.length === 0) {
+    return;
+  }
+
+  const { count } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('job_type', 'visitor_memory')
+    .in('status', ['queued', 'running'])
+    .eq('payload->>visitor_id', visitorDbId);
+
+  if (count) {
+    return;
+  }
+
+  await enqueueIngestionJob(siteId, 'visitor_memory', {
+    visitor_id: visitorDbId,
+    conversation_id: currentConversationId,
+  });
+  kickIngestionWorker();
+}
+
+/**
+ * Extract pending conversations into the stored profile and summary (visitor_memory jobs)
+ * Conversations whose extraction fails stay pending for the next refresh
+ */
+export async function refreshVisitorMemory(
+  siteId: string,
+  visitorDbId: string,
+  currentConversationId: string,
+  provider: LLMProvider,
+  requestId?: string
+): Promise<{ conversationsExtracted: number }> {
+  const logger = createLogger({ request_id: requestId, site_id: siteId });
+
+  const memory = await getVisitorMemory(visitorDbId);
+  if (memory && !memory.enabled) {
+    return { conversationsExtracted: 0 };
+  }
+
+  const pending = (await listPendingConversations(siteId, visitorDbId, currentConversationId)).slice(
+    0,
+    MAX_CONVERSATIONS_PER_REFRESH
+  );
+  if (pending.length === 0) {
+    return { conversationsExtracted: 0 };
+  }
+
+  let profile = memory?.profile || EMPTY_PROFILE;
+  const titles = new Map<number, string>(
+    profile.products.filter((product) => product.title).map((product) => [product.product_id, product.title!])
+  );
+  const extractedIds: string[] = [];
+
+  // Oldest first so newer statements override older ones
+  for (const conv of [...pending].reverse()) {
+    const extracted = await extractConversation(conv.id, titles, provider, requestId);
+    if (extracted === null) continue;
+    profile = mergeExtracted(profile, extracted);
+    extractedIds.push(conv.id);
+  }
+
+  profile = { ...profile, products: await loadProductInteractions(siteId, visitorDbId, titles) };
+  const summary = formatMemoryBlock(profile);
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin.from('visitor_memory').upsert(
+    {
+      site_id: siteId,
+      visitor_id: visitorDbId,
+      profile,
+      summary,
+      conversations_processed: (memory?.conversationsProcessed || 0) + extractedIds.length,
+      last_extracted_at: now,
+      updated_at: now,
+    },
+    { onConflict: 'visitor_id' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save visitor memory: ${error.message}`);
+  }
+
+  if (extractedIds.length > 0) {
+    await supabaseAdmin.from('conversations').update({ memory_extracted_at: now }).in('id', extractedIds);
+  }
+
+  logger.info('Visitor memory refreshed', {
+    visitor_db_id: visitorDbId,
+    conversations_extracted: extractedIds.length,
+    has_summary: !!summary,
+  });
+
+  return { conversationsExtracted: extractedIds.length };
+}
+
+/**
+ * Stored memory block for a returning visitor
+ * With refresh set (first message of a conversation), earlier conversations that are
+ * not extracted yet are queued for a background refresh; the request does not wait for it.
+ * Never throws - returns null when there is nothing to remember or memory is disabled
+ */
+export async function loadVisitorMemory(
+  siteId: string,
+  visitorId: string,
+  currentConversationId: string,
+  options: { refresh?: boolean; requestId?: string } = {}
+): Promise<string | null> {
+  const logger = createLogger({ request_id: options.requestId, site_id: siteId, visitor_id: visitorId });
+
+  try {
+    const visitorDbId = await getVisitorDbId(siteId, visitorId);
+    if (!visitorDbId) {
+      return null;
+    }
+
+    const memory = await getVisitorMemory(visitorDbId);
+    if (memory && !memory.enabled) {
+      return null;
+    }
+
+    if (options.refresh) {
+      scheduleMemoryRefresh(siteId, visitorDbId, currentConversationId).catch((error) => {
+        logger.warn('Failed to queue visitor memory refresh', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }
+
+    return memory?.summary || null;
+  } catch (error) {
+    logger.warn('Visitor memory unavailable, continuing without it', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Forget a visitor: clear the stored profile and stop building a new one
+ */
+export async function forgetVisitor(
+  siteId: string,
+  visitorDbId: string,
+  requestedBy: 'visitor' | 'staff'
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabaseAdmin.from('visitor_memory').upsert(
+    {
+      site_id: siteId,
+      visitor_id: visitorDbId,
+      profile: {},
+      summary: null,
+      conversations_processed: 0,
+      enabled: false,
+      last_extracted_at: null,
+      forgotten_at: now,
+      updated_at: now,
+    },
+    { onConflict: 'visitor_id' }
+  );
+
+  if (error) {
+    throw new Error(`Failed to forget visitor: ${error.message}`);
+  }
+
+  await supabaseAdmin.from('audit_logs').insert({
+    site_id: siteId,
+    action: 'visitor_memory_forgotten',
+    resource_type: 'visitor',
+    resource_id: visitorDbId,
+    metadata: { requested_by: requestedBy },
+    created_at: now,
+  });
+}
+
+/**
+ * Forget a visitor by external visitor ID (widget "forget me")
+ * Returns false if the visitor does not exist
+ */
+export async function forgetVisitorById(siteId: string, visitorId: string): Promise<boolean> {
+  const visitorDbId = await getVisitorDbId(siteId, visitorId);
+  if (!visitorDbId) {
+    return false;
+  }
+
+  await forgetVisitor(siteId, visitorDbId, 'visitor');
+  return true;
+}
@@ -0,0 +1,364 @@
+/**
+ * Structure-aware text chunking
+ *
+ * Strategies (selected per source type in KnowledgeSettings.chunking_strategy):
+ * - fixed: character windows with overlap, identical to the original chunkText
+ *   (untrimmed; text up to the chunk size is one chunk), so existing chunk hashes hold
+ * - window: character windows with overlap that end at whitespace and are trimmed
+ * - sentence: packs whole sentences/paragraphs up to the chunk size
+ * - heading: splits at markdown/HTML headings, then packs sentences within each section
+ * - token: token windows using the cl100k_base tokenizer (text-embedding-3 / ada-002)
+ * - product: one chunk per product; falls back to sentence chunking for long product texts
+ *
+ * Chunks are verbatim slices of the (normalized) input, so start_char/end_char
+ * point at the exact source range. Heading chunks carry their section heading.
+ */
+
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+
+export type ChunkingStrategy = 'fixed' | 'window' | 'sentence' | 'heading' | 'token' | 'product';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['fixed', 'window', 'sentence', 'heading', 'token', 'product'];
+
+export const DEFAULT_CHUNKING_STRATEGY: Record<'product' | 'page' | 'policy' | 'faq' | 'document', ChunkingStrategy> = {
+  product: 'product',
+  page: 'heading',
+  policy: 'heading',
+  faq: 'sentence',
+  document: 'heading',
+};
+
+export interface TextChunk {
+  text: string;
+  startChar: number;
+  endChar: number;
+  sectionHeading?: string;
+}
+
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy; // Default: 'fixed'
+  chunkSize?: number; // Characters, default: 1000
+  overlap?: number; // Characters, default: 200
+}
+
+const CHARS_PER_TOKEN = 4; // Converts character sizes for the token strategy
+const SINGLE_CHUNK_MAX_CHARS = 6000; // Longest product text embedded as one chunk
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100k_base);
+  }
+  return encoder;
+}
+
+/**
+ * Count tokens with the embedding tokenizer
+ */
+export function countTokens(text: string): number {
+  return getEncoder().encode(text).length;
+}
+
+/**
+ * Build a chunk from a source range, trimming surrounding whitespace
+ */
+function toChunk(text: string, span: Span, sectionHeading?: string): TextChunk | null {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start >= end) return null;
+
+  return {
+    text: text.slice(start, end),
+    startChar: start,
+    endChar: end,
+    ...(sectionHeading && { sectionHeading }),
+  };
+}
+
+/**
+ * Split a span into windows of at most chunkSize characters, preferring whitespace boundaries
+ */
+function splitFixed(text: string, span: Span, chunkSize: number, overlap: number): Span[] {
+  const spans: Span[] = [];
+  let start = span.start;
+
+  while (start < span.end) {
+    let end = Math.min(start + chunkSize, span.end);
+
+    // Avoid cutting words: back off to the last whitespace in the window
+    if (end < span.end) {
+      const lastSpace = text.lastIndexOf(' ', end);
+      if (lastSpace > start + chunkSize / 2) {
+        end = lastSpace;
+      }
+    }
+
+    spans.push({ start, end });
+    if (end >= span.end) break;
+
+    const next = end - overlap;
+    start = next > start ? next : end;
+  }
+
+  return spans;
+}
+
+/**
+ * Sentence spans of a range (paragraph breaks always end a sentence)
+ */
+function splitSentences(text: string, span: Span): Span[] {
+  const spans: Span[] = [];
+  const boundary = /[.!?…]+["')\]]*\s+|\n\s*\n|\n(?=\s*(?:[-*•]|\d+[.)])\s)/g;
+  boundary.lastIndex = span.start;
+  let start = span.start;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null && match.index < span.end) {
+    const end = Math.min(match.index + match[0].length, span.end);
+    if (end > start) {
+      spans.push({ start, end });
+    }
+    start = end;
+  }
+
+  if (start < span.end) {
+    spans.push({ start, end: span.end });
+  }
+
+  return spans;
+}
+
+/**
+ * Pack consecutive sentences into chunks of at most chunkSize characters
+ * Trailing sentences (up to overlap characters) are repeated at the start of the next chunk
+ */
+function packSentences(text: string, span: Span, chunkSize: number, overlap: number): Span[] {
+  const units: Span[] = [];
+  for (const sentence of splitSentences(text, span)) {
+    if (sentence.end - sentence.start > chunkSize) {
+      units.push(...splitFixed(text, sentence, chunkSize, 0));
+    } else {
+      units.push(sentence);
+    }
+  }
+
+  const spans: Span[] = [];
+  let first = 0;
+
+  while (first < units.length) {
+    let last = first;
+    while (last + 1 < units.length && units[last + 1].end - units[first].start <= chunkSize) {
+      last++;
+    }
+
+    spans.push({ start: units[first].start, end: units[last].end });
+    if (last === units.length - 1) break;
+
+    // Step back over whole sentences that fit in the overlap
+    let next = last + 1;
+    while (next - 1 > first && units[last].end - units[next - 1].start <= overlap) {
+      next--;
+    }
+    first = next;
+  }
+
+  return spans;
+}
+
+/**
+ * Convert HTML content to text, keeping headings as markdown headings
+ */
+export function normalizeHtml(text: string): string {
+  if (!/<\/?[a-z][^>]*>/i.test(text)) {
+    return text;
+  }
+
+  return text
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, heading: string) =>
+      `\n\n${'#'.repeat(parseInt(level, 10))} ${heading.replace(/<[^>]+>/g, '').trim()}\n\n`
+    )
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|section|article|ul|ol|table|tr|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n');
+}
+
+/**
+ * Original chunkText windows: no trimming or word boundaries (chunk hashes must not change)
+ */
+function chunkFixed(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  if (text.length <= chunkSize) {
+    return [{ text, startChar: 0, endChar: text.length }];
+  }
+
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    const end = Math.min(start + chunkSize, text.length);
+    chunks.push({ text: text.slice(start, end), startChar: start, endChar: end });
+    if (end >= text.length) break;
+    start = end - overlap; // Overlap for context preservation
+  }
+
+  return chunks;
+}
+
+function chunkWindows(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  return splitFixed(text, { start: 0, end: text.length }, chunkSize, overlap)
+    .map((span) => toChunk(text, span))
+    .filter((chunk): chunk is TextChunk => chunk !== null);
+}
+
+function chunkSentences(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  return packSentences(text, { start: 0, end: text.length }, chunkSize, overlap)
+    .map((span) => toChunk(text, span))
+    .filter((chunk): chunk is TextChunk => chunk !== null);
+}
+
+/**
+ * Split at headings; each section is chunked on its own so chunks never span two sections
+ */
+function chunkByHeadings(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  const headingPattern = /^#{1,6}[ \t]+(.+?)[ \t#]*$/gm;
+  const sections: Array<Span & { heading?: string; bodyStart: number }> = [];
+  let match: RegExpExecArray | null;
+  let previous: { start: number; heading?: string; bodyStart: number } = { start: 0, bodyStart: 0 };
+
+  while ((match = headingPattern.exec(text)) !== null) {
+    sections.push({ ...previous, end: match.index });
+    previous = { start: match.index, heading: match[1].trim(), bodyStart: match.index + match[0].length };
+  }
+  sections.push({ ...previous, end: text.length });
+
+  // A short preamble (e.g. the page title line) belongs with the first section
+  if (sections.length > 1 && sections[0].end - sections[0].start < chunkSize / 4) {
+    sections.shift();
+    sections[0].start = 0;
+  }
+
+  const chunks: TextChunk[] = [];
+  for (const section of sections) {
+    // A heading directly followed by another heading has no content of its own
+    if (!text.slice(section.bodyStart, section.end).trim()) continue;
+
+    for (const span of packSentences(text, section, chunkSize, overlap)) {
+      const chunk = toChunk(text, span, section.heading);
+      if (chunk) chunks.push(chunk);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Token windows; sizes are converted from characters (~4 characters per token)
+ * Windows are packed from whitespace-separated words counted with the tokenizer, so a
+ * chunk never ends inside a word or a multi-byte character; words longer than a window
+ * are split at code point boundaries
+ */
+function chunkTokens(text: string, chunkSize: number, overlap: number): TextChunk[] {
+  const tokenizer = getEncoder();
+  const windowTokens = Math.max(16, Math.round(chunkSize / CHARS_PER_TOKEN));
+  const overlapTokens = Math.min(windowTokens - 1, Math.round(overlap / CHARS_PER_TOKEN));
+
+  // Words with their leading whitespace (how the tokenizer splits text, too)
+  const words: Array<Span & { tokens: number }> = [];
+  const addWord = (start: number, end: number) => {
+    const tokens = tokenizer.encode(text.slice(start, end)).length;
+    let middle = start + Math.floor((end - start) / 2);
+    const code = text.charCodeAt(middle);
+    if (code >= 0xdc00 && code <= 0xdfff) middle++; // Keep surrogate pairs together
+
+    if (tokens <= windowTokens || middle <= start || middle >= end) {
+      words.push({ start, end, tokens });
+      return;
+    }
+    addWord(start, middle);
+    addWord(middle, end);
+  };
+
+  const wordPattern = /\s*\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    addWord(match.index, match.index + match[0].length);
+  }
+
+  const chunks: TextChunk[] = [];
+  let first = 0;
+
+  while (first < words.length) {
+    let last = first;
+    let tokens = words[first].tokens;
+    while (last + 1 < words.length && tokens + words[last + 1].tokens <= windowTokens) {
+      last++;
+      tokens += words[last].tokens;
+    }
+
+    const chunk = toChunk(text, { start: words[first].start, end: words[last].end });
+    if (chunk) chunks.push(chunk);
+    if (last === words.length - 1) break;
+
+    // Step back over trailing words that fit in the overlap
+    let next = last + 1;
+    let overlapped = 0;
+    while (next - 1 > first && overlapped + words[next - 1].tokens <= overlapTokens) {
+      next--;
+      overlapped += words[next].tokens;
+    }
+    first = next;
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk text for embedding with the given strategy
+ */
+export function chunkDocument(input: string, options: ChunkingOptions = {}): TextChunk[] {
+  const { strategy = 'fixed', chunkSize = 1000, overlap = 200 } = options;
+  const effectiveOverlap = Math.min(overlap, Math.floor(chunkSize / 2));
+  const text = strategy === 'fixed' ? input : normalizeHtml(input);
+
+  if (!text.trim()) {
+    return [];
+  }
+
+  switch (strategy) {
+    case 'product':
+      if (text.length <= SINGLE_CHUNK_MAX_CHARS) {
+        const chunk = toChunk(text, { start: 0, end: text.length });
+        return chunk ? [chunk] : [];
+      }
+      return chunkSentences(text, chunkSize, effectiveOverlap);
+    case 'sentence':
+      return chunkSentences(text, chunkSize, effectiveOverlap);
+    case 'heading':
+      return chunkByHeadings(text, chunkSize, effectiveOverlap);
+    case 'token':
+      return chunkTokens(text, chunkSize, effectiveOverlap);
+    case 'window':
+      return chunkWindows(text, chunkSize, effectiveOverlap);
+    case 'fixed':
+    default:
+      // Original overlap handling (only kept below the chunk size so windows advance)
+      return chunkFixed(text, chunkSize, Math.min(overlap, chunkSize - 1));
+  }
+}
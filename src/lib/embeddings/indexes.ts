@@ -0,0 +1,168 @@
+/**
+ * Embedding indexes
+ *
+ * Embeddings belong to an index generation (embeddings.index_version, see the
+ * embedding_indexes table). Retrieval reads the site's active index; ingestion
+ * writes to the active index and also to a new index while a model migration
+ * builds it, and to the previous index while a switch can still be rolled back.
+ * Sites that never migrated serve index_version 1 with the embedding model from
+ * knowledge settings.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+
+const supabaseAdmin = createAdminClient();
+
+export const DEFAULT_INDEX_VERSION = 1;
+
+const ACTIVE_INDEX_CACHE_TTL_MS = 30 * 1000;
+
+export type EmbeddingIndexStatus = 'building' | 'ready' | 'active' | 'retired' | 'cancelled' | 'failed';
+
+/**
+ * Index a query or ingestion runs against
+ * model is null for sites without embedding_indexes rows (caller's default model applies)
+ */
+export interface EmbeddingIndexTarget {
+  version: number;
+  model: string | null;
+  status: EmbeddingIndexStatus;
+}
+
+export interface EmbeddingIndex {
+  id: string;
+  version: number;
+  model: string;
+  status: EmbeddingIndexStatus;
+  job_id: string | null;
+  evaluation: EmbeddingIndexEvaluation | null;
+  error_message: string | null;
+  activated_at: string | null;
+  retired_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Result of comparing a new index with the active one (stored on the new index)
+ */
+export interface EmbeddingIndexEvaluation {
+  evaluated_at: string;
+  queries: Array<{
+    query: string;
+    active: { sources: string[]; best_similarity: number | null };
+    candidate: { sources: string[]; best_similarity: number | null };
+    overlap: number; // Share of the active index's sources also found by the candidate (0-1)
+  }>;
+  summary: {
+    query_count: number;
+    average_overlap: number;
+    active_hit_rate: number; // Share of queries with at least one result
+    candidate_hit_rate: number;
+  };
+}
+
+export const EMBEDDING_INDEX_COLUMNS =
+  'id, version, model, status, job_id, evaluation, error_message, activated_at, retired_at, created_at, updated_at';
+
+const activeIndexCache = new Map<string, { index: EmbeddingIndexTarget; expiresAt: number }>();
+
+/**
+ * Active index of a site (cached per site for 30 seconds)
+ * After a cutover other processes keep reading the previous index until their
+ * cache expires; it is retained, so queries keep working during the switch
+ */
+export async function getActiveEmbeddingIndex(siteId: string): Promise<EmbeddingIndexTarget> {
+  const cached = activeIndexCache.get(siteId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.index;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('embedding_indexes')
+    .select('version, model')
+    .eq('site_id', siteId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Embedding Indexes] Failed to load active index:', error.message);
+  }
+
+  const index: EmbeddingIndexTarget = data
+    ? { version: data.version, model: data.model, status: 'active' }
+    : { version: DEFAULT_INDEX_VERSION, model: null, status: 'active' };
+
+  activeIndexCache.set(siteId, { index, expiresAt: Date.now() + ACTIVE_INDEX_CACHE_TTL_MS });
+  return index;
+}
+
+/**
+ * Forget the cached active index of a site (after cutover or rollback in this process)
+ */
+export function clearActiveEmbeddingIndexCache(siteId: string): void {
+  activeIndexCache.delete(siteId);
+}
+
+/**
+ * Indexes that ingestion writes to: the active index, the index being built by a
+ * model migration (so updates made during the build are not lost) and the index
+ * retired by the last switch (so a rollback serves current content)
+ */
+export async function getWritableEmbeddingIndexes(siteId: string): Promise<EmbeddingIndexTarget[]> {
+  clearActiveEmbeddingIndexCache(siteId);
+  const active = await getActiveEmbeddingIndex(siteId);
+
+  const { data: others } = await supabaseAdmin
+    .from('embedding_indexes')
+    .select('version, model, status')
+    .eq('site_id', siteId)
+    .in('status', ['building', 'ready', 'retired']);
+
+  return [
+    active,
+    ...((others || []) as EmbeddingIndexTarget[]).filter((index) => index.version !== active.version),
+  ];
+}
+
+/**
+ * List the indexes of a site (newest first)
+ */
+export async function listEmbeddingIndexes(siteId: string): Promise<EmbeddingIndex[]> {
+  const { data, error } = await supabaseAdmin
+    .from('embedding_indexes')
+    .select(EMBEDDING_INDEX_COLUMNS)
+    .eq('site_id', siteId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load embedding indexes: ${error.message}`);
+  }
+
+  return (data || []) as EmbeddingIndex[];
+}
+
+/**
+ * Finish the build of an index (called by the worker when its reindex job ends)
+ * building -> ready, or failed with the error; cancelled builds are left as they are
+ */
+export async function finishEmbeddingIndexBuild(
+  siteId: string,
+  version: number,
+  errorMessage?: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('embedding_indexes')
+    .update({
+      status: errorMessage ? 'failed' : 'ready',
+      error_message: errorMessage || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('site_id', siteId)
+    .eq('version', version)
+    .eq('status', 'building');
+
+  if (error) {
+    throw new Error(`Failed to update embedding index: ${error.message}`);
+  }
+}
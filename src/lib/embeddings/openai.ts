@@ -1,21 +1,18 @@
 /**
- * OpenAI embeddings generation with content hashing
+ * Embeddings generation with content hashing
  * 
- * Generates embeddings using OpenAI API and tracks content hashes
- * for deduplication and versioning
+ * Generates embeddings through the configured LLM provider (OpenAI by default)
+ * and tracks content hashes for deduplication and versioning
  * 
  * Hardened with retry logic, batching, and content-hash deduplication
  */
 
-import OpenAI from 'openai';
 import { createHash } from 'crypto';
 import { withRetry, OPENAI_RETRY_OPTIONS } from '@/lib/utils/retry';
 import { createLogger, logOpenAIFailure } from '@/lib/utils/logger';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  timeout: 30000, // 30 second timeout
-});
+import { getDefaultLLMProvider } from '@/lib/llm';
+import type { LLMProvider } from '@/lib/llm';
+import { chunkDocument, type ChunkingStrategy } from './chunking';
 
 export interface EmbeddingResult {
   embedding: number[];
@@ -30,6 +27,7 @@ export interface ChunkMetadata {
   chunk_hash: string;
   start_char: number;
   end_char: number;
+  section_heading?: string; // Nearest heading (heading strategy), for citations
 }
 
 /**
@@ -41,27 +39,15 @@ export function generateContentHash(content: string): string {
 
 /**
  * Chunk text into smaller pieces for embedding
- * Uses simple character-based chunking with overlap
+ * Defaults to character-based chunking with overlap; see ./chunking for the strategies
  */
 export function chunkText(
   text: string,
   chunkSize: number = 1000,
-  overlap: number = 200
+  overlap: number = 200,
+  strategy: ChunkingStrategy = 'fixed'
 ): string[] {
-  if (text.length <= chunkSize) {
-    return [text];
-  }
-
-  const chunks: string[] = [];
-  let start = 0;
-
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    chunks.push(text.slice(start, end));
-    start = end - overlap; // Overlap for context preservation
-  }
-
-  return chunks;
+  return chunkDocument(text, { strategy, chunkSize, overlap }).map((chunk) => chunk.text);
 }
 
 /**
@@ -69,19 +55,17 @@ export function chunkText(
  */
 export async function generateEmbedding(
   text: string,
-  model: string = 'text-embedding-3-small',
-  requestId?: string
+  model?: string, // Default: provider embedding model
+  requestId?: string,
+  provider: LLMProvider = getDefaultLLMProvider()
 ): Promise<EmbeddingResult> {
-  const logger = createLogger({ request_id: requestId });
+  const logger = createLogger({ request_id: requestId, provider: provider.name });
   const startTime = Date.now();
 
   try {
     const response = await withRetry(
       async () => {
-        return await openai.embeddings.create({
-          model,
-          input: text,
-        });
+        return await provider.createEmbeddings([text], model);
       },
       {
         ...OPENAI_RETRY_OPTIONS,
@@ -96,27 +80,27 @@ export async function generateEmbedding(
       }
     );
 
-    const embedding = response.data[0].embedding;
+    const embedding = response.embeddings[0];
     const contentHash = generateContentHash(text);
-    const tokens = response.usage.total_tokens;
+    const tokens = response.totalTokens;
     const latency = Date.now() - startTime;
 
     logger.info('Embedding generated', {
-      model,
+      model: response.model,
       tokens,
       latency_ms: latency,
     });
 
     return {
       embedding,
-      model,
+      model: response.model,
       contentHash,
       tokens,
     };
   } catch (error) {
     const latency = Date.now() - startTime;
     logOpenAIFailure(logger, error instanceof Error ? error : new Error('Unknown error'), {
-      model,
+      model: model || provider.embeddingModel,
       latency_ms: latency,
     });
     throw new Error(
@@ -130,17 +114,20 @@ export async function generateEmbedding(
  * Returns embeddings with metadata for each chunk
  * 
  * Hardened with:
+ * - Structure-aware chunking (strategy per source type, see ./chunking)
  * - Batching (multiple chunks per OpenAI request)
  * - Content-hash deduplication skip
  * - Retry logic
  */
 export async function generateEmbeddingsWithChunking(
   text: string,
-  model: string = 'text-embedding-3-small',
+  model?: string, // Default: provider embedding model
   chunkSize: number = 1000,
   overlap: number = 200,
   requestId?: string,
-  existingHashes?: Set<string> // For content-hash deduplication
+  existingHashes?: Set<string>, // For content-hash deduplication
+  provider: LLMProvider = getDefaultLLMProvider(),
+  strategy: ChunkingStrategy = 'fixed'
 ): Promise<{
   embeddings: Array<{
     embedding: number[];
@@ -149,19 +136,21 @@ export async function generateEmbeddingsWithChunking(
   totalTokens: number;
   model: string;
   skipped: number; // Number of chunks skipped due to deduplication
+  chunkHashes: string[]; // Hashes of all chunks of the text, including skipped ones
 }> {
-  const logger = createLogger({ request_id: requestId });
-  const chunks = chunkText(text, chunkSize, overlap);
+  const logger = createLogger({ request_id: requestId, provider: provider.name });
+  const chunks = chunkDocument(text, { strategy, chunkSize, overlap });
   const embeddings: Array<{
     embedding: number[];
     chunkMetadata: ChunkMetadata;
   }> = [];
   let totalTokens = 0;
   let skipped = 0;
+  let usedModel = model || provider.embeddingModel;
 
   // Pre-compute hashes for deduplication
-  const chunkHashes = chunks.map((chunk) => generateContentHash(chunk));
-  const chunksToProcess: Array<{ index: number; chunk: string; hash: string }> = [];
+  const chunkHashes = chunks.map((chunk) => generateContentHash(chunk.text));
+  const chunksToProcess: Array<{ index: number; chunk: (typeof chunks)[number]; hash: string }> = [];
 
   for (let i = 0; i < chunks.length; i++) {
     const hash = chunkHashes[i];
@@ -180,16 +169,13 @@ export async function generateEmbeddingsWithChunking(
 
   for (let i = 0; i < chunksToProcess.length; i += batchSize) {
     const batch = chunksToProcess.slice(i, i + batchSize);
-    const batchTexts = batch.map((item) => item.chunk);
+    const batchTexts = batch.map((item) => item.chunk.text);
 
     try {
       // Generate embeddings for batch
       const response = await withRetry(
         async () => {
-          return await openai.embeddings.create({
-            model,
-            input: batchTexts,
-          });
+          return await provider.createEmbeddings(batchTexts, model);
         },
         {
           ...OPENAI_RETRY_OPTIONS,
@@ -202,26 +188,25 @@ export async function generateEmbeddingsWithChunking(
         }
       );
 
+      usedModel = response.model;
+
       // Process batch results
       for (let j = 0; j < batch.length; j++) {
         const item = batch[j];
-        const embedding = response.data[j].embedding;
-        const tokens = response.usage.total_tokens / batch.length; // Approximate per chunk
+        const embedding = response.embeddings[j];
+        const tokens = response.totalTokens / batch.length; // Approximate per chunk
 
         totalTokens += Math.ceil(tokens);
 
-        // Calculate character positions
-        const startChar = item.index === 0 ? 0 : item.index * (chunkSize - overlap);
-        const endChar = startChar + item.chunk.length;
-
         embeddings.push({
           embedding,
           chunkMetadata: {
             chunk_index: item.index,
-            chunk_text: item.chunk,
+            chunk_text: item.chunk.text,
             chunk_hash: item.hash,
-            start_char: startChar,
-            end_char: endChar,
+            start_char: item.chunk.startChar,
+            end_char: item.chunk.endChar,
+            ...(item.chunk.sectionHeading && { section_heading: item.chunk.sectionHeading }),
           },
         });
       }
@@ -250,8 +235,9 @@ export async function generateEmbeddingsWithChunking(
   return {
     embeddings,
     totalTokens,
-    model,
+    model: usedModel,
     skipped,
+    chunkHashes,
   };
 }
 
@@ -322,6 +308,54 @@ export function buildProductText(product: {
   return parts.join('\n');
 }
 
+/**
+ * Build text content for one variation of a variable product
+ * Stock is left out (it changes often); it is kept in facets and verified live
+ */
+export function buildVariationText(
+  product: {
+    title: string;
+    brand?: string;
+    categories?: string[];
+    price_range?: {
+      currency: string;
+    };
+  },
+  variation: {
+    sku?: string;
+    attributes: Record<string, string>;
+    price: number;
+  }
+): string {
+  const attributeParts = Object.entries(variation.attributes).map(
+    ([name, value]) => `${name}: ${value || 'Any'}`
+  );
+  const parts: string[] = [];
+
+  parts.push(`Product: ${product.title}`);
+  if (attributeParts.length > 0) {
+    parts.push(`Variation: ${attributeParts.join('; ')}`);
+  }
+
+  if (variation.sku) {
+    parts.push(`SKU: ${variation.sku}`);
+  }
+
+  if (product.brand) {
+    parts.push(`Brand: ${product.brand}`);
+  }
+
+  if (product.categories && product.categories.length > 0) {
+    parts.push(`Categories: ${product.categories.join(', ')}`);
+  }
+
+  const currency = product.price_range?.currency;
+  const currencySymbol = !currency || currency === 'USD' ? '$' : currency;
+  parts.push(`Price: ${currencySymbol}${variation.price}`);
+
+  return parts.join('\n');
+}
+
 /**
  * Build text content from page for embedding
  */
@@ -332,3 +366,27 @@ export function buildPageText(page: {
 }): string {
   return `Page: ${page.title}\n\n${page.content}`;
 }
+
+/**
+ * Build text content from FAQ for embedding
+ */
+export function buildFaqText(faq: {
+  question: string;
+  answer: string;
+  category?: string | null;
+}): string {
+  const parts: string[] = [`Question: ${faq.question}`, `Answer: ${faq.answer}`];
+
+  if (faq.category) {
+    parts.push(`Category: ${faq.category}`);
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Build text content from an uploaded document for embedding
+ */
+export function buildDocumentText(document: { title: string; text: string }): string {
+  return `Document: ${document.title}\n\n${document.text}`;
+}
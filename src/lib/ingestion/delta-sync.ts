@@ -0,0 +1,77 @@
+/**
+ * Delta product sync
+ *
+ * A delta sync re-ingests the products changed since the site's checkpoint
+ * (sites.last_synced_at, via the plugin's /products/changed route) and deletes
+ * indexed products that are no longer published. It is scheduled for every active
+ * site with auto-indexing by the worker endpoint (POST /api/ingestion/worker), so
+ * changes whose webhooks were lost still reach the knowledge base.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { loadKnowledgeSettings } from '@/lib/chat/knowledge-settings';
+import { enqueueIngestionJob, toIngestionJob, type IngestionJob } from './queue';
+
+const supabaseAdmin = createAdminClient();
+
+export const DELTA_SYNC_INTERVAL_MS =
+  (parseInt(process.env.DELTA_SYNC_INTERVAL_MINUTES || '', 10) || 15) * 60 * 1000;
+
+/**
+ * The product sync (full or delta) that is queued or running for a site, if any
+ */
+export async function findActiveProductSync(siteId: string): Promise<IngestionJob | null> {
+  const { data } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('job_type', 'sync')
+    .eq('payload->>entity_type', 'product')
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data ? toIngestionJob(data) : null;
+}
+
+/**
+ * Queue delta syncs for active sites whose last product sync is older than the interval
+ * Returns the number of syncs queued
+ */
+export async function scheduleDeltaSyncs(): Promise<number> {
+  const { data: sites, error } = await supabaseAdmin
+    .from('sites')
+    .select('id')
+    .eq('status', 'active');
+
+  if (error) {
+    throw new Error(`Failed to load sites: ${error.message}`);
+  }
+
+  const dueBefore = Date.now() - DELTA_SYNC_INTERVAL_MS;
+  let queued = 0;
+
+  for (const site of (sites || []) as Array<{ id: string }>) {
+    const { data: lastSync } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .select('status, created_at')
+      .eq('site_id', site.id)
+      .eq('job_type', 'sync')
+      .eq('payload->>entity_type', 'product')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastSync && (lastSync.status === 'queued' || lastSync.status === 'running')) continue;
+    if (lastSync && new Date(lastSync.created_at).getTime() > dueBefore) continue;
+
+    const settings = await loadKnowledgeSettings(site.id);
+    if (!settings.auto_index_enabled || !settings.include_products) continue;
+
+    await enqueueIngestionJob(site.id, 'sync', { entity_type: 'product', mode: 'delta' });
+    queued++;
+  }
+
+  return queued;
+}
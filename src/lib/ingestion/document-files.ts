@@ -0,0 +1,153 @@
+/**
+ * Document files
+ *
+ * Uploaded knowledge documents are stored in the private knowledge-documents bucket
+ * (one object per version). Text is extracted locally, without external services:
+ * - pdf: text layer via unpdf (scanned PDFs without a text layer are rejected)
+ * - docx: mammoth HTML conversion, headings kept as markdown headings for heading chunking
+ * - md/txt: UTF-8 text
+ * - csv: one paragraph per row ("Column: value; ..."), using the first row as header
+ */
+
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+import { createAdminClient } from '@/lib/supabase/server';
+import { normalizeHtml } from '@/lib/embeddings/chunking';
+import { parseCsvRecords } from '@/lib/utils/csv';
+
+const supabaseAdmin = createAdminClient();
+
+export const DOCUMENT_STORAGE_BUCKET = 'knowledge-documents';
+
+export type DocumentFileType = 'pdf' | 'docx' | 'md' | 'txt' | 'csv';
+
+export const DOCUMENT_FILE_TYPES: DocumentFileType[] = ['pdf', 'docx', 'md', 'txt', 'csv'];
+
+export const MAX_DOCUMENT_TEXT_CHARS = 500000; // Longer extractions are truncated before chunking
+
+/**
+ * Detect the document type from the file name
+ */
+export function getDocumentFileType(fileName: string): DocumentFileType | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'markdown') return 'md';
+  return DOCUMENT_FILE_TYPES.includes(extension as DocumentFileType) ? (extension as DocumentFileType) : null;
+}
+
+/**
+ * Object path of a document version: {site_id}/{document_id}/v{version}/{file_name}
+ */
+export function getDocumentStoragePath(
+  siteId: string,
+  documentId: string,
+  version: number,
+  fileName: string
+): string {
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]+/g, '_').slice(-120) || 'document';
+  return `${siteId}/${documentId}/v${version}/${safeName}`;
+}
+
+export async function uploadDocumentFile(path: string, buffer: Buffer, contentType: string): Promise<void> {
+  const { error } = await supabaseAdmin.storage
+    .from(DOCUMENT_STORAGE_BUCKET)
+    .upload(path, buffer, { contentType, upsert: true });
+
+  if (error) {
+    throw new Error(`Failed to store document file: ${error.message}`);
+  }
+}
+
+export async function downloadDocumentFile(path: string): Promise<Buffer> {
+  const { data, error } = await supabaseAdmin.storage.from(DOCUMENT_STORAGE_BUCKET).download(path);
+
+  if (error || !data) {
+    throw new Error(`Failed to download document file: ${error?.message || 'File not found'}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Remove stored files (missing objects are ignored)
+ */
+export async function removeDocumentFiles(paths: string[]): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await supabaseAdmin.storage.from(DOCUMENT_STORAGE_BUCKET).remove(paths);
+  if (error) {
+    console.error('[Documents] Failed to remove document files:', error);
+  }
+}
+
+function decodeText(buffer: Buffer): string {
+  return buffer.toString('utf8').replace(/^﻿/, '');
+}
+
+async function extractPdfText(buffer: Buffer): Promise<string> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text.map((page) => page.trim()).filter(Boolean).join('\n\n');
+}
+
+async function extractDocxText(buffer: Buffer): Promise<string> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  return normalizeHtml(html).trim();
+}
+
+function extractCsvText(buffer: Buffer): string {
+  const [header, ...rows] = parseCsvRecords(decodeText(buffer));
+  if (!header) return '';
+  if (rows.length === 0) return header.join('; ');
+
+  return rows
+    .map((row) =>
+      row
+        .map((value, index) => {
+          const column = header[index]?.trim();
+          const cell = value.trim();
+          if (!cell) return null;
+          return column ? `${column}: ${cell}` : cell;
+        })
+        .filter(Boolean)
+        .join('; ')
+    )
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Extract the text of a document
+ * Throws when the file cannot be parsed or contains no text
+ */
+export async function extractDocumentText(buffer: Buffer, fileType: DocumentFileType): Promise<string> {
+  let text: string;
+
+  switch (fileType) {
+    case 'pdf':
+      text = await extractPdfText(buffer);
+      break;
+    case 'docx':
+      text = await extractDocxText(buffer);
+      break;
+    case 'csv':
+      text = extractCsvText(buffer);
+      break;
+    case 'md':
+    case 'txt':
+    default:
+      text = decodeText(buffer);
+      break;
+  }
+
+  text = text.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+  if (!text) {
+    throw new Error(
+      fileType === 'pdf'
+        ? 'No text found in PDF (scanned PDFs without a text layer are not supported)'
+        : 'No text found in document'
+    );
+  }
+
+  return text.length > MAX_DOCUMENT_TEXT_CHARS ? text.slice(0, MAX_DOCUMENT_TEXT_CHARS) : text;
+}
@@ -0,0 +1,122 @@
+/**
+ * Document knowledge source
+ *
+ * Documents (PDF, DOCX, Markdown, text, CSV) are uploaded from the knowledge settings
+ * page (knowledge_documents table + knowledge-documents bucket). Uploads and file
+ * replacements are embedded through the ingestion queue as document sync jobs;
+ * removing a document deletes its embeddings and file right away.
+ */
+
+import { createHash } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { enqueueIngestionJob, type IngestionJob } from './queue';
+import { kickIngestionWorker } from './worker';
+import { deleteEntityEmbeddings } from './service';
+import { getDocumentFileType, removeDocumentFiles, type DocumentFileType } from './document-files';
+
+const supabaseAdmin = createAdminClient();
+
+export const MAX_DOCUMENT_SIZE_BYTES = 10 * 1024 * 1024;
+export const MAX_DOCUMENT_TITLE_LENGTH = 300;
+
+export type DocumentStatus = 'pending' | 'processing' | 'indexed' | 'failed';
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  file_name: string;
+  file_type: DocumentFileType;
+  file_size: number;
+  version: number;
+  status: DocumentStatus;
+  error_message: string | null;
+  extracted_chars: number | null;
+  indexed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const DOCUMENT_COLUMNS =
+  'id, title, file_name, file_type, file_size, version, status, error_message, extracted_chars, indexed_at, created_at, updated_at';
+
+/**
+ * Validate an uploaded file
+ * Returns the detected file type, or an error message for unsupported or oversized files
+ */
+export function validateDocumentFile(file: File): { fileType?: DocumentFileType; error?: string } {
+  const fileType = getDocumentFileType(file.name);
+
+  if (!fileType) {
+    return { error: 'Unsupported file type. Upload a PDF, DOCX, Markdown, TXT or CSV file' };
+  }
+  if (file.size === 0) {
+    return { error: 'File is empty' };
+  }
+  if (file.size > MAX_DOCUMENT_SIZE_BYTES) {
+    return { error: `File must be at most ${MAX_DOCUMENT_SIZE_BYTES / (1024 * 1024)} MB` };
+  }
+
+  return { fileType };
+}
+
+/**
+ * Title for a document: the given title, or the file name without extension
+ */
+export function getDocumentTitle(title: unknown, fileName: string): string {
+  const value = typeof title === 'string' && title.trim() ? title.trim() : fileName.replace(/\.[^.]+$/, '');
+  return value.slice(0, MAX_DOCUMENT_TITLE_LENGTH) || 'Untitled document';
+}
+
+export function hashDocumentFile(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Queue a document for (re-)indexing and start a worker
+ */
+export async function enqueueDocumentIngestion(
+  siteId: string,
+  documentId: string,
+  requestedBy?: string
+): Promise<IngestionJob> {
+  const job = await enqueueIngestionJob(
+    siteId,
+    'sync',
+    { entity_type: 'document', entity_ids: [documentId] },
+    { requestedBy }
+  );
+  kickIngestionWorker();
+  return job;
+}
+
+/**
+ * Remove a document: embeddings first (so it stops being cited), then the row and its file
+ * Returns false when the document does not exist
+ */
+export async function deleteDocument(siteId: string, documentId: string): Promise<boolean> {
+  const { data: document } = await supabaseAdmin
+    .from('knowledge_documents')
+    .select('id, storage_path')
+    .eq('site_id', siteId)
+    .eq('id', documentId)
+    .maybeSingle();
+
+  if (!document) {
+    return false;
+  }
+
+  await deleteEntityEmbeddings({ siteId }, 'document', documentId);
+
+  const { error } = await supabaseAdmin
+    .from('knowledge_documents')
+    .delete()
+    .eq('site_id', siteId)
+    .eq('id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to delete document: ${error.message}`);
+  }
+
+  await removeDocumentFiles([document.storage_path]);
+  return true;
+}
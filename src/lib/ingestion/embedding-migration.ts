@@ -0,0 +1,464 @@
+/**
+ * Embedding model migration
+ *
+ * Changing the embedding model re-embeds the whole site into a new index while
+ * queries keep being served from the active one:
+ * 1. start - a building index and a reindex job are created (the previous
+ *    migration's leftover indexes are removed first)
+ * 2. the worker re-embeds every entity of the active index; the index becomes ready
+ * 3. evaluate - the RAG test harness runs the same queries against both indexes
+ * 4. switch - the new index becomes active in one transaction
+ * The retired index is kept (and kept up to date) so the switch can be rolled
+ * back until the next migration starts.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { getLLMProvider } from '@/lib/llm';
+import { loadKnowledgeSettings, getAllowedSourceTypes } from '@/lib/chat/knowledge-settings';
+import { compareEmbeddingIndexes } from '@/lib/rag/test-harness';
+import {
+  DEFAULT_INDEX_VERSION,
+  EMBEDDING_INDEX_COLUMNS,
+  clearActiveEmbeddingIndexCache,
+  listEmbeddingIndexes,
+  type EmbeddingIndex,
+} from '@/lib/embeddings/indexes';
+import { enqueueIngestionJob, getJobProgress, toIngestionJob, type IngestionJob } from './queue';
+import { kickIngestionWorker } from './worker';
+
+const supabaseAdmin = createAdminClient();
+
+export const MAX_EVALUATION_QUERIES = 20;
+const DEFAULT_EVALUATION_QUERIES = 10;
+const RECENT_MESSAGES_SCAN = 200;
+
+export interface EmbeddingMigrationError {
+  code: string;
+  message: string;
+  status: number;
+}
+
+export interface EmbeddingMigrationStatus {
+  active: EmbeddingIndex | null;
+  pending: EmbeddingIndex | null; // Index being built or ready to switch to
+  previous: EmbeddingIndex | null; // Retired index a rollback switches back to
+  job: {
+    status: IngestionJob['status'];
+    processed: number;
+    total: number;
+    failed: number;
+    percent: number;
+    eta_seconds: number | null;
+    last_error: string | null;
+  } | null;
+  indexes: EmbeddingIndex[];
+}
+
+function migrationError(code: string, message: string, status: number): { error: EmbeddingMigrationError } {
+  return { error: { code, message, status } };
+}
+
+/**
+ * Indexes and build progress for the knowledge settings page
+ */
+export async function getEmbeddingMigrationStatus(siteId: string): Promise<EmbeddingMigrationStatus> {
+  const indexes = await listEmbeddingIndexes(siteId);
+  const active = indexes.find((index) => index.status === 'active') || null;
+  const pending = indexes.find((index) => index.status === 'building' || index.status === 'ready') || null;
+  const previous =
+    indexes
+      .filter((index) => index.status === 'retired')
+      .sort((a, b) => (b.retired_at || '').localeCompare(a.retired_at || ''))[0] || null;
+
+  let job: EmbeddingMigrationStatus['job'] = null;
+  if (pending?.job_id) {
+    const { data } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('site_id', siteId)
+      .eq('id', pending.job_id)
+      .maybeSingle();
+
+    if (data) {
+      const buildJob = toIngestionJob(data);
+      const progress = getJobProgress(buildJob);
+      job = {
+        status: buildJob.status,
+        processed: buildJob.processedItems,
+        total: buildJob.totalItems,
+        failed: buildJob.failedItems,
+        percent: progress.percent,
+        eta_seconds: progress.eta_seconds,
+        last_error: buildJob.lastError,
+      };
+    }
+  }
+
+  return { active, pending, previous, job, indexes };
+}
+
+/**
+ * Record the index a site serves today (first migration of a site)
+ * The model is taken from its stored embeddings, falling back to knowledge settings
+ */
+async function ensureActiveIndex(siteId: string, tenantId: string): Promise<EmbeddingIndex> {
+  const { data: existing } = await supabaseAdmin
+    .from('embedding_indexes')
+    .select(EMBEDDING_INDEX_COLUMNS)
+    .eq('site_id', siteId)
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (existing) {
+    return existing as EmbeddingIndex;
+  }
+
+  const { data: sample } = await supabaseAdmin
+    .from('embeddings')
+    .select('model')
+    .eq('site_id', siteId)
+    .eq('index_version', DEFAULT_INDEX_VERSION)
+    .limit(1)
+    .maybeSingle();
+
+  const model = sample?.model || (await loadKnowledgeSettings(siteId)).embedding_model || 'text-embedding-3-small';
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('embedding_indexes')
+    .insert({
+      site_id: siteId,
+      tenant_id: tenantId,
+      version: DEFAULT_INDEX_VERSION,
+      model,
+      status: 'active',
+      activated_at: now,
+    })
+    .select(EMBEDDING_INDEX_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to record active embedding index: ${error?.message || 'Unknown error'}`);
+  }
+
+  return data as EmbeddingIndex;
+}
+
+/**
+ * Check that the site's LLM provider embeds with the requested model
+ * (providers configured with a fixed embedding model ignore the model argument)
+ */
+async function probeEmbeddingModel(siteId: string, model: string): Promise<string | null> {
+  try {
+    const provider = await getLLMProvider(siteId);
+    const response = await provider.createEmbeddings(['embedding model check'], model);
+
+    if (response.model !== model) {
+      return `The site's LLM provider is configured to embed with ${response.model}; change its embedding model in the LLM provider settings first`;
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Embedding model check failed';
+  }
+}
+
+/**
+ * Remove indexes that are neither active nor pending, with their embeddings
+ * (the previous migration's retired, cancelled and failed indexes)
+ */
+async function pruneInactiveIndexes(siteId: string, activeVersion: number): Promise<void> {
+  const { error: embeddingsError } = await supabaseAdmin
+    .from('embeddings')
+    .delete()
+    .eq('site_id', siteId)
+    .neq('index_version', activeVersion);
+
+  if (embeddingsError) {
+    throw new Error(`Failed to remove old index embeddings: ${embeddingsError.message}`);
+  }
+
+  const { error } = await supabaseAdmin
+    .from('embedding_indexes')
+    .delete()
+    .eq('site_id', siteId)
+    .in('status', ['retired', 'cancelled', 'failed']);
+
+  if (error) {
+    throw new Error(`Failed to remove old embedding indexes: ${error.message}`);
+  }
+}
+
+/**
+ * Start re-embedding the site with another model
+ */
+export async function startEmbeddingMigration(
+  siteId: string,
+  tenantId: string,
+  model: unknown,
+  requestedBy?: string
+): Promise<{ index?: EmbeddingIndex; error?: EmbeddingMigrationError }> {
+  const targetModel = typeof model === 'string' ? model.trim() : '';
+  if (!targetModel || targetModel.length > 200) {
+    return migrationError('INVALID_EMBEDDING_MODEL', 'model is required', 400);
+  }
+
+  const { data: pending } = await supabaseAdmin
+    .from('embedding_indexes')
+    .select('version')
+    .eq('site_id', siteId)
+    .in('status', ['building', 'ready'])
+    .maybeSingle();
+
+  if (pending) {
+    return migrationError(
+      'MIGRATION_IN_PROGRESS',
+      'An embedding model migration is already in progress; switch to it or cancel it first',
+      409
+    );
+  }
+
+  const active = await ensureActiveIndex(siteId, tenantId);
+  if (active.model === targetModel) {
+    return migrationError('SAME_EMBEDDING_MODEL', `The site already uses ${targetModel}`, 400);
+  }
+
+  const probeError = await probeEmbeddingModel(siteId, targetModel);
+  if (probeError) {
+    return migrationError('EMBEDDING_MODEL_UNAVAILABLE', probeError, 400);
+  }
+
+  await pruneInactiveIndexes(siteId, active.version);
+
+  const { data: latest } = await supabaseAdmin
+    .from('embedding_indexes')
+    .select('version')
+    .eq('site_id', siteId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data: created, error: createError } = await supabaseAdmin
+    .from('embedding_indexes')
+    .insert({
+      site_id: siteId,
+      tenant_id: tenantId,
+      version: (latest?.version || active.version) + 1,
+      model: targetModel,
+      status: 'building',
+      created_by: requestedBy || null,
+    })
+    .select(EMBEDDING_INDEX_COLUMNS)
+    .single();
+
+  if (createError || !created) {
+    // Unique index: another migration was started at the same time
+    if (createError?.code === '23505') {
+      return migrationError('MIGRATION_IN_PROGRESS', 'An embedding model migration is already in progress', 409);
+    }
+    throw new Error(`Failed to create embedding index: ${createError?.message || 'Unknown error'}`);
+  }
+
+  const index = created as EmbeddingIndex;
+  const job = await enqueueIngestionJob(
+    siteId,
+    'reindex',
+    { index_version: index.version, model: targetModel },
+    { requestedBy }
+  );
+
+  await supabaseAdmin
+    .from('embedding_indexes')
+    .update({ job_id: job.id, updated_at: new Date().toISOString() })
+    .eq('id', index.id);
+
+  kickIngestionWorker();
+
+  return { index: { ...index, job_id: job.id } };
+}
+
+/**
+ * Evaluation queries: the given ones, or the site's most recent distinct visitor messages
+ */
+async function getEvaluationQueries(siteId: string, queries: unknown): Promise<string[]> {
+  if (Array.isArray(queries)) {
+    return Array.from(
+      new Set(
+        queries
+          .filter((query): query is string => typeof query === 'string')
+          .map((query) => query.trim())
+          .filter((query) => query.length > 0)
+      )
+    ).slice(0, MAX_EVALUATION_QUERIES);
+  }
+
+  const { data } = await supabaseAdmin
+    .from('messages')
+    .select('content_text')
+    .eq('site_id', siteId)
+    .eq('role', 'user')
+    .order('created_at', { ascending: false })
+    .limit(RECENT_MESSAGES_SCAN);
+
+  const recent = new Map<string, string>();
+  for (const row of (data || []) as Array<{ content_text: string | null }>) {
+    const text = row.content_text?.trim();
+    if (!text || text.length < 3) continue;
+    const key = text.toLowerCase();
+    if (!recent.has(key)) {
+      recent.set(key, text);
+    }
+    if (recent.size >= DEFAULT_EVALUATION_QUERIES) break;
+  }
+
+  return Array.from(recent.values());
+}
+
+/**
+ * Run the RAG test harness against the active and the new index
+ * The result is stored on the new index; switching requires an evaluation
+ */
+export async function evaluateEmbeddingMigration(
+  siteId: string,
+  tenantId: string,
+  queries?: unknown
+): Promise<{ index?: EmbeddingIndex; error?: EmbeddingMigrationError }> {
+  const { active, pending } = await getEmbeddingMigrationStatus(siteId);
+
+  if (!active || !pending || pending.status !== 'ready') {
+    return migrationError('INDEX_NOT_READY', 'The new index is not built yet', 409);
+  }
+
+  const evaluationQueries = await getEvaluationQueries(siteId, queries);
+  if (evaluationQueries.length === 0) {
+    return migrationError(
+      'NO_EVALUATION_QUERIES',
+      'No visitor messages to evaluate with yet; enter test queries',
+      400
+    );
+  }
+
+  // Same retrieval settings as chat; reranking is left out so only the embeddings differ
+  const settings = await loadKnowledgeSettings(siteId);
+  const evaluation = await compareEmbeddingIndexes(
+    {
+      tenantId,
+      siteId,
+      topK: settings.top_k_results,
+      similarityThreshold: settings.similarity_threshold || 0.5,
+      allowedSourceTypes: getAllowedSourceTypes(settings),
+      maxContextTokens: settings.max_context_tokens || 4000,
+      maxChunksPerSource: settings.max_chunks_per_source || 3,
+      maxSources: settings.max_sources || 5,
+      retrievalMode: settings.retrieval_mode,
+      sourcePriority: settings.source_priority,
+      recencyBias: settings.recency_bias,
+    },
+    evaluationQueries,
+    { version: active.version, model: active.model, status: active.status },
+    { version: pending.version, model: pending.model, status: pending.status }
+  );
+
+  const { data, error } = await supabaseAdmin
+    .from('embedding_indexes')
+    .update({ evaluation: evaluation as any, updated_at: new Date().toISOString() })
+    .eq('id', pending.id)
+    .select(EMBEDDING_INDEX_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to store evaluation: ${error?.message || 'Unknown error'}`);
+  }
+
+  return { index: data as EmbeddingIndex };
+}
+
+async function activateIndex(siteId: string, version: number): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('activate_embedding_index', {
+    p_site_id: siteId,
+    p_version: version,
+  });
+
+  if (error) {
+    throw new Error(`Failed to switch embedding index: ${error.message}`);
+  }
+
+  clearActiveEmbeddingIndexCache(siteId);
+  return data === true;
+}
+
+/**
+ * Switch queries to the new index (the active one is retired and kept for rollback)
+ */
+export async function switchEmbeddingIndex(
+  siteId: string
+): Promise<{ index?: EmbeddingIndex; error?: EmbeddingMigrationError }> {
+  const { pending } = await getEmbeddingMigrationStatus(siteId);
+
+  if (!pending || pending.status !== 'ready') {
+    return migrationError('INDEX_NOT_READY', 'The new index is not built yet', 409);
+  }
+  if (!pending.evaluation) {
+    return migrationError('EVALUATION_REQUIRED', 'Compare the new index with the active one before switching', 409);
+  }
+
+  if (!(await activateIndex(siteId, pending.version))) {
+    return migrationError('INDEX_NOT_READY', 'The new index can no longer be activated', 409);
+  }
+
+  return { index: { ...pending, status: 'active' } };
+}
+
+/**
+ * Switch back to the index retired by the last switch
+ */
+export async function rollbackEmbeddingIndex(
+  siteId: string
+): Promise<{ index?: EmbeddingIndex; error?: EmbeddingMigrationError }> {
+  const { previous } = await getEmbeddingMigrationStatus(siteId);
+
+  if (!previous) {
+    return migrationError('NOTHING_TO_ROLL_BACK', 'There is no previous index to roll back to', 409);
+  }
+
+  if (!(await activateIndex(siteId, previous.version))) {
+    return migrationError('NOTHING_TO_ROLL_BACK', 'The previous index can no longer be activated', 409);
+  }
+
+  return { index: { ...previous, status: 'active' } };
+}
+
+/**
+ * Cancel a migration: the new index and its embeddings are removed, the active index is untouched
+ */
+export async function cancelEmbeddingMigration(
+  siteId: string
+): Promise<{ index?: EmbeddingIndex; error?: EmbeddingMigrationError }> {
+  const { pending } = await getEmbeddingMigrationStatus(siteId);
+
+  if (!pending) {
+    return migrationError('NO_MIGRATION', 'No embedding model migration is in progress', 409);
+  }
+
+  // Cancel first so the worker stops writing to the index (its job skips cancelled indexes)
+  const { error } = await supabaseAdmin
+    .from('embedding_indexes')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', pending.id)
+    .in('status', ['building', 'ready']);
+
+  if (error) {
+    throw new Error(`Failed to cancel embedding migration: ${error.message}`);
+  }
+
+  const { error: embeddingsError } = await supabaseAdmin
+    .from('embeddings')
+    .delete()
+    .eq('site_id', siteId)
+    .eq('index_version', pending.version);
+
+  if (embeddingsError) {
+    throw new Error(`Failed to remove new index embeddings: ${embeddingsError.message}`);
+  }
+
+  return { index: { ...pending, status: 'cancelled' } };
+}
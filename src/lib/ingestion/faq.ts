@@ -0,0 +1,111 @@
+/**
+ * FAQ knowledge source
+ *
+ * FAQs are question/answer pairs managed from the dashboard (faqs table).
+ * Changes are embedded through the ingestion queue as FAQ sync jobs;
+ * deleting an FAQ removes its embeddings right away.
+ */
+
+import { enqueueIngestionJob, type IngestionJob } from './queue';
+import { kickIngestionWorker } from './worker';
+import { parseCsvRecords } from '@/lib/utils/csv';
+
+export const MAX_FAQ_QUESTION_LENGTH = 1000;
+export const MAX_FAQ_ANSWER_LENGTH = 10000;
+export const MAX_FAQ_IMPORT_ROWS = 1000;
+
+export interface Faq {
+  id: string;
+  question: string;
+  answer: string;
+  category: string | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FaqInput {
+  question: string;
+  answer: string;
+  category?: string | null;
+}
+
+/**
+ * Validate and normalize FAQ fields
+ * Returns an error message for invalid input
+ */
+export function validateFaqInput(input: any): { faq?: FaqInput; error?: string } {
+  const question = typeof input?.question === 'string' ? input.question.trim() : '';
+  const answer = typeof input?.answer === 'string' ? input.answer.trim() : '';
+  const category = typeof input?.category === 'string' && input.category.trim() ? input.category.trim() : null;
+
+  if (!question) return { error: 'question is required' };
+  if (!answer) return { error: 'answer is required' };
+  if (question.length > MAX_FAQ_QUESTION_LENGTH) {
+    return { error: `question must be at most ${MAX_FAQ_QUESTION_LENGTH} characters` };
+  }
+  if (answer.length > MAX_FAQ_ANSWER_LENGTH) {
+    return { error: `answer must be at most ${MAX_FAQ_ANSWER_LENGTH} characters` };
+  }
+
+  return { faq: { question, answer, category } };
+}
+
+/**
+ * Parse an FAQ CSV import
+ * Columns: question, answer, category (optional). A header row naming the columns is
+ * detected and may list them in any order; without one, the order above is assumed.
+ */
+export function parseFaqCsv(csv: string): {
+  faqs: FaqInput[];
+  errors: Array<{ row: number; message: string }>;
+} {
+  const records = parseCsvRecords(csv);
+  const faqs: FaqInput[] = [];
+  const errors: Array<{ row: number; message: string }> = [];
+
+  let columns = { question: 0, answer: 1, category: 2 };
+  let firstDataRow = 0;
+
+  const header = records[0]?.map((value) => value.trim().toLowerCase());
+  if (header && header.includes('question') && header.includes('answer')) {
+    columns = {
+      question: header.indexOf('question'),
+      answer: header.indexOf('answer'),
+      category: header.indexOf('category'),
+    };
+    firstDataRow = 1;
+  }
+
+  for (let i = firstDataRow; i < records.length; i++) {
+    const record = records[i];
+    const { faq, error } = validateFaqInput({
+      question: record[columns.question],
+      answer: record[columns.answer],
+      category: columns.category >= 0 ? record[columns.category] : undefined,
+    });
+
+    if (faq) {
+      faqs.push(faq);
+    } else {
+      errors.push({ row: i + 1, message: error || 'Invalid row' });
+    }
+  }
+
+  return { faqs, errors };
+}
+
+/**
+ * Queue FAQs for embedding and start a worker
+ */
+export async function enqueueFaqIngestion(
+  siteId: string,
+  faqIds: string[],
+  requestedBy?: string
+): Promise<IngestionJob | null> {
+  if (faqIds.length === 0) return null;
+
+  const job = await enqueueIngestionJob(siteId, 'sync', { entity_type: 'faq', entity_ids: faqIds }, { requestedBy });
+  kickIngestionWorker();
+  return job;
+}
@@ -0,0 +1,277 @@
+/**
+ * Knowledge base browser
+ *
+ * Lists the entities indexed for a site (grouped from the chunks of its active
+ * embedding index), shows the chunks of one entity, and re-indexes, excludes or
+ * deletes a single entity. Excluded entities stay indexed but are skipped by
+ * retrieval (see @/lib/rag/exclusions); deleted entities come back when their
+ * source changes or the next full sync runs, unless they are excluded.
+ */
+
+import { randomUUID } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { getActiveEmbeddingIndex } from '@/lib/embeddings/indexes';
+import { countTokens } from '@/lib/embeddings/chunking';
+import { calculateCost } from '@/lib/usage-tracking';
+import { enqueueIngestionJob, type IngestionEntityType, type IngestionJob } from './queue';
+import { deleteEntityEmbeddings } from './service';
+import { kickIngestionWorker } from './worker';
+
+const supabaseAdmin = createAdminClient();
+
+export const KNOWLEDGE_ENTITY_TYPES = ['product', 'variation', 'page', 'policy', 'faq', 'document'] as const;
+
+export type KnowledgeEntityType = (typeof KNOWLEDGE_ENTITY_TYPES)[number];
+
+export const KNOWLEDGE_ENTITIES_PAGE_SIZE = 50;
+
+export interface KnowledgeEntity {
+  entity_type: KnowledgeEntityType;
+  entity_id: string;
+  title: string | null;
+  chunk_count: number;
+  last_indexed_at: string;
+  content_hash: string | null;
+  model: string | null;
+  estimated_tokens: number; // ~4 characters per token
+  estimated_cost: number; // USD to embed the entity once with its model
+  excluded: boolean;
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  chunk_index: number;
+  content_text: string;
+  tokens: number; // Counted with the embedding tokenizer
+  model: string;
+  version: number;
+  metadata: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+export function isKnowledgeEntityType(value: unknown): value is KnowledgeEntityType {
+  return typeof value === 'string' && (KNOWLEDGE_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Entities of the active index, newest first
+ * search matches titles, entity IDs and chunk text
+ */
+export async function listKnowledgeEntities(
+  siteId: string,
+  options: { entityType?: KnowledgeEntityType; search?: string; page?: number } = {}
+): Promise<{ entities: KnowledgeEntity[]; total: number; indexVersion: number }> {
+  const index = await getActiveEmbeddingIndex(siteId);
+  const page = Math.max(1, options.page || 1);
+
+  const { data, error } = await supabaseAdmin.rpc('list_knowledge_entities', {
+    p_site_id: siteId,
+    p_index_version: index.version,
+    p_entity_type: options.entityType || null,
+    p_search: options.search?.trim() || null,
+    p_limit: KNOWLEDGE_ENTITIES_PAGE_SIZE,
+    p_offset: (page - 1) * KNOWLEDGE_ENTITIES_PAGE_SIZE,
+  } as any);
+
+  if (error) {
+    throw new Error(`Failed to list knowledge entities: ${error.message}`);
+  }
+
+  const rows: any[] = data || [];
+
+  return {
+    entities: rows.map((row) => ({
+      entity_type: row.entity_type,
+      entity_id: row.entity_id,
+      title: row.title || null,
+      chunk_count: row.chunk_count,
+      last_indexed_at: row.last_indexed_at,
+      content_hash: row.content_hash || null,
+      model: row.model || null,
+      estimated_tokens: row.estimated_tokens || 0,
+      estimated_cost: row.model ? calculateCost(row.model, row.estimated_tokens || 0, 0) : 0,
+      excluded: row.excluded === true,
+    })),
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+    indexVersion: index.version,
+  };
+}
+
+/**
+ * Chunks of one entity in the active index, in chunk order
+ */
+export async function getKnowledgeEntityChunks(
+  siteId: string,
+  entityType: KnowledgeEntityType,
+  entityId: string
+): Promise<KnowledgeChunk[]> {
+  const index = await getActiveEmbeddingIndex(siteId);
+
+  const { data, error } = await supabaseAdmin
+    .from('embeddings')
+    .select('id, content_text, model, version, metadata, created_at, updated_at')
+    .eq('site_id', siteId)
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .eq('index_version', index.version);
+
+  if (error) {
+    throw new Error(`Failed to load chunks: ${error.message}`);
+  }
+
+  return ((data || []) as any[])
+    .map((row) => ({
+      id: row.id,
+      chunk_index: row.metadata?.chunk_index || 0,
+      content_text: row.content_text,
+      tokens: countTokens(row.content_text || ''),
+      model: row.model,
+      version: row.version,
+      metadata: row.metadata || {},
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    }))
+    .sort((a, b) => a.chunk_index - b.chunk_index);
+}
+
+/**
+ * Whether an entity is excluded (directly, or as a variation of an excluded product)
+ */
+export async function isKnowledgeEntityExcluded(
+  siteId: string,
+  entityType: KnowledgeEntityType,
+  entityId: string,
+  productId?: string | null
+): Promise<boolean> {
+  const refs = [`and(entity_type.eq.${entityType},entity_id.eq."${entityId}")`];
+  if (entityType === 'variation' && productId) {
+    refs.push(`and(entity_type.eq.product,entity_id.eq."${productId}")`);
+  }
+
+  const { data } = await supabaseAdmin
+    .from('knowledge_exclusions')
+    .select('id')
+    .eq('site_id', siteId)
+    .or(refs.join(','))
+    .limit(1);
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Exclude an entity from retrieval (idempotent)
+ */
+export async function excludeKnowledgeEntity(
+  siteId: string,
+  tenantId: string,
+  entityType: KnowledgeEntityType,
+  entityId: string,
+  userId?: string
+): Promise<void> {
+  const { error } = await supabaseAdmin.from('knowledge_exclusions').upsert(
+    {
+      site_id: siteId,
+      tenant_id: tenantId,
+      entity_type: entityType,
+      entity_id: entityId,
+      created_by: userId || null,
+    },
+    { onConflict: 'site_id,entity_type,entity_id', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new Error(`Failed to exclude entity: ${error.message}`);
+  }
+}
+
+/**
+ * Make an excluded entity retrievable again
+ */
+export async function includeKnowledgeEntity(
+  siteId: string,
+  entityType: KnowledgeEntityType,
+  entityId: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('knowledge_exclusions')
+    .delete()
+    .eq('site_id', siteId)
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId);
+
+  if (error) {
+    throw new Error(`Failed to include entity: ${error.message}`);
+  }
+}
+
+/**
+ * Queue a re-index of one entity from its source and start a worker
+ * Variations are re-indexed with their product (null when the variation is not
+ * indexed). Unchanged content keeps its chunks (content-hash deduplication).
+ */
+export async function reindexKnowledgeEntity(
+  siteId: string,
+  entityType: KnowledgeEntityType,
+  entityId: string,
+  requestedBy?: string
+): Promise<IngestionJob | null> {
+  let target: { type: IngestionEntityType; id: string };
+
+  if (entityType === 'variation') {
+    const { data: variation } = await supabaseAdmin
+      .from('embeddings')
+      .select('metadata')
+      .eq('site_id', siteId)
+      .eq('entity_type', 'variation')
+      .eq('entity_id', entityId)
+      .limit(1)
+      .maybeSingle();
+
+    const productId = (variation as any)?.metadata?.product_id;
+    if (!productId) {
+      return null;
+    }
+    target = { type: 'product', id: String(productId) };
+  } else {
+    target = { type: entityType, id: entityId };
+  }
+
+  const job = await enqueueIngestionJob(
+    siteId,
+    'webhook',
+    {
+      event_id: `dashboard-${randomUUID()}`,
+      event: `${target.type}.updated`,
+      entity_type: target.type,
+      entity_id: target.id,
+    },
+    { requestedBy }
+  );
+  kickIngestionWorker();
+  return job;
+}
+
+/**
+ * Delete the chunks of one entity from every index (a product's variations go with it)
+ * Returns false when the entity has no chunks
+ */
+export async function deleteKnowledgeEntity(
+  siteId: string,
+  entityType: KnowledgeEntityType,
+  entityId: string
+): Promise<boolean> {
+  const { count } = await supabaseAdmin
+    .from('embeddings')
+    .select('id', { count: 'exact', head: true })
+    .eq('site_id', siteId)
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId);
+
+  if (!count) {
+    return false;
+  }
+
+  await deleteEntityEmbeddings({ siteId }, entityType, entityId);
+  return true;
+}
@@ -0,0 +1,362 @@
+/**
+ * Ingestion job queue (Postgres-backed)
+ *
+ * Webhook events, manual syncs, index rebuilds (embedding model migrations) and
+ * visitor memory extraction are enqueued in ingestion_jobs and processed by workers (see worker.ts).
+ * Workers lease jobs through lease_ingestion_jobs();
+ * a lease that expires without completion makes the job runnable again.
+ * Failed jobs are retried with backoff until max_attempts, then dead-lettered
+ * and can be retried from the knowledge settings page.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import { getRetryDelay, INGESTION_JOB_RETRY_OPTIONS } from '@/lib/utils/retry';
+
+const supabaseAdmin = createAdminClient();
+
+export const JOB_LEASE_SECONDS = 120;
+const MAX_RECORDED_FAILURES = 100;
+
+export type IngestionJobType = 'webhook' | 'sync' | 'reindex' | 'visitor_memory';
+
+export type IngestionJobStatus = 'queued' | 'running' | 'completed' | 'dead_letter';
+
+export type IngestionEntityType = 'product' | 'page' | 'policy' | 'faq' | 'document';
+
+export interface WebhookJobPayload {
+  event_id: string;
+  event: string; // product.updated, page.deleted, ...
+  entity_type: IngestionEntityType;
+  entity_id: string;
+}
+
+export interface SyncJobPayload {
+  entity_type: 'product' | 'faq' | 'document';
+  mode?: 'full' | 'delta'; // Product syncs: whole catalog (default) or products changed since the checkpoint
+  entity_ids?: string[]; // Filled by the worker when the catalog is listed (FAQ/document jobs are enqueued with ids)
+  updated_after?: string | null; // Delta: checkpoint the changes were listed from (null = first sync)
+  modified_at?: Record<string, string>; // Listed product ID => modification time (next checkpoint)
+  deleted_ids?: string[]; // Delta: indexed products no longer published, deleted after entity_ids
+}
+
+export interface ReindexJobPayload {
+  index_version: number; // Embedding index being built (see embedding_indexes)
+  model: string;
+  entity_refs?: string[]; // "type:id" of every entity in the active index, filled on the first run
+}
+
+export interface VisitorMemoryJobPayload {
+  visitor_id: string; // visitors.id
+  conversation_id: string; // Conversation in progress (not extracted yet)
+}
+
+export interface IngestionJobFailure {
+  entity_id: string;
+  error: string;
+  at: string;
+}
+
+export interface IngestionJob {
+  id: string;
+  siteId: string;
+  jobType: IngestionJobType;
+  status: IngestionJobStatus;
+  payload: WebhookJobPayload | SyncJobPayload | ReindexJobPayload | VisitorMemoryJobPayload;
+  ingestionEventId: string | null;
+  totalItems: number;
+  processedItems: number;
+  failedItems: number;
+  failures: IngestionJobFailure[];
+  embeddingsCreated: number;
+  tokensUsed: number;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  leaseOwner: string | null;
+  lastError: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export function toIngestionJob(row: any): IngestionJob {
+  return {
+    id: row.id,
+    siteId: row.site_id,
+    jobType: row.job_type,
+    status: row.status,
+    payload: row.payload || {},
+    ingestionEventId: row.ingestion_event_id || null,
+    totalItems: row.total_items || 0,
+    processedItems: row.processed_items || 0,
+    failedItems: row.failed_items || 0,
+    failures: Array.isArray(row.failures) ? row.failures : [],
+    embeddingsCreated: row.embeddings_created || 0,
+    tokensUsed: row.tokens_used || 0,
+    attempts: row.attempts || 0,
+    maxAttempts: row.max_attempts || 0,
+    runAfter: row.run_after,
+    leaseOwner: row.lease_owner || null,
+    lastError: row.last_error || null,
+    startedAt: row.started_at || null,
+    completedAt: row.completed_at || null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Enqueue an ingestion job
+ */
+export async function enqueueIngestionJob(
+  siteId: string,
+  jobType: IngestionJobType,
+  payload: WebhookJobPayload | SyncJobPayload | ReindexJobPayload | VisitorMemoryJobPayload,
+  options: { ingestionEventId?: string; requestedBy?: string } = {}
+): Promise<IngestionJob> {
+  const totalItems =
+    jobType === 'webhook'
+      ? 1
+      : jobType === 'reindex'
+        ? (payload as ReindexJobPayload).entity_refs?.length || 0
+        : jobType === 'visitor_memory'
+          ? 0
+          : (payload as SyncJobPayload).entity_ids?.length || 0;
+
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .insert({
+      site_id: siteId,
+      job_type: jobType,
+      status: 'queued',
+      payload,
+      ingestion_event_id: options.ingestionEventId || null,
+      total_items: totalItems,
+      max_attempts: INGESTION_JOB_RETRY_OPTIONS.maxRetries,
+      requested_by: options.requestedBy || null,
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue ingestion job: ${error?.message || 'Unknown error'}`);
+  }
+
+  return toIngestionJob(data);
+}
+
+/**
+ * Lease runnable jobs for a worker
+ */
+export async function leaseIngestionJobs(workerId: string, limit: number = 1): Promise<IngestionJob[]> {
+  const { data, error } = await supabaseAdmin.rpc('lease_ingestion_jobs', {
+    p_worker_id: workerId,
+    p_limit: limit,
+    p_lease_seconds: JOB_LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to lease ingestion jobs: ${error.message}`);
+  }
+
+  return (data || []).map(toIngestionJob);
+}
+
+/**
+ * Save progress and extend the lease
+ * Returns false if the worker lost the lease (another worker took the job over)
+ */
+export async function updateJobProgress(
+  job: IngestionJob,
+  workerId: string,
+  updates: Partial<Pick<IngestionJob, 'payload' | 'totalItems' | 'processedItems' | 'failedItems' | 'failures' | 'embeddingsCreated' | 'tokensUsed'>>
+): Promise<boolean> {
+  const now = new Date();
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      ...(updates.payload !== undefined && { payload: updates.payload }),
+      ...(updates.totalItems !== undefined && { total_items: updates.totalItems }),
+      ...(updates.processedItems !== undefined && { processed_items: updates.processedItems }),
+      ...(updates.failedItems !== undefined && { failed_items: updates.failedItems }),
+      ...(updates.failures !== undefined && { failures: updates.failures.slice(-MAX_RECORDED_FAILURES) }),
+      ...(updates.embeddingsCreated !== undefined && { embeddings_created: updates.embeddingsCreated }),
+      ...(updates.tokensUsed !== undefined && { tokens_used: updates.tokensUsed }),
+      lease_expires_at: new Date(now.getTime() + JOB_LEASE_SECONDS * 1000).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId)
+    .eq('status', 'running')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to update ingestion job: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Mark a job completed
+ */
+export async function completeJob(job: IngestionJob, workerId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'completed',
+      lease_owner: null,
+      lease_expires_at: null,
+      last_error: null,
+      completed_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+}
+
+/**
+ * Put a job back in the queue without counting an attempt (worker ran out of time)
+ */
+export async function releaseJob(job: IngestionJob, workerId: string): Promise<void> {
+  const now = new Date().toISOString();
+  await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: 'queued',
+      lease_owner: null,
+      lease_expires_at: null,
+      run_after: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+}
+
+/**
+ * Record a failed attempt: retry with backoff, or dead-letter when attempts are exhausted
+ */
+export async function failJob(
+  job: IngestionJob,
+  workerId: string,
+  errorMessage: string
+): Promise<{ status: IngestionJobStatus; runAfter?: string }> {
+  const attempts = job.attempts + 1;
+  const now = new Date();
+  const deadLetter = attempts >= job.maxAttempts;
+  const runAfter = deadLetter
+    ? undefined
+    : new Date(now.getTime() + getRetryDelay(attempts - 1, INGESTION_JOB_RETRY_OPTIONS)).toISOString();
+
+  await supabaseAdmin
+    .from('ingestion_jobs')
+    .update({
+      status: deadLetter ? 'dead_letter' : 'queued',
+      attempts,
+      last_error: errorMessage.substring(0, 2000),
+      lease_owner: null,
+      lease_expires_at: null,
+      ...(runAfter && { run_after: runAfter }),
+      ...(deadLetter && { completed_at: now.toISOString() }),
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+
+  return { status: deadLetter ? 'dead_letter' : 'queued', runAfter };
+}
+
+/**
+ * Retry a job from the dashboard
+ * - dead-lettered jobs are re-queued with fresh attempts (sync jobs resume where they stopped)
+ * - completed sync jobs with failed items enqueue a new sync job for just those items
+ * Returns null when there is nothing to retry
+ */
+export async function retryIngestionJob(
+  siteId: string,
+  jobId: string,
+  requestedBy?: string
+): Promise<IngestionJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('site_id', siteId)
+    .eq('id', jobId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  const job = toIngestionJob(data);
+
+  if (job.status === 'dead_letter') {
+    const now = new Date().toISOString();
+    const { data: requeued, error: requeueError } = await supabaseAdmin
+      .from('ingestion_jobs')
+      .update({
+        status: 'queued',
+        attempts: 0,
+        run_after: now,
+        last_error: null,
+        completed_at: null,
+        requested_by: requestedBy || null,
+        updated_at: now,
+      })
+      .eq('id', job.id)
+      .eq('status', 'dead_letter')
+      .select()
+      .single();
+
+    if (requeueError || !requeued) {
+      throw new Error(`Failed to re-queue ingestion job: ${requeueError?.message || 'Unknown error'}`);
+    }
+
+    return toIngestionJob(requeued);
+  }
+
+  if (job.status === 'completed' && job.failures.length > 0) {
+    if (job.jobType === 'webhook') {
+      return enqueueIngestionJob(siteId, 'webhook', job.payload, {
+        ingestionEventId: job.ingestionEventId || undefined,
+        requestedBy,
+      });
+    }
+
+    // Index builds are finished (ready) by then; failed entities are picked up by their next sync
+    if (job.jobType === 'reindex') {
+      return null;
+    }
+
+    const entityIds = Array.from(new Set(job.failures.map((failure) => failure.entity_id)));
+    const entityType = (job.payload as SyncJobPayload).entity_type || 'product';
+    return enqueueIngestionJob(siteId, 'sync', { entity_type: entityType, entity_ids: entityIds }, { requestedBy });
+  }
+
+  return null;
+}
+
+/**
+ * Progress and ETA for the dashboard
+ * ETA is extrapolated from the processing rate since the job started
+ */
+export function getJobProgress(job: IngestionJob): {
+  percent: number;
+  eta_seconds: number | null;
+} {
+  if (job.status === 'completed') {
+    return { percent: 100, eta_seconds: null };
+  }
+  if (!job.totalItems) {
+    return { percent: 0, eta_seconds: null };
+  }
+
+  const percent = Math.min(100, Math.round((job.processedItems / job.totalItems) * 100));
+  if (job.status !== 'running' || !job.startedAt || job.processedItems === 0) {
+    return { percent, eta_seconds: null };
+  }
+
+  const elapsedSeconds = (Date.now() - new Date(job.startedAt).getTime()) / 1000;
+  const perItem = elapsedSeconds / job.processedItems;
+  return { percent, eta_seconds: Math.round(perItem * (job.totalItems - job.processedItems)) };
+}
@@ -3,7 +3,7 @@
  * 
  * Orchestrates the ingestion pipeline:
  * 1. Fetch content from WordPress
- * 2. Generate embeddings with OpenAI
+ * 2. Generate embeddings with the site's LLM provider
  * 3. Store in pgvector with chunking metadata
  * 
  * Hardened with retry logic, content-hash deduplication, and improved error handling
@@ -12,23 +12,36 @@
 import { createAdminClient } from '@/lib/supabase/server';
 import { WPAPIClient, ProductCard, SiteContext } from '@/lib/wordpress/client';
 import {
+  generateEmbedding,
   generateEmbeddingsWithChunking,
   buildProductText,
+  buildVariationText,
   buildPageText,
+  buildFaqText,
+  buildDocumentText,
   generateContentHash,
 } from '@/lib/embeddings/openai';
 import { logEmbeddingUsage } from '@/lib/embedding-usage';
+import { getLLMProvider } from '@/lib/llm';
+import { buildProductFacets, buildVariationFacets, type ProductFacets } from '@/lib/rag/filters';
+import type { LLMProvider } from '@/lib/llm';
 import { withRetry, WP_API_RETRY_OPTIONS } from '@/lib/utils/retry';
 import { createLogger, generateRequestId, logWPAPIFailure } from '@/lib/utils/logger';
 import type { ChunkMetadata } from '@/lib/embeddings/openai';
+import { loadKnowledgeSettings, getChunkingStrategy } from '@/lib/chat/knowledge-settings';
+import { getActiveEmbeddingIndex, type EmbeddingIndexTarget } from '@/lib/embeddings/indexes';
+import { downloadDocumentFile, extractDocumentText, type DocumentFileType } from './document-files';
 
 const supabaseAdmin = createAdminClient();
 
+const CHUNK_OVERLAP = 200;
+
 export interface IngestionContext {
   siteId: string;
   tenantId: string;
   siteUrl: string;
   siteSecret: string;
+  index?: EmbeddingIndexTarget; // Embedding index to write, default: the site's active index
 }
 
 export interface IngestionResult {
@@ -38,6 +51,202 @@ export interface IngestionResult {
   error?: string;
 }
 
+/**
+ * Embedding index an ingestion run writes to (the worker sets it per index)
+ */
+async function resolveIngestionIndex(context: IngestionContext): Promise<EmbeddingIndexTarget> {
+  return context.index || (await getActiveEmbeddingIndex(context.siteId));
+}
+
+/**
+ * Update facets on all stored chunks of a product
+ * Price, stock and attributes can change without changing the chunks
+ */
+async function refreshProductFacets(
+  siteId: string,
+  productId: string,
+  facets: ProductFacets,
+  logger: ReturnType<typeof createLogger>
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('set_embedding_facets', {
+    p_site_id: siteId,
+    p_entity_id: productId,
+    p_facets: facets,
+  } as any);
+
+  if (error) {
+    // Non-fatal: retrieval treats chunks without current facets as unfiltered
+    logger.warn('Failed to refresh product facets', { error: error.message });
+  }
+}
+
+/**
+ * Delete chunks of an entity that are not part of its current chunking
+ * (content changed, or the chunking strategy / chunk size was changed)
+ */
+async function removeStaleChunks(
+  siteId: string,
+  entityType: 'product' | 'variation' | 'page' | 'faq' | 'document',
+  entityId: string,
+  chunkHashes: string[],
+  indexVersion: number,
+  logger: ReturnType<typeof createLogger>
+): Promise<void> {
+  if (chunkHashes.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('embeddings')
+    .delete()
+    .eq('site_id', siteId)
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .eq('index_version', indexVersion)
+    .not('metadata->>chunk_hash', 'in', `(${chunkHashes.join(',')})`);
+
+  if (error) {
+    // Non-fatal: stale chunks are replaced on the next ingestion
+    logger.warn('Failed to remove stale chunks', { error: error.message });
+  }
+}
+
+/**
+ * Embed the variations of a variable product (entity_type 'variation', one chunk each)
+ * Unchanged variations only get their facets (price, stock) refreshed; variations
+ * that no longer exist on the product are removed
+ */
+async function ingestProductVariations(
+  context: IngestionContext,
+  product: ProductCard,
+  productFacets: ProductFacets,
+  provider: LLMProvider,
+  requestId: string,
+  logger: ReturnType<typeof createLogger>
+): Promise<{ embeddingsCreated: number; tokensUsed: number; model?: string }> {
+  const productId = String(product.id);
+  const variations = product.variations || [];
+  const index = await resolveIngestionIndex(context);
+
+  const { data: existingRows } = await supabaseAdmin
+    .from('embeddings')
+    .select('id, entity_id, version, metadata')
+    .eq('site_id', context.siteId)
+    .eq('entity_type', 'variation')
+    .eq('index_version', index.version)
+    .eq('metadata->>product_id', productId);
+
+  const existingByVariation = new Map<string, Array<{ id: string; version: number; metadata: any }>>();
+  for (const row of (existingRows || []) as Array<{ id: string; entity_id: string; version: number; metadata: any }>) {
+    if (!existingByVariation.has(row.entity_id)) {
+      existingByVariation.set(row.entity_id, []);
+    }
+    existingByVariation.get(row.entity_id)!.push(row);
+  }
+
+  let embeddingsCreated = 0;
+  let tokensUsed = 0;
+  let model: string | undefined;
+
+  for (const variation of variations) {
+    const variationId = String(variation.id);
+    const text = buildVariationText(product, variation);
+    const contentHash = generateContentHash(text);
+    const facets = buildVariationFacets(productFacets, variation);
+    const existing = existingByVariation.get(variationId) || [];
+    const current = existing.find((row) => row.metadata?.full_content_hash === contentHash);
+
+    if (current) {
+      // Price and stock live in facets; update them without re-embedding
+      if (JSON.stringify(current.metadata?.facets) !== JSON.stringify(facets)) {
+        await supabaseAdmin
+          .from('embeddings')
+          .update({ metadata: { ...current.metadata, facets } as any })
+          .eq('id', current.id);
+      }
+      continue;
+    }
+
+    const result = await generateEmbedding(text, index.model || undefined, requestId, provider);
+
+    // Row versions are unique across indexes, so look past this index's rows
+    const { data: latest } = await supabaseAdmin
+      .from('embeddings')
+      .select('version')
+      .eq('site_id', context.siteId)
+      .eq('entity_type', 'variation')
+      .eq('entity_id', variationId)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const nextVersion = latest ? latest.version + 1 : 1;
+
+    const { error: insertError } = await supabaseAdmin
+      .from('embeddings')
+      .insert({
+        site_id: context.siteId,
+        tenant_id: context.tenantId,
+        entity_type: 'variation',
+        entity_id: variationId,
+        content_text: text,
+        embedding: result.embedding,
+        model: result.model,
+        version: nextVersion,
+        index_version: index.version,
+        metadata: {
+          chunk_index: 0,
+          chunk_hash: contentHash,
+          start_char: 0,
+          end_char: text.length,
+          product_id: product.id,
+          variation_id: variation.id,
+          product_title: product.title,
+          product_url: variation.url || product.url,
+          sku: variation.sku || product.sku,
+          variation_attributes: variation.attributes,
+          full_content_hash: contentHash,
+          facets,
+        } as any,
+      });
+
+    if (insertError) {
+      throw new Error(`Failed to store variation embedding: ${insertError.message}`);
+    }
+
+    await removeStaleChunks(context.siteId, 'variation', variationId, [contentHash], index.version, logger);
+
+    embeddingsCreated++;
+    tokensUsed += result.tokens;
+    model = result.model;
+  }
+
+  // Variations removed from the product (or the product is no longer variable)
+  const currentIds = new Set(variations.map((variation) => String(variation.id)));
+  const removedIds = Array.from(existingByVariation.keys()).filter((id) => !currentIds.has(id));
+  if (removedIds.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('embeddings')
+      .delete()
+      .eq('site_id', context.siteId)
+      .eq('entity_type', 'variation')
+      .eq('index_version', index.version)
+      .in('entity_id', removedIds);
+
+    if (error) {
+      logger.warn('Failed to remove deleted variations', { error: error.message });
+    }
+  }
+
+  if (variations.length > 0 || removedIds.length > 0) {
+    logger.info('Product variations ingested', {
+      variations: variations.length,
+      embeddings_created: embeddingsCreated,
+      variations_removed: removedIds.length,
+    });
+  }
+
+  return { embeddingsCreated, tokensUsed, model };
+}
+
 /**
  * Ingest a single product
  */
@@ -67,8 +276,13 @@ export async function ingestProduct(
     secret: context.siteSecret,
     restBaseUrl: siteData?.rest_base_url || undefined,
   });
+  const index = await resolveIngestionIndex(context);
+
+  let provider: LLMProvider | undefined;
 
   try {
+    provider = await getLLMProvider(context.siteId);
+
     // Fetch product data with retry
     const product = await withRetry(
       async () => {
@@ -86,6 +300,11 @@ export async function ingestProduct(
     // Build text content
     const text = buildProductText(product);
     const fullContentHash = generateContentHash(text);
+    const facets = buildProductFacets(product);
+
+    const knowledgeSettings = await loadKnowledgeSettings(context.siteId);
+    const chunkingStrategy = getChunkingStrategy(knowledgeSettings, 'product');
+    const chunkSize = knowledgeSettings.chunk_size;
 
     // Check for existing embeddings with same content hash (deduplication)
     const { data: existingEmbeddings } = await supabaseAdmin
@@ -94,7 +313,10 @@ export async function ingestProduct(
       .eq('site_id', context.siteId)
       .eq('entity_type', 'product')
       .eq('entity_id', productId)
+      .eq('index_version', index.version)
       .eq('metadata->>full_content_hash', fullContentHash)
+      .eq('metadata->>chunking_strategy', chunkingStrategy)
+      .eq('metadata->>chunk_size', String(chunkSize))
       .limit(1);
 
     if (existingEmbeddings && existingEmbeddings.length > 0) {
@@ -102,10 +324,27 @@ export async function ingestProduct(
         product_id: productId,
         content_hash: fullContentHash,
       });
+      await refreshProductFacets(context.siteId, productId, facets, logger);
+
+      // Variation price/stock can change while the product text stays the same
+      const variationResult = await ingestProductVariations(context, product, facets, provider, requestId, logger);
+      if (variationResult.tokensUsed > 0) {
+        await logEmbeddingUsage({
+          site_id: context.siteId,
+          tenant_id: context.tenantId,
+          model: variationResult.model || provider.embeddingModel,
+          prompt_tokens: variationResult.tokensUsed,
+          completion_tokens: 0,
+          total_tokens: variationResult.tokensUsed,
+          latency_ms: 0,
+          success: true,
+        });
+      }
+
       return {
         success: true,
-        embeddingsCreated: 0,
-        tokensUsed: 0,
+        embeddingsCreated: variationResult.embeddingsCreated,
+        tokensUsed: variationResult.tokensUsed,
       };
     }
 
@@ -115,7 +354,8 @@ export async function ingestProduct(
       .select('metadata->>chunk_hash')
       .eq('site_id', context.siteId)
       .eq('entity_type', 'product')
-      .eq('entity_id', productId);
+      .eq('entity_id', productId)
+      .eq('index_version', index.version);
 
     const existingHashes = new Set<string>();
     if (existingChunks) {
@@ -126,8 +366,16 @@ export async function ingestProduct(
     }
 
     // Generate embeddings with chunking and batching
-    const { embeddings, totalTokens, model, skipped } =
-      await generateEmbeddingsWithChunking(text, 'text-embedding-3-small', 1000, 200, requestId, existingHashes);
+    const { embeddings, totalTokens, model, skipped, chunkHashes } = await generateEmbeddingsWithChunking(
+      text,
+      index.model || undefined,
+      chunkSize,
+      CHUNK_OVERLAP,
+      requestId,
+      existingHashes,
+      provider,
+      chunkingStrategy
+    );
 
     // Store embeddings in database
     let embeddingsCreated = 0;
@@ -159,15 +407,21 @@ export async function ingestProduct(
           embedding: embedding, // pgvector accepts array directly
           model,
           version: nextVersion,
+          index_version: index.version,
           metadata: {
             chunk_index: chunkMetadata.chunk_index,
             chunk_hash: chunkMetadata.chunk_hash,
             start_char: chunkMetadata.start_char,
             end_char: chunkMetadata.end_char,
+            section_heading: chunkMetadata.section_heading,
+            chunking_strategy: chunkingStrategy,
+            chunk_size: chunkSize,
             product_id: product.id,
             product_title: product.title,
             product_url: product.url,
+            sku: product.sku,
             full_content_hash: fullContentHash, // Use full content hash for deduplication
+            facets, // Structured facets for filtered retrieval
           } as any,
         });
 
@@ -179,10 +433,22 @@ export async function ingestProduct(
       embeddingsCreated++;
     }
 
+    await removeStaleChunks(context.siteId, 'product', productId, chunkHashes, index.version, logger);
+
+    // Chunks skipped by hash deduplication keep their rows; bring their facets up to date
+    if (skipped > 0) {
+      await refreshProductFacets(context.siteId, productId, facets, logger);
+    }
+
+    const variationResult = await ingestProductVariations(context, product, facets, provider, requestId, logger);
+    embeddingsCreated += variationResult.embeddingsCreated;
+    const tokensUsed = totalTokens + variationResult.tokensUsed;
+
     logger.info('Product ingestion completed', {
       embeddings_created: embeddingsCreated,
-      tokens_used: totalTokens,
+      tokens_used: tokensUsed,
       chunks_skipped: skipped,
+      chunking_strategy: chunkingStrategy,
     });
 
     // Log embedding usage
@@ -190,9 +456,9 @@ export async function ingestProduct(
       site_id: context.siteId,
       tenant_id: context.tenantId,
       model,
-      prompt_tokens: totalTokens,
+      prompt_tokens: tokensUsed,
       completion_tokens: 0,
-      total_tokens: totalTokens,
+      total_tokens: tokensUsed,
       latency_ms: 0, // Will be calculated by the logging function
       success: true,
     });
@@ -200,7 +466,7 @@ export async function ingestProduct(
     return {
       success: true,
       embeddingsCreated,
-      tokensUsed: totalTokens,
+      tokensUsed,
     };
   } catch (error) {
     logger.error('Product ingestion failed', error instanceof Error ? error : new Error('Unknown error'));
@@ -209,7 +475,7 @@ export async function ingestProduct(
     await logEmbeddingUsage({
       site_id: context.siteId,
       tenant_id: context.tenantId,
-      model: 'text-embedding-3-small',
+      model: provider?.embeddingModel || 'unknown',
       prompt_tokens: 0,
       completion_tokens: 0,
       total_tokens: 0,
@@ -256,8 +522,13 @@ export async function ingestPage(
     secret: context.siteSecret,
     restBaseUrl: siteData?.rest_base_url || undefined,
   });
+  const index = await resolveIngestionIndex(context);
+
+  let provider: LLMProvider | undefined;
 
   try {
+    provider = await getLLMProvider(context.siteId);
+
     // Fetch page data with retry
     const page = await withRetry(
       async () => {
@@ -276,6 +547,10 @@ export async function ingestPage(
     const text = buildPageText(page);
     const fullContentHash = generateContentHash(text);
 
+    const knowledgeSettings = await loadKnowledgeSettings(context.siteId);
+    const chunkingStrategy = getChunkingStrategy(knowledgeSettings, page.type === 'policy' ? 'policy' : 'page');
+    const chunkSize = knowledgeSettings.chunk_size;
+
     // Check for existing embeddings with same content hash (deduplication)
     const { data: existingEmbeddings } = await supabaseAdmin
       .from('embeddings')
@@ -283,7 +558,10 @@ export async function ingestPage(
       .eq('site_id', context.siteId)
       .eq('entity_type', 'page')
       .eq('entity_id', pageId)
+      .eq('index_version', index.version)
       .eq('metadata->>full_content_hash', fullContentHash)
+      .eq('metadata->>chunking_strategy', chunkingStrategy)
+      .eq('metadata->>chunk_size', String(chunkSize))
       .limit(1);
 
     if (existingEmbeddings && existingEmbeddings.length > 0) {
@@ -304,7 +582,8 @@ export async function ingestPage(
       .select('metadata->>chunk_hash')
       .eq('site_id', context.siteId)
       .eq('entity_type', 'page')
-      .eq('entity_id', pageId);
+      .eq('entity_id', pageId)
+      .eq('index_version', index.version);
 
     const existingHashes = new Set<string>();
     if (existingChunks) {
@@ -315,8 +594,16 @@ export async function ingestPage(
     }
 
     // Generate embeddings with chunking and batching
-    const { embeddings, totalTokens, model, skipped } =
-      await generateEmbeddingsWithChunking(text, 'text-embedding-3-small', 1000, 200, requestId, existingHashes);
+    const { embeddings, totalTokens, model, skipped, chunkHashes } = await generateEmbeddingsWithChunking(
+      text,
+      index.model || undefined,
+      chunkSize,
+      CHUNK_OVERLAP,
+      requestId,
+      existingHashes,
+      provider,
+      chunkingStrategy
+    );
 
     // Store embeddings in database
     let embeddingsCreated = 0;
@@ -348,11 +635,15 @@ export async function ingestPage(
           embedding: embedding, // pgvector accepts array directly
           model,
           version: nextVersion,
+          index_version: index.version,
           metadata: {
             chunk_index: chunkMetadata.chunk_index,
             chunk_hash: chunkMetadata.chunk_hash,
             start_char: chunkMetadata.start_char,
             end_char: chunkMetadata.end_char,
+            section_heading: chunkMetadata.section_heading,
+            chunking_strategy: chunkingStrategy,
+            chunk_size: chunkSize,
             page_id: page.id,
             page_title: page.title,
             page_url: page.url,
@@ -369,10 +660,13 @@ export async function ingestPage(
       embeddingsCreated++;
     }
 
+    await removeStaleChunks(context.siteId, 'page', pageId, chunkHashes, index.version, logger);
+
     logger.info('Page ingestion completed', {
       embeddings_created: embeddingsCreated,
       tokens_used: totalTokens,
       chunks_skipped: skipped,
+      chunking_strategy: chunkingStrategy,
     });
 
     // Log embedding usage
@@ -399,7 +693,7 @@ export async function ingestPage(
     await logEmbeddingUsage({
       site_id: context.siteId,
       tenant_id: context.tenantId,
-      model: 'text-embedding-3-small',
+      model: provider?.embeddingModel || 'unknown',
       prompt_tokens: 0,
       completion_tokens: 0,
       total_tokens: 0,
@@ -418,11 +712,467 @@ export async function ingestPage(
 }
 
 /**
- * Delete embeddings for an entity
+ * Ingest an FAQ (question/answer pair from the faqs table)
+ * Missing or disabled FAQs have their embeddings removed
  */
-export async function deleteEntityEmbeddings(
+export async function ingestFaq(
   context: IngestionContext,
-  entityType: 'product' | 'page' | 'policy',
+  faqId: string
+): Promise<IngestionResult> {
+  const requestId = generateRequestId();
+  const logger = createLogger({
+    request_id: requestId,
+    site_id: context.siteId,
+    tenant_id: context.tenantId,
+    entity_type: 'faq',
+    entity_id: faqId,
+  });
+  const index = await resolveIngestionIndex(context);
+
+  let provider: LLMProvider | undefined;
+
+  try {
+    const { data: faq, error: faqError } = await supabaseAdmin
+      .from('faqs')
+      .select('id, question, answer, category, enabled, updated_at')
+      .eq('site_id', context.siteId)
+      .eq('id', faqId)
+      .maybeSingle();
+
+    if (faqError) {
+      throw new Error(`Failed to load FAQ: ${faqError.message}`);
+    }
+
+    if (!faq || !faq.enabled) {
+      await deleteEntityEmbeddings(context, 'faq', faqId);
+      logger.info('FAQ removed from knowledge base', { reason: faq ? 'disabled' : 'deleted' });
+      return {
+        success: true,
+        embeddingsCreated: 0,
+        tokensUsed: 0,
+      };
+    }
+
+    provider = await getLLMProvider(context.siteId);
+
+    // Build text content
+    const text = buildFaqText(faq);
+    const fullContentHash = generateContentHash(text);
+
+    const knowledgeSettings = await loadKnowledgeSettings(context.siteId);
+    const chunkingStrategy = getChunkingStrategy(knowledgeSettings, 'faq');
+    const chunkSize = knowledgeSettings.chunk_size;
+
+    // Check for existing embeddings with same content hash (deduplication)
+    const { data: existingEmbeddings } = await supabaseAdmin
+      .from('embeddings')
+      .select('metadata')
+      .eq('site_id', context.siteId)
+      .eq('entity_type', 'faq')
+      .eq('entity_id', faqId)
+      .eq('index_version', index.version)
+      .eq('metadata->>full_content_hash', fullContentHash)
+      .eq('metadata->>chunking_strategy', chunkingStrategy)
+      .eq('metadata->>chunk_size', String(chunkSize))
+      .limit(1);
+
+    if (existingEmbeddings && existingEmbeddings.length > 0) {
+      logger.info('Skipping ingestion - content unchanged', {
+        faq_id: faqId,
+        content_hash: fullContentHash,
+      });
+      return {
+        success: true,
+        embeddingsCreated: 0,
+        tokensUsed: 0,
+      };
+    }
+
+    // Get existing chunk hashes for deduplication
+    const { data: existingChunks } = await supabaseAdmin
+      .from('embeddings')
+      .select('metadata->>chunk_hash')
+      .eq('site_id', context.siteId)
+      .eq('entity_type', 'faq')
+      .eq('entity_id', faqId)
+      .eq('index_version', index.version);
+
+    const existingHashes = new Set<string>();
+    if (existingChunks) {
+      for (const chunk of existingChunks) {
+        const hash = chunk['chunk_hash'];
+        if (hash) existingHashes.add(hash);
+      }
+    }
+
+    // Generate embeddings with chunking and batching
+    const { embeddings, totalTokens, model, skipped, chunkHashes } = await generateEmbeddingsWithChunking(
+      text,
+      index.model || undefined,
+      chunkSize,
+      CHUNK_OVERLAP,
+      requestId,
+      existingHashes,
+      provider,
+      chunkingStrategy
+    );
+
+    // Store embeddings in database
+    let embeddingsCreated = 0;
+
+    for (const { embedding, chunkMetadata } of embeddings) {
+      // Get current version for this entity
+      const { data: existing } = await supabaseAdmin
+        .from('embeddings')
+        .select('version')
+        .eq('site_id', context.siteId)
+        .eq('entity_type', 'faq')
+        .eq('entity_id', faqId)
+        .order('version', { ascending: false })
+        .limit(1)
+        .single();
+
+      const nextVersion = existing ? existing.version + 1 : 1;
+
+      const { error: insertError } = await supabaseAdmin
+        .from('embeddings')
+        .insert({
+          site_id: context.siteId,
+          tenant_id: context.tenantId,
+          entity_type: 'faq',
+          entity_id: faqId,
+          content_text: chunkMetadata.chunk_text,
+          embedding: embedding, // pgvector accepts array directly
+          model,
+          version: nextVersion,
+          index_version: index.version,
+          metadata: {
+            chunk_index: chunkMetadata.chunk_index,
+            chunk_hash: chunkMetadata.chunk_hash,
+            start_char: chunkMetadata.start_char,
+            end_char: chunkMetadata.end_char,
+            chunking_strategy: chunkingStrategy,
+            chunk_size: chunkSize,
+            faq_id: faq.id,
+            title: faq.question, // Used as the citation title
+            category: faq.category || undefined,
+            source_updated_at: faq.updated_at,
+            full_content_hash: fullContentHash, // Use full content hash for deduplication
+          } as any,
+        });
+
+      if (insertError) {
+        console.error('Error storing embedding:', insertError);
+        throw new Error(`Failed to store embedding: ${insertError.message}`);
+      }
+
+      embeddingsCreated++;
+    }
+
+    await removeStaleChunks(context.siteId, 'faq', faqId, chunkHashes, index.version, logger);
+
+    logger.info('FAQ ingestion completed', {
+      embeddings_created: embeddingsCreated,
+      tokens_used: totalTokens,
+      chunks_skipped: skipped,
+      chunking_strategy: chunkingStrategy,
+    });
+
+    // Log embedding usage
+    await logEmbeddingUsage({
+      site_id: context.siteId,
+      tenant_id: context.tenantId,
+      model,
+      prompt_tokens: totalTokens,
+      completion_tokens: 0,
+      total_tokens: totalTokens,
+      latency_ms: 0,
+      success: true,
+    });
+
+    return {
+      success: true,
+      embeddingsCreated,
+      tokensUsed: totalTokens,
+    };
+  } catch (error) {
+    logger.error('FAQ ingestion failed', error instanceof Error ? error : new Error('Unknown error'));
+
+    // Log failed embedding usage
+    await logEmbeddingUsage({
+      site_id: context.siteId,
+      tenant_id: context.tenantId,
+      model: provider?.embeddingModel || 'unknown',
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      latency_ms: 0,
+      success: false,
+      error_code: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+    });
+
+    return {
+      success: false,
+      embeddingsCreated: 0,
+      tokensUsed: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Ingest a single uploaded document
+ * Downloads the current file version, extracts its text and tracks indexing status on the document
+ */
+export async function ingestDocument(
+  context: IngestionContext,
+  documentId: string
+): Promise<IngestionResult> {
+  const requestId = generateRequestId();
+  const logger = createLogger({
+    request_id: requestId,
+    site_id: context.siteId,
+    tenant_id: context.tenantId,
+    entity_type: 'document',
+    entity_id: documentId,
+  });
+  const index = await resolveIngestionIndex(context);
+
+  let provider: LLMProvider | undefined;
+
+  // Document status reflects the active index; shadow index builds leave it alone
+  const updateDocumentStatus = async (fields: Record<string, unknown>) => {
+    if (index.status !== 'active') return;
+
+    const { error } = await supabaseAdmin
+      .from('knowledge_documents')
+      .update(fields as any)
+      .eq('site_id', context.siteId)
+      .eq('id', documentId);
+
+    if (error) {
+      logger.warn('Failed to update document status', { error: error.message });
+    }
+  };
+
+  try {
+    const { data: document, error: documentError } = await supabaseAdmin
+      .from('knowledge_documents')
+      .select('id, title, file_name, file_type, storage_path, file_hash, version, updated_at')
+      .eq('site_id', context.siteId)
+      .eq('id', documentId)
+      .maybeSingle();
+
+    if (documentError) {
+      throw new Error(`Failed to load document: ${documentError.message}`);
+    }
+
+    if (!document) {
+      await deleteEntityEmbeddings(context, 'document', documentId);
+      logger.info('Document removed from knowledge base', { reason: 'deleted' });
+      return {
+        success: true,
+        embeddingsCreated: 0,
+        tokensUsed: 0,
+      };
+    }
+
+    const knowledgeSettings = await loadKnowledgeSettings(context.siteId);
+    const chunkingStrategy = getChunkingStrategy(knowledgeSettings, 'document');
+    const chunkSize = knowledgeSettings.chunk_size;
+
+    // Same file version already embedded with the current chunking (skip download and extraction)
+    const { data: existingEmbeddings } = await supabaseAdmin
+      .from('embeddings')
+      .select('metadata')
+      .eq('site_id', context.siteId)
+      .eq('entity_type', 'document')
+      .eq('entity_id', documentId)
+      .eq('index_version', index.version)
+      .eq('metadata->>file_hash', document.file_hash)
+      .eq('metadata->>document_version', String(document.version))
+      .eq('metadata->>chunking_strategy', chunkingStrategy)
+      .eq('metadata->>chunk_size', String(chunkSize))
+      .limit(1);
+
+    if (existingEmbeddings && existingEmbeddings.length > 0) {
+      logger.info('Skipping ingestion - document unchanged', {
+        document_id: documentId,
+        version: document.version,
+      });
+      await updateDocumentStatus({ status: 'indexed', error_message: null });
+      return {
+        success: true,
+        embeddingsCreated: 0,
+        tokensUsed: 0,
+      };
+    }
+
+    await updateDocumentStatus({ status: 'processing', error_message: null });
+
+    provider = await getLLMProvider(context.siteId);
+
+    // Download and extract text
+    const file = await downloadDocumentFile(document.storage_path);
+    const extractedText = await extractDocumentText(file, document.file_type as DocumentFileType);
+    const text = buildDocumentText({ title: document.title, text: extractedText });
+    const fullContentHash = generateContentHash(text);
+
+    // Get existing chunk hashes for deduplication
+    const { data: existingChunks } = await supabaseAdmin
+      .from('embeddings')
+      .select('metadata->>chunk_hash')
+      .eq('site_id', context.siteId)
+      .eq('entity_type', 'document')
+      .eq('entity_id', documentId)
+      .eq('index_version', index.version);
+
+    const existingHashes = new Set<string>();
+    if (existingChunks) {
+      for (const chunk of existingChunks) {
+        const hash = chunk['chunk_hash'];
+        if (hash) existingHashes.add(hash);
+      }
+    }
+
+    // Generate embeddings with chunking and batching
+    const { embeddings, totalTokens, model, skipped, chunkHashes } = await generateEmbeddingsWithChunking(
+      text,
+      index.model || undefined,
+      chunkSize,
+      CHUNK_OVERLAP,
+      requestId,
+      existingHashes,
+      provider,
+      chunkingStrategy
+    );
+
+    // Store embeddings in database
+    let embeddingsCreated = 0;
+
+    for (const { embedding, chunkMetadata } of embeddings) {
+      // Get current version for this entity
+      const { data: existing } = await supabaseAdmin
+        .from('embeddings')
+        .select('version')
+        .eq('site_id', context.siteId)
+        .eq('entity_type', 'document')
+        .eq('entity_id', documentId)
+        .order('version', { ascending: false })
+        .limit(1)
+        .single();
+
+      const nextVersion = existing ? existing.version + 1 : 1;
+
+      const { error: insertError } = await supabaseAdmin
+        .from('embeddings')
+        .insert({
+          site_id: context.siteId,
+          tenant_id: context.tenantId,
+          entity_type: 'document',
+          entity_id: documentId,
+          content_text: chunkMetadata.chunk_text,
+          embedding: embedding, // pgvector accepts array directly
+          model,
+          version: nextVersion,
+          index_version: index.version,
+          metadata: {
+            chunk_index: chunkMetadata.chunk_index,
+            chunk_hash: chunkMetadata.chunk_hash,
+            start_char: chunkMetadata.start_char,
+            end_char: chunkMetadata.end_char,
+            section_heading: chunkMetadata.section_heading,
+            chunking_strategy: chunkingStrategy,
+            chunk_size: chunkSize,
+            document_id: document.id,
+            document_version: String(document.version),
+            title: document.title, // Used as the citation title
+            file_name: document.file_name,
+            file_type: document.file_type,
+            file_hash: document.file_hash,
+            source_updated_at: document.updated_at,
+            full_content_hash: fullContentHash,
+          } as any,
+        });
+
+      if (insertError) {
+        console.error('Error storing embedding:', insertError);
+        throw new Error(`Failed to store embedding: ${insertError.message}`);
+      }
+
+      embeddingsCreated++;
+    }
+
+    await removeStaleChunks(context.siteId, 'document', documentId, chunkHashes, index.version, logger);
+
+    await updateDocumentStatus({
+      status: 'indexed',
+      error_message: null,
+      extracted_chars: extractedText.length,
+      indexed_at: new Date().toISOString(),
+    });
+
+    logger.info('Document ingestion completed', {
+      embeddings_created: embeddingsCreated,
+      tokens_used: totalTokens,
+      chunks_skipped: skipped,
+      chunking_strategy: chunkingStrategy,
+      version: document.version,
+    });
+
+    // Log embedding usage
+    await logEmbeddingUsage({
+      site_id: context.siteId,
+      tenant_id: context.tenantId,
+      model,
+      prompt_tokens: totalTokens,
+      completion_tokens: 0,
+      total_tokens: totalTokens,
+      latency_ms: 0,
+      success: true,
+    });
+
+    return {
+      success: true,
+      embeddingsCreated,
+      tokensUsed: totalTokens,
+    };
+  } catch (error) {
+    logger.error('Document ingestion failed', error instanceof Error ? error : new Error('Unknown error'));
+
+    await updateDocumentStatus({
+      status: 'failed',
+      error_message: error instanceof Error ? error.message : 'Unknown error',
+    });
+
+    // Log failed embedding usage
+    await logEmbeddingUsage({
+      site_id: context.siteId,
+      tenant_id: context.tenantId,
+      model: provider?.embeddingModel || 'unknown',
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      latency_ms: 0,
+      success: false,
+      error_code: error instanceof Error ? error.message : 'UNKNOWN_ERROR',
+    });
+
+    return {
+      success: false,
+      embeddingsCreated: 0,
+      tokensUsed: 0,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Delete embeddings for an entity (a product's variations are deleted with it)
+ */
+export async function deleteEntityEmbeddings(
+  context: Pick<IngestionContext, 'siteId'>,
+  entityType: 'product' | 'variation' | 'page' | 'policy' | 'faq' | 'document',
   entityId: string
 ): Promise<void> {
   const { error } = await supabaseAdmin
@@ -435,6 +1185,20 @@ export async function deleteEntityEmbeddings(
   if (error) {
     throw new Error(`Failed to delete embeddings: ${error.message}`);
   }
+
+  // Variations are child entities of their product
+  if (entityType === 'product') {
+    const { error: variationError } = await supabaseAdmin
+      .from('embeddings')
+      .delete()
+      .eq('site_id', context.siteId)
+      .eq('entity_type', 'variation')
+      .eq('metadata->>product_id', entityId);
+
+    if (variationError) {
+      throw new Error(`Failed to delete variation embeddings: ${variationError.message}`);
+    }
+  }
 }
 
 /**
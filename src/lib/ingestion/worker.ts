@@ -0,0 +1,692 @@
+/**
+ * Ingestion worker
+ *
+ * Leases jobs from the queue and runs them:
+ * - webhook jobs ingest or delete one entity and update its ingestion_events row
+ * - sync jobs list the catalog (first run), then ingest products in slices,
+ *   saving progress and extending the lease after every slice; FAQ and document
+ *   sync jobs are enqueued from the dashboard with their ids
+ * - delta sync jobs list only the products changed since the site's checkpoint
+ *   (sites.last_synced_at) and delete indexed products that are no longer
+ *   published; product syncs move the checkpoint when they finish
+ * - reindex jobs re-embed every entity of the active index into a new index
+ *   (embedding model migration) and mark that index ready when done
+ * - visitor_memory jobs extract a returning visitor's earlier conversations into
+ *   their stored memory (see src/lib/chat/visitor-memory.ts)
+ *
+ * Webhook and sync jobs write to every writable index (the active one and an index
+ * being built), so changes made during a migration reach the new index too.
+ * Each entity is retried in-process with backoff (INGESTION_RETRY_OPTIONS); an
+ * entity that still fails is recorded on the job instead of failing the whole sync.
+ * A worker runs inside the app process: it is kicked after enqueueing and can be
+ * driven by an external scheduler through POST /api/ingestion/worker.
+ */
+
+import { randomUUID } from 'crypto';
+import { createAdminClient } from '@/lib/supabase/server';
+import { WPAPIClient } from '@/lib/wordpress/client';
+import { createLogger } from '@/lib/utils/logger';
+import { getLLMProvider } from '@/lib/llm';
+import { refreshVisitorMemory } from '@/lib/chat/visitor-memory';
+import { withRetry, INGESTION_RETRY_OPTIONS } from '@/lib/utils/retry';
+import {
+  getActiveEmbeddingIndex,
+  getWritableEmbeddingIndexes,
+  finishEmbeddingIndexBuild,
+} from '@/lib/embeddings/indexes';
+import {
+  ingestProduct,
+  ingestPage,
+  ingestFaq,
+  ingestDocument,
+  deleteEntityEmbeddings,
+  type IngestionContext,
+  type IngestionResult,
+} from './service';
+import {
+  leaseIngestionJobs,
+  updateJobProgress,
+  completeJob,
+  releaseJob,
+  failJob,
+  type IngestionJob,
+  type IngestionJobFailure,
+  type IngestionEntityType,
+  type ReindexJobPayload,
+  type SyncJobPayload,
+  type VisitorMemoryJobPayload,
+  type WebhookJobPayload,
+} from './queue';
+
+const supabaseAdmin = createAdminClient();
+
+const SYNC_SLICE_SIZE = 5; // Products ingested in parallel per slice
+const CATALOG_PAGE_SIZE = 100;
+const INDEX_ENTITY_PAGE_SIZE = 1000;
+
+export interface WorkerRunSummary {
+  workerId: string;
+  jobsProcessed: number;
+  completed: number;
+  retried: number;
+  deadLettered: number;
+  released: number;
+}
+
+/**
+ * Lost lease or time budget reached - stop without failing the job
+ */
+class JobInterruptedError extends Error {
+  constructor(public reason: 'lease_lost' | 'time_budget') {
+    super(`Job interrupted: ${reason}`);
+  }
+}
+
+async function loadIngestionContext(siteId: string): Promise<{ context: IngestionContext; restBaseUrl?: string }> {
+  const { data: site, error } = await supabaseAdmin
+    .from('sites')
+    .select('id, tenant_id, site_url, site_secret, rest_base_url, status')
+    .eq('id', siteId)
+    .single();
+
+  if (error || !site) {
+    throw new Error('Site not found');
+  }
+  if (site.status !== 'active') {
+    throw new Error(`Site is not active (status: ${site.status})`);
+  }
+
+  return {
+    context: {
+      siteId: site.id,
+      tenantId: site.tenant_id,
+      siteUrl: site.site_url,
+      siteSecret: site.site_secret,
+    },
+    restBaseUrl: site.rest_base_url || undefined,
+  };
+}
+
+/**
+ * Ingest one entity with in-process retries
+ * IngestionResult failures are turned into errors so withRetry can decide on retrying.
+ * Without context.index the entity is written to every writable index; deletes
+ * remove it from all indexes at once.
+ */
+async function ingestEntityWithRetry(
+  context: IngestionContext,
+  event: string,
+  entityType: IngestionEntityType,
+  entityId: string
+): Promise<IngestionResult> {
+  if (!context.index && event.endsWith('.updated')) {
+    const indexes = await getWritableEmbeddingIndexes(context.siteId);
+    if (indexes.length > 1) {
+      const total: IngestionResult = { success: true, embeddingsCreated: 0, tokensUsed: 0 };
+      for (const index of indexes) {
+        const result = await ingestEntityWithRetry({ ...context, index }, event, entityType, entityId);
+        total.embeddingsCreated += result.embeddingsCreated;
+        total.tokensUsed += result.tokensUsed;
+      }
+      return total;
+    }
+  }
+
+  return withRetry(async () => {
+    let result: IngestionResult;
+
+    if (event === 'product.updated') {
+      result = await ingestProduct(context, entityId);
+    } else if (event === 'page.updated' || event === 'policy.updated') {
+      result = await ingestPage(context, entityId);
+    } else if (event === 'faq.updated') {
+      result = await ingestFaq(context, entityId);
+    } else if (event === 'document.updated') {
+      result = await ingestDocument(context, entityId);
+    } else if (
+      event === 'product.deleted' ||
+      event === 'page.deleted' ||
+      event === 'faq.deleted' ||
+      event === 'document.deleted'
+    ) {
+      await deleteEntityEmbeddings(context, entityType, entityId);
+      result = { success: true, embeddingsCreated: 0, tokensUsed: 0 };
+    } else {
+      throw new Error(`Unhandled event type: ${event}`);
+    }
+
+    if (!result.success) {
+      throw new Error(result.error || 'Ingestion failed');
+    }
+    return result;
+  }, INGESTION_RETRY_OPTIONS);
+}
+
+async function updateIngestionEvent(
+  job: IngestionJob,
+  status: 'processing' | 'completed' | 'failed' | 'retryable' | 'dead_letter',
+  details: { errorMessage?: string; result?: IngestionResult } = {}
+): Promise<void> {
+  if (!job.ingestionEventId) return;
+
+  await supabaseAdmin
+    .from('ingestion_events')
+    .update({
+      status,
+      processed_at: status === 'processing' ? null : new Date().toISOString(),
+      error_message: details.errorMessage || null,
+      metadata: {
+        job_id: job.id,
+        attempts: job.attempts + (status === 'retryable' || status === 'dead_letter' ? 1 : 0),
+        ...(details.result && {
+          embeddings_created: details.result.embeddingsCreated,
+          tokens_used: details.result.tokensUsed,
+        }),
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.ingestionEventId);
+}
+
+async function runWebhookJob(job: IngestionJob, workerId: string): Promise<void> {
+  const payload = job.payload as WebhookJobPayload;
+  const { context } = await loadIngestionContext(job.siteId);
+
+  await updateIngestionEvent(job, 'processing');
+
+  const result = await ingestEntityWithRetry(context, payload.event, payload.entity_type, payload.entity_id);
+
+  const stillLeased = await updateJobProgress(job, workerId, {
+    processedItems: 1,
+    embeddingsCreated: result.embeddingsCreated,
+    tokensUsed: result.tokensUsed,
+  });
+  if (!stillLeased) {
+    throw new JobInterruptedError('lease_lost');
+  }
+
+  await updateIngestionEvent(job, 'completed', { result });
+}
+
+/**
+ * List published products with their modification time
+ * updatedAfter = null lists the whole catalog
+ */
+async function listCatalogProducts(
+  wpClient: WPAPIClient,
+  updatedAfter: string | null
+): Promise<Array<{ id: string; updated_at: string }>> {
+  const products: Array<{ id: string; updated_at: string }> = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await withRetry(
+      () => wpClient.getChangedProducts(updatedAfter || '1970-01-01T00:00:00Z', page, CATALOG_PAGE_SIZE),
+      INGESTION_RETRY_OPTIONS
+    );
+
+    if (response.products && response.products.length > 0) {
+      products.push(
+        ...response.products.map((product) => ({ id: product.id.toString(), updated_at: product.updated_at }))
+      );
+      page++;
+      hasMore = response.pagination
+        ? page <= response.pagination.total_pages
+        : response.products.length === CATALOG_PAGE_SIZE;
+    } else {
+      hasMore = false;
+    }
+  }
+
+  return products;
+}
+
+/**
+ * Indexed products that are no longer published (deleted, drafted or trashed while
+ * a webhook was lost). An empty catalog listing never deletes anything.
+ */
+async function findDeletedProducts(siteId: string, catalogIds: string[]): Promise<string[]> {
+  if (catalogIds.length === 0) return [];
+
+  const activeIndex = await getActiveEmbeddingIndex(siteId);
+  const indexedIds = (await listIndexEntityRefs(siteId, activeIndex.version, 'product')).map((ref) =>
+    ref.slice('product:'.length)
+  );
+  const published = new Set(catalogIds);
+
+  return indexedIds.filter((id) => !published.has(id));
+}
+
+/**
+ * Checkpoint after a product sync: the newest listed modification time, or just
+ * before the oldest product that failed (so the next delta sync picks it up again)
+ */
+function getSyncCheckpoint(payload: SyncJobPayload, failures: IngestionJobFailure[]): string | null {
+  const modifiedAt = payload.modified_at || {};
+  const times = Object.values(modifiedAt).map((value) => new Date(value).getTime()).filter((time) => !isNaN(time));
+  if (times.length === 0) return null;
+
+  const failedTimes = failures
+    .map((failure) => new Date(modifiedAt[failure.entity_id] || '').getTime())
+    .filter((time) => !isNaN(time));
+
+  let checkpoint = failedTimes.length > 0 ? Math.min(...failedTimes) - 1000 : Math.max(...times);
+  if (payload.updated_after) {
+    checkpoint = Math.max(checkpoint, new Date(payload.updated_after).getTime());
+  }
+
+  return new Date(checkpoint).toISOString();
+}
+
+async function runSyncJob(job: IngestionJob, workerId: string, deadline: number): Promise<void> {
+  const logger = createLogger({ site_id: job.siteId, job_id: job.id });
+  const { context, restBaseUrl } = await loadIngestionContext(job.siteId);
+  let payload = job.payload as SyncJobPayload;
+
+  // First run lists the catalog (delta: the products changed since the checkpoint);
+  // the list is stored so later runs resume from the cursor
+  if (!payload.entity_ids && (payload.entity_type || 'product') === 'product') {
+    const wpClient = new WPAPIClient({
+      siteUrl: context.siteUrl,
+      siteId: context.siteId,
+      secret: context.siteSecret,
+      restBaseUrl,
+    });
+
+    if (payload.mode === 'delta') {
+      const { data: site } = await supabaseAdmin
+        .from('sites')
+        .select('last_synced_at')
+        .eq('id', job.siteId)
+        .single();
+
+      const updatedAfter: string | null = site?.last_synced_at || null;
+      const changed = await listCatalogProducts(wpClient, updatedAfter);
+      const catalog = updatedAfter ? await listCatalogProducts(wpClient, null) : changed;
+      const deletedIds = await findDeletedProducts(job.siteId, catalog.map((product) => product.id));
+
+      payload = {
+        ...payload,
+        updated_after: updatedAfter,
+        entity_ids: changed.map((product) => product.id),
+        modified_at: Object.fromEntries(changed.map((product) => [product.id, product.updated_at])),
+        deleted_ids: deletedIds,
+      };
+      logger.info('Delta sync listed changes', {
+        updated_after: updatedAfter,
+        changed_products: changed.length,
+        catalog_products: catalog.length,
+        deleted_products: deletedIds.length,
+      });
+    } else {
+      const catalog = await listCatalogProducts(wpClient, null);
+      payload = {
+        ...payload,
+        entity_ids: catalog.map((product) => product.id),
+        modified_at: Object.fromEntries(catalog.map((product) => [product.id, product.updated_at])),
+      };
+      logger.info('Sync job listed catalog', { total_products: catalog.length });
+    }
+
+    const totalItems = payload.entity_ids!.length + (payload.deleted_ids?.length || 0);
+    if (!(await updateJobProgress(job, workerId, { payload, totalItems }))) {
+      throw new JobInterruptedError('lease_lost');
+    }
+  }
+
+  const entityType = payload.entity_type || 'product';
+  const entityIds = payload.entity_ids || [];
+  const deletedIds = payload.deleted_ids || [];
+  const items = [
+    ...entityIds.map((entityId) => ({ entityId, event: `${entityType}.updated` })),
+    ...deletedIds.map((entityId) => ({ entityId, event: `${entityType}.deleted` })),
+  ];
+  let processed = job.processedItems;
+  let failedItems = job.failedItems;
+  let embeddingsCreated = job.embeddingsCreated;
+  let tokensUsed = job.tokensUsed;
+  const failures: IngestionJobFailure[] = [...job.failures];
+
+  while (processed < items.length) {
+    if (Date.now() >= deadline) {
+      throw new JobInterruptedError('time_budget');
+    }
+
+    const slice = items.slice(processed, processed + SYNC_SLICE_SIZE);
+    const results = await Promise.all(
+      slice.map(async ({ entityId, event }) => {
+        try {
+          return {
+            entityId,
+            result: await ingestEntityWithRetry(context, event, entityType, entityId),
+          };
+        } catch (error) {
+          return { entityId, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+      })
+    );
+
+    for (const item of results) {
+      if (item.result) {
+        embeddingsCreated += item.result.embeddingsCreated;
+        tokensUsed += item.result.tokensUsed;
+      } else {
+        failedItems++;
+        failures.push({ entity_id: item.entityId, error: item.error || 'Unknown error', at: new Date().toISOString() });
+      }
+    }
+    processed += slice.length;
+
+    const stillLeased = await updateJobProgress(job, workerId, {
+      processedItems: processed,
+      failedItems,
+      failures,
+      embeddingsCreated,
+      tokensUsed,
+    });
+    if (!stillLeased) {
+      throw new JobInterruptedError('lease_lost');
+    }
+  }
+
+  const checkpoint = entityType === 'product' ? getSyncCheckpoint(payload, failures) : null;
+  if (checkpoint) {
+    await supabaseAdmin
+      .from('sites')
+      .update({ last_synced_at: checkpoint })
+      .eq('id', job.siteId);
+  }
+
+  logger.info('Sync job finished', {
+    entity_type: entityType,
+    mode: payload.mode || 'full',
+    total_items: items.length,
+    deleted: deletedIds.length,
+    failed: failedItems,
+    embeddings_created: embeddingsCreated,
+    tokens_used: tokensUsed,
+    checkpoint,
+  });
+}
+
+/**
+ * List the entities of an index as "type:id", all of them or one entity type
+ * (variations are left out; they are re-embedded with their product)
+ */
+async function listIndexEntityRefs(siteId: string, indexVersion: number, entityType?: string): Promise<string[]> {
+  const refs = new Set<string>();
+  let offset = 0;
+
+  while (true) {
+    let query = supabaseAdmin
+      .from('embeddings')
+      .select('entity_type, entity_id')
+      .eq('site_id', siteId)
+      .eq('index_version', indexVersion);
+    query = entityType ? query.eq('entity_type', entityType) : query.neq('entity_type', 'variation');
+
+    const { data, error } = await query
+      .order('id', { ascending: true })
+      .range(offset, offset + INDEX_ENTITY_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to list index entities: ${error.message}`);
+    }
+
+    for (const row of (data || []) as Array<{ entity_type: string; entity_id: string }>) {
+      refs.add(`${row.entity_type}:${row.entity_id}`);
+    }
+
+    if (!data || data.length < INDEX_ENTITY_PAGE_SIZE) break;
+    offset += INDEX_ENTITY_PAGE_SIZE;
+  }
+
+  return Array.from(refs);
+}
+
+async function isIndexBuilding(siteId: string, indexVersion: number): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('embedding_indexes')
+    .select('status')
+    .eq('site_id', siteId)
+    .eq('version', indexVersion)
+    .maybeSingle();
+
+  return data?.status === 'building';
+}
+
+async function runReindexJob(job: IngestionJob, workerId: string, deadline: number): Promise<void> {
+  const logger = createLogger({ site_id: job.siteId, job_id: job.id });
+  const { context } = await loadIngestionContext(job.siteId);
+  let payload = job.payload as ReindexJobPayload;
+
+  const indexes = await getWritableEmbeddingIndexes(job.siteId);
+  const active = indexes[0];
+  const target = indexes.find((index) => index.version === payload.index_version);
+
+  // Cancelled (or otherwise finished) while queued - nothing left to build
+  if (!target || target.status !== 'building') {
+    logger.info('Reindex job skipped, index is no longer building', { index_version: payload.index_version });
+    return;
+  }
+
+  // First run lists the active index; the list is stored so later runs resume from the cursor
+  if (!payload.entity_refs) {
+    const entityRefs = await listIndexEntityRefs(job.siteId, active.version);
+    payload = { ...payload, entity_refs: entityRefs };
+
+    if (!(await updateJobProgress(job, workerId, { payload, totalItems: entityRefs.length }))) {
+      throw new JobInterruptedError('lease_lost');
+    }
+    logger.info('Reindex job listed entities', {
+      index_version: target.version,
+      active_version: active.version,
+      total_entities: entityRefs.length,
+    });
+  }
+
+  const indexContext: IngestionContext = { ...context, index: target };
+  const entityRefs = payload.entity_refs || [];
+  let processed = job.processedItems;
+  let failedItems = job.failedItems;
+  let embeddingsCreated = job.embeddingsCreated;
+  let tokensUsed = job.tokensUsed;
+  const failures: IngestionJobFailure[] = [...job.failures];
+
+  while (processed < entityRefs.length) {
+    if (Date.now() >= deadline) {
+      throw new JobInterruptedError('time_budget');
+    }
+    if (!(await isIndexBuilding(job.siteId, target.version))) {
+      logger.info('Reindex job stopped, index is no longer building', { index_version: target.version });
+      return;
+    }
+
+    const slice = entityRefs.slice(processed, processed + SYNC_SLICE_SIZE);
+    const results = await Promise.all(
+      slice.map(async (entityRef) => {
+        const separator = entityRef.indexOf(':');
+        const entityType = entityRef.slice(0, separator) as IngestionEntityType;
+        const entityId = entityRef.slice(separator + 1);
+        try {
+          return {
+            entityRef,
+            result: await ingestEntityWithRetry(indexContext, `${entityType}.updated`, entityType, entityId),
+          };
+        } catch (error) {
+          return { entityRef, error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+      })
+    );
+
+    for (const item of results) {
+      if (item.result) {
+        embeddingsCreated += item.result.embeddingsCreated;
+        tokensUsed += item.result.tokensUsed;
+      } else {
+        failedItems++;
+        failures.push({ entity_id: item.entityRef, error: item.error || 'Unknown error', at: new Date().toISOString() });
+      }
+    }
+    processed += slice.length;
+
+    const stillLeased = await updateJobProgress(job, workerId, {
+      processedItems: processed,
+      failedItems,
+      failures,
+      embeddingsCreated,
+      tokensUsed,
+    });
+    if (!stillLeased) {
+      throw new JobInterruptedError('lease_lost');
+    }
+  }
+
+  await finishEmbeddingIndexBuild(job.siteId, target.version);
+
+  logger.info('Reindex job finished', {
+    index_version: target.version,
+    model: payload.model,
+    total_items: entityRefs.length,
+    failed: failedItems,
+    embeddings_created: embeddingsCreated,
+    tokens_used: tokensUsed,
+  });
+}
+
+async function runVisitorMemoryJob(job: IngestionJob): Promise<void> {
+  const payload = job.payload as VisitorMemoryJobPayload;
+  const provider = await getLLMProvider(job.siteId);
+  await refreshVisitorMemory(job.siteId, payload.visitor_id, payload.conversation_id, provider);
+}
+
+/**
+ * A reindex job that will not run again leaves its index failed
+ */
+async function failReindexBuild(job: IngestionJob, errorMessage: string): Promise<void> {
+  if (job.jobType !== 'reindex') return;
+
+  const payload = job.payload as ReindexJobPayload;
+  try {
+    await finishEmbeddingIndexBuild(job.siteId, payload.index_version, errorMessage);
+  } catch (error) {
+    console.error('[Ingestion Worker] Failed to mark index build failed:', error);
+  }
+}
+
+/**
+ * Run queued jobs until the queue is empty or the time budget is used
+ */
+export async function runIngestionWorker(
+  options: { timeBudgetMs?: number; maxJobs?: number } = {}
+): Promise<WorkerRunSummary> {
+  const workerId = `worker_${randomUUID()}`;
+  const logger = createLogger({ worker_id: workerId });
+  const deadline = Date.now() + (options.timeBudgetMs ?? Number.POSITIVE_INFINITY);
+  const maxJobs = options.maxJobs ?? Number.POSITIVE_INFINITY;
+
+  const summary: WorkerRunSummary = {
+    workerId,
+    jobsProcessed: 0,
+    completed: 0,
+    retried: 0,
+    deadLettered: 0,
+    released: 0,
+  };
+
+  while (summary.jobsProcessed < maxJobs && Date.now() < deadline) {
+    const [job] = await leaseIngestionJobs(workerId, 1);
+    if (!job) break;
+
+    summary.jobsProcessed++;
+
+    // Job kept crashing its workers (lease expired every time)
+    if (job.attempts >= job.maxAttempts) {
+      await failJob(job, workerId, job.lastError || 'Worker lease expired repeatedly');
+      await updateIngestionEvent(job, 'dead_letter', { errorMessage: job.lastError || undefined });
+      await failReindexBuild(job, job.lastError || 'Worker lease expired repeatedly');
+      summary.deadLettered++;
+      continue;
+    }
+
+    try {
+      if (job.jobType === 'webhook') {
+        await runWebhookJob(job, workerId);
+      } else if (job.jobType === 'reindex') {
+        await runReindexJob(job, workerId, deadline);
+      } else if (job.jobType === 'visitor_memory') {
+        await runVisitorMemoryJob(job);
+      } else {
+        await runSyncJob(job, workerId, deadline);
+      }
+
+      await completeJob(job, workerId);
+      summary.completed++;
+    } catch (error) {
+      if (error instanceof JobInterruptedError) {
+        if (error.reason === 'time_budget') {
+          await releaseJob(job, workerId);
+        }
+        summary.released++;
+        logger.info('Ingestion job interrupted', { job_id: job.id, reason: error.reason });
+        continue;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const outcome = await failJob(job, workerId, errorMessage);
+      await updateIngestionEvent(job, outcome.status === 'dead_letter' ? 'dead_letter' : 'retryable', {
+        errorMessage,
+      });
+
+      if (outcome.status === 'dead_letter') {
+        await failReindexBuild(job, errorMessage);
+        summary.deadLettered++;
+      } else {
+        summary.retried++;
+      }
+
+      logger.warn('Ingestion job failed', {
+        job_id: job.id,
+        job_type: job.jobType,
+        attempts: job.attempts + 1,
+        status: outcome.status,
+        run_after: outcome.runAfter || null,
+        error: errorMessage,
+      });
+    }
+  }
+
+  if (summary.jobsProcessed > 0) {
+    logger.info('Ingestion worker run finished', { ...summary });
+  }
+
+  return summary;
+}
+
+let activeRun: Promise<unknown> | null = null;
+let rerunRequested = false;
+
+/**
+ * Start a worker in the background of this process (after enqueueing)
+ * At most one background worker runs per process; a kick during a run makes it run again
+ */
+export function kickIngestionWorker(): void {
+  if (activeRun) {
+    rerunRequested = true;
+    return;
+  }
+
+  activeRun = (async () => {
+    do {
+      rerunRequested = false;
+      await runIngestionWorker();
+    } while (rerunRequested);
+  })()
+    .catch((error) => {
+      console.error('[Ingestion Worker] Background run failed:', error);
+    })
+    .finally(() => {
+      activeRun = null;
+    });
+}
@@ -0,0 +1,44 @@
+/**
+ * Short completions for helper calls
+ *
+ * Reranking, query rewriting, filter extraction, visitor memory, openers and
+ * suggestions only need the final text. These helpers collect the streamed
+ * content with a timeout; usage is not tracked for helper calls.
+ */
+
+import type { ChatCompletionRequest, LLMProvider } from './types';
+
+/**
+ * Complete a chat request and return the whole response text (trimmed)
+ * Throws on provider errors and when the timeout is exceeded
+ */
+export async function completeChat(
+  provider: LLMProvider,
+  request: ChatCompletionRequest,
+  options: { timeoutMs: number }
+): Promise<string> {
+  const stream = await provider.streamChatCompletion(request, {
+    signal: AbortSignal.timeout(options.timeoutMs),
+  });
+
+  let output = '';
+  for await (const chunk of stream) {
+    output += chunk.choices[0]?.delta?.content || '';
+  }
+  return output.trim();
+}
+
+/**
+ * Complete a chat request that answers with a JSON object
+ * Returns the first {...} object in the response, or null when there is none
+ * Throws on provider errors, timeouts and malformed JSON
+ */
+export async function completeChatJSON<T = any>(
+  provider: LLMProvider,
+  request: ChatCompletionRequest,
+  options: { timeoutMs: number }
+): Promise<T | null> {
+  const output = await completeChat(provider, request, options);
+  const jsonMatch = output.match(/\{[\s\S]*\}/);
+  return jsonMatch ? (JSON.parse(jsonMatch[0]) as T) : null;
+}
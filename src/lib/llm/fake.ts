@@ -0,0 +1,142 @@
+/**
+ * Deterministic fake provider
+ *
+ * For tests, CI and demos without an API key. No network access:
+ * - Embeddings are hashed bag-of-words vectors, so identical texts get identical
+ *   vectors and texts sharing words are close in cosine similarity
+ * - Chat replies echo the question and name the first product found in the
+ *   system prompt context, streamed word by word
+ */
+
+import { createHash } from 'crypto';
+import type OpenAI from 'openai';
+import {
+  EMBEDDING_DIMENSIONS,
+  type ChatCompletionChunk,
+  type ChatCompletionRequest,
+  type EmbeddingResponse,
+  type LLMProvider,
+  type LLMSettings,
+} from './types';
+
+export const FAKE_CHAT_MODEL = 'fake-chat';
+export const FAKE_EMBEDDING_MODEL = 'fake-embedding';
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((token) => token.length > 0);
+}
+
+/**
+ * Hashed bag-of-words embedding (L2 normalized)
+ */
+export function fakeEmbedding(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+  for (const token of tokenize(text)) {
+    const digest = createHash('sha256').update(token).digest();
+    const index = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+    const sign = digest[4] % 2 === 0 ? 1 : -1;
+    vector[index] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+function messageText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((part: any) => (part?.type === 'text' ? part.text : ''))
+      .join(' ');
+  }
+  return '';
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake' as const;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+
+  constructor(settings?: Partial<LLMSettings>) {
+    this.chatModel = settings?.chat_model || FAKE_CHAT_MODEL;
+    this.embeddingModel = FAKE_EMBEDDING_MODEL;
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    options?: { signal?: AbortSignal }
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const model = request.model || this.chatModel;
+    const reply = this.buildReply(request);
+    const promptTokens = request.messages.reduce(
+      (sum, message) => sum + estimateTokens(messageText(message.content)),
+      0
+    );
+    const completionTokens = estimateTokens(reply);
+    const signal = options?.signal;
+
+    const chunk = (
+      delta: OpenAI.Chat.Completions.ChatCompletionChunk.Choice['delta'],
+      finishReason: OpenAI.Chat.Completions.ChatCompletionChunk.Choice['finish_reason']
+    ): ChatCompletionChunk => ({
+      id: 'fake-completion',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+    });
+
+    async function* generate(): AsyncGenerator<ChatCompletionChunk> {
+      const words = reply.split(/(?<= )/);
+      for (let i = 0; i < words.length; i++) {
+        if (signal?.aborted) return;
+        yield chunk(i === 0 ? { role: 'assistant', content: words[i] } : { content: words[i] }, null);
+      }
+      yield chunk({}, 'stop');
+      yield {
+        id: 'fake-completion',
+        object: 'chat.completion.chunk',
+        created: 0,
+        model,
+        choices: [],
+        usage: {
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          total_tokens: promptTokens + completionTokens,
+        },
+      };
+    }
+
+    return generate();
+  }
+
+  async createEmbeddings(input: string[]): Promise<EmbeddingResponse> {
+    return {
+      embeddings: input.map((text) => fakeEmbedding(text)),
+      model: this.embeddingModel,
+      totalTokens: input.reduce((sum, text) => sum + estimateTokens(text), 0),
+    };
+  }
+
+  private buildReply(request: ChatCompletionRequest): string {
+    const lastUser = [...request.messages].reverse().find((message) => message.role === 'user');
+    const question = messageText(lastUser?.content).trim();
+
+    const systemPrompt = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => messageText(message.content))
+      .join('\n');
+    const productMatch = systemPrompt.match(/\[Product \d+\] Product: ([^|\n]+)/);
+
+    const parts = [`This is a test reply to: "${question}".`];
+    if (productMatch) {
+      parts.push(`The most relevant product is ${productMatch[1].trim()}.`);
+    }
+    return parts.join(' ');
+  }
+}
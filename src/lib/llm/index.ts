@@ -0,0 +1,64 @@
+/**
+ * LLM provider module
+ *
+ * Chat completion streaming and embeddings behind a provider interface,
+ * selectable per site through settings (key 'llm')
+ */
+
+import { createOpenAIProvider, createAzureProvider, createOpenAICompatibleProvider } from './openai';
+import { FakeProvider } from './fake';
+import { loadLLMSettings, getDefaultLLMSettings } from './settings';
+import type { LLMProvider, LLMSettings } from './types';
+
+export * from './types';
+export { loadLLMSettings, getDefaultLLMSettings, isLLMProviderName, isFakeLLMProviderAllowed, LLM_PROVIDERS } from './settings';
+export { DEFAULT_CHAT_MODEL, DEFAULT_EMBEDDING_MODEL } from './openai';
+export { FakeProvider, fakeEmbedding } from './fake';
+export { completeChat, completeChatJSON } from './complete';
+
+// Providers are stateless apart from their HTTP client, so reuse them across requests
+const providerCache = new Map<string, LLMProvider>();
+
+/**
+ * Create a provider from settings
+ * Throws if the selected provider is not configured in the environment
+ */
+export function createLLMProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider(settings);
+    case 'azure':
+      return createAzureProvider(settings);
+    case 'openai_compatible':
+      return createOpenAICompatibleProvider(settings);
+    case 'fake':
+      return new FakeProvider(settings);
+    default:
+      throw new Error(`Unknown LLM provider: ${(settings as any).provider}`);
+  }
+}
+
+function getCachedProvider(settings: LLMSettings): LLMProvider {
+  const cacheKey = `${settings.provider}:${settings.chat_model || ''}:${settings.embedding_model || ''}`;
+  let provider = providerCache.get(cacheKey);
+  if (!provider) {
+    provider = createLLMProvider(settings);
+    providerCache.set(cacheKey, provider);
+  }
+  return provider;
+}
+
+/**
+ * Provider from environment defaults (no site settings)
+ */
+export function getDefaultLLMProvider(): LLMProvider {
+  return getCachedProvider(getDefaultLLMSettings());
+}
+
+/**
+ * Provider configured for a site
+ */
+export async function getLLMProvider(siteId: string): Promise<LLMProvider> {
+  const settings = await loadLLMSettings(siteId);
+  return getCachedProvider(settings);
+}
@@ -0,0 +1,194 @@
+/**
+ * OpenAI SDK based providers
+ *
+ * One implementation covers three backends:
+ * - openai: api.openai.com (OPENAI_API_KEY)
+ * - azure: Azure OpenAI, model names are deployment names
+ * - openai_compatible: any server exposing /v1/chat/completions and /v1/embeddings (vLLM, Ollama)
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import {
+  EMBEDDING_DIMENSIONS,
+  type ChatCompletionChunk,
+  type ChatCompletionRequest,
+  type EmbeddingResponse,
+  type LLMProvider,
+  type LLMProviderName,
+  type LLMSettings,
+} from './types';
+
+const CHAT_TIMEOUT_MS = 60000;
+
+export const DEFAULT_CHAT_MODEL = 'gpt-4o';
+export const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+
+  private client: OpenAI;
+  private lockEmbeddingModel: boolean;
+
+  constructor(options: {
+    name: LLMProviderName;
+    client: OpenAI;
+    chatModel: string;
+    embeddingModel: string;
+    lockEmbeddingModel?: boolean; // Ignore per-request model hints
+  }) {
+    this.name = options.name;
+    this.client = options.client;
+    this.chatModel = options.chatModel;
+    this.embeddingModel = options.embeddingModel;
+    this.lockEmbeddingModel = options.lockEmbeddingModel === true;
+  }
+
+  async streamChatCompletion(
+    request: ChatCompletionRequest,
+    options?: { signal?: AbortSignal }
+  ): Promise<AsyncIterable<ChatCompletionChunk>> {
+    const hasTools = request.tools && request.tools.length > 0;
+
+    return await this.client.chat.completions.create(
+      {
+        model: request.model || this.chatModel,
+        messages: request.messages,
+        stream: true,
+        stream_options: { include_usage: true },
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(hasTools
+          ? {
+              tools: request.tools,
+              tool_choice: request.toolChoice || 'auto',
+            }
+          : {}),
+      },
+      {
+        signal: options?.signal,
+      }
+    );
+  }
+
+  async createEmbeddings(input: string[], model?: string): Promise<EmbeddingResponse> {
+    const embeddingModel = this.lockEmbeddingModel ? this.embeddingModel : model || this.embeddingModel;
+
+    const response = await this.client.embeddings.create({
+      model: embeddingModel,
+      input,
+      // text-embedding-3 models can shorten their vectors to the column size (3-large is 3072 by default)
+      ...(embeddingModel.startsWith('text-embedding-3') && { dimensions: EMBEDDING_DIMENSIONS }),
+    });
+
+    const embeddings = response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+
+    const dimensions = embeddings[0]?.length;
+    if (dimensions !== undefined && dimensions !== EMBEDDING_DIMENSIONS) {
+      throw new Error(
+        `Embedding model ${embeddingModel} returned ${dimensions}-dimensional vectors, expected ${EMBEDDING_DIMENSIONS}`
+      );
+    }
+
+    return {
+      embeddings,
+      model: embeddingModel,
+      totalTokens: response.usage?.total_tokens || 0,
+    };
+  }
+}
+
+/**
+ * Create provider for api.openai.com
+ */
+export function createOpenAIProvider(settings: LLMSettings): OpenAIProvider {
+  if (!process.env.OPENAI_API_KEY) {
+    throw new Error('OpenAI API key is not configured. Please set OPENAI_API_KEY environment variable.');
+  }
+
+  return new OpenAIProvider({
+    name: 'openai',
+    client: new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      timeout: CHAT_TIMEOUT_MS,
+    }),
+    chatModel: settings.chat_model || DEFAULT_CHAT_MODEL,
+    embeddingModel: settings.embedding_model || DEFAULT_EMBEDDING_MODEL,
+    lockEmbeddingModel: !!settings.embedding_model,
+  });
+}
+
+/**
+ * Create provider for Azure OpenAI
+ * Chat and embedding models are deployment names
+ */
+export function createAzureProvider(settings: LLMSettings): OpenAIProvider {
+  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+  const apiKey = process.env.AZURE_OPENAI_API_KEY;
+
+  if (!endpoint || !apiKey) {
+    throw new Error(
+      'Azure OpenAI is not configured. Please set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY environment variables.'
+    );
+  }
+
+  const chatModel = settings.chat_model || process.env.AZURE_OPENAI_CHAT_DEPLOYMENT;
+  const embeddingModel = settings.embedding_model || process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+
+  if (!chatModel || !embeddingModel) {
+    throw new Error(
+      'Azure OpenAI deployments are not configured. Please set AZURE_OPENAI_CHAT_DEPLOYMENT and AZURE_OPENAI_EMBEDDING_DEPLOYMENT or configure them in site settings.'
+    );
+  }
+
+  return new OpenAIProvider({
+    name: 'azure',
+    client: new AzureOpenAI({
+      endpoint,
+      apiKey,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+      timeout: CHAT_TIMEOUT_MS,
+    }),
+    chatModel,
+    embeddingModel,
+    lockEmbeddingModel: true,
+  });
+}
+
+/**
+ * Create provider for an OpenAI-compatible server (vLLM, Ollama, ...)
+ */
+export function createOpenAICompatibleProvider(settings: LLMSettings): OpenAIProvider {
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+
+  if (!baseURL) {
+    throw new Error(
+      'OpenAI-compatible endpoint is not configured. Please set OPENAI_COMPATIBLE_BASE_URL environment variable (e.g. http://localhost:11434/v1).'
+    );
+  }
+
+  const chatModel = settings.chat_model || process.env.OPENAI_COMPATIBLE_CHAT_MODEL;
+  const embeddingModel = settings.embedding_model || process.env.OPENAI_COMPATIBLE_EMBEDDING_MODEL;
+
+  if (!chatModel || !embeddingModel) {
+    throw new Error(
+      'OpenAI-compatible models are not configured. Please set OPENAI_COMPATIBLE_CHAT_MODEL and OPENAI_COMPATIBLE_EMBEDDING_MODEL or configure them in site settings.'
+    );
+  }
+
+  return new OpenAIProvider({
+    name: 'openai_compatible',
+    client: new OpenAI({
+      baseURL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+      timeout: CHAT_TIMEOUT_MS,
+    }),
+    chatModel,
+    embeddingModel,
+    lockEmbeddingModel: true,
+  });
+}
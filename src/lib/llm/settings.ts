@@ -0,0 +1,69 @@
+/**
+ * LLM provider settings
+ *
+ * Per-site provider selection (settings key 'llm').
+ * Falls back to LLM_PROVIDER environment variable, then 'openai'.
+ * The 'fake' provider can only be selected per site outside production, or with
+ * ALLOW_FAKE_LLM_PROVIDER=true (evals use it directly, without the site setting).
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import type { LLMProviderName, LLMSettings } from './types';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'azure', 'openai_compatible', 'fake'];
+
+const supabaseAdmin = createAdminClient();
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Whether sites may select the 'fake' provider
+ */
+export function isFakeLLMProviderAllowed(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.ALLOW_FAKE_LLM_PROVIDER === 'true';
+}
+
+/**
+ * Default settings from environment
+ */
+export function getDefaultLLMSettings(): LLMSettings {
+  const envProvider = process.env.LLM_PROVIDER;
+  return {
+    provider: isLLMProviderName(envProvider) ? envProvider : 'openai',
+  };
+}
+
+/**
+ * Load LLM settings for a site
+ */
+export async function loadLLMSettings(siteId: string): Promise<LLMSettings> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('settings')
+      .select('value')
+      .eq('site_id', siteId)
+      .eq('key', 'llm')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error || !data) {
+      return getDefaultLLMSettings();
+    }
+
+    const llmSettings = data.value as any;
+    const storedProviderAllowed =
+      isLLMProviderName(llmSettings.provider) && (llmSettings.provider !== 'fake' || isFakeLLMProviderAllowed());
+    return {
+      provider: storedProviderAllowed ? llmSettings.provider : getDefaultLLMSettings().provider,
+      chat_model: llmSettings.chat_model || undefined,
+      embedding_model: llmSettings.embedding_model || undefined,
+    };
+  } catch (error) {
+    console.error('Error loading LLM settings:', error);
+    return getDefaultLLMSettings();
+  }
+}
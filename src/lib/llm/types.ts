@@ -0,0 +1,68 @@
+/**
+ * LLM provider types
+ *
+ * Common interface for chat completion streaming and embeddings.
+ * Chat messages, tools and stream chunks use the OpenAI wire format,
+ * which all supported providers (OpenAI, Azure OpenAI, vLLM, Ollama) speak.
+ */
+
+import type OpenAI from 'openai';
+
+export type LLMProviderName = 'openai' | 'azure' | 'openai_compatible' | 'fake';
+
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type ChatTool = OpenAI.Chat.Completions.ChatCompletionTool;
+export type ChatCompletionChunk = OpenAI.Chat.Completions.ChatCompletionChunk;
+
+/**
+ * Dimension of the embeddings.embedding pgvector column
+ * Every embedding model used with this database must produce vectors of this size
+ */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  model?: string; // Default: provider chat model
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ChatTool[];
+  toolChoice?: 'auto' | 'none';
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][]; // Same order as input
+  model: string; // Model that actually produced the vectors
+  totalTokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+
+  /**
+   * Stream a chat completion
+   * Usage is reported on the final chunk (when the provider supports it)
+   */
+  streamChatCompletion(
+    request: ChatCompletionRequest,
+    options?: { signal?: AbortSignal }
+  ): Promise<AsyncIterable<ChatCompletionChunk>>;
+
+  /**
+   * Generate embeddings for a batch of texts
+   * `model` is a hint (e.g. from knowledge settings); providers with a
+   * fixed embedding model ignore it
+   */
+  createEmbeddings(input: string[], model?: string): Promise<EmbeddingResponse>;
+}
+
+/**
+ * Per-site provider settings (settings key 'llm')
+ * Endpoints and API keys are read from environment variables only
+ */
+export interface LLMSettings {
+  provider: LLMProviderName;
+  chat_model?: string;
+  embedding_model?: string;
+}
@@ -8,12 +8,16 @@
  */
 
 import { RetrievedChunk } from './retrieval';
+import { formatVariationLabel } from './variations';
 
 export interface ContextBlock {
-  sourceType: 'product' | 'page' | 'policy';
+  sourceType: 'product' | 'variation' | 'page' | 'policy' | 'faq' | 'document';
   sourceId: string;
+  parentId?: string; // Parent product ID of a variation
+  variation?: string; // Variation label, e.g. "Black / M"
   title?: string;
   url?: string;
+  section?: string; // Section heading of the best matching chunk
   content: string; // Merged content from multiple chunks
   chunkIds: string[]; // IDs of chunks included in this block
   chunkIndices: number[]; // Chunk indices for evidence
@@ -66,14 +70,16 @@ export function buildContextBlocks(
   let totalChars = 0;
   let totalTokens = 0; // Approximate: ~4 chars per token
 
-  // Sort sources by best similarity (highest first)
+  // Sort sources by best score (highest first)
+  // Rerank score takes precedence over similarity when the rerank stage ran
+  const rankingScore = (chunk: RetrievedChunk) => chunk.rerankScore ?? chunk.similarity;
   const sortedSources = Array.from(sourceMap.entries())
     .map(([key, chunks]) => ({
       key,
-      chunks: chunks.sort((a, b) => b.similarity - a.similarity),
-      bestSimilarity: Math.max(...chunks.map((c) => c.similarity)),
+      chunks: chunks.sort((a, b) => rankingScore(b) - rankingScore(a)),
+      bestScore: Math.max(...chunks.map(rankingScore)),
     }))
-    .sort((a, b) => b.bestSimilarity - a.bestSimilarity)
+    .sort((a, b) => b.bestScore - a.bestScore)
     .slice(0, maxSources);
 
   for (const { key, chunks: sourceChunks } of sortedSources) {
@@ -120,12 +126,17 @@ export function buildContextBlocks(
     const contextBlock: ContextBlock = {
       sourceType: firstChunk.entityType,
       sourceId: firstChunk.entityId,
+      ...(firstChunk.entityType === 'variation' && {
+        parentId: metadata.product_id !== undefined ? String(metadata.product_id) : undefined,
+        variation: formatVariationLabel(metadata.variation_attributes) || undefined,
+      }),
       title:
         metadata.product_title ||
         metadata.page_title ||
         metadata.title ||
         undefined,
       url: metadata.product_url || metadata.page_url || metadata.url || undefined,
+      section: metadata.section_heading || undefined,
       content: mergedContent,
       chunkIds: limitedChunks.map((c) => c.id),
       chunkIndices: limitedChunks.map((c) => c.chunkIndex),
@@ -150,18 +161,40 @@ export function formatContextBlocks(blocks: ContextBlock[]): string {
   }
 
   const sections = blocks.map((block, index) => {
+    // FAQ content already reads "Question: ... Answer: ..."
+    if (block.sourceType === 'faq') {
+      return `[FAQ ${index + 1}]\n${block.content}`;
+    }
+
+    // Uploaded documents have no URL to link to
+    if (block.sourceType === 'document') {
+      const documentHeader = [`Document: ${block.title || 'Untitled'}`];
+      if (block.section) {
+        documentHeader.push(`Section: ${block.section}`);
+      }
+      return `[Document ${index + 1}] ${documentHeader.join(' | ')}\n${block.content}`;
+    }
+
     // Build a clearer header with product information
     const headerParts: string[] = [];
     
     if (block.title) {
       headerParts.push(`Product: ${block.title}`);
     }
+
+    if (block.sourceType === 'variation') {
+      headerParts.push(`Variation: ${block.variation || block.sourceId}`, `Variation ID: ${block.sourceId}`);
+    }
     
     // Include URL in header but don't show full URL in content
     // The URL will be used by the AI to create markdown links
     if (block.url) {
       headerParts.push(`Product URL: ${block.url}`);
     }
+
+    if (block.section) {
+      headerParts.push(`Section: ${block.section}`);
+    }
     
     if (block.sourceUpdatedAt) {
       headerParts.push(`Updated: ${new Date(block.sourceUpdatedAt).toLocaleDateString()}`);
@@ -176,7 +209,12 @@ export function formatContextBlocks(blocks: ContextBlock[]): string {
 
   // Add a summary at the beginning if there are multiple products
   if (blocks.length > 1) {
-    const productCount = blocks.filter(b => b.sourceType === 'product').length;
+    // Variations count towards their parent product
+    const productCount = new Set(
+      blocks
+        .filter(b => b.sourceType === 'product' || b.sourceType === 'variation')
+        .map(b => b.parentId || b.sourceId)
+    ).size;
     // Make it very clear this is the exact count
     const summary = `EXACT PRODUCT COUNT: Found exactly ${productCount} product${productCount !== 1 ? 's' : ''} matching the query (this is the precise number from the database):\n\n`;
     return summary + sections.join('\n\n---\n\n');
@@ -8,12 +8,15 @@
 import { RetrievedChunk, ContextBlock } from './context-builder';
 
 export interface Evidence {
-  sourceType: 'product' | 'page' | 'policy';
+  sourceType: 'product' | 'variation' | 'page' | 'policy' | 'faq' | 'document';
   sourceId: string;
+  parentId?: string; // Parent product ID of a variation
+  variation?: string; // Variation label
   chunkIds: string[];
   score: number; // Similarity score (0-1)
   title?: string;
   url?: string;
+  section?: string; // Section heading of the best matching chunk (pages/policies)
   sourceUpdatedAt?: string;
 }
 
@@ -24,10 +27,13 @@ export function buildEvidence(contextBlocks: ContextBlock[]): Evidence[] {
   return contextBlocks.map((block) => ({
     sourceType: block.sourceType,
     sourceId: block.sourceId,
+    parentId: block.parentId,
+    variation: block.variation,
     chunkIds: block.chunkIds,
     score: block.similarity,
     title: block.title,
     url: block.url,
+    section: block.section,
     sourceUpdatedAt: block.sourceUpdatedAt,
   }));
 }
@@ -66,6 +72,7 @@ export function buildEvidenceFromChunks(chunks: RetrievedChunk[]): Evidence[] {
         metadata.title ||
         undefined,
       url: metadata.product_url || metadata.page_url || metadata.url || undefined,
+      section: metadata.section_heading || undefined,
       sourceUpdatedAt: metadata.source_updated_at || undefined,
     });
   }
@@ -0,0 +1,43 @@
+/**
+ * Knowledge exclusions
+ *
+ * Entities excluded from the knowledge base browser (knowledge_exclusions) stay
+ * indexed but must never be retrieved. The search RPCs skip them in SQL; the
+ * direct-query fallback in ./retrieval filters them with these helpers.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+
+/**
+ * "type:id" keys of the excluded entities of a site
+ */
+export async function loadExcludedEntities(siteId: string): Promise<Set<string>> {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin
+    .from('knowledge_exclusions')
+    .select('entity_type, entity_id')
+    .eq('site_id', siteId);
+
+  if (error) {
+    throw new Error(`Failed to load knowledge exclusions: ${error.message}`);
+  }
+
+  return new Set(
+    ((data || []) as Array<{ entity_type: string; entity_id: string }>).map(
+      (row) => `${row.entity_type}:${row.entity_id}`
+    )
+  );
+}
+
+/**
+ * Whether a chunk belongs to an excluded entity (a variation is excluded with its product)
+ */
+export function isExcludedChunk(
+  excluded: Set<string>,
+  entityType: string,
+  entityId: string,
+  metadata: Record<string, any> | null | undefined
+): boolean {
+  if (excluded.has(`${entityType}:${entityId}`)) return true;
+  return entityType === 'variation' && metadata?.product_id != null && excluded.has(`product:${metadata.product_id}`);
+}
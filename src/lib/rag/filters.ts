@@ -0,0 +1,256 @@
+/**
+ * Structured product filters
+ *
+ * Ingestion stores product facets (categories, brand, attributes, price range,
+ * stock status) in embeddings.metadata.facets. Retrieval can restrict product
+ * chunks with a ProductFilters object; filtering runs inside the search RPCs
+ * (see embedding_matches_filters) so topK is filled with matching products.
+ *
+ * Variation chunks carry facets narrowed to their own price, stock and attribute values.
+ * Non-product chunks and products ingested before facets existed are never filtered out.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+import type { ProductCard, ProductVariation } from '@/lib/wordpress/client';
+
+/**
+ * Filter DSL accepted by RetrievalOptions
+ * Text values are matched case-insensitively against normalized facet values
+ */
+export interface ProductFilters {
+  priceMin?: number;
+  priceMax?: number;
+  inStockOnly?: boolean;
+  categories?: string[]; // Any of
+  brands?: string[]; // Any of
+  attributes?: Record<string, string[]>; // Every attribute must match any of its values
+}
+
+/**
+ * Facets persisted in embeddings.metadata.facets for product chunks
+ */
+export interface ProductFacets {
+  categories: string[];
+  tags: string[];
+  brand: string | null;
+  attributes: Record<string, string[]>;
+  price_min: number | null;
+  price_max: number | null;
+  currency: string | null;
+  stock_status: string;
+}
+
+/**
+ * Distinct facet values of a site (vocabulary for filter extraction)
+ */
+export interface FacetVocabulary {
+  categories: string[];
+  brands: string[];
+  attributes: Record<string, string[]>;
+}
+
+const VOCABULARY_CACHE_TTL_MS = 10 * 60 * 1000;
+const vocabularyCache = new Map<string, { vocabulary: FacetVocabulary; expiresAt: number }>();
+
+export function normalizeFacetValue(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * WooCommerce global attributes are keyed "pa_color"; local ones use the label
+ */
+export function normalizeAttributeName(name: string): string {
+  return normalizeFacetValue(name).replace(/^pa_/, '');
+}
+
+function normalizeValues(values: string[] | undefined): string[] {
+  if (!values) return [];
+  return Array.from(new Set(values.map(normalizeFacetValue).filter((value) => value.length > 0)));
+}
+
+/**
+ * Build facets from product card data (stored with every chunk of the product)
+ */
+export function buildProductFacets(product: ProductCard): ProductFacets {
+  const attributes: Record<string, string[]> = {};
+  for (const [name, values] of Object.entries(product.attributes || {})) {
+    const normalized = normalizeValues(values);
+    if (normalized.length > 0) {
+      attributes[normalizeAttributeName(name)] = normalized;
+    }
+  }
+
+  return {
+    categories: normalizeValues(product.categories),
+    tags: normalizeValues(product.tags),
+    brand: product.brand ? normalizeFacetValue(product.brand) : null,
+    attributes,
+    price_min: product.price_range ? product.price_range.min : null,
+    price_max: product.price_range ? product.price_range.max : null,
+    currency: product.price_range?.currency || null,
+    stock_status: product.stock_status,
+  };
+}
+
+/**
+ * Build facets for a variation from its parent product's facets
+ * Attributes fixed by the variation replace the product's value lists; "any" attributes keep them
+ */
+export function buildVariationFacets(productFacets: ProductFacets, variation: ProductVariation): ProductFacets {
+  const attributes: Record<string, string[]> = { ...productFacets.attributes };
+  for (const [name, value] of Object.entries(variation.attributes || {})) {
+    const normalized = normalizeFacetValue(value || '');
+    if (normalized) {
+      attributes[normalizeAttributeName(name)] = [normalized];
+    }
+  }
+
+  return {
+    ...productFacets,
+    attributes,
+    price_min: variation.price,
+    price_max: variation.price,
+    stock_status: variation.stock_status,
+  };
+}
+
+/**
+ * Normalize filters and drop empty parts
+ * Returns undefined when nothing is left to filter on
+ */
+export function normalizeProductFilters(filters?: ProductFilters | null): ProductFilters | undefined {
+  if (!filters) return undefined;
+
+  const normalized: ProductFilters = {};
+
+  if (typeof filters.priceMin === 'number' && isFinite(filters.priceMin) && filters.priceMin > 0) {
+    normalized.priceMin = filters.priceMin;
+  }
+  if (typeof filters.priceMax === 'number' && isFinite(filters.priceMax) && filters.priceMax > 0) {
+    normalized.priceMax = filters.priceMax;
+  }
+  if (filters.inStockOnly === true) {
+    normalized.inStockOnly = true;
+  }
+
+  const categories = normalizeValues(filters.categories);
+  if (categories.length > 0) normalized.categories = categories;
+
+  const brands = normalizeValues(filters.brands);
+  if (brands.length > 0) normalized.brands = brands;
+
+  const attributes: Record<string, string[]> = {};
+  for (const [name, values] of Object.entries(filters.attributes || {})) {
+    const normalizedValues = normalizeValues(values);
+    if (normalizedValues.length > 0) {
+      attributes[normalizeAttributeName(name)] = normalizedValues;
+    }
+  }
+  if (Object.keys(attributes).length > 0) normalized.attributes = attributes;
+
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Convert filters to the p_filters JSON accepted by the search RPCs
+ */
+export function toRpcFilters(filters?: ProductFilters): Record<string, unknown> | null {
+  const normalized = normalizeProductFilters(filters);
+  if (!normalized) return null;
+
+  return {
+    price_min: normalized.priceMin ?? null,
+    price_max: normalized.priceMax ?? null,
+    in_stock_only: normalized.inStockOnly ?? false,
+    categories: normalized.categories ?? [],
+    brands: normalized.brands ?? [],
+    attributes: normalized.attributes ?? {},
+  };
+}
+
+/**
+ * In-app equivalent of embedding_matches_filters
+ * Used for the direct query fallback, where the RPC filter does not run
+ */
+export function chunkMatchesFilters(
+  entityType: string,
+  metadata: Record<string, any> | null | undefined,
+  filters?: ProductFilters
+): boolean {
+  const normalized = normalizeProductFilters(filters);
+  const facets: ProductFacets | undefined = metadata?.facets;
+
+  if (!normalized || (entityType !== 'product' && entityType !== 'variation') || !facets) {
+    return true;
+  }
+
+  if (normalized.priceMin !== undefined && !(facets.price_max !== null && facets.price_max >= normalized.priceMin)) {
+    return false;
+  }
+  if (normalized.priceMax !== undefined && !(facets.price_min !== null && facets.price_min <= normalized.priceMax)) {
+    return false;
+  }
+  if (normalized.inStockOnly && facets.stock_status !== 'instock') {
+    return false;
+  }
+  if (normalized.categories && !normalized.categories.some((value) => facets.categories?.includes(value))) {
+    return false;
+  }
+  if (normalized.brands && !(facets.brand && normalized.brands.includes(facets.brand))) {
+    return false;
+  }
+  for (const [name, values] of Object.entries(normalized.attributes || {})) {
+    const productValues = facets.attributes?.[name] || [];
+    if (!values.some((value) => productValues.includes(value))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Load distinct facet values for a site (cached per site for 10 minutes)
+ * Returns an empty vocabulary on error
+ */
+export async function loadFacetVocabulary(siteId: string, tenantId: string): Promise<FacetVocabulary> {
+  const cached = vocabularyCache.get(siteId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.vocabulary;
+  }
+
+  const vocabulary: FacetVocabulary = { categories: [], brands: [], attributes: {} };
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const { data, error } = await supabaseAdmin.rpc('get_product_facet_values', {
+      p_tenant_id: tenantId,
+      p_site_id: siteId,
+    });
+
+    if (error) {
+      console.error('[RAG Filters] Failed to load facet values:', error.message);
+      return vocabulary;
+    }
+
+    for (const row of (data || []) as Array<{ facet: string; value: string }>) {
+      if (row.facet === 'category') {
+        vocabulary.categories.push(row.value);
+      } else if (row.facet === 'brand') {
+        vocabulary.brands.push(row.value);
+      } else if (row.facet.startsWith('attribute:')) {
+        const name = row.facet.substring('attribute:'.length);
+        if (!vocabulary.attributes[name]) {
+          vocabulary.attributes[name] = [];
+        }
+        vocabulary.attributes[name].push(row.value);
+      }
+    }
+  } catch (error: any) {
+    console.error('[RAG Filters] Exception loading facet values:', error.message);
+    return vocabulary;
+  }
+
+  vocabularyCache.set(siteId, { vocabulary, expiresAt: Date.now() + VOCABULARY_CACHE_TTL_MS });
+  return vocabulary;
+}
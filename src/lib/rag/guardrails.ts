@@ -6,7 +6,7 @@
  * - Prevent cross-tenant leakage by construction
  */
 
-export type AllowedSourceType = 'product' | 'page' | 'policy';
+export type AllowedSourceType = 'product' | 'variation' | 'page' | 'policy' | 'faq' | 'document';
 
 export interface RetrievalPolicy {
   allowedSourceTypes: AllowedSourceType[];
@@ -17,7 +17,7 @@ export interface RetrievalPolicy {
  * Default retrieval policy
  */
 export const DEFAULT_RETRIEVAL_POLICY: RetrievalPolicy = {
-  allowedSourceTypes: ['product', 'page', 'policy'],
+  allowedSourceTypes: ['product', 'variation', 'page', 'policy', 'faq', 'document'],
   requireExplicitAllowlist: true,
 };
 
@@ -80,7 +80,7 @@ export function sanitizeSourceTypes(
   return requestedTypes
     .filter((type): type is AllowedSourceType => {
       return (
-        (type === 'product' || type === 'page' || type === 'policy') &&
+        (type === 'product' || type === 'variation' || type === 'page' || type === 'policy' || type === 'faq' || type === 'document') &&
         policy.allowedSourceTypes.includes(type as AllowedSourceType)
       );
     })
@@ -104,7 +104,7 @@ export function createStrictPolicy(
  */
 export function createPermissivePolicy(): RetrievalPolicy {
   return {
-    allowedSourceTypes: ['product', 'page', 'policy'],
+    allowedSourceTypes: ['product', 'variation', 'page', 'policy', 'faq', 'document'],
     requireExplicitAllowlist: false,
   };
 }
@@ -9,6 +9,9 @@ export * from './context-builder';
 export * from './evidence';
 export * from './prompts';
 export * from './guardrails';
+export * from './rerank';
+export * from './filters';
+export * from './variations';
 
 /**
  * Complete RAG pipeline function
@@ -23,13 +26,23 @@ export interface RAGPipelineOptions {
   tenantId: string;
   siteId: string;
   queryText: string;
+  retrievalQuery?: string; // Query used for retrieval/rerank (e.g. rewritten standalone query), default: queryText
   topK?: number;
   similarityThreshold?: number;
-  allowedSourceTypes?: ('product' | 'page' | 'policy')[];
+  allowedSourceTypes?: ('product' | 'variation' | 'page' | 'policy' | 'faq' | 'document')[];
   maxContextTokens?: number;
   maxChunksPerSource?: number;
   maxSources?: number;
   model?: string;
+  index?: import('@/lib/embeddings/indexes').EmbeddingIndexTarget; // Default: the site's active index
+  retrievalMode?: import('./retrieval').RetrievalMode;
+  rerank?: {
+    enabled: boolean; // Over-fetch candidates and rescore with the LLM reranker
+    candidates?: number; // Chunks to over-fetch, default: 40
+  };
+  sourcePriority?: import('./rerank').SourcePriority;
+  recencyBias?: boolean;
+  filters?: import('./filters').ProductFilters; // Structured product filters
 }
 
 export interface RAGPipelineResult {
@@ -62,6 +75,10 @@ export async function runRAGPipeline(
     validateRetrievalRequest,
     sanitizeSourceTypes,
   } = await import('./guardrails');
+  const {
+    rerankChunks,
+    createLLMRerankScorer,
+  } = await import('./rerank');
 
   // Validate and sanitize source types
   const sanitizedTypes = sanitizeSourceTypes(
@@ -77,15 +94,37 @@ export async function runRAGPipeline(
     throw new Error(`Retrieval validation failed: ${validation.error}`);
   }
 
-  // Retrieve chunks
-  const chunks = await retrieveChunks({
+  const topK = options.topK ?? 10;
+  const retrievalQuery = options.retrievalQuery || options.queryText;
+  const rerankEnabled = options.rerank?.enabled === true;
+
+  // Retrieve chunks (over-fetch when the reranker will pick the best N)
+  const candidates = await retrieveChunks({
     tenantId: options.tenantId,
     siteId: options.siteId,
-    queryText: options.queryText,
-    topK: options.topK,
+    queryText: retrievalQuery,
+    topK: rerankEnabled ? Math.max(options.rerank?.candidates ?? 40, topK) : topK,
     similarityThreshold: options.similarityThreshold,
     allowedSourceTypes: validation.allowedTypes,
     model: options.model,
+    index: options.index,
+    mode: options.retrievalMode,
+    filters: options.filters,
+  });
+
+  // Rerank: LLM relevance when enabled, otherwise retrieval similarity
+  // Source priority and recency bias apply either way
+  let scorer: import('./rerank').RerankScorer | undefined;
+  if (rerankEnabled && candidates.length > 0) {
+    const { getLLMProvider } = await import('@/lib/llm');
+    scorer = createLLMRerankScorer(await getLLMProvider(options.siteId));
+  }
+
+  const chunks = await rerankChunks(retrievalQuery, candidates, {
+    topN: topK,
+    scorer,
+    sourcePriority: options.sourcePriority,
+    recencyBias: options.recencyBias,
   });
 
   // Build context blocks
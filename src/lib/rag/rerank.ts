@@ -0,0 +1,181 @@
+/**
+ * Rerank stage
+ *
+ * Rescores retrieved chunks against the query before context building:
+ * - Pluggable relevance scorer (LLM-judged relevance or retrieval similarity)
+ * - Source priority weights (KnowledgeSettings.source_priority)
+ * - Recency boost for recently updated sources (KnowledgeSettings.recency_bias)
+ *
+ * The final score is stored in `rerankScore`; context building orders by it
+ */
+
+import { completeChatJSON, type LLMProvider } from '@/lib/llm';
+import type { RetrievedChunk } from './retrieval';
+
+/**
+ * Relevance scorer
+ * Returns one relevance score (0-1) per chunk, in input order
+ */
+export interface RerankScorer {
+  name: string;
+  score(queryText: string, chunks: RetrievedChunk[]): Promise<number[]>;
+}
+
+export interface SourcePriority {
+  product?: number;
+  page?: number;
+  policy?: number;
+  faq?: number;
+  document?: number;
+}
+
+export interface RerankOptions {
+  topN: number; // Chunks to keep after reranking
+  scorer?: RerankScorer; // Default: similarity scorer
+  sourcePriority?: SourcePriority; // Multiplier per source type, default 1.0
+  recencyBias?: boolean;
+}
+
+/**
+ * Recency boost: up to +15% for content updated today, halving every 30 days
+ */
+const RECENCY_MAX_BOOST = 0.15;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+/**
+ * LLM scorer limits
+ */
+const LLM_RERANK_PASSAGE_CHARS = 500;
+const LLM_RERANK_TIMEOUT_MS = 10000;
+
+/**
+ * Scorer that keeps retrieval similarity as relevance
+ * Used when no reranker is configured, so priority/recency still apply
+ */
+export const similarityScorer: RerankScorer = {
+  name: 'similarity',
+  async score(_queryText, chunks) {
+    return chunks.map((chunk) => chunk.similarity);
+  },
+};
+
+/**
+ * LLM-judged relevance scorer
+ *
+ * Sends all candidate passages in a single request and asks for a 0-10 score each.
+ * Falls back to retrieval similarity if the call fails, times out or returns malformed output.
+ */
+export function createLLMRerankScorer(provider: LLMProvider, model?: string): RerankScorer {
+  return {
+    name: `llm:${model || provider.chatModel}`,
+    async score(queryText, chunks) {
+      if (chunks.length === 0) {
+        return [];
+      }
+
+      const passages = chunks
+        .map((chunk, index) => {
+          const text = chunk.contentText.replace(/\s+/g, ' ').trim().substring(0, LLM_RERANK_PASSAGE_CHARS);
+          return `[${index}] ${text}`;
+        })
+        .join('\n\n');
+
+      try {
+        const response = await completeChatJSON<{ scores?: unknown }>(
+          provider,
+          {
+            model,
+            temperature: 0,
+            maxTokens: 20 + chunks.length * 4,
+            messages: [
+              {
+                role: 'system',
+                content:
+                  'You rate how relevant each passage is for answering a customer question in an online store. ' +
+                  'Score every passage from 0 (irrelevant) to 10 (directly answers the question). ' +
+                  'Respond only with JSON: {"scores": [score for passage 0, score for passage 1, ...]}',
+              },
+              {
+                role: 'user',
+                content: `Question: ${queryText}\n\nPassages:\n${passages}`,
+              },
+            ],
+          },
+          { timeoutMs: LLM_RERANK_TIMEOUT_MS }
+        );
+        const scores = response?.scores;
+
+        if (!Array.isArray(scores) || scores.length !== chunks.length) {
+          throw new Error('Reranker returned malformed scores');
+        }
+
+        return scores.map((value, index) => {
+          const score = typeof value === 'number' ? value : parseFloat(String(value));
+          return isNaN(score) ? chunks[index].similarity : Math.min(Math.max(score / 10, 0), 1);
+        });
+      } catch (error) {
+        console.warn('[RAG Rerank] LLM reranker failed, using retrieval similarity', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          candidates: chunks.length,
+        });
+        return chunks.map((chunk) => chunk.similarity);
+      }
+    },
+  };
+}
+
+/**
+ * Recency multiplier for a chunk (1.0 when no date is known)
+ */
+function recencyMultiplier(chunk: RetrievedChunk, now: number): number {
+  const updatedAt = chunk.metadata.source_updated_at || chunk.updatedAt;
+  const timestamp = updatedAt ? new Date(updatedAt).getTime() : NaN;
+  if (isNaN(timestamp)) {
+    return 1;
+  }
+
+  const ageDays = Math.max(0, (now - timestamp) / (1000 * 60 * 60 * 24));
+  return 1 + RECENCY_MAX_BOOST * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * Rerank chunks and keep the best N
+ */
+export async function rerankChunks(
+  queryText: string,
+  chunks: RetrievedChunk[],
+  options: RerankOptions
+): Promise<RetrievedChunk[]> {
+  const { topN, scorer = similarityScorer, sourcePriority, recencyBias = false } = options;
+
+  if (chunks.length === 0) {
+    return [];
+  }
+
+  const startTime = Date.now();
+  const relevanceScores = await scorer.score(queryText, chunks);
+  const now = Date.now();
+
+  const reranked = chunks.map((chunk, index) => {
+    // Variations are ranked with their parent product
+    const priority = sourcePriority?.[chunk.entityType === 'variation' ? 'product' : chunk.entityType] ?? 1;
+    const recency = recencyBias ? recencyMultiplier(chunk, now) : 1;
+    return {
+      ...chunk,
+      rerankScore: (relevanceScores[index] ?? chunk.similarity) * priority * recency,
+    };
+  });
+
+  reranked.sort((a, b) => b.rerankScore - a.rerankScore);
+  const kept = reranked.slice(0, topN);
+
+  console.log('[RAG Rerank] Rerank completed', {
+    scorer: scorer.name,
+    candidates: chunks.length,
+    kept: kept.length,
+    recency_bias: recencyBias,
+    latency_ms: Date.now() - startTime,
+  });
+
+  return kept;
+}
@@ -4,12 +4,34 @@
  * Performs vector similarity search with tenant/site isolation
  * and filtering for deleted/disabled sources
  * 
+ * Supports keyword (Postgres full-text) and hybrid retrieval, where vector and
+ * keyword results are fused with reciprocal rank fusion (RRF)
+ * 
+ * Product chunks can be restricted with structured filters (price, stock,
+ * category, brand, attributes) - see ./filters
+ * 
+ * Searches the site's active embedding index (see @/lib/embeddings/indexes)
+ * with the model that index was built with
+ * 
+ * Entities excluded in the knowledge base browser are never returned (see ./exclusions)
+ * 
  * Uses Supabase Admin client with RPC calls for pgvector operations
  * This avoids pooler authentication issues with direct Postgres connections
  */
 
 import { createAdminClient } from '@/lib/supabase/server';
 import { generateEmbedding } from '@/lib/embeddings/openai';
+import { getLLMProvider } from '@/lib/llm';
+import { getActiveEmbeddingIndex, type EmbeddingIndexTarget } from '@/lib/embeddings/indexes';
+import { chunkMatchesFilters, toRpcFilters, type ProductFilters } from './filters';
+import { loadExcludedEntities, isExcludedChunk } from './exclusions';
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+/**
+ * RRF constant (standard value from Cormack et al.)
+ */
+const RRF_K = 60;
 
 export interface RetrievalOptions {
   tenantId: string;
@@ -17,20 +39,29 @@ export interface RetrievalOptions {
   queryText: string;
   topK?: number; // Default: 10
   similarityThreshold?: number; // Minimum cosine similarity (0-1), default: 0.5
-  allowedSourceTypes?: ('product' | 'page' | 'policy')[]; // Default: all
-  model?: string; // Embedding model, default: 'text-embedding-3-small'
+  allowedSourceTypes?: ('product' | 'variation' | 'page' | 'policy' | 'faq' | 'document')[]; // Default: product, page, policy
+  model?: string; // Embedding model for sites without an index model, default: site LLM provider embedding model
+  index?: EmbeddingIndexTarget; // Embedding index to search, default: the site's active index
+  mode?: RetrievalMode; // Default: 'vector'
+  filters?: ProductFilters; // Structured product filters, default: none
 }
 
 export interface RetrievedChunk {
   id: string;
   siteId: string;
   tenantId: string;
-  entityType: 'product' | 'page' | 'policy';
+  entityType: 'product' | 'variation' | 'page' | 'policy' | 'faq' | 'document';
   entityId: string;
   contentText: string;
   chunkIndex: number;
   chunkHash: string;
-  similarity: number; // Cosine similarity score (0-1)
+  similarity: number; // Cosine similarity (vector mode) or normalized RRF score (keyword/hybrid mode), 0-1
+  matchSource?: 'vector' | 'keyword' | 'both'; // Which search path(s) returned this chunk
+  vectorSimilarity?: number; // Raw cosine similarity (when matched by vector search)
+  vectorRank?: number; // 1-based rank in vector results
+  keywordRank?: number; // 1-based rank in keyword results
+  keywordScore?: number; // ts_rank_cd score
+  rerankScore?: number; // Final score from the rerank stage (relevance x source priority x recency)
   metadata: {
     chunk_index?: number;
     chunk_hash?: string;
@@ -43,6 +74,10 @@ export interface RetrievedChunk {
     page_title?: string;
     page_url?: string;
     page_type?: string;
+    section_heading?: string; // Heading of the page section the chunk belongs to
+    faq_id?: string;
+    document_id?: string;
+    title?: string; // FAQ question or document title
     full_content_hash?: string;
     source_updated_at?: string; // If present in metadata
     [key: string]: any;
@@ -53,49 +88,47 @@ export interface RetrievedChunk {
 }
 
 /**
- * Retrieve top-k chunks using pgvector similarity search
- * 
- * Mandatory filters:
- * - tenant_id and site_id isolation
- * - Exclude deleted/disabled sources (via metadata checks)
- * - Source type allowlist
+ * Map a search_embeddings / search_embeddings_keyword row to RetrievedChunk
  */
-export async function retrieveChunks(
-  options: RetrievalOptions
-): Promise<RetrievedChunk[]> {
-  const {
-    tenantId,
-    siteId,
-    queryText,
-    topK = 10,
-    similarityThreshold = 0.5,
-    allowedSourceTypes = ['product', 'page', 'policy'],
-    model = 'text-embedding-3-small',
-  } = options;
-
-  // Validate tenantId and siteId (required for tenant/site isolation)
-  if (!tenantId || !siteId) {
-    throw new Error('tenantId and siteId are required for retrieval');
-  }
-
-  // Validate UUID format (PostgreSQL requires UUID type)
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  if (!uuidRegex.test(tenantId)) {
-    throw new Error(`Invalid tenantId format: expected UUID, got ${tenantId}`);
-  }
-  if (!uuidRegex.test(siteId)) {
-    throw new Error(`Invalid siteId format: expected UUID, got ${siteId}`);
-  }
+function mapRowToChunk(row: any, similarity: number): RetrievedChunk {
+  return {
+    id: row.id,
+    siteId: row.site_id,
+    tenantId: row.tenant_id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    contentText: row.content_text,
+    chunkIndex: row.metadata?.chunk_index || 0,
+    chunkHash: row.metadata?.chunk_hash || '',
+    similarity,
+    metadata: row.metadata || {},
+    version: row.version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
 
-  // NOTE: Tenant check removed because it causes "Tenant or user not found" error
-  // with Supabase pooler when using direct Postgres connection.
-  // The pooler validates tenant through username format (postgres.<project-ref>),
-  // but direct queries don't have auth.uid() so pooler rejects the connection.
-  // Tenant is already validated in route.ts before calling RAG pipeline.
-  // If tenant doesn't exist, embeddings query will return empty results (not an error).
+/**
+ * Vector similarity search (search_embeddings RPC with direct query fallback)
+ * Returns chunks ordered by similarity, before threshold filtering
+ */
+async function searchVector(params: {
+  tenantId: string;
+  siteId: string;
+  queryText: string;
+  topK: number;
+  similarityThreshold: number;
+  allowedSourceTypes: string[];
+  model?: string;
+  indexVersion: number;
+  filters?: ProductFilters;
+}): Promise<RetrievedChunk[]> {
+  const { tenantId, siteId, queryText, topK, similarityThreshold, allowedSourceTypes, model, indexVersion, filters } =
+    params;
 
-  // Generate query embedding
-  const queryEmbedding = await generateEmbedding(queryText, model);
+  // Generate query embedding with the site's provider (must match the provider used at ingestion)
+  const provider = await getLLMProvider(siteId);
+  const queryEmbedding = await generateEmbedding(queryText, model, undefined, provider);
   const queryEmbeddingArray = queryEmbedding.embedding;
 
   // DETAILED LOGGING: Before query
@@ -108,6 +141,7 @@ export async function retrieveChunks(
     top_k: topK,
     similarity_threshold: similarityThreshold,
     vector_dimensions: queryEmbeddingArray.length,
+    filters: filters || null,
   });
 
   // Use Supabase Admin client with RPC call to avoid pooler authentication issues
@@ -129,6 +163,8 @@ export async function retrieveChunks(
       p_entity_types: allowedSourceTypes,
       p_limit: topK * 2,
       p_similarity_threshold: similarityThreshold,
+      p_filters: toRpcFilters(filters),
+      p_index_version: indexVersion,
     });
     
     if (error) {
@@ -143,6 +179,7 @@ export async function retrieveChunks(
         .eq('tenant_id', tenantId)
         .eq('site_id', siteId)
         .in('entity_type', allowedSourceTypes)
+        .eq('index_version', indexVersion)
         .not('embedding', 'is', null)
         .limit(topK * 2);
       
@@ -154,7 +191,12 @@ export async function retrieveChunks(
       // Note: Direct query doesn't do vector similarity search
       // This is a fallback - results won't be sorted by relevance
       console.warn('[RAG Retrieval] Using fallback query without vector similarity');
-      result.rows = directData || [];
+      const excluded = await loadExcludedEntities(siteId);
+      result.rows = (directData || []).filter(
+        (row: any) =>
+          chunkMatchesFilters(row.entity_type, row.metadata, filters) &&
+          !isExcludedChunk(excluded, row.entity_type, row.entity_id, row.metadata)
+      );
     } else {
       result.rows = data || [];
       console.log('[RAG Retrieval] RPC call succeeded', { rows_count: result.rows.length });
@@ -172,7 +214,7 @@ export async function retrieveChunks(
 
   // Map results to RetrievedChunk format
   // Note: Function returns similarity already calculated, direct query returns distance
-  const chunks: RetrievedChunk[] = result.rows.map((row: any) => {
+  const chunks: RetrievedChunk[] = result.rows.map((row: any, index: number) => {
     // If using function, similarity is already calculated
     // If using direct query, calculate similarity from distance
     let similarity: number;
@@ -186,19 +228,10 @@ export async function retrieveChunks(
     }
 
     return {
-      id: row.id,
-      siteId: row.site_id,
-      tenantId: row.tenant_id,
-      entityType: row.entity_type,
-      entityId: row.entity_id,
-      contentText: row.content_text,
-      chunkIndex: row.metadata?.chunk_index || 0,
-      chunkHash: row.metadata?.chunk_hash || '',
-      similarity,
-      metadata: row.metadata || {},
-      version: row.version,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      ...mapRowToChunk(row, similarity),
+      matchSource: 'vector' as const,
+      vectorSimilarity: similarity,
+      vectorRank: index + 1,
     };
   });
 
@@ -235,19 +268,205 @@ export async function retrieveChunks(
     });
   }
 
-  // Filter by similarity threshold and limit
-  const filteredChunks = chunks
-    .filter((chunk) => chunk.similarity >= similarityThreshold)
-    .slice(0, topK);
-  
+  return chunks;
+}
+
+/**
+ * Keyword search (search_embeddings_keyword RPC, Postgres full-text search)
+ * Returns an empty list if keyword search is unavailable, so hybrid mode degrades to vector only
+ */
+async function searchKeyword(params: {
+  tenantId: string;
+  siteId: string;
+  queryText: string;
+  topK: number;
+  allowedSourceTypes: string[];
+  indexVersion: number;
+  filters?: ProductFilters;
+}): Promise<RetrievedChunk[]> {
+  const { tenantId, siteId, queryText, topK, allowedSourceTypes, indexVersion, filters } = params;
+  const supabaseAdmin = createAdminClient();
+
+  try {
+    const { data, error } = await supabaseAdmin.rpc('search_embeddings_keyword', {
+      p_query_text: queryText,
+      p_tenant_id: tenantId,
+      p_site_id: siteId,
+      p_entity_types: allowedSourceTypes,
+      p_limit: topK * 2,
+      p_filters: toRpcFilters(filters),
+      p_index_version: indexVersion,
+    });
+
+    if (error) {
+      console.error('[RAG Retrieval] Keyword search RPC failed:', error.message);
+      return [];
+    }
+
+    const rows: any[] = data || [];
+    console.log('[RAG Retrieval] Keyword search succeeded', { rows_count: rows.length });
+
+    return rows.map((row, index) => ({
+      ...mapRowToChunk(row, 0),
+      matchSource: 'keyword' as const,
+      keywordRank: index + 1,
+      keywordScore: parseFloat(row.rank) || 0,
+    }));
+  } catch (error: any) {
+    console.error('[RAG Retrieval] Exception during keyword search:', error.message);
+    return [];
+  }
+}
+
+/**
+ * Fuse ranked result lists with reciprocal rank fusion
+ * 
+ * score = sum over lists of 1 / (RRF_K + rank), normalized to 0-1 so that a chunk
+ * ranked first in every non-empty list scores 1. The normalized score becomes
+ * the chunk similarity used by context building and evidence.
+ */
+export function fuseWithRRF(resultLists: RetrievedChunk[][]): RetrievedChunk[] {
+  const nonEmptyLists = resultLists.filter((list) => list.length > 0);
+  if (nonEmptyLists.length === 0) {
+    return [];
+  }
+
+  const maxScore = nonEmptyLists.length / (RRF_K + 1);
+  const fused = new Map<string, { chunk: RetrievedChunk; score: number }>();
+
+  for (const list of nonEmptyLists) {
+    list.forEach((chunk, index) => {
+      const score = 1 / (RRF_K + index + 1);
+      const existing = fused.get(chunk.id);
+
+      if (!existing) {
+        fused.set(chunk.id, { chunk: { ...chunk }, score });
+        return;
+      }
+
+      existing.score += score;
+      existing.chunk = {
+        ...existing.chunk,
+        matchSource: existing.chunk.matchSource === chunk.matchSource ? chunk.matchSource : 'both',
+        vectorSimilarity: existing.chunk.vectorSimilarity ?? chunk.vectorSimilarity,
+        vectorRank: existing.chunk.vectorRank ?? chunk.vectorRank,
+        keywordRank: existing.chunk.keywordRank ?? chunk.keywordRank,
+        keywordScore: existing.chunk.keywordScore ?? chunk.keywordScore,
+      };
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .map(({ chunk, score }) => ({
+      ...chunk,
+      similarity: Math.min(1, score / maxScore),
+    }));
+}
+
+/**
+ * Retrieve top-k chunks using pgvector similarity search,
+ * keyword search, or both (hybrid)
+ * 
+ * Mandatory filters:
+ * - tenant_id and site_id isolation
+ * - Exclude deleted/disabled sources (via metadata checks)
+ * - Exclude entities excluded in the knowledge base browser
+ * - Source type allowlist
+ * 
+ * Optional structured product filters (options.filters)
+ * 
+ * The similarity threshold applies to vector results only; keyword matches
+ * (e.g. exact SKU) are kept even when their cosine similarity is low
+ */
+export async function retrieveChunks(
+  options: RetrievalOptions
+): Promise<RetrievedChunk[]> {
+  const {
+    tenantId,
+    siteId,
+    queryText,
+    topK = 10,
+    similarityThreshold = 0.5,
+    allowedSourceTypes = ['product', 'page', 'policy'],
+    model,
+    mode = 'vector',
+    filters,
+  } = options;
+
+  // Validate tenantId and siteId (required for tenant/site isolation)
+  if (!tenantId || !siteId) {
+    throw new Error('tenantId and siteId are required for retrieval');
+  }
+
+  // Validate UUID format (PostgreSQL requires UUID type)
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  if (!uuidRegex.test(tenantId)) {
+    throw new Error(`Invalid tenantId format: expected UUID, got ${tenantId}`);
+  }
+  if (!uuidRegex.test(siteId)) {
+    throw new Error(`Invalid siteId format: expected UUID, got ${siteId}`);
+  }
+
+  // NOTE: Tenant check removed because it causes "Tenant or user not found" error
+  // with Supabase pooler when using direct Postgres connection.
+  // The pooler validates tenant through username format (postgres.<project-ref>),
+  // but direct queries don't have auth.uid() so pooler rejects the connection.
+  // Tenant is already validated in route.ts before calling RAG pipeline.
+  // If tenant doesn't exist, embeddings query will return empty results (not an error).
+
+  // Query vectors must come from the model the searched index was built with
+  const index = options.index || (await getActiveEmbeddingIndex(siteId));
+
+  const searchParams = {
+    tenantId,
+    siteId,
+    queryText,
+    topK,
+    similarityThreshold,
+    allowedSourceTypes,
+    model: index.model || model,
+    indexVersion: index.version,
+    filters,
+  };
+
+  let filteredChunks: RetrievedChunk[];
+
+  if (mode === 'vector') {
+    const chunks = await searchVector(searchParams);
+
+    // Filter by similarity threshold and limit
+    filteredChunks = chunks
+      .filter((chunk) => chunk.similarity >= similarityThreshold)
+      .slice(0, topK);
+  } else {
+    const [vectorChunks, keywordChunks] = await Promise.all([
+      mode === 'hybrid'
+        ? searchVector(searchParams)
+            .then((chunks) => chunks.filter((chunk) => chunk.similarity >= similarityThreshold))
+            .catch((error: any) => {
+              // Keyword results are still useful if embedding generation fails
+              console.error('[RAG Retrieval] Vector search failed in hybrid mode:', error.message);
+              return [] as RetrievedChunk[];
+            })
+        : Promise.resolve([] as RetrievedChunk[]),
+      searchKeyword(searchParams),
+    ]);
+
+    filteredChunks = fuseWithRRF([vectorChunks, keywordChunks]).slice(0, topK);
+  }
+
   // DETAILED LOGGING: Final filtered chunks
   console.log('[RAG Retrieval] Final filtered chunks - DIAGNOSTIC LOG', {
     query_text: queryText,
+    retrieval_mode: mode,
+    filters: filters || null,
     filtered_chunks_count: filteredChunks.length,
     filtered_chunks: filteredChunks.map((c) => ({
       entity_type: c.entityType,
       entity_id: c.entityId,
       similarity: c.similarity,
+      match_source: c.matchSource,
       product_id: c.metadata.product_id,
       product_title: c.metadata.product_title,
       sku: c.metadata.sku,
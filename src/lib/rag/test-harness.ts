@@ -4,9 +4,32 @@
  * Dev-only script to test:
  * query → retrieval → context build
  * Prints selected chunks + evidence
+ *
+ * compareEmbeddingIndexes runs the same pipeline against two embedding indexes
+ * (used before an embedding model migration is switched over)
  */
 
-import { runRAGPipeline, RAGPipelineOptions } from './index';
+import { runRAGPipeline, RAGPipelineOptions, RAGPipelineResult } from './index';
+import type { RetrievedChunk, RetrievalMode } from './retrieval';
+import type { EmbeddingIndexTarget, EmbeddingIndexEvaluation } from '@/lib/embeddings/indexes';
+
+/**
+ * Describe which retrieval path(s) matched a chunk
+ * e.g. "vector (#1, 82.10%) + keyword (#3)"
+ */
+function describeMatch(chunk: RetrievedChunk): string {
+  const parts: string[] = [];
+  if (chunk.vectorRank !== undefined) {
+    const similarity = chunk.vectorSimilarity !== undefined
+      ? `, ${(chunk.vectorSimilarity * 100).toFixed(2)}%`
+      : '';
+    parts.push(`vector (#${chunk.vectorRank}${similarity})`);
+  }
+  if (chunk.keywordRank !== undefined) {
+    parts.push(`keyword (#${chunk.keywordRank}, rank ${(chunk.keywordScore || 0).toFixed(4)})`);
+  }
+  return parts.length > 0 ? parts.join(' + ') : chunk.matchSource || 'vector';
+}
 
 /**
  * Test RAG pipeline with a query
@@ -26,6 +49,7 @@ export async function testRAGPipeline(options: RAGPipelineOptions) {
   console.log(`Query: "${options.queryText}"`);
   console.log(`Tenant ID: ${options.tenantId}`);
   console.log(`Site ID: ${options.siteId}`);
+  console.log(`Retrieval Mode: ${options.retrievalMode || 'vector'}`);
   console.log('='.repeat(60));
   console.log();
 
@@ -39,6 +63,14 @@ export async function testRAGPipeline(options: RAGPipelineOptions) {
     console.log(`✅ Retrieval completed in ${duration}ms`);
     console.log();
 
+    // Print match path summary
+    const matchCounts = { vector: 0, keyword: 0, both: 0 };
+    result.chunks.forEach((chunk) => {
+      matchCounts[chunk.matchSource || 'vector']++;
+    });
+    console.log(`🔀 Match Paths: vector only ${matchCounts.vector}, keyword only ${matchCounts.keyword}, both ${matchCounts.both}`);
+    console.log();
+
     // Print retrieved chunks
     console.log(`📦 Retrieved Chunks (${result.chunks.length}):`);
     console.log('-'.repeat(60));
@@ -46,6 +78,7 @@ export async function testRAGPipeline(options: RAGPipelineOptions) {
       console.log(`\n[${index + 1}] Chunk ID: ${chunk.id}`);
       console.log(`    Source: ${chunk.entityType}:${chunk.entityId}`);
       console.log(`    Similarity: ${(chunk.similarity * 100).toFixed(2)}%`);
+      console.log(`    Matched By: ${describeMatch(chunk)}`);
       console.log(`    Chunk Index: ${chunk.chunkIndex}`);
       console.log(`    Content Preview: ${chunk.contentText.substring(0, 100)}...`);
       if (chunk.metadata.product_title) {
@@ -115,7 +148,8 @@ export async function testRAGPipeline(options: RAGPipelineOptions) {
 export async function quickTest(
   tenantId: string,
   siteId: string,
-  queryText: string
+  queryText: string,
+  retrievalMode: RetrievalMode = 'vector'
 ) {
   return testRAGPipeline({
     tenantId,
@@ -126,5 +160,63 @@ export async function quickTest(
     maxContextTokens: 4000,
     maxChunksPerSource: 3,
     maxSources: 5,
+    retrievalMode,
   });
 }
+
+function summarizeSources(result: RAGPipelineResult): { sources: string[]; best_similarity: number | null } {
+  return {
+    sources: result.evidence.map((ev) => `${ev.sourceType}:${ev.sourceId}`),
+    best_similarity: result.chunks.length > 0
+      ? Math.max(...result.chunks.map((chunk) => chunk.similarity))
+      : null,
+  };
+}
+
+/**
+ * Compare two embedding indexes on the same queries
+ * Records the cited sources per index and how many of the active index's sources
+ * the candidate index also finds
+ */
+export async function compareEmbeddingIndexes(
+  options: Omit<RAGPipelineOptions, 'queryText' | 'index'>,
+  queries: string[],
+  active: EmbeddingIndexTarget,
+  candidate: EmbeddingIndexTarget
+): Promise<EmbeddingIndexEvaluation> {
+  const results: EmbeddingIndexEvaluation['queries'] = [];
+
+  for (const query of queries) {
+    const [activeResult, candidateResult] = await Promise.all([
+      runRAGPipeline({ ...options, queryText: query, index: active }),
+      runRAGPipeline({ ...options, queryText: query, index: candidate }),
+    ]);
+
+    const activeSources = summarizeSources(activeResult);
+    const candidateSources = summarizeSources(candidateResult);
+    const shared = activeSources.sources.filter((source) => candidateSources.sources.includes(source)).length;
+
+    results.push({
+      query,
+      active: activeSources,
+      candidate: candidateSources,
+      // Nothing to lose when the active index finds nothing
+      overlap: activeSources.sources.length > 0 ? shared / activeSources.sources.length : 1,
+    });
+  }
+
+  const count = results.length;
+  const average = (values: number[]) =>
+    count > 0 ? values.reduce((sum, value) => sum + value, 0) / count : 0;
+
+  return {
+    evaluated_at: new Date().toISOString(),
+    queries: results,
+    summary: {
+      query_count: count,
+      average_overlap: average(results.map((result) => result.overlap)),
+      active_hit_rate: average(results.map((result) => (result.active.sources.length > 0 ? 1 : 0))),
+      candidate_hit_rate: average(results.map((result) => (result.candidate.sources.length > 0 ? 1 : 0))),
+    },
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Product variation matching
+ *
+ * Resolves which variation of a variable product a visitor is asking about
+ * ("the M size in black") from attribute values mentioned in the message or
+ * passed explicitly by a tool call. Used for live verification, so the answer
+ * reflects the price and stock of that exact variation.
+ */
+
+import { normalizeAttributeName, normalizeFacetValue } from './filters';
+
+export interface VariationLike {
+  id: number;
+  attributes: Record<string, string>; // Attribute label => value ("" = any value)
+}
+
+export interface VariationSelection {
+  variationId?: number;
+  attributes?: Record<string, string>; // Attribute name => requested value
+  text?: string; // Free text to scan for attribute values
+}
+
+export interface VariationMatch<T extends VariationLike> {
+  requested: Record<string, string[]>; // Normalized attribute name => requested values
+  variation: T | null; // The single matching variation, if the request is specific enough
+  candidates: T[]; // All variations compatible with the request (empty = combination not offered)
+}
+
+/**
+ * Human-readable variation label, e.g. "Black / M"
+ */
+export function formatVariationLabel(attributes: Record<string, string> | null | undefined): string {
+  return Object.values(attributes || {})
+    .filter((value) => value && value.trim().length > 0)
+    .join(' / ');
+}
+
+function tokenize(text: string): string[] {
+  return normalizeFacetValue(text)
+    .split(/[^\p{L}\p{N}']+/u)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Whole-token phrase match ("m" does not match "medium", "navy blue" needs both words)
+ */
+function containsPhrase(tokens: string[], phrase: string): boolean {
+  const phraseTokens = tokenize(phrase);
+  if (phraseTokens.length === 0) return false;
+
+  for (let i = 0; i + phraseTokens.length <= tokens.length; i++) {
+    if (phraseTokens.every((token, offset) => tokens[i + offset] === token)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Match a selection against the variations of one product
+ * Returns null when the selection names no attribute value of this product
+ */
+export function matchVariation<T extends VariationLike>(
+  variations: T[],
+  selection: VariationSelection
+): VariationMatch<T> | null {
+  if (variations.length === 0) return null;
+
+  if (selection.variationId) {
+    const variation = variations.find((item) => item.id === selection.variationId);
+    if (variation) {
+      return { requested: {}, variation, candidates: [variation] };
+    }
+  }
+
+  // Attribute vocabulary of this product: name => values offered by its variations
+  const vocabulary = new Map<string, Set<string>>();
+  for (const variation of variations) {
+    for (const [name, value] of Object.entries(variation.attributes || {})) {
+      const normalizedName = normalizeAttributeName(name);
+      if (!vocabulary.has(normalizedName)) {
+        vocabulary.set(normalizedName, new Set());
+      }
+      if (value) {
+        vocabulary.get(normalizedName)!.add(normalizeFacetValue(value));
+      }
+    }
+  }
+
+  const requested: Record<string, string[]> = {};
+
+  for (const [name, value] of Object.entries(selection.attributes || {})) {
+    const normalizedName = normalizeAttributeName(name);
+    if (value && vocabulary.has(normalizedName)) {
+      requested[normalizedName] = [normalizeFacetValue(value)];
+    }
+  }
+
+  if (selection.text) {
+    const tokens = tokenize(selection.text);
+    vocabulary.forEach((values, name) => {
+      if (requested[name]) return;
+      const mentioned = Array.from(values).filter((value) => containsPhrase(tokens, value));
+      if (mentioned.length > 0) {
+        requested[name] = mentioned;
+      }
+    });
+  }
+
+  if (Object.keys(requested).length === 0) return null;
+
+  const candidates = variations.filter((variation) => {
+    const attributes = new Map(
+      Object.entries(variation.attributes || {}).map(([name, value]) => [
+        normalizeAttributeName(name),
+        normalizeFacetValue(value || ''),
+      ])
+    );
+    return Object.entries(requested).every(([name, values]) => {
+      const value = attributes.get(name);
+      return !value || values.includes(value); // Empty value = any
+    });
+  });
+
+  return {
+    requested,
+    variation: candidates.length === 1 ? candidates[0] : null,
+    candidates,
+  };
+}
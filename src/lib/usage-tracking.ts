@@ -16,6 +16,8 @@ const MODEL_PRICING: Record<string, { prompt: number; completion: number }> = {
   'text-embedding-3-small': { prompt: 0.00002, completion: 0 },
   'text-embedding-3-large': { prompt: 0.00013, completion: 0 },
   'text-embedding-ada-002': { prompt: 0.0001, completion: 0 },
+  'fake-chat': { prompt: 0, completion: 0 },
+  'fake-embedding': { prompt: 0, completion: 0 },
 };
 
 export interface UsageEventData {
@@ -124,3 +124,40 @@ export const WP_API_RETRY_OPTIONS: RetryOptions = {
     return false;
   },
 };
+
+/**
+ * Retry options for ingesting a single entity (WordPress fetch + embeddings)
+ * Ingestion reports failures as messages, so retryability is decided on the text
+ */
+export const INGESTION_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  initialDelayMs: 1000,
+  maxDelayMs: 10000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryableErrors: (error: any) => {
+    if (error?.status === 429) return true;
+    if (error?.status >= 500 && error?.status < 600) return true;
+    const message = String(error?.message || '').toLowerCase();
+    return /timeout|timed out|network|fetch failed|econnreset|etimedout|rate limit|\b429\b|\b5\d\d\b/.test(message);
+  },
+};
+
+/**
+ * Backoff for re-running a failed ingestion job (queue-level retry)
+ */
+export const INGESTION_JOB_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 5,
+  initialDelayMs: 30000,
+  maxDelayMs: 30 * 60 * 1000,
+  backoffMultiplier: 4,
+  jitter: true,
+};
+
+/**
+ * Delay before retry number `attempt` (0-based), for callers that schedule
+ * retries themselves instead of waiting in-process (e.g. the ingestion queue)
+ */
+export function getRetryDelay(attempt: number, options: RetryOptions = {}): number {
+  return calculateDelay(attempt, { ...DEFAULT_OPTIONS, ...options });
+}
@@ -0,0 +1,163 @@
+/**
+ * Widget releases
+ *
+ * scripts/release-widget.js uploads each built bundle to the widget-releases bucket
+ * (one immutable object per release) and records it in widget_releases, with one
+ * release marked current. Releases live in Supabase so they and the site pins
+ * survive deploys. A site can pin a release (settings key 'widget'); unpinned
+ * sites get WIDGET_DEFAULT_VERSION when set, otherwise the current release.
+ * A pin to a release that is no longer available falls back to the default.
+ */
+
+import { createAdminClient } from '@/lib/supabase/server';
+
+const supabaseAdmin = createAdminClient();
+
+export const WIDGET_STORAGE_BUCKET = 'widget-releases';
+
+const VERSION_PATTERN = /^[a-f0-9]{8,64}$/;
+
+// Promotions and new releases reach every instance within this time
+const MANIFEST_CACHE_TTL_MS = 30 * 1000;
+const MAX_CACHED_BUNDLES = 5;
+
+export interface WidgetRelease {
+  version: string;
+  file: string;
+  size: number;
+  integrity: string; // Subresource integrity hash (sha384)
+  built_at: string;
+}
+
+export interface WidgetManifest {
+  current: string | null;
+  releases: WidgetRelease[]; // Newest first
+}
+
+export interface WidgetSettings {
+  version: string | null; // Pinned release, null = follow the default
+}
+
+let manifestCache: { manifest: WidgetManifest; expiresAt: number } | null = null;
+
+// Bundles never change for a version
+const bundleCache = new Map<string, string>();
+
+export function isWidgetVersion(value: unknown): value is string {
+  return typeof value === 'string' && VERSION_PATTERN.test(value);
+}
+
+/**
+ * Release list (empty when no release has been built)
+ */
+export async function loadWidgetManifest(): Promise<WidgetManifest> {
+  if (manifestCache && manifestCache.expiresAt > Date.now()) {
+    return manifestCache.manifest;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('widget_releases')
+    .select('version, file, size, integrity, is_current, built_at')
+    .order('built_at', { ascending: false });
+
+  if (error) {
+    console.error('Error loading widget releases:', error);
+    // Keep serving the last known releases while the database is unreachable
+    return manifestCache?.manifest || { current: null, releases: [] };
+  }
+
+  const rows = ((data || []) as Array<WidgetRelease & { is_current: boolean }>).filter((row) =>
+    isWidgetVersion(row.version)
+  );
+  const manifest: WidgetManifest = {
+    current: rows.find((row) => row.is_current)?.version || null,
+    releases: rows.map(({ version, file, size, integrity, built_at }) => ({ version, file, size, integrity, built_at })),
+  };
+  manifestCache = { manifest, expiresAt: Date.now() + MANIFEST_CACHE_TTL_MS };
+  return manifest;
+}
+
+/**
+ * Release used by sites without a pin
+ */
+export async function getDefaultWidgetRelease(): Promise<WidgetRelease | null> {
+  const manifest = await loadWidgetManifest();
+  const override = process.env.WIDGET_DEFAULT_VERSION;
+  const version = override && manifest.releases.some((r) => r.version === override) ? override : manifest.current;
+  return manifest.releases.find((release) => release.version === version) || null;
+}
+
+export async function getWidgetRelease(version: string): Promise<WidgetRelease | null> {
+  if (!isWidgetVersion(version)) {
+    return null;
+  }
+  const manifest = await loadWidgetManifest();
+  return manifest.releases.find((release) => release.version === version) || null;
+}
+
+/**
+ * Load widget settings for a site
+ */
+export async function loadWidgetSettings(siteId: string): Promise<WidgetSettings> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from('settings')
+      .select('value')
+      .eq('site_id', siteId)
+      .eq('key', 'widget')
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .single();
+
+    if (error || !data) {
+      return { version: null };
+    }
+
+    const value = data.value as any;
+    return { version: isWidgetVersion(value?.version) ? value.version : null };
+  } catch (error) {
+    console.error('Error loading widget settings:', error);
+    return { version: null };
+  }
+}
+
+/**
+ * Release to serve to a site: its pin when available, otherwise the default
+ */
+export async function resolveWidgetRelease(siteId: string | null): Promise<WidgetRelease | null> {
+  if (siteId) {
+    const { version } = await loadWidgetSettings(siteId);
+    const pinned = version ? await getWidgetRelease(version) : null;
+    if (pinned) {
+      return pinned;
+    }
+    if (version) {
+      console.warn('Pinned widget release not available, serving default', { site_id: siteId, version });
+    }
+  }
+  return getDefaultWidgetRelease();
+}
+
+/**
+ * Bundle contents of a release (null when the object is missing)
+ */
+export async function readWidgetBundle(release: WidgetRelease): Promise<string | null> {
+  const cached = bundleCache.get(release.version);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const { data, error } = await supabaseAdmin.storage.from(WIDGET_STORAGE_BUCKET).download(release.file);
+  if (error || !data) {
+    console.error('Error downloading widget bundle:', { version: release.version, error: error?.message });
+    return null;
+  }
+
+  const bundle = await data.text();
+  if (bundleCache.size >= MAX_CACHED_BUNDLES) {
+    bundleCache.clear();
+  }
+  bundleCache.set(release.version, bundle);
+  return bundle;
+}
@@ -38,9 +38,28 @@ export interface ProductCard {
   shipping_class?: string;
   images?: string[];
   variation_attributes?: string[];
+  variations?: ProductVariation[];
   updated_at: string;
 }
 
+/**
+ * A purchasable variation of a variable product
+ * Attributes are keyed by attribute label; an empty value means "any value"
+ */
+export interface ProductVariation {
+  id: number;
+  sku?: string;
+  attributes: Record<string, string>;
+  price: number;
+  regular_price?: number;
+  sale_price?: number | null;
+  stock_status: string;
+  stock_quantity: number | null;
+  purchasable: boolean;
+  image?: string;
+  url?: string;
+}
+
 export interface SiteContext {
   site_url: string;
   site_name: string;
@@ -63,6 +82,45 @@ export interface SiteContext {
   };
 }
 
+export interface CartAddRequest {
+  product_id: number;
+  variation_id?: number;
+  quantity: number;
+  variation?: Record<string, string>; // attribute_pa_color => value
+  visitor_id: string;
+  conversation_id?: string | null;
+}
+
+export interface OrderStatusRequest {
+  order_id: string;
+  billing_email?: string;
+  customer_token?: string; // Signed by the plugin for logged-in customers
+}
+
+export interface OrderStatus {
+  order_id: string;
+  status: string;
+  status_label: string;
+  tracking: {
+    url: string | null;
+    number: string | null;
+    carrier: string | null;
+  } | null;
+  last_update: string | null;
+  eta: string | null;
+  items: Array<{
+    name: string;
+    quantity: number;
+  }>;
+}
+
+export interface SignedBrowserRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string; // Must be sent byte-for-byte (body hash is signed)
+}
+
 export class WPAPIClient {
   private config: WPAPIClientConfig;
   private baseUrl: string;
@@ -204,10 +262,12 @@ export class WPAPIClient {
             const error = await res.json().catch(() => ({
               error: { code: 'HTTP_ERROR', message: `HTTP ${res.status}`, status: res.status },
             }));
+            // WordPress REST errors are { code, message, data: { status } }
             const err = new Error(
-              error.error?.message || `WordPress API error: ${res.status}`
+              error.error?.message || error.message || `WordPress API error: ${res.status}`
             ) as any;
             err.status = res.status;
+            err.code = error.error?.code || error.code;
             throw err;
           }
 
@@ -312,14 +372,7 @@ export class WPAPIClient {
     regular_price: number;
     stock_status: string;
     stock_quantity: number | null;
-    variations: Array<{
-      id: number;
-      attributes: Record<string, string>;
-      price: number;
-      stock_status: string;
-      stock_quantity: number | null;
-      purchasable: boolean;
-    }>;
+    variations: ProductVariation[];
     purchasable: boolean;
     updated_at: string;
   }> {
@@ -374,6 +427,37 @@ export class WPAPIClient {
     }
   }
 
+  /**
+   * Get order status for a verified customer
+   * Plugin verifies billing email or customer token (403 order_verification_failed, 404 order_not_found)
+   */
+  async getOrderStatus(request: OrderStatusRequest, requestId?: string): Promise<OrderStatus> {
+    return this.makeRequest<OrderStatus>('POST', '/order/status', request, requestId);
+  }
+
+  /**
+   * Sign a request that the visitor's browser sends to the plugin itself
+   * Used where WooCommerce state lives in the browser session (cart), so the
+   * SaaS cannot make the call server-to-server. Headers expire with the HMAC
+   * timestamp tolerance (5 minutes) and the nonce is single-use.
+   */
+  signBrowserRequest(method: string, path: string, body?: any): SignedBrowserRequest {
+    const bodyString = body ? JSON.stringify(body) : '';
+    return {
+      url: `${this.baseUrl}${this.restBasePath}ai-chat/v1${path}`,
+      method: method.toUpperCase(),
+      headers: this.generateHMACHeaders(method, path, bodyString),
+      body: bodyString,
+    };
+  }
+
+  /**
+   * Sign an add-to-cart request (POST /cart/add) for the visitor's browser
+   */
+  signAddToCartRequest(item: CartAddRequest): SignedBrowserRequest {
+    return this.signBrowserRequest('POST', '/cart/add', item);
+  }
+
   /**
    * Discover the WordPress REST API base URL by trying common paths
    * First attempts '/wp-json/', then falls back to '/index.php/wp-json/' if 404
@@ -17,6 +17,12 @@ export async function middleware(request: NextRequest) {
     pathname === '/api/chat/bootstrap' ||
     pathname === '/api/chat/message' ||
     pathname === '/api/chat/events' ||
+    pathname === '/api/chat/cart' ||
+    pathname === '/api/chat/handoff' ||
+    pathname === '/api/chat/updates' ||
+    pathname === '/api/chat/history' ||
+    pathname === '/api/chat/opener' ||
+    pathname === '/api/chat/forget' ||
     pathname === '/api/logs/client'
   )) {
     const origin = request.headers.get('origin');
@@ -33,8 +39,8 @@ export async function middleware(request: NextRequest) {
     return new NextResponse(null, { status: 403 });
   }
   
-  // Skip middleware for public widget endpoint (no auth required)
-  if (pathname === '/api/widget') {
+  // Skip middleware for public widget endpoints (no auth required, cacheable responses)
+  if (pathname === '/api/widget' || pathname.startsWith('/api/widget/')) {
     return NextResponse.next();
   }
   
@@ -61,7 +67,7 @@ export const config = {
      * - _next/* (Next.js internals)
      * - Static assets (images, fonts, etc.)
      * - Public routes (/, /login, etc.)
-     * - /api/widget (public widget endpoint) - excluded in middleware function above
+     * - /api/widget, /api/widget/* (public widget endpoints) - excluded in middleware function above
      */
     '/dashboard/:path*',
     '/api/:path*', // We check for /api/widget inside middleware and skip it
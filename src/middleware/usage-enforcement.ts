@@ -12,6 +12,7 @@ import {
   calculateCost,
   UsageEventData,
 } from '../lib/usage-tracking';
+import { DEFAULT_CHAT_MODEL } from '../lib/llm';
 
 // Initialize Supabase client with service role key (for bypassing RLS)
 const supabaseAdmin = createAdminClient();
@@ -145,6 +146,7 @@ export async function enforceUsageLimits(
       const promptTokensHeader = response.headers.get('X-Token-Usage-Prompt');
       const completionTokensHeader = response.headers.get('X-Token-Usage-Completion');
       const totalTokensHeader = response.headers.get('X-Token-Usage-Total');
+      const model = response.headers.get('X-LLM-Model') || DEFAULT_CHAT_MODEL;
       
       const prompt_tokens = promptTokensHeader ? parseInt(promptTokensHeader, 10) : 500;
       const completion_tokens = completionTokensHeader ? parseInt(completionTokensHeader, 10) : 500;
@@ -175,7 +177,7 @@ export async function enforceUsageLimits(
         site_id,
         conversation_id: dbConversationId || null,
         type: 'chat',
-        model: 'gpt-4o',
+        model,
         prompt_tokens,
         completion_tokens,
         total_tokens,
@@ -234,7 +236,7 @@ export async function enforceUsageLimits(
         site_id,
         conversation_id: dbConversationId || null,
         type: 'chat',
-        model: 'gpt-4o',
+        model: DEFAULT_CHAT_MODEL,
         prompt_tokens: 0,
         completion_tokens: 0,
         total_tokens: 0,
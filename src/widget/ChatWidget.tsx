@@ -5,16 +5,58 @@
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { APIClient } from './api-client';
+import { APIClient, CartError } from './api-client';
 import { StorageManager } from './storage';
-import type { ChatMessage, SessionData } from './types';
+import { connectWidget, emitWidgetEvent, getPageContext } from './public-api';
+import { useProactiveTriggers } from './proactive';
+import type {
+  CartActionState,
+  ChatHistory,
+  ChatMessage,
+  ChatProduct,
+  HandoffStatus,
+  ProactiveTrigger,
+  SessionData,
+  StoreConfig,
+} from './types';
 import { ChatBubble } from './components/ChatBubble';
 import { ChatWindow } from './components/ChatWindow';
 
+// Poll interval for agent replies while a human handoff is open
+const HANDOFF_POLL_INTERVAL_MS = 5000;
+
+const DEFAULT_WELCOME_MESSAGE = 'Hello! I am your AI assistant. How can I help you today?';
+
+function welcomeMessage(content: string, starterQuestions?: string[]): ChatMessage {
+  return {
+    id: 'welcome',
+    role: 'assistant',
+    content,
+    timestamp: new Date(),
+    suggestions: starterQuestions,
+  };
+}
+
+/**
+ * Stored messages from GET /api/chat/history
+ * Agent messages keep the IDs used by handoff polling, so they are not added twice
+ */
+function historyToMessages(history: ChatHistory): ChatMessage[] {
+  return history.messages.map((msg) => ({
+    id: msg.role === 'agent' ? `agent-${msg.id}` : `history-${msg.id}`,
+    role: msg.role,
+    content: msg.content,
+    agentName: msg.agent_name,
+    products: msg.products,
+    timestamp: new Date(msg.created_at),
+  }));
+}
+
 interface ChatWidgetProps {
   config: {
     saasUrl: string;
     siteId: string;
+    store?: StoreConfig;
   };
 }
 
@@ -36,6 +78,7 @@ export function ChatWidget({ config }: ChatWidgetProps) {
     use_gradient?: boolean;
     bubble_position?: 'bottom-right' | 'center-right';
     delay_seconds?: number;
+    starter_questions?: string[];
   }>({
     title: 'AI Assistant',
     welcome_message: 'Hello! I am your AI assistant. How can I help you today?',
@@ -49,18 +92,31 @@ export function ChatWidget({ config }: ChatWidgetProps) {
     delay_seconds: 0,
   });
   const [showBubble, setShowBubble] = useState(false);
+  const [cartStates, setCartStates] = useState<Record<number, CartActionState>>({});
+  const [checkoutUrl, setCheckoutUrl] = useState<string | undefined>(config.store?.checkoutUrl);
+  const [handoffStatus, setHandoffStatus] = useState<HandoffStatus>('none');
+  const [memoryForgotten, setMemoryForgotten] = useState(false);
+  const lastAgentMessageAtRef = useRef<string | undefined>(undefined);
+  // Cursor for earlier messages (null when the whole conversation is shown)
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const skipScrollRef = useRef(false);
+  const [proactiveTriggers, setProactiveTriggers] = useState<ProactiveTrigger[]>([]);
+  // Trigger whose opener is showing; the shopper's next message counts as its conversion
+  const proactiveTriggerRef = useRef<ProactiveTrigger | null>(null);
 
   const apiClientRef = useRef<APIClient | null>(null);
   const storageRef = useRef<StorageManager | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const currentStreamingMessageRef = useRef<string>('');
+  const currentStreamingProductsRef = useRef<ChatProduct[]>([]);
   const currentAbortControllerRef = useRef<AbortController | null>(null);
   const [connectionState, setConnectionState] = useState<'connected' | 'reconnecting' | 'disconnected'>('connected');
   const reconnectAttemptRef = useRef<number>(0);
 
   // Initialize API client and storage
   useEffect(() => {
-    apiClientRef.current = new APIClient(config.saasUrl, config.siteId);
+    apiClientRef.current = new APIClient(config.saasUrl, config.siteId, config.store?.customerToken);
     storageRef.current = new StorageManager();
 
     // Bootstrap session
@@ -77,7 +133,9 @@ export function ChatWidget({ config }: ChatWidgetProps) {
           visitorId: response.visitor_id,
           conversationId: response.conversation_id,
           welcomeBack: response.welcome_back,
+          historyToken: response.history_token,
         });
+        setHandoffStatus(response.handoff_status || 'none');
 
         // Set chat config from bootstrap response
         if (response.chat_config) {
@@ -92,7 +150,9 @@ export function ChatWidget({ config }: ChatWidgetProps) {
             use_gradient: response.chat_config.use_gradient !== false,
             bubble_position: response.chat_config.bubble_position || 'bottom-right',
             delay_seconds: response.chat_config.delay_seconds ?? 0,
+            starter_questions: response.chat_config.starter_questions || [],
           });
+          setProactiveTriggers(response.chat_config.proactive_triggers || []);
         }
 
         // Handle delayed appearance
@@ -106,14 +166,30 @@ export function ChatWidget({ config }: ChatWidgetProps) {
         }
 
         // Show welcome message (always show, using custom message from config)
-        setMessages([
-          {
-            id: 'welcome',
-            role: 'assistant',
-            content: response.chat_config?.welcome_message || 'Hello! I am your AI assistant. How can I help you today?',
-            timestamp: new Date(),
-          },
-        ]);
+        const welcome = welcomeMessage(
+          response.chat_config?.welcome_message || DEFAULT_WELCOME_MESSAGE,
+          response.chat_config?.starter_questions
+        );
+        setMessages([welcome]);
+
+        // Restore the conversation when it continues from an earlier page
+        if (stored.conversationId === response.conversation_id && response.history_token) {
+          try {
+            const history = await apiClientRef.current!.getHistory(
+              response.visitor_id,
+              response.conversation_id,
+              response.history_token
+            );
+            const agentMessages = history.messages.filter((msg) => msg.role === 'agent');
+            if (agentMessages.length > 0) {
+              lastAgentMessageAtRef.current = agentMessages[agentMessages.length - 1].created_at;
+            }
+            setMessages([welcome, ...historyToMessages(history)]);
+            setHistoryCursor(history.has_more ? history.next_before : null);
+          } catch (error) {
+            console.warn('Failed to restore conversation history:', error);
+          }
+        }
       } catch (error) {
         console.error('Failed to bootstrap session:', error);
       } finally {
@@ -122,16 +198,47 @@ export function ChatWidget({ config }: ChatWidgetProps) {
     };
 
     bootstrap();
-  }, [config.saasUrl, config.siteId]);
+  }, [config.saasUrl, config.siteId, config.store?.customerToken]);
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when messages change (not when earlier messages are added above)
   useEffect(() => {
+    if (skipScrollRef.current) {
+      skipScrollRef.current = false;
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  // Handle sending message
-  const handleSendMessage = useCallback(async () => {
-    if (!inputValue.trim() || !session || isLoading || !apiClientRef.current) {
+  // Load the previous page of the conversation
+  const handleLoadEarlier = useCallback(async () => {
+    if (!session?.historyToken || !historyCursor || isLoadingHistory || !apiClientRef.current) return;
+
+    setIsLoadingHistory(true);
+    try {
+      const history = await apiClientRef.current.getHistory(
+        session.visitorId,
+        session.conversationId,
+        session.historyToken,
+        historyCursor
+      );
+      skipScrollRef.current = true;
+      setMessages((prev) => {
+        const known = new Set(prev.map((msg) => msg.id));
+        const earlier = historyToMessages(history).filter((msg) => !known.has(msg.id));
+        // Earlier messages go below the welcome message
+        return prev[0]?.id === 'welcome' ? [prev[0], ...earlier, ...prev.slice(1)] : [...earlier, ...prev];
+      });
+      setHistoryCursor(history.has_more ? history.next_before : null);
+    } catch (error) {
+      console.error('Failed to load earlier messages:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [session, historyCursor, isLoadingHistory]);
+
+  // Send a message as the shopper (input field or window.AIWooChat.sendMessage)
+  const sendText = useCallback(async (text: string) => {
+    if (!text.trim() || !session || isLoading || !apiClientRef.current) {
       return;
     }
 
@@ -148,13 +255,22 @@ export function ChatWidget({ config }: ChatWidgetProps) {
     const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
       role: 'user',
-      content: inputValue.trim(),
+      content: text.trim(),
       timestamp: new Date(),
     };
 
     setMessages((prev) => [...prev, userMessage]);
-    setInputValue('');
     setIsLoading(true);
+    emitWidgetEvent('message', { role: 'user', content: userMessage.content, products: [] });
+
+    const proactiveTrigger = proactiveTriggerRef.current;
+    if (proactiveTrigger) {
+      proactiveTriggerRef.current = null;
+      apiClientRef.current.trackEvent(session.visitorId, session.conversationId, 'proactive_conversion', {
+        trigger_id: proactiveTrigger.id,
+        trigger_type: proactiveTrigger.type,
+      });
+    }
 
     // Create placeholder for streaming assistant message
     const assistantMessageId = `assistant-${Date.now()}`;
@@ -169,8 +285,10 @@ export function ChatWidget({ config }: ChatWidgetProps) {
 
     setMessages((prev) => [...prev, assistantMessage]);
     currentStreamingMessageRef.current = '';
+    currentStreamingProductsRef.current = [];
 
     try {
+      apiClientRef.current.setPageContext(getPageContext());
       await apiClientRef.current.sendMessage(
         session.visitorId,
         session.conversationId,
@@ -190,32 +308,50 @@ export function ChatWidget({ config }: ChatWidgetProps) {
               )
             );
           } else if (sseMessage.type === 'product') {
+            const product: ChatProduct = {
+              id: sseMessage.id!,
+              variation_id: sseMessage.variation_id,
+              variation_attributes: sseMessage.variation_attributes,
+              title: sseMessage.title!,
+              url: sseMessage.url!,
+              price: sseMessage.price!,
+              stock_status: sseMessage.stock_status!,
+            };
+            currentStreamingProductsRef.current = [...currentStreamingProductsRef.current, product];
             setMessages((prev) =>
               prev.map((msg) =>
                 msg.id === assistantMessageId
                   ? {
                       ...msg,
-                      products: [
-                        ...(msg.products || []),
-                        {
-                          id: sseMessage.id!,
-                          title: sseMessage.title!,
-                          url: sseMessage.url!,
-                          price: sseMessage.price!,
-                          stock_status: sseMessage.stock_status!,
-                        },
-                      ],
+                      products: [...(msg.products || []), product],
                     }
                   : msg
               )
             );
+          } else if (sseMessage.type === 'handoff' && sseMessage.status) {
+            setHandoffStatus(sseMessage.status);
+          } else if (sseMessage.type === 'suggestions' && sseMessage.suggestions) {
+            const suggestions = sseMessage.suggestions;
+            setMessages((prev) =>
+              prev.map((msg) => (msg.id === assistantMessageId ? { ...msg, suggestions } : msg))
+            );
           } else if (sseMessage.type === 'done') {
+            if (currentStreamingMessageRef.current || currentStreamingProductsRef.current.length > 0) {
+              emitWidgetEvent('message', {
+                role: 'assistant',
+                content: currentStreamingMessageRef.current,
+                products: currentStreamingProductsRef.current.map(({ id, title, url, price }) => ({ id, title, url, price })),
+              });
+            }
             setMessages((prev) =>
-              prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, isStreaming: false }
-                  : msg
-              )
+              prev
+                // No AI answer while an agent handles the conversation - drop the empty placeholder
+                .filter((msg) => msg.id !== assistantMessageId || msg.content || (msg.products?.length ?? 0) > 0)
+                .map((msg) =>
+                  msg.id === assistantMessageId
+                    ? { ...msg, isStreaming: false }
+                    : msg
+                )
             );
           } else if (sseMessage.type === 'error') {
             throw new Error(sseMessage.message || 'Stream error');
@@ -264,7 +400,115 @@ export function ChatWidget({ config }: ChatWidgetProps) {
       setIsLoading(false);
       currentAbortControllerRef.current = null;
     }
-  }, [inputValue, session, isLoading]);
+  }, [session, isLoading]);
+
+  // Handle sending the typed message
+  const handleSendMessage = useCallback(() => {
+    if (!inputValue.trim() || !session || isLoading) {
+      return;
+    }
+    setInputValue('');
+    sendText(inputValue);
+  }, [inputValue, session, isLoading, sendText]);
+
+  // Send a starter question or follow-up suggestion as the shopper
+  const handleSuggestionClick = useCallback(
+    (text: string, messageId: string) => {
+      if (!session || isLoading || !apiClientRef.current) return;
+      apiClientRef.current.trackEvent(session.visitorId, session.conversationId, 'suggestion_click', {
+        text,
+        source: messageId === 'welcome' ? 'starter' : 'follow_up',
+      });
+      sendText(text);
+    },
+    [session, isLoading, sendText]
+  );
+
+  // Latest sendText for the public API (window.AIWooChat.sendMessage)
+  const sendTextRef = useRef(sendText);
+  sendTextRef.current = sendText;
+
+  // Let the host page drive the widget (window.AIWooChat)
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+
+    return connectWidget({
+      open: () => {
+        setShowBubble(true);
+        setIsOpen(true);
+      },
+      close: () => setIsOpen(false),
+      sendMessage: (text) => {
+        setShowBubble(true);
+        setIsOpen(true);
+        sendTextRef.current(text);
+      },
+      setCustomerToken: (token) => apiClientRef.current?.setCustomerToken(token),
+    });
+  }, [session]);
+
+  // Public API events: chat opened, handoff status changed
+  useEffect(() => {
+    if (isOpen) {
+      emitWidgetEvent('open', {});
+    }
+  }, [isOpen]);
+
+  const lastHandoffStatusRef = useRef<HandoffStatus>('none');
+  useEffect(() => {
+    if (handoffStatus !== lastHandoffStatusRef.current) {
+      lastHandoffStatusRef.current = handoffStatus;
+      emitWidgetEvent('handoff', { status: handoffStatus });
+    }
+  }, [handoffStatus]);
+
+  // Proactive engagement: open the chat with the trigger's opener
+  const showProactiveOpener = useCallback(
+    (trigger: ProactiveTrigger): boolean => {
+      if (!session || !apiClientRef.current || !storageRef.current) return false;
+      // Never interrupt a chat the shopper already started
+      if (isOpen || messages.some((msg) => msg.role === 'user') || storageRef.current.isProactiveCoolingDown()) {
+        return false;
+      }
+      storageRef.current.setProactiveShown();
+
+      const apiClient = apiClientRef.current;
+      const openWithMessage = (content: string, generated: boolean) => {
+        proactiveTriggerRef.current = trigger;
+        setMessages((prev) => [
+          ...prev,
+          { id: `proactive-${trigger.id}`, role: 'assistant', content, timestamp: new Date() },
+        ]);
+        setShowBubble(true);
+        setIsOpen(true);
+        apiClient.trackEvent(session.visitorId, session.conversationId, 'proactive_impression', {
+          trigger_id: trigger.id,
+          trigger_type: trigger.type,
+          generated,
+          url: window.location.href,
+        });
+      };
+
+      const productId = getPageContext()?.product_id;
+      if (trigger.generate_from_product && productId) {
+        apiClient
+          .getOpener(session.visitorId, trigger.id, productId)
+          .then((opener) => openWithMessage(opener.message, opener.generated))
+          .catch((error) => {
+            console.warn('Failed to generate proactive opener:', error);
+            openWithMessage(trigger.message, false);
+          });
+      } else {
+        openWithMessage(trigger.message, false);
+      }
+      return true;
+    },
+    [session, isOpen, messages]
+  );
+
+  useProactiveTriggers(proactiveTriggers, session?.welcomeBack ?? false, showProactiveOpener);
 
   // Cleanup: abort stream when widget closes or unmounts
   useEffect(() => {
@@ -275,6 +519,56 @@ export function ChatWidget({ config }: ChatWidgetProps) {
     };
   }, [isOpen]);
 
+  // Poll for agent replies while a human handoff is open
+  useEffect(() => {
+    if (!session || (handoffStatus !== 'requested' && handoffStatus !== 'active')) {
+      return;
+    }
+
+    let cancelled = false;
+    const poll = async () => {
+      if (!apiClientRef.current || document.hidden) return;
+      try {
+        const updates = await apiClientRef.current.getUpdates(
+          session.visitorId,
+          session.conversationId,
+          lastAgentMessageAtRef.current
+        );
+        if (cancelled) return;
+
+        if (updates.messages.length > 0) {
+          lastAgentMessageAtRef.current = updates.messages[updates.messages.length - 1].created_at;
+          updates.messages.forEach((msg) =>
+            emitWidgetEvent('message', { role: 'agent', content: msg.content, products: [] })
+          );
+          setMessages((prev) => {
+            const known = new Set(prev.map((msg) => msg.id));
+            const agentMessages: ChatMessage[] = updates.messages
+              .filter((msg) => !known.has(`agent-${msg.id}`))
+              .map((msg) => ({
+                id: `agent-${msg.id}`,
+                role: 'agent',
+                content: msg.content,
+                agentName: msg.agent_name,
+                timestamp: new Date(msg.created_at),
+              }));
+            return agentMessages.length > 0 ? [...prev, ...agentMessages] : prev;
+          });
+        }
+        setHandoffStatus(updates.handoff.status);
+      } catch (error) {
+        console.error('Failed to fetch agent updates:', error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, HANDOFF_POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [session, handoffStatus]);
+
   // Handle browser tab visibility changes (sleep/wake)
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -323,6 +617,7 @@ export function ChatWidget({ config }: ChatWidgetProps) {
         product_id: productId,
         url,
       });
+      emitWidgetEvent('product_click', { productId, url });
 
       // Open product page
       window.open(url, '_blank');
@@ -343,6 +638,133 @@ export function ChatWidget({ config }: ChatWidgetProps) {
     [session]
   );
 
+  // Handle add to cart (request is signed by SaaS, sent to the store from the browser)
+  const handleAddToCart = useCallback(
+    async (product: ChatProduct) => {
+      if (!session || !apiClientRef.current) return;
+
+      setCartStates((prev) => ({ ...prev, [product.id]: 'adding' }));
+
+      try {
+        const result = await apiClientRef.current.addToCart(
+          session.visitorId,
+          session.conversationId,
+          { productId: product.id, variationId: product.variation_id },
+          config.store?.restNonce
+        );
+
+        setCartStates((prev) => ({ ...prev, [product.id]: 'added' }));
+        if (result.checkout_url) {
+          setCheckoutUrl(result.checkout_url);
+        }
+
+        apiClientRef.current.trackEvent(session.visitorId, session.conversationId, 'add_to_cart', {
+          product_id: result.product_id,
+          variation_id: result.variation_id,
+          quantity: result.quantity,
+          cart_item_count: result.cart.item_count,
+          cart_total: result.cart.total,
+          currency: result.cart.currency,
+        });
+      } catch (error) {
+        // Variable product without a chosen variation - let the customer pick on the product page
+        if (error instanceof CartError && error.code === 'variation_required') {
+          setCartStates((prev) => {
+            const { [product.id]: _removed, ...rest } = prev;
+            return rest;
+          });
+          handleProductClick(product.id, error.productUrl || product.url);
+          return;
+        }
+
+        console.error('Failed to add to cart:', error);
+        setCartStates((prev) => ({ ...prev, [product.id]: 'error' }));
+      }
+    },
+    [session, config.store?.restNonce, handleProductClick]
+  );
+
+  // Handle "talk to a person" request
+  const handleRequestHuman = useCallback(async () => {
+    if (!session || !apiClientRef.current) return;
+
+    try {
+      const result = await apiClientRef.current.requestHandoff(session.visitorId, session.conversationId);
+      setHandoffStatus(result.status);
+    } catch (error) {
+      console.error('Failed to request a human agent:', error);
+    }
+  }, [session]);
+
+  // Handle "forget me" (visitor memory from earlier conversations)
+  const handleForgetMe = useCallback(async () => {
+    if (!session || !apiClientRef.current) return;
+    if (!window.confirm('Forget what the assistant learned about you in earlier conversations?')) return;
+
+    try {
+      await apiClientRef.current.forgetVisitor(session.visitorId);
+      setMemoryForgotten(true);
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: `forget-${Date.now()}`,
+          role: 'assistant',
+          content: 'Done - I will not use anything from your earlier conversations.',
+          timestamp: new Date(),
+        },
+      ]);
+    } catch (error) {
+      console.error('Failed to forget visitor:', error);
+    }
+  }, [session]);
+
+  // Handle "start new conversation" (the old conversation stays stored, the widget moves on)
+  const handleStartNewConversation = useCallback(async () => {
+    if (!session || !apiClientRef.current || !storageRef.current) return;
+    if (!window.confirm('Start a new conversation? The current chat will be cleared from this window.')) return;
+
+    if (currentAbortControllerRef.current) {
+      currentAbortControllerRef.current.abort();
+      currentAbortControllerRef.current = null;
+    }
+
+    try {
+      storageRef.current.clearConversationId();
+      const response = await apiClientRef.current.bootstrap(session.visitorId);
+
+      storageRef.current.setSessionData(response.visitor_id, response.conversation_id);
+      setSession({
+        visitorId: response.visitor_id,
+        conversationId: response.conversation_id,
+        welcomeBack: response.welcome_back,
+        historyToken: response.history_token,
+      });
+      setHandoffStatus(response.handoff_status || 'none');
+      lastAgentMessageAtRef.current = undefined;
+      setHistoryCursor(null);
+      setCartStates({});
+      setIsLoading(false);
+      setMessages([welcomeMessage(chatConfig.welcome_message, chatConfig.starter_questions)]);
+    } catch (error) {
+      console.error('Failed to start a new conversation:', error);
+    }
+  }, [session, chatConfig.welcome_message, chatConfig.starter_questions]);
+
+  // Handle checkout handoff
+  const handleCheckout = useCallback(
+    (url: string) => {
+      if (session && apiClientRef.current) {
+        apiClientRef.current.trackEvent(session.visitorId, session.conversationId, 'click', {
+          action: 'checkout',
+          url,
+        });
+      }
+
+      window.location.href = url;
+    },
+    [session]
+  );
+
   if (isInitializing) {
     return null; // Don't render until session is initialized
   }
@@ -370,6 +792,18 @@ export function ChatWidget({ config }: ChatWidgetProps) {
           onClose={() => setIsOpen(false)}
           onProductClick={handleProductClick}
           onProductView={handleProductView}
+          cartStates={cartStates}
+          checkoutUrl={checkoutUrl}
+          onAddToCart={handleAddToCart}
+          onCheckout={handleCheckout}
+          handoffStatus={handoffStatus}
+          onRequestHuman={handleRequestHuman}
+          onForgetMe={memoryForgotten ? undefined : handleForgetMe}
+          onStartNewConversation={messages.some((msg) => msg.role === 'user') ? handleStartNewConversation : undefined}
+          hasEarlierMessages={historyCursor !== null}
+          isLoadingEarlier={isLoadingHistory}
+          onLoadEarlier={handleLoadEarlier}
+          onSuggestionClick={handleSuggestionClick}
           messagesEndRef={messagesEndRef}
           connectionState={connectionState}
           reconnectAttempt={reconnectAttemptRef.current}
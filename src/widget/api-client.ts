@@ -4,20 +4,61 @@
  * Hardened with SSE reconnect logic and exponential backoff
  */
 
-import type { BootstrapResponse, SSEMessage } from './types';
+import type {
+  BootstrapResponse,
+  CartAddResult,
+  ChatHistory,
+  ChatUpdates,
+  HandoffStatus,
+  PageContext,
+  SSEMessage,
+} from './types';
+
+/**
+ * Error from the store's add-to-cart endpoint
+ * code 'variation_required' carries the product page URL so options can be chosen there
+ */
+export class CartError extends Error {
+  code: string;
+  productUrl?: string;
+
+  constructor(code: string, message: string, productUrl?: string) {
+    super(message);
+    this.name = 'CartError';
+    this.code = code;
+    this.productUrl = productUrl;
+  }
+}
 
 export class APIClient {
   private saasUrl: string;
   private siteId: string;
   private origin: string;
+  private customerToken?: string;
+  private pageContext?: PageContext;
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private baseReconnectDelay: number = 1000; // 1 second
 
-  constructor(saasUrl: string, siteId: string) {
+  constructor(saasUrl: string, siteId: string, customerToken?: string) {
     this.saasUrl = saasUrl.replace(/\/$/, ''); // Remove trailing slash
     this.siteId = siteId;
     this.origin = window.location.origin;
+    this.customerToken = customerToken;
+  }
+
+  /**
+   * Signed customer token (window.AIWooChat.identify), enables order lookup
+   */
+  setCustomerToken(customerToken: string): void {
+    this.customerToken = customerToken;
+  }
+
+  /**
+   * Context from the host page, sent with every message
+   */
+  setPageContext(pageContext: PageContext | undefined): void {
+    this.pageContext = pageContext;
   }
 
   /**
@@ -93,6 +134,8 @@ export class APIClient {
             visitor_id: visitorId,
             conversation_id: conversationId,
             message,
+            customer_token: this.customerToken || undefined,
+            context: this.pageContext,
           }),
           signal: abortSignal,
         });
@@ -115,6 +158,7 @@ export class APIClient {
         }
 
         let buffer = '';
+        let completed = false;
 
         try {
           while (true) {
@@ -149,9 +193,10 @@ export class APIClient {
 
                   onMessage(data);
 
-                  if (data.type === 'done') {
+                  // Suggestions may still follow done - keep reading until the stream closes
+                  if (data.type === 'done' && !completed) {
+                    completed = true;
                     onComplete?.();
-                    return;
                   }
 
                   if (data.type === 'error') {
@@ -176,7 +221,9 @@ export class APIClient {
             }
           }
 
-          onComplete?.();
+          if (!completed) {
+            onComplete?.();
+          }
         } catch (error) {
           // Cancel reader on error
           try {
@@ -184,6 +231,8 @@ export class APIClient {
           } catch {
             // Ignore cancel errors
           }
+          // The answer already finished - do not retry for a lost suggestions frame
+          if (completed) return;
           throw error;
         }
       } catch (error) {
@@ -221,13 +270,205 @@ export class APIClient {
     return attemptConnection();
   }
 
+  /**
+   * Add product/variation to the visitor's WooCommerce cart
+   *
+   * 1. SaaS signs a POST /cart/add request for the store plugin (HMAC)
+   * 2. The browser sends it to the store, so the item lands in this visitor's cart session
+   */
+  async addToCart(
+    visitorId: string,
+    conversationId: string | null,
+    item: { productId: number; variationId?: number; quantity?: number },
+    restNonce?: string
+  ): Promise<CartAddResult> {
+    const signResponse = await fetch(`${this.saasUrl}/api/chat/cart`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Origin: this.origin,
+      },
+      body: JSON.stringify({
+        site_id: this.siteId,
+        visitor_id: visitorId,
+        conversation_id: conversationId,
+        product_id: item.productId,
+        variation_id: item.variationId,
+        quantity: item.quantity || 1,
+      }),
+    });
+
+    if (!signResponse.ok) {
+      const error = await signResponse.json().catch(() => ({ error: { message: 'Unknown error' } }));
+      throw new CartError(
+        error.error?.code || 'SIGN_FAILED',
+        error.error?.message || `Add to cart failed: ${signResponse.status}`
+      );
+    }
+
+    const { request } = await signResponse.json();
+
+    // Body must be sent unchanged - its hash is part of the signature
+    const storeResponse = await fetch(request.url, {
+      method: request.method,
+      headers: {
+        ...request.headers,
+        ...(restNonce ? { 'X-WP-Nonce': restNonce } : {}),
+      },
+      body: request.body,
+      credentials: 'same-origin',
+    });
+
+    const data = await storeResponse.json().catch(() => null);
+
+    if (!storeResponse.ok || !data?.added) {
+      // WordPress REST errors: { code, message, data: { status, ... } }
+      throw new CartError(
+        data?.code || 'ADD_TO_CART_FAILED',
+        data?.message || `Add to cart failed: ${storeResponse.status}`,
+        data?.data?.product_url
+      );
+    }
+
+    return data as CartAddResult;
+  }
+
+  /**
+   * Ask for a human agent (human handoff)
+   */
+  async requestHandoff(visitorId: string, conversationId: string): Promise<{ status: HandoffStatus }> {
+    const response = await fetch(`${this.saasUrl}/api/chat/handoff`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Origin: this.origin,
+      },
+      body: JSON.stringify({
+        site_id: this.siteId,
+        visitor_id: visitorId,
+        conversation_id: conversationId,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
+      throw new Error(error.error?.message || `Handoff request failed: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Forget the visitor (clears memory from earlier conversations)
+   */
+  async forgetVisitor(visitorId: string): Promise<void> {
+    const response = await fetch(`${this.saasUrl}/api/chat/forget`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Origin: this.origin,
+      },
+      body: JSON.stringify({
+        site_id: this.siteId,
+        visitor_id: visitorId,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
+      throw new Error(error.error?.message || `Forget request failed: ${response.status}`);
+    }
+  }
+
+  /**
+   * Poll for agent replies and handoff status
+   */
+  async getUpdates(visitorId: string, conversationId: string, after?: string): Promise<ChatUpdates> {
+    const query = new URLSearchParams({
+      site_id: this.siteId,
+      visitor_id: visitorId,
+      conversation_id: conversationId,
+    });
+    if (after) {
+      query.set('after', after);
+    }
+
+    const response = await fetch(`${this.saasUrl}/api/chat/updates?${query}`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
+      throw new Error(error.error?.message || `Updates failed: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Load one page of the conversation (restores the chat after page navigation)
+   */
+  async getHistory(
+    visitorId: string,
+    conversationId: string,
+    historyToken: string,
+    before?: string
+  ): Promise<ChatHistory> {
+    const query = new URLSearchParams({
+      site_id: this.siteId,
+      visitor_id: visitorId,
+      conversation_id: conversationId,
+      token: historyToken,
+    });
+    if (before) {
+      query.set('before', before);
+    }
+
+    const response = await fetch(`${this.saasUrl}/api/chat/history?${query}`);
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
+      throw new Error(error.error?.message || `History failed: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Opener for a proactive trigger, generated from the product when the trigger allows it
+   */
+  async getOpener(
+    visitorId: string,
+    triggerId: string,
+    productId?: number
+  ): Promise<{ message: string; generated: boolean }> {
+    const response = await fetch(`${this.saasUrl}/api/chat/opener`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Origin: this.origin,
+      },
+      body: JSON.stringify({
+        site_id: this.siteId,
+        visitor_id: visitorId,
+        trigger_id: triggerId,
+        product_id: productId,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
+      throw new Error(error.error?.message || `Opener request failed: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
   /**
    * Track user event
    */
   async trackEvent(
     visitorId: string,
     conversationId: string | null,
-    type: 'view' | 'click' | 'add_to_cart',
+    type: 'view' | 'click' | 'add_to_cart' | 'proactive_impression' | 'proactive_conversion' | 'suggestion_click',
     payload: Record<string, any>
   ): Promise<void> {
     try {
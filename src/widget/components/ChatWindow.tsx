@@ -5,7 +5,7 @@
  */
 
 import React, { RefObject } from 'react';
-import type { ChatMessage } from '../types';
+import type { CartActionState, ChatMessage, ChatProduct, HandoffStatus } from '../types';
 import { MessageList } from './MessageList';
 import { MessageInput } from './MessageInput';
 import styles from './ChatWindow.module.css';
@@ -19,6 +19,18 @@ interface ChatWindowProps {
   onClose: () => void;
   onProductClick: (productId: number, url: string) => void;
   onProductView: (productId: number, url: string) => void;
+  cartStates?: Record<number, CartActionState>;
+  checkoutUrl?: string;
+  onAddToCart?: (product: ChatProduct) => void;
+  onCheckout?: (url: string) => void;
+  handoffStatus?: HandoffStatus;
+  onRequestHuman?: () => void;
+  onForgetMe?: () => void;
+  onStartNewConversation?: () => void;
+  hasEarlierMessages?: boolean;
+  isLoadingEarlier?: boolean;
+  onLoadEarlier?: () => void;
+  onSuggestionClick?: (text: string, messageId: string) => void;
   messagesEndRef: RefObject<HTMLDivElement>;
   connectionState?: 'connected' | 'reconnecting' | 'disconnected';
   reconnectAttempt?: number;
@@ -41,6 +53,18 @@ export function ChatWindow({
   onClose,
   onProductClick,
   onProductView,
+  cartStates,
+  checkoutUrl,
+  onAddToCart,
+  onCheckout,
+  handoffStatus = 'none',
+  onRequestHuman,
+  onForgetMe,
+  onStartNewConversation,
+  hasEarlierMessages = false,
+  isLoadingEarlier = false,
+  onLoadEarlier,
+  onSuggestionClick,
   messagesEndRef,
   connectionState = 'connected',
   reconnectAttempt = 0,
@@ -97,14 +121,51 @@ export function ChatWindow({
           <span>Connection lost. Please try again.</span>
         </div>
       )}
+      {handoffStatus === 'requested' && (
+        <div className={styles.handoffBanner}>
+          <span>A team member has been notified and will reply here.</span>
+        </div>
+      )}
+      {handoffStatus === 'active' && (
+        <div className={styles.handoffBanner}>
+          <span>You are chatting with a team member.</span>
+        </div>
+      )}
       <div className={styles.messagesContainer}>
         <MessageList
           messages={messages}
           onProductClick={onProductClick}
           onProductView={onProductView}
+          cartStates={cartStates}
+          checkoutUrl={checkoutUrl}
+          onAddToCart={onAddToCart}
+          onCheckout={onCheckout}
+          hasEarlierMessages={hasEarlierMessages}
+          isLoadingEarlier={isLoadingEarlier}
+          onLoadEarlier={onLoadEarlier}
+          onSuggestionClick={isLoading ? undefined : onSuggestionClick}
         />
         <div ref={messagesEndRef} />
       </div>
+      {((onRequestHuman && handoffStatus !== 'requested' && handoffStatus !== 'active') || onForgetMe || onStartNewConversation) && (
+        <div className={styles.footerActions}>
+          {onRequestHuman && handoffStatus !== 'requested' && handoffStatus !== 'active' && (
+            <button className={styles.handoffButton} onClick={onRequestHuman} type="button">
+              Talk to a person
+            </button>
+          )}
+          {onForgetMe && (
+            <button className={styles.forgetButton} onClick={onForgetMe} type="button">
+              Forget me
+            </button>
+          )}
+          {onStartNewConversation && (
+            <button className={styles.forgetButton} onClick={onStartNewConversation} type="button">
+              New conversation
+            </button>
+          )}
+        </div>
+      )}
       <MessageInput
         value={inputValue}
         onChange={onInputChange}
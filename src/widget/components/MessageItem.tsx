@@ -10,13 +10,20 @@ import styles from './MessageItem.module.css';
 
 interface MessageItemProps {
   message: ChatMessage;
+  onSuggestionClick?: (text: string) => void;
 }
 
-export function MessageItem({ message }: MessageItemProps) {
+export function MessageItem({ message, onSuggestionClick }: MessageItemProps) {
   const isUser = message.role === 'user';
+  const isAgent = message.role === 'agent';
 
   return (
-    <div className={`${styles.messageItem} ${isUser ? styles.userMessage : styles.assistantMessage}`}>
+    <div
+      className={`${styles.messageItem} ${isUser ? styles.userMessage : styles.assistantMessage} ${
+        isAgent ? styles.agentMessage : ''
+      }`}
+    >
+      {isAgent && <div className={styles.agentLabel}>{message.agentName || 'Support team'}</div>}
       <div className={styles.messageContent}>
         {message.content}
         {message.isStreaming && <span className={styles.cursor}>▋</span>}
@@ -24,6 +31,20 @@ export function MessageItem({ message }: MessageItemProps) {
       <div className={styles.timestamp}>
         {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
       </div>
+      {onSuggestionClick && !message.isStreaming && message.suggestions && message.suggestions.length > 0 && (
+        <div className={styles.suggestions}>
+          {message.suggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              className={styles.suggestionChip}
+              onClick={() => onSuggestionClick(suggestion)}
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
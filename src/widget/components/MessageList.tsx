@@ -5,7 +5,7 @@
  */
 
 import React, { useEffect, useRef } from 'react';
-import type { ChatMessage } from '../types';
+import type { CartActionState, ChatMessage, ChatProduct } from '../types';
 import { MessageItem } from './MessageItem';
 import { ProductCard } from './ProductCard';
 import styles from './MessageList.module.css';
@@ -14,10 +14,31 @@ interface MessageListProps {
   messages: ChatMessage[];
   onProductClick: (productId: number, url: string) => void;
   onProductView: (productId: number, url: string) => void;
+  cartStates?: Record<number, CartActionState>;
+  checkoutUrl?: string;
+  onAddToCart?: (product: ChatProduct) => void;
+  onCheckout?: (url: string) => void;
+  hasEarlierMessages?: boolean;
+  isLoadingEarlier?: boolean;
+  onLoadEarlier?: () => void;
+  onSuggestionClick?: (text: string, messageId: string) => void;
 }
 
-export function MessageList({ messages, onProductClick, onProductView }: MessageListProps) {
+export function MessageList({
+  messages,
+  onProductClick,
+  onProductView,
+  cartStates,
+  checkoutUrl,
+  onAddToCart,
+  onCheckout,
+  hasEarlierMessages = false,
+  isLoadingEarlier = false,
+  onLoadEarlier,
+  onSuggestionClick,
+}: MessageListProps) {
   const productViewRefs = useRef<Map<number, boolean>>(new Map());
+  const listRef = useRef<HTMLDivElement>(null);
 
   // Track product views when they enter viewport
   useEffect(() => {
@@ -37,7 +58,8 @@ export function MessageList({ messages, onProductClick, onProductView }: Message
       { threshold: 0.5 }
     );
 
-    const productElements = document.querySelectorAll('[data-product-id]');
+    // Query inside the widget (the document cannot see into the widget's shadow root)
+    const productElements = listRef.current ? Array.from(listRef.current.querySelectorAll('[data-product-id]')) : [];
     productElements.forEach((el) => observer.observe(el));
 
     return () => {
@@ -46,6 +68,8 @@ export function MessageList({ messages, onProductClick, onProductView }: Message
     };
   }, [messages, onProductView]);
 
+  const earlierIndex = messages[0]?.id === 'welcome' ? 1 : 0;
+
   if (messages.length === 0) {
     return (
       <div className={styles.emptyState}>
@@ -55,10 +79,29 @@ export function MessageList({ messages, onProductClick, onProductView }: Message
   }
 
   return (
-    <div className={styles.messageList}>
-      {messages.map((message) => (
+    <div ref={listRef} className={styles.messageList}>
+      {messages.map((message, index) => (
         <div key={message.id} className={styles.messageWrapper}>
-          <MessageItem message={message} />
+          {/* Earlier messages load between the welcome message and the restored ones */}
+          {index === earlierIndex && hasEarlierMessages && onLoadEarlier && (
+            <button
+              type="button"
+              className={styles.loadEarlierButton}
+              onClick={onLoadEarlier}
+              disabled={isLoadingEarlier}
+            >
+              {isLoadingEarlier ? 'Loading...' : 'Load earlier messages'}
+            </button>
+          )}
+          <MessageItem
+            message={message}
+            onSuggestionClick={
+              // Quick replies belong to the latest message only
+              onSuggestionClick && index === messages.length - 1
+                ? (text) => onSuggestionClick(text, message.id)
+                : undefined
+            }
+          />
           {message.products && message.products.length > 0 && (
             <div className={styles.productsContainer}>
               {message.products.map((product) => (
@@ -70,6 +113,10 @@ export function MessageList({ messages, onProductClick, onProductView }: Message
                   <ProductCard
                     product={product}
                     onClick={() => onProductClick(product.id, product.url)}
+                    cartState={cartStates?.[product.id]}
+                    checkoutUrl={checkoutUrl}
+                    onAddToCart={onAddToCart ? () => onAddToCart(product) : undefined}
+                    onCheckout={onCheckout}
                   />
                 </div>
               ))}
@@ -5,10 +5,13 @@
  */
 
 import React from 'react';
+import type { CartActionState } from '../types';
 import styles from './ProductCard.module.css';
 
 interface Product {
   id: number;
+  variation_id?: number;
+  variation_attributes?: Record<string, string>;
   title: string;
   url: string;
   price: number;
@@ -18,21 +21,61 @@ interface Product {
 interface ProductCardProps {
   product: Product;
   onClick: () => void;
+  cartState?: CartActionState;
+  checkoutUrl?: string;
+  onAddToCart?: () => void;
+  onCheckout?: (url: string) => void;
 }
 
-export function ProductCard({ product, onClick }: ProductCardProps) {
+export function ProductCard({
+  product,
+  onClick,
+  cartState,
+  checkoutUrl,
+  onAddToCart,
+  onCheckout,
+}: ProductCardProps) {
   const isInStock = product.stock_status === 'instock';
+  // Selected variation, e.g. "Color: Black · Size: M"
+  const variationLabel = Object.entries(product.variation_attributes || {})
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join(' · ');
 
   return (
     <div className={styles.productCard} onClick={onClick} role="button" tabIndex={0}>
       <div className={styles.productInfo}>
         <h4 className={styles.productTitle}>{product.title}</h4>
+        {variationLabel && <div className={styles.productVariation}>{variationLabel}</div>}
         <div className={styles.productMeta}>
           <span className={styles.productPrice}>${product.price.toFixed(2)}</span>
           <span className={`${styles.stockStatus} ${isInStock ? styles.inStock : styles.outOfStock}`}>
             {isInStock ? 'In Stock' : 'Out of Stock'}
           </span>
         </div>
+        {isInStock && onAddToCart && (
+          <div className={styles.cartActions} onClick={(e) => e.stopPropagation()}>
+            {cartState === 'added' && checkoutUrl && onCheckout ? (
+              <button
+                type="button"
+                className={`${styles.cartButton} ${styles.checkoutButton}`}
+                onClick={() => onCheckout(checkoutUrl)}
+              >
+                Go to checkout
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={styles.cartButton}
+                onClick={onAddToCart}
+                disabled={cartState === 'adding' || cartState === 'added'}
+              >
+                {cartState === 'adding' ? 'Adding...' : cartState === 'added' ? 'Added to cart' : 'Add to cart'}
+              </button>
+            )}
+            {cartState === 'error' && <span className={styles.cartError}>Could not add to cart</span>}
+          </div>
+        )}
       </div>
       <div className={styles.productAction}>
         <svg width="20" height="20" viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
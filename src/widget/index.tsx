@@ -1,39 +1,96 @@
 /**
  * Widget entry point
- * 
- * This is the main entry point for the widget bundle
- * It initializes the React widget and exposes it globally
+ *
+ * This is the main entry point for the widget bundle (scripts/build-widget.js)
+ * It renders the React widget inside a shadow root, so the shop's styles and the
+ * widget's styles cannot affect each other, and exposes it globally
  */
 
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import { ChatWidget } from './ChatWidget';
+import { installPublicAPI } from './public-api';
+import type { WidgetConfig } from './types';
 
-interface WidgetConfig {
-  saasUrl: string;
-  siteId: string;
-  containerId: string;
+// CSS of the widget's CSS modules, defined by the bundle wrapper
+declare const __WIDGET_CSS__: string;
+
+const HOST_ID = 'ai-woo-chat-widget-container';
+
+// Keep the shop's inherited styles (font, color, line-height...) out of the widget
+const HOST_CSS = ':host{all:initial;font-family:-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;font-size:14px;line-height:1.4;color:#1f2937}';
+
+function mount(config: WidgetConfig): void {
+  if (document.getElementById(HOST_ID)) {
+    return; // Already rendered
+  }
+
+  const container = document.getElementById(config.containerId);
+  if (!container) {
+    console.error('AI Woo Chat: Container not found:', config.containerId);
+    return;
+  }
+
+  const host = document.createElement('div');
+  host.id = HOST_ID;
+  container.appendChild(host);
+
+  const shadow = host.attachShadow({ mode: 'open' });
+  const style = document.createElement('style');
+  style.textContent = HOST_CSS + (typeof __WIDGET_CSS__ === 'string' ? __WIDGET_CSS__ : '');
+  shadow.appendChild(style);
+
+  const mountPoint = document.createElement('div');
+  shadow.appendChild(mountPoint);
+
+  // Store endpoints default to the config injected by the WordPress plugin
+  const pluginConfig = (window as any).AIWooChatConfig || {};
+  const store = config.store || {
+    restNonce: pluginConfig.restNonce,
+    cartUrl: pluginConfig.cartUrl,
+    checkoutUrl: pluginConfig.checkoutUrl,
+    customerToken: pluginConfig.customerToken,
+  };
+
+  const root = createRoot(mountPoint);
+  root.render(
+    <React.StrictMode>
+      <ChatWidget
+        config={{
+          saasUrl: config.saasUrl,
+          siteId: config.siteId,
+          store,
+        }}
+      />
+    </React.StrictMode>
+  );
 }
 
 // Global widget initialization function
 (window as any).AIWooChatWidget = {
-  init: function(config: WidgetConfig) {
-    const container = document.getElementById(config.containerId);
+  ...((window as any).AIWooChatWidget || {}),
+  init: mount,
+};
+
+// Host page API (window.AIWooChat); runs calls queued by the loader's stub
+installPublicAPI();
+
+// Render right away when loaded by the loader / WordPress plugin (window.AIWooChatConfig)
+const pluginConfig = (window as any).AIWooChatConfig || {};
+if (pluginConfig.saasUrl && pluginConfig.siteId) {
+  const start = () => {
+    let container = document.getElementById('ai-woo-chat-widget');
     if (!container) {
-      console.error('AI Woo Chat: Container not found:', config.containerId);
-      return;
+      container = document.createElement('div');
+      container.id = 'ai-woo-chat-widget';
+      document.body.appendChild(container);
     }
+    mount({ saasUrl: pluginConfig.saasUrl, siteId: pluginConfig.siteId, containerId: container.id });
+  };
 
-    const root = createRoot(container);
-    root.render(
-      <React.StrictMode>
-        <ChatWidget
-          config={{
-            saasUrl: config.saasUrl,
-            siteId: config.siteId,
-          }}
-        />
-      </React.StrictMode>
-    );
-  },
-};
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', start);
+  } else {
+    start();
+  }
+}
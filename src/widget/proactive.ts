@@ -0,0 +1,116 @@
+/**
+ * Proactive engagement triggers
+ *
+ * Evaluates the triggers from bootstrap (chat_config.proactive_triggers) on the
+ * host page and calls onFire when one matches. onFire returns false when the
+ * opener was not shown (chat already open, cooldown); that trigger is then done
+ * for this page view and the others keep running. After one opener is shown,
+ * nothing else fires until the next page view.
+ */
+
+import { useEffect, useRef } from 'react';
+import { getPageContext } from './public-api';
+import type { ProactiveTrigger } from './types';
+
+const CHECK_INTERVAL_MS = 1000;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a URL pattern ("*" matches any characters)
+ * Patterns starting with "/" match the path and query, others the full URL
+ */
+function matchesUrlPattern(pattern: string): boolean {
+  const target = pattern.startsWith('/')
+    ? window.location.pathname + window.location.search
+    : window.location.href;
+  const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`, 'i');
+  return regex.test(target);
+}
+
+function scrollPercent(): number | null {
+  const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+  if (scrollable <= 0) return null; // Page does not scroll
+  return (window.scrollY / scrollable) * 100;
+}
+
+export function useProactiveTriggers(
+  triggers: ProactiveTrigger[],
+  returningVisitor: boolean,
+  onFire: (trigger: ProactiveTrigger) => boolean
+): void {
+  // Latest callback without re-registering the listeners
+  const onFireRef = useRef(onFire);
+  onFireRef.current = onFire;
+
+  useEffect(() => {
+    if (triggers.length === 0) return;
+
+    let shown = false;
+    const handled = new Set<string>();
+
+    const fire = (trigger: ProactiveTrigger) => {
+      if (shown || handled.has(trigger.id)) return;
+      handled.add(trigger.id);
+      shown = onFireRef.current(trigger);
+    };
+
+    const pending = (type: ProactiveTrigger['type']) =>
+      triggers.filter((trigger) => trigger.type === type && !handled.has(trigger.id));
+
+    const check = () => {
+      if (shown) return;
+      // Seconds since the page started loading
+      const secondsOnPage = performance.now() / 1000;
+      const cartTotal = getPageContext()?.cart_total;
+
+      for (const trigger of triggers) {
+        if (shown) return;
+        if (handled.has(trigger.id)) continue;
+        const delay = trigger.value ?? 0;
+
+        switch (trigger.type) {
+          case 'time_on_page':
+            if (secondsOnPage >= delay) fire(trigger);
+            break;
+          case 'url_pattern':
+            if (trigger.pattern && secondsOnPage >= delay && matchesUrlPattern(trigger.pattern)) fire(trigger);
+            break;
+          case 'returning_visitor':
+            if (returningVisitor && secondsOnPage >= delay) fire(trigger);
+            break;
+          case 'cart_value':
+            if (cartTotal !== undefined && trigger.value !== null && cartTotal >= trigger.value) fire(trigger);
+            break;
+        }
+      }
+    };
+
+    const handleScroll = () => {
+      const percent = scrollPercent();
+      if (percent === null) return;
+      pending('scroll_depth')
+        .filter((trigger) => percent >= (trigger.value ?? 100))
+        .forEach(fire);
+    };
+
+    // Pointer leaves through the top of the viewport (towards the tab bar / address bar)
+    const handleMouseOut = (event: MouseEvent) => {
+      if (event.relatedTarget || event.clientY > 0) return;
+      pending('exit_intent').forEach(fire);
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    document.addEventListener('mouseout', handleMouseOut);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('scroll', handleScroll);
+      document.removeEventListener('mouseout', handleMouseOut);
+    };
+  }, [triggers, returningVisitor]);
+}
@@ -0,0 +1,174 @@
+/**
+ * Public JavaScript API for the host page (window.AIWooChat)
+ *
+ * The loader defines a stub that queues calls; installPublicAPI() replaces it
+ * with this implementation and replays the queue. Commands that need the widget
+ * (open, close, sendMessage) wait until ChatWidget connects. Context and customer
+ * data are kept here and read by the widget when it sends a message.
+ *
+ * Declarations for theme developers: public/widget/ai-woo-chat.d.ts
+ */
+
+import type { PageContext } from './types';
+
+export interface WidgetController {
+  open(): void;
+  close(): void;
+  sendMessage(text: string): void;
+  setCustomerToken(token: string): void;
+}
+
+type Listener = (payload: any) => void;
+
+const EVENT_NAMES: AIWooChatEventName[] = ['message', 'product_click', 'open', 'handoff'];
+
+let controller: WidgetController | null = null;
+let pendingCommands: Array<(widget: WidgetController) => void> = [];
+let pageContext: AIWooChatContext = {};
+let customer: AIWooChatCustomer = {};
+const listeners = new Map<AIWooChatEventName, Set<Listener>>();
+
+function runCommand(command: (widget: WidgetController) => void): void {
+  if (controller) {
+    command(controller);
+  } else {
+    pendingCommands.push(command);
+  }
+}
+
+function cleanText(value: unknown, maxLength: number): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim().substring(0, maxLength) : undefined;
+}
+
+const api: AIWooChatAPI = {
+  open() {
+    runCommand((widget) => widget.open());
+  },
+
+  close() {
+    runCommand((widget) => widget.close());
+  },
+
+  sendMessage(text: string) {
+    if (typeof text !== 'string' || !text.trim()) {
+      console.warn('AI Woo Chat: sendMessage expects a non-empty string');
+      return;
+    }
+    runCommand((widget) => widget.sendMessage(text.trim()));
+  },
+
+  setContext(context: AIWooChatContext) {
+    if (!context || typeof context !== 'object') {
+      console.warn('AI Woo Chat: setContext expects an object');
+      return;
+    }
+    // Merge; null clears a field
+    const next: AIWooChatContext = { ...pageContext };
+    for (const key of ['productId', 'cartTotal', 'customerTier'] as const) {
+      if (context[key] === null) {
+        delete next[key];
+      } else if (context[key] !== undefined) {
+        (next as any)[key] = context[key];
+      }
+    }
+    pageContext = next;
+  },
+
+  identify(nextCustomer: AIWooChatCustomer) {
+    if (!nextCustomer || typeof nextCustomer !== 'object') {
+      console.warn('AI Woo Chat: identify expects an object');
+      return;
+    }
+    customer = { ...customer, ...nextCustomer };
+    if (nextCustomer.customerToken) {
+      const token = nextCustomer.customerToken;
+      runCommand((widget) => widget.setCustomerToken(token));
+    }
+  },
+
+  on(event, callback) {
+    if (!EVENT_NAMES.includes(event) || typeof callback !== 'function') {
+      console.warn('AI Woo Chat: Unknown event or missing callback:', event);
+      return () => {};
+    }
+    if (!listeners.has(event)) {
+      listeners.set(event, new Set());
+    }
+    listeners.get(event)!.add(callback);
+    return () => api.off(event, callback);
+  },
+
+  off(event, callback) {
+    listeners.get(event)?.delete(callback);
+  },
+};
+
+/**
+ * Replace the loader's stub with the API and run the calls it queued
+ */
+export function installPublicAPI(): void {
+  const stub = (window as any).AIWooChat;
+  window.AIWooChat = api;
+
+  const queued: Array<[string, any[]]> = Array.isArray(stub?._queue) ? stub._queue : [];
+  for (const [method, args] of queued) {
+    const fn = (api as any)[method];
+    if (typeof fn === 'function') {
+      fn(...args);
+    }
+  }
+}
+
+/**
+ * Connect the mounted widget; queued commands run now
+ * Returns a function that disconnects it
+ */
+export function connectWidget(widget: WidgetController): () => void {
+  controller = widget;
+  const commands = pendingCommands;
+  pendingCommands = [];
+  commands.forEach((command) => command(widget));
+
+  return () => {
+    if (controller === widget) {
+      controller = null;
+    }
+  };
+}
+
+/**
+ * Call listeners and dispatch the DOM event ("aiwoochat:<event>") on window
+ */
+export function emitWidgetEvent<E extends AIWooChatEventName>(event: E, payload: AIWooChatEvents[E]): void {
+  listeners.get(event)?.forEach((callback) => {
+    try {
+      callback(payload);
+    } catch (error) {
+      console.error(`AI Woo Chat: "${event}" listener failed:`, error);
+    }
+  });
+  window.dispatchEvent(new CustomEvent(`aiwoochat:${event}`, { detail: payload }));
+}
+
+/**
+ * Page context for POST /api/chat/message (snake_case, as the server expects)
+ */
+export function getPageContext(): PageContext | undefined {
+  const context: PageContext = {};
+
+  if (Number.isInteger(pageContext.productId) && pageContext.productId! > 0) {
+    context.product_id = pageContext.productId!;
+  }
+  if (typeof pageContext.cartTotal === 'number' && Number.isFinite(pageContext.cartTotal)) {
+    context.cart_total = pageContext.cartTotal;
+  }
+  context.customer_tier = cleanText(pageContext.customerTier, 50);
+
+  const name = cleanText(customer.name, 100);
+  const email = cleanText(customer.email, 254);
+  if (name || email) {
+    context.customer = { name, email };
+  }
+
+  return Object.values(context).some((value) => value !== undefined) ? context : undefined;
+}
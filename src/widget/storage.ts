@@ -10,11 +10,15 @@ const VISITOR_ID_KEY = `${STORAGE_PREFIX}visitor_id`;
 const CONVERSATION_ID_KEY = `${STORAGE_PREFIX}conversation_id`;
 const VISITOR_ID_EXPIRY_KEY = `${STORAGE_PREFIX}visitor_id_expiry`;
 const CONVERSATION_ID_EXPIRY_KEY = `${STORAGE_PREFIX}conversation_id_expiry`;
+const PROACTIVE_SHOWN_AT_KEY = `${STORAGE_PREFIX}proactive_shown_at`;
 
 // TTL: 90 days for visitor ID, 30 days for conversation ID
 const VISITOR_ID_TTL_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
 const CONVERSATION_ID_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
 
+// A proactive opener is shown at most once per 30 minutes (across page views)
+const PROACTIVE_COOLDOWN_MS = 30 * 60 * 1000;
+
 export class StorageManager {
   private storage: Storage;
 
@@ -118,6 +122,37 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Forget the conversation ID (next bootstrap starts a new conversation)
+   */
+  clearConversationId(): void {
+    this.removeItem(CONVERSATION_ID_KEY);
+    this.removeItem(CONVERSATION_ID_EXPIRY_KEY);
+  }
+
+  /**
+   * Whether a proactive opener was shown recently
+   */
+  isProactiveCoolingDown(): boolean {
+    try {
+      const shownAt = parseInt(this.storage.getItem(PROACTIVE_SHOWN_AT_KEY) || '', 10);
+      return Number.isFinite(shownAt) && Date.now() - shownAt < PROACTIVE_COOLDOWN_MS;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Record that a proactive opener was shown
+   */
+  setProactiveShown(): void {
+    try {
+      this.storage.setItem(PROACTIVE_SHOWN_AT_KEY, Date.now().toString());
+    } catch (e) {
+      console.warn('Failed to save proactive state:', e);
+    }
+  }
+
   /**
    * Remove item helper
    */
@@ -138,6 +173,7 @@ export class StorageManager {
       this.removeItem(VISITOR_ID_EXPIRY_KEY);
       this.removeItem(CONVERSATION_ID_KEY);
       this.removeItem(CONVERSATION_ID_EXPIRY_KEY);
+      this.removeItem(PROACTIVE_SHOWN_AT_KEY);
     } catch (e) {
       console.warn('Failed to clear storage:', e);
     }
@@ -6,6 +6,17 @@ export interface WidgetConfig {
   saasUrl: string;
   siteId: string;
   containerId: string;
+  store?: StoreConfig;
+}
+
+/**
+ * Store endpoints injected by the WordPress plugin (window.AIWooChatConfig)
+ */
+export interface StoreConfig {
+  restNonce?: string; // wp_rest nonce, keeps logged-in customers' carts
+  cartUrl?: string;
+  checkoutUrl?: string;
+  customerToken?: string; // Signed customer token for logged-in customers (order lookup)
 }
 
 export interface ChatConfig {
@@ -14,6 +25,28 @@ export interface ChatConfig {
   input_placeholder: string;
   send_button_text: string;
   avatar_url: string | null;
+  proactive_triggers?: ProactiveTrigger[];
+  starter_questions?: string[]; // Chips under the welcome message
+}
+
+export type ProactiveTriggerType =
+  | 'time_on_page'
+  | 'scroll_depth'
+  | 'exit_intent'
+  | 'url_pattern'
+  | 'cart_value'
+  | 'returning_visitor';
+
+/**
+ * Proactive engagement trigger (bootstrap chat_config.proactive_triggers)
+ */
+export interface ProactiveTrigger {
+  id: string;
+  type: ProactiveTriggerType;
+  value: number | null; // Seconds, scroll percent or cart total; delay in seconds for url_pattern / returning_visitor
+  pattern: string | null; // url_pattern only, "*" matches any characters
+  message: string;
+  generate_from_product: boolean;
 }
 
 export interface BootstrapResponse {
@@ -26,25 +59,81 @@ export interface BootstrapResponse {
     conversation_count: number;
   };
   chat_config?: ChatConfig;
+  handoff_status?: HandoffStatus;
+  history_token?: string; // Signed token for GET /api/chat/history
+}
+
+export type HandoffStatus = 'none' | 'requested' | 'active' | 'resolved';
+
+/**
+ * GET /api/chat/updates response (agent replies during human handoff)
+ */
+export interface ChatUpdates {
+  handoff: {
+    status: HandoffStatus;
+  };
+  messages: Array<{
+    id: string;
+    role: 'agent';
+    content: string;
+    agent_name: string | null;
+    created_at: string;
+  }>;
+}
+
+/**
+ * GET /api/chat/history response (one page, messages oldest first)
+ */
+export interface ChatHistory {
+  messages: Array<{
+    id: string;
+    role: 'user' | 'assistant' | 'agent';
+    content: string;
+    agent_name: string | null;
+    products: ChatProduct[];
+    created_at: string;
+  }>;
+  has_more: boolean;
+  next_before: string | null; // Pass as `before` to load the previous page
+}
+
+/**
+ * Page context sent with each message (window.AIWooChat.setContext / identify)
+ */
+export interface PageContext {
+  product_id?: number;
+  cart_total?: number;
+  customer_tier?: string;
+  customer?: {
+    name?: string;
+    email?: string;
+  };
 }
 
 export interface SSEMessage {
-  type: 'chunk' | 'product' | 'done' | 'error';
+  type: 'chunk' | 'product' | 'handoff' | 'suggestions' | 'done' | 'error';
   content?: string;
   id?: number;
+  variation_id?: number;
+  variation_attributes?: Record<string, string>; // Selected variation, attribute label => value
   title?: string;
   url?: string;
   price?: number;
   stock_status?: string;
+  status?: HandoffStatus; // handoff events
+  suggestions?: string[]; // suggestions events (follow-up questions / filter chips)
   message?: string;
 }
 
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'agent';
   content: string;
+  agentName?: string | null;
   products?: Array<{
     id: number;
+    variation_id?: number;
+    variation_attributes?: Record<string, string>;
     title: string;
     url: string;
     price: number;
@@ -52,10 +141,31 @@ export interface ChatMessage {
   }>;
   timestamp: Date;
   isStreaming?: boolean;
+  suggestions?: string[]; // Quick replies, shown while this is the last message
+}
+
+export type ChatProduct = NonNullable<ChatMessage['products']>[number];
+
+export interface CartAddResult {
+  added: boolean;
+  cart_item_key: string;
+  product_id: number;
+  variation_id: number | null;
+  quantity: number;
+  cart: {
+    item_count: number;
+    total: number;
+    currency: string;
+  };
+  cart_url: string;
+  checkout_url: string;
 }
 
+export type CartActionState = 'adding' | 'added' | 'error';
+
 export interface SessionData {
   visitorId: string;
   conversationId: string;
   welcomeBack: boolean;
+  historyToken?: string;
 }
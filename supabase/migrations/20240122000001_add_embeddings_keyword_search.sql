@@ -0,0 +1,86 @@
+-- Add full-text (keyword) search over embeddings.content_text
+-- Used by hybrid retrieval (vector + keyword fused with reciprocal rank fusion)
+-- Catches exact SKU lookups, brand names and short queries that vector search misses
+
+-- 'simple' configuration: no stemming or stop words, so SKUs, brand names and
+-- Serbian text are indexed as-is (Postgres has no Serbian dictionary)
+ALTER TABLE embeddings
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content_text, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_content_tsv ON embeddings USING GIN (content_tsv);
+
+-- Keyword search function (SECURITY DEFINER, same isolation rules as search_embeddings)
+-- Query terms are OR-ed with prefix matching; ts_rank_cd orders the results
+CREATE OR REPLACE FUNCTION search_embeddings_keyword(
+  p_query_text TEXT,
+  p_tenant_id UUID,
+  p_site_id UUID,
+  p_entity_types TEXT[] DEFAULT ARRAY['product', 'page', 'policy']::TEXT[],
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  id UUID,
+  site_id UUID,
+  tenant_id UUID,
+  entity_type TEXT,
+  entity_id TEXT,
+  content_text TEXT,
+  model TEXT,
+  version INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER -- Bypasses RLS - runs with function owner's privileges
+SET search_path = public
+AS $$
+DECLARE
+  v_query TEXT;
+  v_tsquery tsquery;
+BEGIN
+  -- Build "term1:* | term2:*" from the normalized query lexemes
+  SELECT string_agg(quote_literal(token) || ':*', ' | ')
+  INTO v_query
+  FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(p_query_text, '')))) AS token;
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := to_tsquery('simple', v_query);
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.site_id,
+    e.tenant_id,
+    e.entity_type,
+    e.entity_id,
+    e.content_text,
+    e.model,
+    e.version,
+    e.metadata,
+    e.created_at,
+    e.updated_at,
+    ts_rank_cd(e.content_tsv, v_tsquery)::FLOAT as rank
+  FROM embeddings e
+  WHERE
+    e.tenant_id = p_tenant_id
+    AND e.site_id = p_site_id
+    AND e.entity_type = ANY(p_entity_types)
+    AND e.content_tsv @@ v_tsquery
+  ORDER BY rank DESC
+  LIMIT p_limit;
+END;
+$$;
+
+COMMENT ON COLUMN embeddings.content_tsv IS 'Full-text search vector over content_text (simple configuration) for keyword/hybrid retrieval';
+
+COMMENT ON FUNCTION search_embeddings_keyword IS
+'SECURITY DEFINER function for full-text keyword search over embeddings. Used together with search_embeddings for hybrid retrieval.';
+
+GRANT EXECUTE ON FUNCTION search_embeddings_keyword TO postgres;
+GRANT EXECUTE ON FUNCTION search_embeddings_keyword TO authenticated;
@@ -0,0 +1,263 @@
+-- Structured product filtering for retrieval
+-- Ingestion stores product facets in embeddings.metadata->'facets':
+--   { categories: text[], tags: text[], brand: text, attributes: { name: text[] },
+--     price_min: numeric, price_max: numeric, currency: text, stock_status: text }
+-- All text values are lower-cased; attribute names have the WooCommerce "pa_" prefix removed.
+-- Search functions accept an optional p_filters JSONB:
+--   { price_min, price_max, in_stock_only, categories: [], brands: [], attributes: { name: [] } }
+
+-- Filter predicate shared by vector and keyword search
+-- Filters only apply to products; rows without facets (not re-synced yet) pass
+CREATE OR REPLACE FUNCTION embedding_matches_filters(
+  p_entity_type TEXT,
+  p_metadata JSONB,
+  p_filters JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    p_filters IS NULL
+    OR p_filters = '{}'::JSONB
+    OR p_entity_type <> 'product'
+    OR p_metadata->'facets' IS NULL
+    OR (
+      (p_filters->>'price_min' IS NULL
+        OR COALESCE((p_metadata->'facets'->>'price_max')::NUMERIC >= (p_filters->>'price_min')::NUMERIC, FALSE))
+      AND (p_filters->>'price_max' IS NULL
+        OR COALESCE((p_metadata->'facets'->>'price_min')::NUMERIC <= (p_filters->>'price_max')::NUMERIC, FALSE))
+      AND (COALESCE((p_filters->>'in_stock_only')::BOOLEAN, FALSE) = FALSE
+        OR p_metadata->'facets'->>'stock_status' = 'instock')
+      AND (COALESCE(jsonb_array_length(p_filters->'categories'), 0) = 0
+        OR COALESCE((p_metadata->'facets'->'categories') ?| ARRAY(SELECT jsonb_array_elements_text(p_filters->'categories')), FALSE))
+      AND (COALESCE(jsonb_array_length(p_filters->'brands'), 0) = 0
+        OR COALESCE((p_metadata->'facets'->>'brand') = ANY(ARRAY(SELECT jsonb_array_elements_text(p_filters->'brands'))), FALSE))
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_each(COALESCE(p_filters->'attributes', '{}'::JSONB)) AS a(key, value)
+        WHERE jsonb_array_length(a.value) > 0
+          AND NOT COALESCE(
+            (p_metadata->'facets'->'attributes'->a.key) ?| ARRAY(SELECT jsonb_array_elements_text(a.value)),
+            FALSE
+          )
+      )
+    )
+$$;
+
+-- Recreate search functions with p_filters (signature change requires DROP)
+DROP FUNCTION IF EXISTS search_embeddings(vector, UUID, UUID, TEXT[], INTEGER, FLOAT);
+
+CREATE OR REPLACE FUNCTION search_embeddings(
+  p_query_embedding vector(1536),
+  p_tenant_id UUID,
+  p_site_id UUID,
+  p_entity_types TEXT[] DEFAULT ARRAY['product', 'page', 'policy']::TEXT[],
+  p_limit INTEGER DEFAULT 10,
+  p_similarity_threshold FLOAT DEFAULT 0.7,
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  site_id UUID,
+  tenant_id UUID,
+  entity_type TEXT,
+  entity_id TEXT,
+  content_text TEXT,
+  model TEXT,
+  version INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance FLOAT,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER -- Bypasses RLS - runs with function owner's privileges
+SET search_path = public
+AS $$
+BEGIN
+  -- Tenant/site isolation is enforced by WHERE clause (see 20240120000004)
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.site_id,
+    e.tenant_id,
+    e.entity_type,
+    e.entity_id,
+    e.content_text,
+    e.model,
+    e.version,
+    e.metadata,
+    e.created_at,
+    e.updated_at,
+    (e.embedding <=> p_query_embedding)::FLOAT as distance,
+    (1 - (e.embedding <=> p_query_embedding)::FLOAT / 2)::FLOAT as similarity
+  FROM embeddings e
+  WHERE
+    e.embedding IS NOT NULL
+    AND e.tenant_id = p_tenant_id
+    AND e.site_id = p_site_id
+    AND e.entity_type = ANY(p_entity_types)
+    AND embedding_matches_filters(e.entity_type, e.metadata, p_filters)
+  ORDER BY e.embedding <=> p_query_embedding
+  LIMIT p_limit;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_embeddings_keyword(TEXT, UUID, UUID, TEXT[], INTEGER);
+
+CREATE OR REPLACE FUNCTION search_embeddings_keyword(
+  p_query_text TEXT,
+  p_tenant_id UUID,
+  p_site_id UUID,
+  p_entity_types TEXT[] DEFAULT ARRAY['product', 'page', 'policy']::TEXT[],
+  p_limit INTEGER DEFAULT 10,
+  p_filters JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  site_id UUID,
+  tenant_id UUID,
+  entity_type TEXT,
+  entity_id TEXT,
+  content_text TEXT,
+  model TEXT,
+  version INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER -- Bypasses RLS - runs with function owner's privileges
+SET search_path = public
+AS $$
+DECLARE
+  v_query TEXT;
+  v_tsquery tsquery;
+BEGIN
+  -- Build "term1:* | term2:*" from the normalized query lexemes
+  SELECT string_agg(quote_literal(token) || ':*', ' | ')
+  INTO v_query
+  FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(p_query_text, '')))) AS token;
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := to_tsquery('simple', v_query);
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.site_id,
+    e.tenant_id,
+    e.entity_type,
+    e.entity_id,
+    e.content_text,
+    e.model,
+    e.version,
+    e.metadata,
+    e.created_at,
+    e.updated_at,
+    ts_rank_cd(e.content_tsv, v_tsquery)::FLOAT as rank
+  FROM embeddings e
+  WHERE
+    e.tenant_id = p_tenant_id
+    AND e.site_id = p_site_id
+    AND e.entity_type = ANY(p_entity_types)
+    AND e.content_tsv @@ v_tsquery
+    AND embedding_matches_filters(e.entity_type, e.metadata, p_filters)
+  ORDER BY rank DESC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Distinct facet values per site (vocabulary for LLM filter extraction)
+-- facet is 'category', 'brand' or 'attribute:<name>'
+CREATE OR REPLACE FUNCTION get_product_facet_values(
+  p_tenant_id UUID,
+  p_site_id UUID
+)
+RETURNS TABLE (
+  facet TEXT,
+  value TEXT,
+  product_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH products AS (
+    SELECT DISTINCT ON (e.entity_id) e.entity_id, e.metadata->'facets' AS facets
+    FROM embeddings e
+    WHERE
+      e.tenant_id = p_tenant_id
+      AND e.site_id = p_site_id
+      AND e.entity_type = 'product'
+      AND e.metadata ? 'facets'
+    ORDER BY e.entity_id, e.version DESC
+  )
+  SELECT 'category'::TEXT, c.value, COUNT(*)::BIGINT
+  FROM products p, jsonb_array_elements_text(COALESCE(p.facets->'categories', '[]'::JSONB)) AS c(value)
+  GROUP BY c.value
+  UNION ALL
+  SELECT 'brand'::TEXT, p.facets->>'brand', COUNT(*)::BIGINT
+  FROM products p
+  WHERE p.facets->>'brand' IS NOT NULL
+  GROUP BY p.facets->>'brand'
+  UNION ALL
+  SELECT 'attribute:' || a.key, v.value, COUNT(*)::BIGINT
+  FROM products p,
+    jsonb_each(COALESCE(p.facets->'attributes', '{}'::JSONB)) AS a(key, value),
+    jsonb_array_elements_text(a.value) AS v(value)
+  GROUP BY a.key, v.value;
+END;
+$$;
+
+-- Refresh facets on all stored chunks of a product without re-embedding
+-- (stock status and attributes can change while the embedded text does not)
+CREATE OR REPLACE FUNCTION set_embedding_facets(
+  p_site_id UUID,
+  p_entity_id TEXT,
+  p_facets JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  UPDATE embeddings
+  SET metadata = COALESCE(metadata, '{}'::JSONB) || jsonb_build_object('facets', p_facets),
+      updated_at = NOW()
+  WHERE site_id = p_site_id
+    AND entity_type = 'product'
+    AND entity_id = p_entity_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_facets ON embeddings USING GIN ((metadata->'facets'));
+
+COMMENT ON FUNCTION embedding_matches_filters IS 'Structured product filter predicate over embeddings.metadata->facets (used by search_embeddings and search_embeddings_keyword)';
+COMMENT ON FUNCTION get_product_facet_values IS 'Distinct product facet values per site, used as vocabulary for LLM filter extraction';
+COMMENT ON FUNCTION set_embedding_facets IS 'Update product facets on stored embeddings without re-embedding';
+
+GRANT EXECUTE ON FUNCTION search_embeddings TO postgres;
+GRANT EXECUTE ON FUNCTION search_embeddings TO authenticated;
+GRANT EXECUTE ON FUNCTION search_embeddings_keyword TO postgres;
+GRANT EXECUTE ON FUNCTION search_embeddings_keyword TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_product_facet_values FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION set_embedding_facets FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_product_facet_values TO postgres;
+GRANT EXECUTE ON FUNCTION get_product_facet_values TO service_role;
+GRANT EXECUTE ON FUNCTION set_embedding_facets TO postgres;
+GRANT EXECUTE ON FUNCTION set_embedding_facets TO service_role;
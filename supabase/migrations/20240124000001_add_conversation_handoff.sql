@@ -0,0 +1,28 @@
+-- Human handoff / live agent takeover
+-- handoff_status lifecycle:
+--   none -> requested (visitor button or assistant tool) -> active (agent took over, AI paused) -> resolved
+-- Agent replies are stored in messages with role 'agent' (content_json.agent = { user_id, name })
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS handoff_status TEXT NOT NULL DEFAULT 'none'
+    CHECK (handoff_status IN ('none', 'requested', 'active', 'resolved')),
+  ADD COLUMN IF NOT EXISTS handoff_requested_by TEXT
+    CHECK (handoff_requested_by IN ('visitor', 'assistant')),
+  ADD COLUMN IF NOT EXISTS handoff_reason TEXT,
+  ADD COLUMN IF NOT EXISTS handoff_requested_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS handoff_agent_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS handoff_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS handoff_resolved_at TIMESTAMPTZ;
+
+-- Open handoffs are looked up for notifications on every dashboard poll
+CREATE INDEX IF NOT EXISTS idx_conversations_open_handoffs
+  ON conversations(site_id, handoff_requested_at)
+  WHERE handoff_status IN ('requested', 'active');
+
+-- Allow agent messages
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_role_check;
+ALTER TABLE messages
+  ADD CONSTRAINT messages_role_check CHECK (role IN ('user', 'assistant', 'system', 'agent'));
+
+COMMENT ON COLUMN conversations.handoff_status IS 'Human handoff state: none, requested, active (AI paused), resolved';
+COMMENT ON COLUMN conversations.handoff_agent_id IS 'Dashboard user (owner/admin/support) handling the conversation';
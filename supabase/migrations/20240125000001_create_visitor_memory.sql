@@ -0,0 +1,49 @@
+-- Persistent visitor memory (cross-session personalization)
+-- One row per visitor: preferences, sizes and budget extracted from past conversations,
+-- product interactions from chat_events, and the compact memory block injected into the prompt.
+-- "Forget me" clears the row and sets enabled = false so it is not rebuilt.
+
+CREATE TABLE IF NOT EXISTS visitor_memory (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    visitor_id UUID NOT NULL REFERENCES visitors(id) ON DELETE CASCADE,
+    profile JSONB NOT NULL DEFAULT '{}'::jsonb,
+    summary TEXT,
+    conversations_processed INTEGER NOT NULL DEFAULT 0,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    last_extracted_at TIMESTAMPTZ,
+    forgotten_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(visitor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_visitor_memory_site_id ON visitor_memory(site_id);
+
+-- Conversations are extracted once they are no longer the visitor's current conversation;
+-- new messages after extraction make the conversation eligible again
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS memory_extracted_at TIMESTAMPTZ;
+
+-- Enable RLS (runtime and dashboard API use the service role)
+ALTER TABLE visitor_memory ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view visitor memory for their sites"
+    ON visitor_memory FOR SELECT
+    TO authenticated
+    USING (
+        site_id IN (
+            SELECT s.id FROM sites s
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+-- Visitor memory is written by the runtime only
+REVOKE ALL ON visitor_memory FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON visitor_memory FROM authenticated;
+
+COMMENT ON TABLE visitor_memory IS 'Per-visitor memory extracted from past conversations and chat_events';
+COMMENT ON COLUMN visitor_memory.profile IS 'JSONB: { preferences: [], sizes: {}, budget: {min, max, currency}, products: [{product_id, title, interactions, last_at}] }';
+COMMENT ON COLUMN visitor_memory.summary IS 'Compact memory block injected into the system prompt for returning visitors';
+COMMENT ON COLUMN visitor_memory.enabled IS 'False after the visitor asked to be forgotten';
@@ -0,0 +1,108 @@
+-- Durable ingestion job queue
+-- Webhooks and manual syncs enqueue jobs instead of ingesting inside the HTTP request.
+-- Workers lease jobs (lease_owner / lease_expires_at); a job whose lease expires
+-- (crashed worker, restart) is picked up again by the next worker.
+--
+-- status lifecycle:
+--   queued -> running -> completed
+--                     -> queued (retry after run_after, attempts < max_attempts)
+--                     -> dead_letter (attempts exhausted, retried manually from the dashboard)
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    job_type TEXT NOT NULL CHECK (job_type IN ('webhook', 'sync')),
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'dead_letter')),
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    ingestion_event_id UUID REFERENCES ingestion_events(id) ON DELETE SET NULL,
+    -- Progress (sync jobs process payload.entity_ids in order; processed_items is the cursor)
+    total_items INTEGER NOT NULL DEFAULT 0,
+    processed_items INTEGER NOT NULL DEFAULT 0,
+    failed_items INTEGER NOT NULL DEFAULT 0,
+    failures JSONB NOT NULL DEFAULT '[]'::jsonb,
+    embeddings_created INTEGER NOT NULL DEFAULT 0,
+    tokens_used INTEGER NOT NULL DEFAULT 0,
+    -- Retries and leasing
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    lease_owner TEXT,
+    lease_expires_at TIMESTAMPTZ,
+    last_error TEXT,
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_site_id ON ingestion_jobs(site_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_runnable ON ingestion_jobs(run_after)
+    WHERE status IN ('queued', 'running');
+
+-- ingestion_events already recorded 'retryable' in code; queued events are 'pending'
+ALTER TABLE ingestion_events DROP CONSTRAINT IF EXISTS ingestion_events_status_check;
+ALTER TABLE ingestion_events
+    ADD CONSTRAINT ingestion_events_status_check
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'retryable', 'dead_letter'));
+
+-- Lease runnable jobs for a worker
+-- Queued jobs whose run_after has passed, and running jobs whose lease expired.
+-- SKIP LOCKED lets several workers lease concurrently without taking the same job.
+CREATE OR REPLACE FUNCTION lease_ingestion_jobs(
+    p_worker_id TEXT,
+    p_limit INTEGER DEFAULT 1,
+    p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF ingestion_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE ingestion_jobs j
+    SET status = 'running',
+        lease_owner = p_worker_id,
+        lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+        -- A lease that expired means the previous attempt died mid-way
+        attempts = CASE WHEN j.status = 'running' THEN j.attempts + 1 ELSE j.attempts END,
+        started_at = COALESCE(j.started_at, NOW()),
+        updated_at = NOW()
+    WHERE j.id IN (
+        SELECT id FROM ingestion_jobs
+        WHERE (status = 'queued' AND run_after <= NOW())
+           OR (status = 'running' AND lease_expires_at < NOW())
+        ORDER BY run_after ASC
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lease_ingestion_jobs FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION lease_ingestion_jobs TO postgres;
+GRANT EXECUTE ON FUNCTION lease_ingestion_jobs TO service_role;
+
+-- Enable RLS (workers and dashboard API use the service role)
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view ingestion_jobs for their sites"
+    ON ingestion_jobs FOR SELECT
+    TO authenticated
+    USING (
+        site_id IN (
+            SELECT s.id FROM sites s
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+REVOKE ALL ON ingestion_jobs FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON ingestion_jobs FROM authenticated;
+
+COMMENT ON TABLE ingestion_jobs IS 'Durable ingestion job queue (webhook events and manual syncs)';
+COMMENT ON COLUMN ingestion_jobs.payload IS 'JSONB: webhook { event, entity_type, entity_id, event_id } or sync { entity_type, entity_ids }';
+COMMENT ON COLUMN ingestion_jobs.failures IS 'JSONB array of per-item failures: [{ entity_id, error, at }]';
+COMMENT ON COLUMN ingestion_jobs.lease_expires_at IS 'Worker lease; expired running jobs are leased again';
@@ -0,0 +1,50 @@
+-- FAQ knowledge source
+-- Question/answer pairs managed from the dashboard (single entries or CSV import).
+-- Each FAQ is embedded by the ingestion service as entity_type 'faq' (entity_id = faqs.id)
+-- and retrieved/cited like products, pages and policies.
+
+CREATE TABLE IF NOT EXISTS faqs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    question TEXT NOT NULL CHECK (char_length(question) BETWEEN 1 AND 1000),
+    answer TEXT NOT NULL CHECK (char_length(answer) BETWEEN 1 AND 10000),
+    category TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_faqs_site_id ON faqs(site_id, created_at DESC);
+
+-- Allow FAQ chunks and FAQ ingestion events
+ALTER TABLE embeddings DROP CONSTRAINT IF EXISTS embeddings_entity_type_check;
+ALTER TABLE embeddings
+    ADD CONSTRAINT embeddings_entity_type_check
+    CHECK (entity_type IN ('product', 'page', 'policy', 'faq'));
+
+ALTER TABLE ingestion_events DROP CONSTRAINT IF EXISTS ingestion_events_entity_type_check;
+ALTER TABLE ingestion_events
+    ADD CONSTRAINT ingestion_events_entity_type_check
+    CHECK (entity_type IN ('product', 'page', 'policy', 'faq'));
+
+-- Enable RLS (dashboard API and ingestion use the service role)
+ALTER TABLE faqs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view faqs for their sites"
+    ON faqs FOR SELECT
+    TO authenticated
+    USING (
+        site_id IN (
+            SELECT s.id FROM sites s
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+REVOKE ALL ON faqs FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON faqs FROM authenticated;
+
+COMMENT ON TABLE faqs IS 'FAQ question/answer pairs per site (knowledge source type faq)';
+COMMENT ON COLUMN faqs.enabled IS 'Disabled FAQs are removed from the knowledge base but kept for editing';
@@ -0,0 +1,66 @@
+-- Document knowledge source
+-- Files uploaded from the knowledge settings page (size guides, care instructions,
+-- warranty terms, ...). The original file is kept in the private knowledge-documents
+-- storage bucket; its text is extracted by the ingestion worker and embedded as
+-- entity_type 'document' (entity_id = knowledge_documents.id).
+
+CREATE TABLE IF NOT EXISTS knowledge_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 300),
+    file_name TEXT NOT NULL,
+    file_type TEXT NOT NULL CHECK (file_type IN ('pdf', 'docx', 'md', 'txt', 'csv')),
+    mime_type TEXT,
+    file_size INTEGER NOT NULL CHECK (file_size > 0),
+    storage_path TEXT NOT NULL,
+    file_hash TEXT NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'indexed', 'failed')),
+    error_message TEXT,
+    extracted_chars INTEGER,
+    indexed_at TIMESTAMPTZ,
+    uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_site_id ON knowledge_documents(site_id, created_at DESC);
+
+-- Allow document chunks and document ingestion events
+ALTER TABLE embeddings DROP CONSTRAINT IF EXISTS embeddings_entity_type_check;
+ALTER TABLE embeddings
+    ADD CONSTRAINT embeddings_entity_type_check
+    CHECK (entity_type IN ('product', 'page', 'policy', 'faq', 'document'));
+
+ALTER TABLE ingestion_events DROP CONSTRAINT IF EXISTS ingestion_events_entity_type_check;
+ALTER TABLE ingestion_events
+    ADD CONSTRAINT ingestion_events_entity_type_check
+    CHECK (entity_type IN ('product', 'page', 'policy', 'faq', 'document'));
+
+-- Private bucket for the original files (accessed with the service role only)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('knowledge-documents', 'knowledge-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable RLS (dashboard API and ingestion use the service role)
+ALTER TABLE knowledge_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view knowledge documents for their sites"
+    ON knowledge_documents FOR SELECT
+    TO authenticated
+    USING (
+        site_id IN (
+            SELECT s.id FROM sites s
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+REVOKE ALL ON knowledge_documents FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON knowledge_documents FROM authenticated;
+
+COMMENT ON TABLE knowledge_documents IS 'Uploaded documents per site (knowledge source type document)';
+COMMENT ON COLUMN knowledge_documents.version IS 'Incremented when the file is replaced; the document is re-indexed';
+COMMENT ON COLUMN knowledge_documents.storage_path IS 'Object path in the knowledge-documents storage bucket';
+COMMENT ON COLUMN knowledge_documents.status IS 'Indexing status: pending, processing, indexed, failed';
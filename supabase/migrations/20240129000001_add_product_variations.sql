@@ -0,0 +1,54 @@
+-- Product variations as child entities
+-- Each variation of a variable product is embedded as entity_type 'variation'
+-- (entity_id = WooCommerce variation ID). metadata carries the parent product_id,
+-- variation_id, sku, variation_attributes and facets narrowed to the variation's own
+-- price, stock status and attribute values.
+
+ALTER TABLE embeddings DROP CONSTRAINT IF EXISTS embeddings_entity_type_check;
+ALTER TABLE embeddings
+    ADD CONSTRAINT embeddings_entity_type_check
+    CHECK (entity_type IN ('product', 'variation', 'page', 'policy', 'faq', 'document'));
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_variation_product
+    ON embeddings(site_id, (metadata->>'product_id'))
+    WHERE entity_type = 'variation';
+
+-- Structured filters apply to variation chunks as well as product chunks
+CREATE OR REPLACE FUNCTION embedding_matches_filters(
+  p_entity_type TEXT,
+  p_metadata JSONB,
+  p_filters JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    p_filters IS NULL
+    OR p_filters = '{}'::JSONB
+    OR p_entity_type NOT IN ('product', 'variation')
+    OR p_metadata->'facets' IS NULL
+    OR (
+      (p_filters->>'price_min' IS NULL
+        OR COALESCE((p_metadata->'facets'->>'price_max')::NUMERIC >= (p_filters->>'price_min')::NUMERIC, FALSE))
+      AND (p_filters->>'price_max' IS NULL
+        OR COALESCE((p_metadata->'facets'->>'price_min')::NUMERIC <= (p_filters->>'price_max')::NUMERIC, FALSE))
+      AND (COALESCE((p_filters->>'in_stock_only')::BOOLEAN, FALSE) = FALSE
+        OR p_metadata->'facets'->>'stock_status' = 'instock')
+      AND (COALESCE(jsonb_array_length(p_filters->'categories'), 0) = 0
+        OR COALESCE((p_metadata->'facets'->'categories') ?| ARRAY(SELECT jsonb_array_elements_text(p_filters->'categories')), FALSE))
+      AND (COALESCE(jsonb_array_length(p_filters->'brands'), 0) = 0
+        OR COALESCE((p_metadata->'facets'->>'brand') = ANY(ARRAY(SELECT jsonb_array_elements_text(p_filters->'brands'))), FALSE))
+      AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_each(COALESCE(p_filters->'attributes', '{}'::JSONB)) AS a(key, value)
+        WHERE jsonb_array_length(a.value) > 0
+          AND NOT COALESCE(
+            (p_metadata->'facets'->'attributes'->a.key) ?| ARRAY(SELECT jsonb_array_elements_text(a.value)),
+            FALSE
+          )
+      )
+    )
+$$;
+
+COMMENT ON INDEX idx_embeddings_variation_product IS 'Variation chunks by parent product (re-sync and product deletion)';
@@ -0,0 +1,241 @@
+-- Embedding indexes (model migrations)
+-- Every embedding belongs to an index generation (embeddings.index_version). A site
+-- serves queries from its active index; changing the embedding model builds a new
+-- index in the background (status building -> ready), which is compared with the
+-- active one and then switched to in a single transaction. The previous index is
+-- kept as retired so the switch can be rolled back until the next migration starts.
+--
+-- embeddings.version stays the per-entity row counter (unique per site/entity);
+-- index_version identifies the embedding space the row belongs to.
+-- Sites without embedding_indexes rows serve index_version 1.
+
+ALTER TABLE embeddings ADD COLUMN IF NOT EXISTS index_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_site_index_version ON embeddings(site_id, index_version);
+
+CREATE TABLE IF NOT EXISTS embedding_indexes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'building'
+        CHECK (status IN ('building', 'ready', 'active', 'retired', 'cancelled', 'failed')),
+    job_id UUID REFERENCES ingestion_jobs(id) ON DELETE SET NULL,
+    evaluation JSONB,
+    error_message TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    activated_at TIMESTAMPTZ,
+    retired_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (site_id, version)
+);
+
+-- At most one active and one building/ready index per site
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_indexes_active
+    ON embedding_indexes(site_id) WHERE status = 'active';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_indexes_pending
+    ON embedding_indexes(site_id) WHERE status IN ('building', 'ready');
+
+-- Re-embedding jobs for index builds
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_job_type_check;
+ALTER TABLE ingestion_jobs
+    ADD CONSTRAINT ingestion_jobs_job_type_check
+    CHECK (job_type IN ('webhook', 'sync', 'reindex'));
+
+-- Switch the active index of a site in one transaction (cutover and rollback)
+-- The current active index becomes retired; p_version must be ready or retired
+CREATE OR REPLACE FUNCTION activate_embedding_index(
+  p_site_id UUID,
+  p_version INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1 FROM embedding_indexes
+  WHERE site_id = p_site_id AND version = p_version AND status IN ('ready', 'retired')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE embedding_indexes
+  SET status = 'retired', retired_at = NOW(), updated_at = NOW()
+  WHERE site_id = p_site_id AND status = 'active';
+
+  UPDATE embedding_indexes
+  SET status = 'active', activated_at = NOW(), retired_at = NULL, updated_at = NOW()
+  WHERE site_id = p_site_id AND version = p_version;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Recreate search functions with p_index_version (signature change requires DROP)
+-- NULL searches every index (callers pass the active index version)
+
+DROP FUNCTION IF EXISTS search_embeddings(vector, UUID, UUID, TEXT[], INTEGER, FLOAT, JSONB);
+
+CREATE OR REPLACE FUNCTION search_embeddings(
+  p_query_embedding vector(1536),
+  p_tenant_id UUID,
+  p_site_id UUID,
+  p_entity_types TEXT[] DEFAULT ARRAY['product', 'page', 'policy']::TEXT[],
+  p_limit INTEGER DEFAULT 10,
+  p_similarity_threshold FLOAT DEFAULT 0.7,
+  p_filters JSONB DEFAULT NULL,
+  p_index_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  site_id UUID,
+  tenant_id UUID,
+  entity_type TEXT,
+  entity_id TEXT,
+  content_text TEXT,
+  model TEXT,
+  version INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance FLOAT,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER -- Bypasses RLS - runs with function owner's privileges
+SET search_path = public
+AS $$
+BEGIN
+  -- Tenant/site isolation is enforced by WHERE clause (see 20240120000004)
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.site_id,
+    e.tenant_id,
+    e.entity_type,
+    e.entity_id,
+    e.content_text,
+    e.model,
+    e.version,
+    e.metadata,
+    e.created_at,
+    e.updated_at,
+    (e.embedding <=> p_query_embedding)::FLOAT as distance,
+    (1 - (e.embedding <=> p_query_embedding)::FLOAT / 2)::FLOAT as similarity
+  FROM embeddings e
+  WHERE
+    e.embedding IS NOT NULL
+    AND e.tenant_id = p_tenant_id
+    AND e.site_id = p_site_id
+    AND e.entity_type = ANY(p_entity_types)
+    AND embedding_matches_filters(e.entity_type, e.metadata, p_filters)
+    AND (p_index_version IS NULL OR e.index_version = p_index_version)
+  ORDER BY e.embedding <=> p_query_embedding
+  LIMIT p_limit;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_embeddings_keyword(TEXT, UUID, UUID, TEXT[], INTEGER, JSONB);
+
+CREATE OR REPLACE FUNCTION search_embeddings_keyword(
+  p_query_text TEXT,
+  p_tenant_id UUID,
+  p_site_id UUID,
+  p_entity_types TEXT[] DEFAULT ARRAY['product', 'page', 'policy']::TEXT[],
+  p_limit INTEGER DEFAULT 10,
+  p_filters JSONB DEFAULT NULL,
+  p_index_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  site_id UUID,
+  tenant_id UUID,
+  entity_type TEXT,
+  entity_id TEXT,
+  content_text TEXT,
+  model TEXT,
+  version INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER -- Bypasses RLS - runs with function owner's privileges
+SET search_path = public
+AS $$
+DECLARE
+  v_query TEXT;
+  v_tsquery tsquery;
+BEGIN
+  -- Build "term1:* | term2:*" from the normalized query lexemes
+  SELECT string_agg(quote_literal(token) || ':*', ' | ')
+  INTO v_query
+  FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(p_query_text, '')))) AS token;
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := to_tsquery('simple', v_query);
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.site_id,
+    e.tenant_id,
+    e.entity_type,
+    e.entity_id,
+    e.content_text,
+    e.model,
+    e.version,
+    e.metadata,
+    e.created_at,
+    e.updated_at,
+    ts_rank_cd(e.content_tsv, v_tsquery)::FLOAT as rank
+  FROM embeddings e
+  WHERE
+    e.tenant_id = p_tenant_id
+    AND e.site_id = p_site_id
+    AND e.entity_type = ANY(p_entity_types)
+    AND e.content_tsv @@ v_tsquery
+    AND embedding_matches_filters(e.entity_type, e.metadata, p_filters)
+    AND (p_index_version IS NULL OR e.index_version = p_index_version)
+  ORDER BY rank DESC
+  LIMIT p_limit;
+END;
+$$;
+
+COMMENT ON TABLE embedding_indexes IS 'Embedding index generations per site (one active; one building/ready during a model migration)';
+COMMENT ON COLUMN embeddings.index_version IS 'Embedding index generation (see embedding_indexes.version); version is the per-entity row counter';
+COMMENT ON FUNCTION activate_embedding_index IS 'Atomically make an index version active and retire the current one (cutover / rollback)';
+
+-- Enable RLS (dashboard API and ingestion use the service role)
+ALTER TABLE embedding_indexes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view embedding indexes for their sites"
+    ON embedding_indexes FOR SELECT
+    TO authenticated
+    USING (
+        site_id IN (
+            SELECT s.id FROM sites s
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+REVOKE ALL ON embedding_indexes FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON embedding_indexes FROM authenticated;
+
+GRANT EXECUTE ON FUNCTION search_embeddings TO postgres;
+GRANT EXECUTE ON FUNCTION search_embeddings TO authenticated;
+GRANT EXECUTE ON FUNCTION search_embeddings_keyword TO postgres;
+GRANT EXECUTE ON FUNCTION search_embeddings_keyword TO authenticated;
+REVOKE EXECUTE ON FUNCTION activate_embedding_index FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION activate_embedding_index TO postgres;
+GRANT EXECUTE ON FUNCTION activate_embedding_index TO service_role;
@@ -0,0 +1,15 @@
+-- Incremental (delta) product sync
+-- Delta sync jobs page through GET /products/changed since the site's checkpoint,
+-- re-ingest changed products (unchanged content is skipped by its content hash)
+-- and delete products that are no longer published. They are scheduled by the
+-- worker endpoint and protect the knowledge base against lost webhooks.
+
+ALTER TABLE sites
+ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMPTZ DEFAULT NULL;
+
+-- Latest sync job per site (delta sync scheduling)
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_site_sync
+    ON ingestion_jobs(site_id, created_at DESC)
+    WHERE job_type = 'sync';
+
+COMMENT ON COLUMN sites.last_synced_at IS 'Product sync checkpoint: modification time of the last product synced (delta syncs fetch products changed after it)';
@@ -0,0 +1,270 @@
+-- Knowledge base browser
+-- Excluded entities stay indexed (and keep being updated by ingestion) but are never
+-- returned by retrieval, so an exclusion survives re-syncs and can be undone without
+-- re-embedding. Excluding a product also excludes its variations.
+-- list_knowledge_entities() aggregates the chunks of an index per entity for the
+-- dashboard browser.
+
+CREATE TABLE IF NOT EXISTS knowledge_exclusions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    entity_type TEXT NOT NULL
+        CHECK (entity_type IN ('product', 'variation', 'page', 'policy', 'faq', 'document')),
+    entity_id TEXT NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (site_id, entity_type, entity_id)
+);
+
+-- Whether a chunk belongs to an excluded entity (or to a variation of an excluded product)
+CREATE OR REPLACE FUNCTION embedding_is_excluded(
+  p_site_id UUID,
+  p_entity_type TEXT,
+  p_entity_id TEXT,
+  p_metadata JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM knowledge_exclusions x
+    WHERE x.site_id = p_site_id
+      AND (
+        (x.entity_type = p_entity_type AND x.entity_id = p_entity_id)
+        OR (p_entity_type = 'variation' AND x.entity_type = 'product' AND x.entity_id = p_metadata->>'product_id')
+      )
+  );
+$$;
+
+-- Recreate search functions to skip excluded entities (signature unchanged)
+
+CREATE OR REPLACE FUNCTION search_embeddings(
+  p_query_embedding vector(1536),
+  p_tenant_id UUID,
+  p_site_id UUID,
+  p_entity_types TEXT[] DEFAULT ARRAY['product', 'page', 'policy']::TEXT[],
+  p_limit INTEGER DEFAULT 10,
+  p_similarity_threshold FLOAT DEFAULT 0.7,
+  p_filters JSONB DEFAULT NULL,
+  p_index_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  site_id UUID,
+  tenant_id UUID,
+  entity_type TEXT,
+  entity_id TEXT,
+  content_text TEXT,
+  model TEXT,
+  version INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  distance FLOAT,
+  similarity FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER -- Bypasses RLS - runs with function owner's privileges
+SET search_path = public
+AS $$
+BEGIN
+  -- Tenant/site isolation is enforced by WHERE clause (see 20240120000004)
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.site_id,
+    e.tenant_id,
+    e.entity_type,
+    e.entity_id,
+    e.content_text,
+    e.model,
+    e.version,
+    e.metadata,
+    e.created_at,
+    e.updated_at,
+    (e.embedding <=> p_query_embedding)::FLOAT as distance,
+    (1 - (e.embedding <=> p_query_embedding)::FLOAT / 2)::FLOAT as similarity
+  FROM embeddings e
+  WHERE
+    e.embedding IS NOT NULL
+    AND e.tenant_id = p_tenant_id
+    AND e.site_id = p_site_id
+    AND e.entity_type = ANY(p_entity_types)
+    AND embedding_matches_filters(e.entity_type, e.metadata, p_filters)
+    AND (p_index_version IS NULL OR e.index_version = p_index_version)
+    AND NOT embedding_is_excluded(e.site_id, e.entity_type, e.entity_id, e.metadata)
+  ORDER BY e.embedding <=> p_query_embedding
+  LIMIT p_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_embeddings_keyword(
+  p_query_text TEXT,
+  p_tenant_id UUID,
+  p_site_id UUID,
+  p_entity_types TEXT[] DEFAULT ARRAY['product', 'page', 'policy']::TEXT[],
+  p_limit INTEGER DEFAULT 10,
+  p_filters JSONB DEFAULT NULL,
+  p_index_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  site_id UUID,
+  tenant_id UUID,
+  entity_type TEXT,
+  entity_id TEXT,
+  content_text TEXT,
+  model TEXT,
+  version INTEGER,
+  metadata JSONB,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  rank FLOAT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER -- Bypasses RLS - runs with function owner's privileges
+SET search_path = public
+AS $$
+DECLARE
+  v_query TEXT;
+  v_tsquery tsquery;
+BEGIN
+  -- Build "term1:* | term2:*" from the normalized query lexemes
+  SELECT string_agg(quote_literal(token) || ':*', ' | ')
+  INTO v_query
+  FROM unnest(tsvector_to_array(to_tsvector('simple', coalesce(p_query_text, '')))) AS token;
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_tsquery := to_tsquery('simple', v_query);
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.site_id,
+    e.tenant_id,
+    e.entity_type,
+    e.entity_id,
+    e.content_text,
+    e.model,
+    e.version,
+    e.metadata,
+    e.created_at,
+    e.updated_at,
+    ts_rank_cd(e.content_tsv, v_tsquery)::FLOAT as rank
+  FROM embeddings e
+  WHERE
+    e.tenant_id = p_tenant_id
+    AND e.site_id = p_site_id
+    AND e.entity_type = ANY(p_entity_types)
+    AND e.content_tsv @@ v_tsquery
+    AND embedding_matches_filters(e.entity_type, e.metadata, p_filters)
+    AND (p_index_version IS NULL OR e.index_version = p_index_version)
+    AND NOT embedding_is_excluded(e.site_id, e.entity_type, e.entity_id, e.metadata)
+  ORDER BY rank DESC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Entities of an index with their chunk statistics (newest first)
+-- p_search matches titles, entity IDs and chunk text (case-insensitive substring)
+-- estimated_tokens uses ~4 characters per token; total_count is the match count before paging
+CREATE OR REPLACE FUNCTION list_knowledge_entities(
+  p_site_id UUID,
+  p_index_version INTEGER,
+  p_entity_type TEXT DEFAULT NULL,
+  p_search TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  entity_type TEXT,
+  entity_id TEXT,
+  title TEXT,
+  chunk_count INTEGER,
+  last_indexed_at TIMESTAMPTZ,
+  content_hash TEXT,
+  model TEXT,
+  estimated_tokens INTEGER,
+  excluded BOOLEAN,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(p_search, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  ),
+  entities AS (
+    SELECT
+      e.entity_type,
+      e.entity_id,
+      max(coalesce(e.metadata->>'product_title', e.metadata->>'page_title', e.metadata->>'title')) AS title,
+      count(*)::INTEGER AS chunk_count,
+      max(e.updated_at) AS last_indexed_at,
+      max(e.metadata->>'full_content_hash') AS content_hash,
+      max(e.model) AS model,
+      sum(ceil(length(e.content_text) / 4.0))::INTEGER AS estimated_tokens,
+      bool_or(embedding_is_excluded(e.site_id, e.entity_type, e.entity_id, e.metadata)) AS excluded,
+      bool_or(p_search IS NULL OR e.content_text ILIKE (SELECT value FROM pattern)) AS content_match
+    FROM embeddings e
+    WHERE
+      e.site_id = p_site_id
+      AND e.index_version = p_index_version
+      AND (p_entity_type IS NULL OR e.entity_type = p_entity_type)
+    GROUP BY e.entity_type, e.entity_id
+  )
+  SELECT
+    en.entity_type,
+    en.entity_id,
+    en.title,
+    en.chunk_count,
+    en.last_indexed_at,
+    en.content_hash,
+    en.model,
+    en.estimated_tokens,
+    en.excluded,
+    count(*) OVER () AS total_count
+  FROM entities en
+  WHERE
+    p_search IS NULL
+    OR en.content_match
+    OR en.title ILIKE (SELECT value FROM pattern)
+    OR en.entity_id = p_search
+  ORDER BY en.last_indexed_at DESC, en.entity_type, en.entity_id
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+COMMENT ON TABLE knowledge_exclusions IS 'Entities hidden from retrieval (kept in the index); excluding a product also excludes its variations';
+COMMENT ON FUNCTION embedding_is_excluded IS 'Whether a chunk belongs to an excluded entity or to a variation of an excluded product';
+COMMENT ON FUNCTION list_knowledge_entities IS 'Knowledge base browser: indexed entities of one index with chunk count, last indexed time, content hash and token estimate';
+
+-- Enable RLS (dashboard API uses the service role)
+ALTER TABLE knowledge_exclusions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view knowledge exclusions for their sites"
+    ON knowledge_exclusions FOR SELECT
+    TO authenticated
+    USING (
+        site_id IN (
+            SELECT s.id FROM sites s
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+REVOKE ALL ON knowledge_exclusions FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON knowledge_exclusions FROM authenticated;
+
+-- list_knowledge_entities bypasses RLS and takes any site: server-side only
+REVOKE EXECUTE ON FUNCTION list_knowledge_entities FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION list_knowledge_entities TO postgres;
+GRANT EXECUTE ON FUNCTION list_knowledge_entities TO service_role;
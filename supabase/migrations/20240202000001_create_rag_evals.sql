@@ -0,0 +1,118 @@
+-- Golden-set RAG evaluation
+-- rag_eval_cases holds per-site test questions with the facts the answer must
+-- contain and the products/sources retrieval must return. Every run of the suite
+-- is stored (rag_eval_runs) with the settings it ran with and one result row per
+-- case (rag_eval_results), so scores can be compared before and after a change.
+
+CREATE TABLE IF NOT EXISTS rag_eval_cases (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    expected_facts TEXT[] NOT NULL DEFAULT '{}',
+    expected_products TEXT[] NOT NULL DEFAULT '{}', -- Product IDs
+    expected_sources TEXT[] NOT NULL DEFAULT '{}', -- "entity_type:entity_id"
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_eval_cases_site ON rag_eval_cases(site_id, created_at);
+
+CREATE TABLE IF NOT EXISTS rag_eval_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    site_id UUID NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    label TEXT,
+    status TEXT NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'completed', 'failed')),
+    trigger TEXT NOT NULL DEFAULT 'dashboard'
+        CHECK (trigger IN ('dashboard', 'ci')),
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    config JSONB NOT NULL DEFAULT '{}', -- Knowledge settings, variant and prompt fingerprint
+    case_count INTEGER NOT NULL DEFAULT 0,
+    passed_count INTEGER NOT NULL DEFAULT 0,
+    retrieval_recall NUMERIC(5, 4),
+    groundedness NUMERIC(5, 4),
+    answer_correctness NUMERIC(5, 4),
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_eval_runs_site ON rag_eval_runs(site_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS rag_eval_results (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    run_id UUID NOT NULL REFERENCES rag_eval_runs(id) ON DELETE CASCADE,
+    case_id UUID REFERENCES rag_eval_cases(id) ON DELETE SET NULL,
+    question TEXT NOT NULL, -- Copied so results survive case edits
+    answer TEXT NOT NULL DEFAULT '',
+    retrieved JSONB NOT NULL DEFAULT '[]', -- [{ entity_type, entity_id, similarity }]
+    missing_facts TEXT[] NOT NULL DEFAULT '{}',
+    missing_sources TEXT[] NOT NULL DEFAULT '{}',
+    retrieval_recall NUMERIC(5, 4),
+    groundedness NUMERIC(5, 4),
+    answer_correctness NUMERIC(5, 4),
+    passed BOOLEAN NOT NULL DEFAULT FALSE,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_eval_results_run ON rag_eval_results(run_id);
+
+COMMENT ON TABLE rag_eval_cases IS 'Golden-set questions with expected facts, products and sources per site';
+COMMENT ON TABLE rag_eval_runs IS 'Evaluation runs with the settings used and aggregate scores (0-1, NULL when not measurable)';
+COMMENT ON TABLE rag_eval_results IS 'Per-question answer, retrieved sources and scores of an evaluation run';
+
+-- Enable RLS (dashboard API uses the service role)
+ALTER TABLE rag_eval_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rag_eval_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rag_eval_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view eval cases for their sites"
+    ON rag_eval_cases FOR SELECT
+    TO authenticated
+    USING (
+        site_id IN (
+            SELECT s.id FROM sites s
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can view eval runs for their sites"
+    ON rag_eval_runs FOR SELECT
+    TO authenticated
+    USING (
+        site_id IN (
+            SELECT s.id FROM sites s
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can view eval results for their sites"
+    ON rag_eval_results FOR SELECT
+    TO authenticated
+    USING (
+        run_id IN (
+            SELECT r.id FROM rag_eval_runs r
+            JOIN sites s ON s.id = r.site_id
+            JOIN user_tenants ut ON ut.tenant_id = s.tenant_id
+            WHERE ut.user_id = auth.uid()
+        )
+    );
+
+REVOKE ALL ON rag_eval_cases FROM anon;
+REVOKE ALL ON rag_eval_runs FROM anon;
+REVOKE ALL ON rag_eval_results FROM anon;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON rag_eval_cases FROM authenticated;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON rag_eval_runs FROM authenticated;
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE, TRIGGER ON rag_eval_results FROM authenticated;
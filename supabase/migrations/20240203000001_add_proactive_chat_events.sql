@@ -0,0 +1,16 @@
+-- Proactive engagement analytics
+-- The widget records proactive_impression when a trigger opens the chat with its
+-- opener, and proactive_conversion when the shopper replies after it.
+-- Payload: { trigger_id, trigger_type, generated, url }
+
+ALTER TABLE chat_events DROP CONSTRAINT IF EXISTS chat_events_event_type_check;
+ALTER TABLE chat_events
+    ADD CONSTRAINT chat_events_event_type_check
+    CHECK (event_type IN ('view', 'click', 'add_to_cart', 'purchase', 'proactive_impression', 'proactive_conversion'));
+
+-- Per-trigger reporting
+CREATE INDEX IF NOT EXISTS idx_chat_events_trigger_id
+    ON chat_events ((payload->>'trigger_id'))
+    WHERE event_type IN ('proactive_impression', 'proactive_conversion');
+
+COMMENT ON TABLE chat_events IS 'User interaction events (view, click, add_to_cart, purchase, proactive_impression, proactive_conversion)';
@@ -0,0 +1,11 @@
+-- Suggested quick replies
+-- The widget records suggestion_click when the shopper taps a starter question
+-- or a follow-up suggestion after an answer.
+-- Payload: { text, source: 'starter' | 'follow_up' }
+
+ALTER TABLE chat_events DROP CONSTRAINT IF EXISTS chat_events_event_type_check;
+ALTER TABLE chat_events
+    ADD CONSTRAINT chat_events_event_type_check
+    CHECK (event_type IN ('view', 'click', 'add_to_cart', 'purchase', 'proactive_impression', 'proactive_conversion', 'suggestion_click'));
+
+COMMENT ON TABLE chat_events IS 'User interaction events (view, click, add_to_cart, purchase, proactive_impression, proactive_conversion, suggestion_click)';
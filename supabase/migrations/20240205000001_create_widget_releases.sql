@@ -0,0 +1,50 @@
+-- Widget releases
+-- scripts/release-widget.js uploads each release bundle to the private widget-releases
+-- bucket (widget.<version>.js) and records it here, so releases and site pins
+-- survive deploys and every app instance serves the same set. Exactly one release
+-- is current (served to sites without a pin).
+
+CREATE TABLE IF NOT EXISTS widget_releases (
+    version TEXT PRIMARY KEY CHECK (version ~ '^[a-f0-9]{8,64}$'),
+    file TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    integrity TEXT NOT NULL, -- Subresource integrity hash (sha384)
+    is_current BOOLEAN NOT NULL DEFAULT false,
+    built_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_widget_releases_current
+    ON widget_releases (is_current)
+    WHERE is_current;
+
+CREATE INDEX IF NOT EXISTS idx_widget_releases_built_at
+    ON widget_releases (built_at DESC);
+
+-- Switch the current release in one transaction (no moment without a current release)
+CREATE OR REPLACE FUNCTION promote_widget_release(p_version TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM widget_releases WHERE version = p_version) THEN
+    RETURN false;
+  END IF;
+
+  UPDATE widget_releases SET is_current = false WHERE is_current AND version <> p_version;
+  UPDATE widget_releases SET is_current = true WHERE version = p_version;
+  RETURN true;
+END;
+$$;
+
+-- Private bucket for the bundles (served by /api/widget/v/<version>.js with the service role)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('widget-releases', 'widget-releases', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable RLS (release script and widget API use the service role)
+ALTER TABLE widget_releases ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON widget_releases FROM anon, authenticated;
+REVOKE ALL ON FUNCTION promote_widget_release(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION promote_widget_release(TEXT) TO service_role;
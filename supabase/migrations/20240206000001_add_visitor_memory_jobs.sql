@@ -0,0 +1,15 @@
+-- Visitor memory extraction jobs
+-- When a returning visitor starts a new conversation, a visitor_memory job extracts
+-- their earlier conversations in the background (see src/lib/chat/visitor-memory.ts),
+-- so the chat request only reads the stored summary.
+-- Payload: { visitor_id (visitors.id), conversation_id (the conversation in progress, skipped) }
+
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_job_type_check;
+ALTER TABLE ingestion_jobs
+    ADD CONSTRAINT ingestion_jobs_job_type_check
+    CHECK (job_type IN ('webhook', 'sync', 'reindex', 'visitor_memory'));
+
+-- One pending refresh per visitor
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_visitor_memory
+    ON ingestion_jobs ((payload->>'visitor_id'))
+    WHERE job_type = 'visitor_memory' AND status IN ('queued', 'running');
@@ -0,0 +1,50 @@
+-- Unredacted message text for the conversation in progress
+-- messages.content_text is stored with emails, phone and card numbers redacted.
+-- The original text is kept in content_text_unredacted (only when redaction changed
+-- something) so later turns can use it - e.g. an order lookup with the email from
+-- an earlier message - and is cleared after 24 hours by clear_unredacted_message_text().
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS content_text_unredacted TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_messages_unredacted_created_at
+    ON messages (created_at)
+    WHERE content_text_unredacted IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION clear_unredacted_message_text()
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER -- Bypasses RLS - runs with function owner's privileges
+SET search_path = public
+AS $$
+DECLARE
+    v_cleared BIGINT := 0;
+BEGIN
+    UPDATE messages
+    SET content_text_unredacted = NULL
+    WHERE content_text_unredacted IS NOT NULL
+      AND created_at < NOW() - INTERVAL '24 hours';
+    GET DIAGNOSTICS v_cleared = ROW_COUNT;
+    RETURN v_cleared;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION clear_unredacted_message_text FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION clear_unredacted_message_text TO postgres;
+GRANT EXECUTE ON FUNCTION clear_unredacted_message_text TO service_role;
+
+-- Run hourly; without pg_cron schedule SELECT clear_unredacted_message_text() externally
+-- (the chat ignores unredacted text older than 24 hours either way)
+DO $$
+BEGIN
+    PERFORM cron.schedule(
+        'clear-unredacted-message-text-hourly',
+        '15 * * * *',
+        'SELECT clear_unredacted_message_text()'
+    );
+EXCEPTION
+    WHEN OTHERS THEN
+        RAISE NOTICE 'pg_cron not available. Schedule clear_unredacted_message_text() manually via external cron job.';
+END $$;
+
+COMMENT ON COLUMN messages.content_text_unredacted IS 'Original message text when content_text was redacted; replayed to the LLM within the conversation, cleared after 24 hours';
@@ -90,6 +90,7 @@ class AI_Woo_Chat {
 		require_once AI_WOO_CHAT_PLUGIN_DIR . 'includes/class-ai-woo-chat-admin.php';
 		require_once AI_WOO_CHAT_PLUGIN_DIR . 'includes/class-ai-woo-chat-frontend.php';
 		require_once AI_WOO_CHAT_PLUGIN_DIR . 'includes/class-ai-woo-chat-ingestion.php';
+		require_once AI_WOO_CHAT_PLUGIN_DIR . 'includes/class-ai-woo-chat-conversions.php';
 	}
 	
 	/**
@@ -202,6 +203,7 @@ class AI_Woo_Chat {
 	 */
 	public function init_ingestion() {
 		AI_Woo_Chat_Ingestion::get_instance();
+		AI_Woo_Chat_Conversions::get_instance();
 	}
 }
 
@@ -0,0 +1,214 @@
+<?php
+/**
+ * Conversions class
+ *
+ * Attributes WooCommerce orders to chat conversations and reports
+ * purchases to SaaS platform (chat_events 'purchase').
+ *
+ * Attribution is stored in the WooCommerce session when a product is
+ * added to the cart from the chat widget (POST /cart/add).
+ *
+ * @package AI_Woo_Chat
+ */
+
+// Exit if accessed directly
+if ( ! defined( 'ABSPATH' ) ) {
+	exit;
+}
+
+/**
+ * AI_Woo_Chat_Conversions class
+ */
+class AI_Woo_Chat_Conversions {
+
+	/**
+	 * Single instance
+	 *
+	 * @var AI_Woo_Chat_Conversions
+	 */
+	private static $instance = null;
+
+	/**
+	 * Order meta keys
+	 */
+	const META_VISITOR_ID      = '_ai_woo_chat_visitor_id';
+	const META_CONVERSATION_ID = '_ai_woo_chat_conversation_id';
+	const META_PURCHASE_SENT   = '_ai_woo_chat_purchase_sent';
+
+	/**
+	 * Get singleton instance
+	 *
+	 * @return AI_Woo_Chat_Conversions
+	 */
+	public static function get_instance() {
+		if ( null === self::$instance ) {
+			self::$instance = new self();
+		}
+		return self::$instance;
+	}
+
+	/**
+	 * Constructor
+	 */
+	private function __construct() {
+		$this->init();
+	}
+
+	/**
+	 * Initialize conversion hooks
+	 */
+	private function init() {
+		$options = AI_Woo_Chat_Options::get_instance();
+
+		// Only register hooks if plugin is activated
+		if ( ! $options->is_activated() ) {
+			return;
+		}
+
+		if ( ! class_exists( 'WooCommerce' ) ) {
+			return;
+		}
+
+		// Copy attribution from session to order (classic and block checkout)
+		add_action( 'woocommerce_checkout_create_order', array( $this, 'attach_attribution' ), 10, 1 );
+		add_action( 'woocommerce_store_api_checkout_update_order_from_request', array( $this, 'attach_attribution' ), 10, 1 );
+
+		// Report purchase once the order is paid
+		add_action( 'woocommerce_payment_complete', array( $this, 'handle_order_paid' ), 10, 1 );
+		add_action( 'woocommerce_order_status_processing', array( $this, 'handle_order_paid' ), 10, 1 );
+		add_action( 'woocommerce_order_status_completed', array( $this, 'handle_order_paid' ), 10, 1 );
+	}
+
+	/**
+	 * Store chat attribution on the order
+	 *
+	 * @param WC_Order $order Order object (saved by WooCommerce after this hook)
+	 */
+	public function attach_attribution( $order ) {
+		if ( ! WC()->session ) {
+			return;
+		}
+
+		$attribution = WC()->session->get( 'ai_woo_chat_attribution' );
+		if ( empty( $attribution['visitor_id'] ) ) {
+			return;
+		}
+
+		$order->update_meta_data( self::META_VISITOR_ID, $attribution['visitor_id'] );
+		if ( ! empty( $attribution['conversation_id'] ) ) {
+			$order->update_meta_data( self::META_CONVERSATION_ID, $attribution['conversation_id'] );
+		}
+
+		// One purchase per chat add-to-cart session
+		WC()->session->set( 'ai_woo_chat_attribution', null );
+	}
+
+	/**
+	 * Report paid order to SaaS platform (once per order)
+	 *
+	 * @param int $order_id Order ID
+	 */
+	public function handle_order_paid( $order_id ) {
+		$order = wc_get_order( $order_id );
+		if ( ! $order ) {
+			return;
+		}
+
+		$visitor_id = $order->get_meta( self::META_VISITOR_ID );
+		if ( empty( $visitor_id ) || $order->get_meta( self::META_PURCHASE_SENT ) ) {
+			return;
+		}
+
+		$result = $this->send_purchase( $order, $visitor_id );
+
+		if ( true === $result ) {
+			$order->update_meta_data( self::META_PURCHASE_SENT, gmdate( 'c' ) );
+			$order->save_meta_data();
+		}
+	}
+
+	/**
+	 * Send purchase event to SaaS platform
+	 *
+	 * @param WC_Order $order Order object
+	 * @param string   $visitor_id Chat visitor ID
+	 * @return bool|WP_Error True on success, WP_Error on failure
+	 */
+	private function send_purchase( $order, $visitor_id ) {
+		// Wrap in try-catch to prevent breaking checkout
+		try {
+			$options = AI_Woo_Chat_Options::get_instance();
+			$saas_url = $options->get_saas_url();
+
+			if ( ! $saas_url ) {
+				return new WP_Error(
+					'missing_credentials',
+					__( 'Missing SaaS URL. Purchase not reported.', 'ai-woo-chat' )
+				);
+			}
+
+			$items = array();
+			foreach ( $order->get_items() as $item ) {
+				$items[] = array(
+					'product_id'   => $item->get_product_id(),
+					'variation_id' => $item->get_variation_id() ? $item->get_variation_id() : null,
+					'name'         => $item->get_name(),
+					'quantity'     => $item->get_quantity(),
+					'total'        => (float) $item->get_total(),
+				);
+			}
+
+			$payload = array(
+				'order_id'        => (string) $order->get_id(),
+				'visitor_id'      => $visitor_id,
+				'conversation_id' => $order->get_meta( self::META_CONVERSATION_ID ) ? $order->get_meta( self::META_CONVERSATION_ID ) : null,
+				'total'           => (float) $order->get_total(),
+				'currency'        => $order->get_currency(),
+				'items'           => $items,
+				'occurred_at'     => gmdate( 'c' ),
+			);
+
+			$signer = AI_Woo_Chat_HMAC_Signer::get_instance();
+			$response = $signer->make_signed_request(
+				'POST',
+				rtrim( $saas_url, '/' ) . '/api/chat/purchase',
+				array(
+					'body'    => wp_json_encode( $payload ),
+					'timeout' => 10,
+				)
+			);
+
+			if ( is_wp_error( $response ) ) {
+				error_log( sprintf(
+					'AI Woo Chat: Purchase report failed for order %d - %s',
+					$order->get_id(),
+					$response->get_error_message()
+				) );
+				return $response;
+			}
+
+			$response_code = wp_remote_retrieve_response_code( $response );
+			if ( 200 !== $response_code ) {
+				error_log( sprintf(
+					'AI Woo Chat: Purchase report returned %d for order %d - %s',
+					$response_code,
+					$order->get_id(),
+					wp_remote_retrieve_body( $response )
+				) );
+				return new WP_Error(
+					'purchase_report_failed',
+					sprintf( __( 'Purchase report returned status %d', 'ai-woo-chat' ), $response_code )
+				);
+			}
+
+			return true;
+		} catch ( Exception $e ) {
+			error_log( sprintf(
+				'AI Woo Chat: Exception reporting purchase for order %d - %s',
+				$order->get_id(),
+				$e->getMessage()
+			) );
+			return new WP_Error( 'purchase_report_exception', $e->getMessage() );
+		}
+	}
+}
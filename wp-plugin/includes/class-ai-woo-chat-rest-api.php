@@ -66,6 +66,7 @@ class AI_Woo_Chat_REST_API {
 	 * - GET /products/changed
 	 * - POST /products/batch
 	 * - POST /order/status
+	 * - POST /cart/add
 	 */
 	public function register_routes() {
 		$rest_api = self::get_instance();
@@ -126,6 +127,51 @@ class AI_Woo_Chat_REST_API {
 				),
 			)
 		);
+		
+		// GET /product/{id}/live - Current price and stock, including every variation
+		register_rest_route(
+			self::NAMESPACE,
+			'/product/(?P<id>\d+)/live',
+			array(
+				'methods'             => 'GET',
+				'callback'            => array( $this, 'get_product_live' ),
+				'permission_callback' => array( $rest_api, 'hmac_auth_middleware' ),
+				'args'                => array(
+					'id' => array(
+						'required' => true,
+						'type'     => 'integer',
+						'validate_callback' => function( $param ) {
+							return is_numeric( $param ) && $param > 0;
+						},
+					),
+				),
+			)
+		);
+		
+		// POST /cart/add - Add product/variation to the visitor's cart
+		// Signed by SaaS but sent by the visitor's browser, so the item lands
+		// in the browser's WooCommerce session (see /api/chat/cart)
+		register_rest_route(
+			self::NAMESPACE,
+			'/cart/add',
+			array(
+				'methods'             => 'POST',
+				'callback'            => array( $this, 'add_to_cart' ),
+				'permission_callback' => array( $rest_api, 'hmac_auth_middleware' ),
+			)
+		);
+		
+		// POST /order/status - Order status for a verified customer
+		// Verified by billing email or a signed customer token (logged-in customers)
+		register_rest_route(
+			self::NAMESPACE,
+			'/order/status',
+			array(
+				'methods'             => 'POST',
+				'callback'            => array( $this, 'get_order_status' ),
+				'permission_callback' => array( $rest_api, 'hmac_auth_middleware' ),
+			)
+		);
 	}
 	
 	/**
@@ -173,8 +219,9 @@ class AI_Woo_Chat_REST_API {
 			'order'          => 'ASC',
 			'date_query'     => array(
 				array(
-					'column'    => 'post_modified',
-					'after'     => date( 'Y-m-d H:i:s', $updated_after_timestamp ),
+					// updated_after is UTC; compare with the GMT column, not site-local post_modified
+					'column'    => 'post_modified_gmt',
+					'after'     => gmdate( 'Y-m-d H:i:s', $updated_after_timestamp ),
 					'inclusive' => false,
 				),
 			),
@@ -255,6 +302,329 @@ class AI_Woo_Chat_REST_API {
 		return rest_ensure_response( $data );
 	}
 	
+	/**
+	 * Get live price and stock for a product and its variations
+	 *
+	 * Used by the chat to verify availability before answering, so it is never cached.
+	 *
+	 * @param WP_REST_Request $request Request object
+	 * @return WP_REST_Response|WP_Error
+	 */
+	public function get_product_live( $request ) {
+		$product_id = absint( $request->get_param( 'id' ) );
+		
+		if ( ! class_exists( 'WooCommerce' ) || ! function_exists( 'wc_get_product' ) ) {
+			return $this->create_error_response(
+				'woocommerce_not_active',
+				'WooCommerce is not active',
+				503
+			);
+		}
+		
+		$product = wc_get_product( $product_id );
+		
+		if ( ! $product || $product->get_status() !== 'publish' ) {
+			return $this->create_error_response(
+				'product_not_found',
+				'Product not found',
+				404
+			);
+		}
+		
+		$sale_price = $product->get_sale_price();
+		
+		$data = array(
+			'id'             => $product->get_id(),
+			'price'          => (float) $product->get_price(),
+			'sale_price'     => $sale_price !== '' ? (float) $sale_price : null,
+			'regular_price'  => (float) $product->get_regular_price(),
+			'stock_status'   => $product->get_stock_status(),
+			'stock_quantity' => $product->get_stock_quantity(),
+			'variations'     => $this->get_product_variations( $product ),
+			'purchasable'    => $product->is_purchasable(),
+			'updated_at'     => $product->get_date_modified() ? $product->get_date_modified()->date( 'c' ) : null,
+		);
+		
+		return rest_ensure_response( $data );
+	}
+	
+	/**
+	 * Add product or variation to the current visitor's cart
+	 *
+	 * Body: product_id, variation_id (optional), quantity (optional),
+	 * variation (optional attribute map), visitor_id, conversation_id.
+	 * Visitor/conversation are kept in the WooCommerce session so the
+	 * order can be attributed to the chat (see AI_Woo_Chat_Conversions).
+	 *
+	 * @param WP_REST_Request $request Request object
+	 * @return WP_REST_Response|WP_Error
+	 */
+	public function add_to_cart( $request ) {
+		// HMAC validation already passed (via permission_callback)
+		
+		// Check if WooCommerce is active
+		if ( ! class_exists( 'WooCommerce' ) || ! function_exists( 'wc_load_cart' ) ) {
+			return $this->create_error_response(
+				'woocommerce_not_active',
+				'WooCommerce is not active',
+				503
+			);
+		}
+		
+		$params = $request->get_json_params();
+		$product_id = isset( $params['product_id'] ) ? absint( $params['product_id'] ) : 0;
+		$variation_id = isset( $params['variation_id'] ) ? absint( $params['variation_id'] ) : 0;
+		$quantity = isset( $params['quantity'] ) ? max( 1, absint( $params['quantity'] ) ) : 1;
+		$variation = isset( $params['variation'] ) && is_array( $params['variation'] )
+			? array_map( 'sanitize_text_field', $params['variation'] )
+			: array();
+		
+		if ( ! $product_id ) {
+			return $this->create_error_response(
+				'missing_required_field',
+				'product_id is required',
+				400
+			);
+		}
+		
+		$product = wc_get_product( $product_id );
+		if ( ! $product || $product->get_status() !== 'publish' ) {
+			return $this->create_error_response(
+				'product_not_found',
+				'Product not found',
+				404
+			);
+		}
+		
+		// Variable products need a concrete variation
+		if ( $product->is_type( 'variable' ) && ! $variation_id ) {
+			return new WP_Error(
+				'variation_required',
+				'Choose options for this product before adding it to the cart',
+				array(
+					'status'      => 400,
+					'product_url' => $product->get_permalink(),
+				)
+			);
+		}
+		
+		if ( $variation_id ) {
+			$variation_product = wc_get_product( $variation_id );
+			if ( ! $variation_product || $variation_product->get_parent_id() !== $product_id ) {
+				return $this->create_error_response(
+					'variation_not_found',
+					'Variation not found for this product',
+					404
+				);
+			}
+			// Fill attributes from the variation when the caller did not send them
+			if ( empty( $variation ) ) {
+				$variation = $variation_product->get_variation_attributes();
+			}
+		}
+		
+		// REST requests don't load the cart/session by default
+		wc_load_cart();
+		
+		$cart_item_key = WC()->cart->add_to_cart( $product_id, $quantity, $variation_id, $variation );
+		
+		if ( ! $cart_item_key ) {
+			// WooCommerce reports the reason (out of stock, sold individually, ...) as a notice
+			$notices = wc_get_notices( 'error' );
+			wc_clear_notices();
+			$message = ! empty( $notices ) ? wp_strip_all_tags( $notices[0]['notice'] ) : 'Product could not be added to the cart';
+			
+			return $this->create_error_response(
+				'add_to_cart_failed',
+				$message,
+				409
+			);
+		}
+		
+		// Remember chat attribution for purchase tracking
+		if ( ! empty( $params['visitor_id'] ) ) {
+			WC()->session->set(
+				'ai_woo_chat_attribution',
+				array(
+					'visitor_id'      => sanitize_text_field( $params['visitor_id'] ),
+					'conversation_id' => isset( $params['conversation_id'] ) ? sanitize_text_field( $params['conversation_id'] ) : null,
+				)
+			);
+		}
+		
+		WC()->cart->calculate_totals();
+		
+		return rest_ensure_response( array(
+			'added'         => true,
+			'cart_item_key' => $cart_item_key,
+			'product_id'    => $product_id,
+			'variation_id'  => $variation_id ? $variation_id : null,
+			'quantity'      => $quantity,
+			'cart'          => array(
+				'item_count' => WC()->cart->get_cart_contents_count(),
+				'total'      => (float) WC()->cart->get_total( 'edit' ),
+				'currency'   => get_woocommerce_currency(),
+			),
+			'cart_url'      => wc_get_cart_url(),
+			'checkout_url'  => wc_get_checkout_url(),
+		) );
+	}
+	
+	/**
+	 * Get order status for a verified customer
+	 * 
+	 * Body: order_id, billing_email OR customer_token (see create_customer_token).
+	 * Returns status, tracking and items only - no addresses or payment data.
+	 *
+	 * @param WP_REST_Request $request Request object
+	 * @return WP_REST_Response|WP_Error
+	 */
+	public function get_order_status( $request ) {
+		// HMAC validation already passed (via permission_callback)
+		
+		// Check if WooCommerce is active
+		if ( ! class_exists( 'WooCommerce' ) || ! function_exists( 'wc_get_order' ) ) {
+			return $this->create_error_response(
+				'woocommerce_not_active',
+				'WooCommerce is not active',
+				503
+			);
+		}
+		
+		$params = $request->get_json_params();
+		$order_id = isset( $params['order_id'] ) ? absint( ltrim( (string) $params['order_id'], '#' ) ) : 0;
+		$billing_email = isset( $params['billing_email'] ) ? sanitize_email( $params['billing_email'] ) : '';
+		$customer_token = isset( $params['customer_token'] ) ? sanitize_text_field( $params['customer_token'] ) : '';
+		
+		if ( ! $order_id || ( empty( $billing_email ) && empty( $customer_token ) ) ) {
+			return $this->create_error_response(
+				'missing_required_field',
+				'order_id and billing_email or customer_token are required',
+				400
+			);
+		}
+		
+		$order = wc_get_order( $order_id );
+		if ( ! $order || 'shop_order_refund' === $order->get_type() ) {
+			return $this->create_error_response(
+				'order_not_found',
+				'Order not found',
+				404
+			);
+		}
+		
+		// Verify ownership
+		$verified = false;
+		if ( ! empty( $customer_token ) ) {
+			$customer_id = $this->verify_customer_token( $customer_token );
+			$verified = $customer_id && (int) $order->get_customer_id() === $customer_id;
+		}
+		if ( ! $verified && ! empty( $billing_email ) ) {
+			$verified = hash_equals( strtolower( $order->get_billing_email() ), strtolower( $billing_email ) );
+		}
+		
+		if ( ! $verified ) {
+			return $this->create_error_response(
+				'order_verification_failed',
+				'Order does not match the provided details',
+				403
+			);
+		}
+		
+		$items = array();
+		foreach ( $order->get_items() as $item ) {
+			$items[] = array(
+				'name'     => $item->get_name(),
+				'quantity' => $item->get_quantity(),
+			);
+		}
+		
+		$date_modified = $order->get_date_modified();
+		
+		return rest_ensure_response( array(
+			'order_id'     => (string) $order->get_order_number(),
+			'status'       => $order->get_status(),
+			'status_label' => wc_get_order_status_name( $order->get_status() ),
+			'tracking'     => $this->get_order_tracking( $order ),
+			'last_update'  => $date_modified ? $date_modified->date( 'c' ) : null,
+			'eta'          => apply_filters( 'ai_woo_chat_order_eta', null, $order ),
+			'items'        => $items,
+		) );
+	}
+	
+	/**
+	 * Get tracking information for order
+	 * 
+	 * Reads WooCommerce Shipment Tracking data; other tracking plugins can
+	 * provide it via the ai_woo_chat_order_tracking filter.
+	 * 
+	 * @param WC_Order $order Order object
+	 * @return array|null Tracking data (url, number, carrier)
+	 */
+	private function get_order_tracking( $order ) {
+		$tracking = null;
+		
+		$tracking_items = $order->get_meta( '_wc_shipment_tracking_items' );
+		if ( is_array( $tracking_items ) && ! empty( $tracking_items ) ) {
+			$item = end( $tracking_items );
+			$tracking = array(
+				'url'     => ! empty( $item['custom_tracking_link'] ) ? $item['custom_tracking_link'] : null,
+				'number'  => isset( $item['tracking_number'] ) ? $item['tracking_number'] : null,
+				'carrier' => ! empty( $item['custom_tracking_provider'] ) ? $item['custom_tracking_provider'] : ( isset( $item['tracking_provider'] ) ? $item['tracking_provider'] : null ),
+			);
+		}
+		
+		return apply_filters( 'ai_woo_chat_order_tracking', $tracking, $order );
+	}
+	
+	/**
+	 * Create signed customer token for the widget
+	 * 
+	 * Lets logged-in customers look up their own orders without typing the
+	 * billing email. Format: customer_id.expires.signature (site secret).
+	 * 
+	 * @param int $customer_id WordPress user ID
+	 * @return string Token, empty if plugin is not activated
+	 */
+	public function create_customer_token( $customer_id ) {
+		$secret = AI_Woo_Chat_Options::get_instance()->get_site_secret();
+		if ( ! $customer_id || empty( $secret ) ) {
+			return '';
+		}
+		
+		$expires = time() + DAY_IN_SECONDS;
+		$signature = hash_hmac( 'sha256', 'customer:' . $customer_id . ':' . $expires, $secret );
+		
+		return $customer_id . '.' . $expires . '.' . $signature;
+	}
+	
+	/**
+	 * Verify signed customer token
+	 * 
+	 * @param string $token Token from create_customer_token()
+	 * @return int|false Customer ID or false if invalid/expired
+	 */
+	private function verify_customer_token( $token ) {
+		$parts = explode( '.', $token );
+		if ( 3 !== count( $parts ) ) {
+			return false;
+		}
+		
+		list( $customer_id, $expires, $signature ) = $parts;
+		$secret = AI_Woo_Chat_Options::get_instance()->get_site_secret();
+		
+		if ( empty( $secret ) || (int) $expires < time() ) {
+			return false;
+		}
+		
+		$expected = hash_hmac( 'sha256', 'customer:' . $customer_id . ':' . $expires, $secret );
+		if ( ! hash_equals( $expected, $signature ) ) {
+			return false;
+		}
+		
+		return absint( $customer_id );
+	}
+	
 	/**
 	 * Format product data for ingestion
 	 * 
@@ -341,11 +711,80 @@ class AI_Woo_Chat_REST_API {
 				}
 				$data['variation_attributes'] = $formatted_variation_attrs;
 			}
+			
+			// Each variation is ingested as its own entity (SKU, price, stock, attribute combination)
+			$variations = $this->get_product_variations( $product );
+			if ( ! empty( $variations ) ) {
+				$data['variations'] = $variations;
+			}
 		}
 		
 		return $data;
 	}
 	
+	/**
+	 * Get published variations of a variable product
+	 *
+	 * Attributes are keyed by attribute label with the term name as value.
+	 * An empty value means the variation matches any value of that attribute.
+	 *
+	 * @param WC_Product $product Product object
+	 * @return array Variation data
+	 */
+	private function get_product_variations( $product ) {
+		if ( ! $product->is_type( 'variable' ) ) {
+			return array();
+		}
+		
+		$variations = array();
+		
+		foreach ( $product->get_children() as $variation_id ) {
+			$variation = wc_get_product( $variation_id );
+			if ( ! $variation || $variation->get_status() !== 'publish' ) {
+				continue;
+			}
+			
+			$attributes = array();
+			foreach ( $variation->get_attributes() as $attr_name => $value ) {
+				$label = wc_attribute_label( $attr_name, $product );
+				if ( $value !== '' && taxonomy_exists( $attr_name ) ) {
+					$term = get_term_by( 'slug', $value, $attr_name );
+					if ( $term && ! is_wp_error( $term ) ) {
+						$value = $term->name;
+					}
+				}
+				$attributes[ $label ] = (string) $value;
+			}
+			
+			$sale_price = $variation->get_sale_price();
+			$image_id   = $variation->get_image_id();
+			
+			$item = array(
+				'id'             => $variation->get_id(),
+				'sku'            => $variation->get_sku(),
+				'attributes'     => $attributes,
+				'price'          => (float) $variation->get_price(),
+				'regular_price'  => (float) $variation->get_regular_price(),
+				'sale_price'     => $sale_price !== '' ? (float) $sale_price : null,
+				'stock_status'   => $variation->get_stock_status(),
+				'stock_quantity' => $variation->get_stock_quantity(),
+				'purchasable'    => $variation->is_purchasable(),
+				'url'            => $variation->get_permalink(),
+			);
+			
+			if ( $image_id ) {
+				$image_url = wp_get_attachment_image_url( $image_id, 'large' );
+				if ( $image_url ) {
+					$item['image'] = $image_url;
+				}
+			}
+			
+			$variations[] = $item;
+		}
+		
+		return $variations;
+	}
+	
 	/**
 	 * Get product summary (description or short description)
 	 * 